@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useToast } from './contexts/ToastContext';
+import { useAuth } from './contexts/AuthContext';
+import styles from './anilist.module.css';
+
+/**
+ * Avatar + name of the active account, opening a dropdown to switch between
+ * the accounts logged in on this browser or add another one.
+ */
+export default function AccountSwitcher() {
+  const { showToast } = useToast();
+  const { authUser, accounts, login, switchAccount, refreshSession } = useAuth();
+  const switcherRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [switching, setSwitching] = useState<boolean>(false);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (switcherRef.current && !switcherRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  if (!authUser) return null;
+
+  const handleSwitch = async (userId: number, userName: string) => {
+    setSwitching(true);
+    try {
+      await switchAccount(userId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('UNAUTHORIZED')) {
+        showToast(`The session of ${userName} has expired. Please log in again with this account.`, 'error');
+        refreshSession();
+      } else if (error instanceof TypeError) {
+        showToast('Network error. Please check your connection.', 'error');
+      }
+      setSwitching(false);
+    }
+  };
+
+  const otherAccounts = accounts.filter((account) => account.id !== authUser.id);
+
+  return (
+    <div className={styles.accountSwitcher} ref={switcherRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={styles.accountSwitcherButton}
+        aria-label="Switch account"
+        title="Switch account"
+      >
+        {authUser.avatar?.medium && (
+          <img
+            src={authUser.avatar.medium}
+            alt={authUser.name}
+            className={styles.userAvatarSmall}
+            loading="lazy"
+          />
+        )}
+        <span className={styles.userNameSmall}>{authUser.name}</span>
+        <span className={styles.accountSwitcherCaret}>▾</span>
+      </button>
+
+      {isOpen && (
+        <div className={styles.accountSwitcherDropdown}>
+          <div className={styles.themeSelectorTitle}>Accounts</div>
+          <div className={`${styles.accountOption} ${styles.accountOptionActive}`}>
+            {authUser.avatar?.medium && <img src={authUser.avatar.medium} alt="" className={styles.accountOptionAvatar} />}
+            <span>{authUser.name}</span>
+            <span className={styles.accountOptionCheck}>✓</span>
+          </div>
+          {otherAccounts.map((account) => (
+            <button
+              key={account.id}
+              onClick={() => handleSwitch(account.id, account.name)}
+              disabled={switching}
+              className={styles.accountOption}
+            >
+              {account.avatar?.medium && <img src={account.avatar.medium} alt="" className={styles.accountOptionAvatar} />}
+              <span>{account.name}</span>
+            </button>
+          ))}
+
+          <div className={styles.themeSelectorDivider}></div>
+
+          <button onClick={login} className={styles.accountAddButton}>
+            + Add account
+          </button>
+          <p className={styles.accountSwitcherHint}>
+            AniList logs you in with the account open on anilist.co: switch account there first.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
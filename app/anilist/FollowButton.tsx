@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+import { toggleFollow } from '@/lib/anilist';
+import { useToast } from './contexts/ToastContext';
+import styles from './anilist.module.css';
+
+interface FollowButtonProps {
+  userId: number;
+  userName: string;
+  isFollowing: boolean;
+  /** Called with the new state, so the parent can update every place showing this user */
+  onChange: (userId: number, isFollowing: boolean) => void;
+}
+
+/**
+ * Follow / Following button for another user (requires login).
+ * Hovering "Following" shows "Unfollow", like on AniList.
+ */
+export default function FollowButton({ userId, userName, isFollowing, onChange }: FollowButtonProps) {
+  const { showToast } = useToast();
+  const [pending, setPending] = useState<boolean>(false);
+
+  const handleClick = async () => {
+    setPending(true);
+    try {
+      const nowFollowing = await toggleFollow(userId);
+      onChange(userId, nowFollowing);
+      showToast(nowFollowing ? `You now follow ${userName}` : `You unfollowed ${userName}`, 'success', 3000);
+    } catch (err) {
+      // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+      if (err instanceof TypeError) {
+        showToast('Network error. Please check your connection.', 'error');
+      }
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={pending}
+      className={`${styles.followButton} ${isFollowing ? styles.followButtonActive : ''}`}
+      title={isFollowing ? `Unfollow ${userName}` : `Follow ${userName}`}
+    >
+      {isFollowing ? (
+        <>
+          <span className={styles.followLabel}>Following</span>
+          <span className={styles.unfollowLabel}>Unfollow</span>
+        </>
+      ) : 'Follow'}
+    </button>
+  );
+}
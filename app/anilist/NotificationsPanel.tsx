@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markNotificationsRead,
+  AniListNotification,
+  NotificationType,
+} from '@/lib/anilist';
+import { useToast } from './contexts/ToastContext';
+import styles from './anilist.module.css';
+
+// The badge is refreshed in the background at this interval
+const UNREAD_POLL_INTERVAL = 5 * 60 * 1000;
+const PER_PAGE = 20;
+
+type NotificationFilter = 'all' | 'likes' | 'replies' | 'mentions' | 'airing' | 'follows' | 'media';
+
+const FILTERS: { key: NotificationFilter; label: string; types?: NotificationType[] }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'likes', label: 'Likes', types: ['ACTIVITY_LIKE', 'ACTIVITY_REPLY_LIKE'] },
+  { key: 'replies', label: 'Replies', types: ['ACTIVITY_REPLY', 'ACTIVITY_REPLY_SUBSCRIBED'] },
+  { key: 'mentions', label: 'Mentions', types: ['ACTIVITY_MENTION', 'ACTIVITY_MESSAGE'] },
+  { key: 'airing', label: 'Airing', types: ['AIRING'] },
+  { key: 'follows', label: 'Follows', types: ['FOLLOWING'] },
+  { key: 'media', label: 'Media', types: ['RELATED_MEDIA_ADDITION', 'MEDIA_DATA_CHANGE', 'MEDIA_MERGE', 'MEDIA_DELETION'] },
+];
+
+function formatNotificationDate(timestamp: number): string {
+  const seconds = Math.floor(Date.now() / 1000) - timestamp;
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 86400) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(timestamp * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Where a notification leads: media open in the search page, activities and
+ * users on AniList.
+ */
+function getNotificationHref(notification: AniListNotification): { href: string; external: boolean } | null {
+  if (notification.activityId) {
+    return { href: `https://anilist.co/activity/${notification.activityId}`, external: true };
+  }
+  if (notification.media) {
+    return { href: `/anilist/search?mediaId=${notification.media.id}`, external: false };
+  }
+  if (notification.user) {
+    return { href: `https://anilist.co/user/${notification.user.name}`, external: true };
+  }
+  return null;
+}
+
+/**
+ * Bell button with the unread notification count, opening a dropdown with
+ * the logged-in user's notifications (filters, pagination, mark as read).
+ */
+export default function NotificationsPanel() {
+  const { showToast } = useToast();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  // Unread count when the list was loaded: the newest N notifications are the unread ones
+  const [unreadInList, setUnreadInList] = useState<number>(0);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [notifications, setNotifications] = useState<AniListNotification[]>([]);
+  const [page, setPage] = useState<number>(1);
+  const [hasNextPage, setHasNextPage] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [markingRead, setMarkingRead] = useState<boolean>(false);
+
+  // Keep the badge up to date
+  useEffect(() => {
+    const refreshCount = async () => {
+      try {
+        setUnreadCount(await fetchUnreadNotificationCount());
+      } catch (error) {
+        console.warn('[NotificationsPanel] Could not refresh unread count:', error);
+      }
+    };
+
+    refreshCount();
+    const interval = setInterval(refreshCount, UNREAD_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleError = (error: unknown) => {
+    // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+    if (error instanceof TypeError) {
+      showToast('Network error while loading notifications.', 'error');
+    }
+  };
+
+  const loadNotifications = async (pageNum: number, notificationFilter: NotificationFilter) => {
+    setLoading(true);
+    try {
+      const types = FILTERS.find((item) => item.key === notificationFilter)?.types;
+      const result = await fetchNotifications(pageNum, PER_PAGE, types);
+      setNotifications((previous) => (pageNum === 1 ? result.notifications : [...previous, ...result.notifications]));
+      setPage(result.pageInfo.currentPage);
+      setHasNextPage(result.pageInfo.hasNextPage);
+      setUnreadCount(result.unreadCount);
+      if (pageNum === 1) {
+        setUnreadInList(result.unreadCount);
+      }
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const willOpen = !isOpen;
+    setIsOpen(willOpen);
+    if (willOpen) {
+      loadNotifications(1, filter);
+    }
+  };
+
+  const handleFilterChange = (newFilter: NotificationFilter) => {
+    if (newFilter === filter) return;
+    setFilter(newFilter);
+    setNotifications([]);
+    loadNotifications(1, newFilter);
+  };
+
+  const handleMarkRead = async () => {
+    setMarkingRead(true);
+    try {
+      await markNotificationsRead();
+      setUnreadCount(0);
+      setUnreadInList(0);
+      showToast('Notifications marked as read', 'success', 2000);
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setMarkingRead(false);
+    }
+  };
+
+  return (
+    <div className={styles.notificationsControl} ref={panelRef}>
+      <button
+        onClick={handleToggle}
+        className={styles.notificationsButton}
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+        title="Notifications"
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className={styles.notificationsBadge}>{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={styles.notificationsDropdown}>
+          <div className={styles.notificationsHeader}>
+            <span className={styles.notificationsTitle}>Notifications</span>
+            <button
+              onClick={handleMarkRead}
+              className={styles.notificationsMarkRead}
+              disabled={markingRead || unreadCount === 0}
+            >
+              {markingRead ? 'Marking...' : 'Mark all read'}
+            </button>
+          </div>
+
+          <div className={styles.notificationsFilters}>
+            {FILTERS.map((item) => (
+              <button
+                key={item.key}
+                onClick={() => handleFilterChange(item.key)}
+                className={`${styles.notificationsFilter} ${filter === item.key ? styles.notificationsFilterActive : ''}`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          <div className={styles.notificationsList}>
+            {notifications.map((notification, index) => {
+              const link = getNotificationHref(notification);
+              // Only the unfiltered list is in the same order as the unread count
+              const isUnread = filter === 'all' && index < unreadInList;
+              const image = notification.user?.avatar?.medium || notification.media?.coverImage?.medium;
+              const content = (
+                <>
+                  {image && (
+                    <img
+                      src={image}
+                      alt=""
+                      className={notification.user ? styles.notificationAvatar : styles.notificationCover}
+                      loading="lazy"
+                    />
+                  )}
+                  <div className={styles.notificationBody}>
+                    <span className={styles.notificationText}>{notification.text}</span>
+                    {notification.reason && (
+                      <span className={styles.notificationReason}>{notification.reason}</span>
+                    )}
+                    <span className={styles.notificationDate}>{formatNotificationDate(notification.createdAt)}</span>
+                  </div>
+                </>
+              );
+              const className = `${styles.notificationItem} ${isUnread ? styles.notificationUnread : ''}`;
+
+              if (!link) {
+                return <div key={notification.id} className={className}>{content}</div>;
+              }
+              return link.external ? (
+                <a key={notification.id} href={link.href} target="_blank" rel="noopener noreferrer" className={className}>
+                  {content}
+                </a>
+              ) : (
+                <Link key={notification.id} href={link.href} className={className} onClick={() => setIsOpen(false)}>
+                  {content}
+                </Link>
+              );
+            })}
+
+            {loading && <div className={styles.notificationsEmpty}>Loading...</div>}
+            {!loading && notifications.length === 0 && (
+              <div className={styles.notificationsEmpty}>No notifications</div>
+            )}
+          </div>
+
+          {hasNextPage && !loading && (
+            <button onClick={() => loadNotifications(page + 1, filter)} className={styles.notificationsMore}>
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { saveMediaListEntry, deleteMediaListEntry, MediaListEntry, MediaListEntryInput, MediaListStatus, Media } from '@/lib/anilist';
+import { STATUSES, getStatusOptionLabel } from './search/ListEntryEditor';
+import { useToast } from './contexts/ToastContext';
+import styles from './anilist.module.css';
+
+// Long enough to reach the Undo button
+const UNDO_TOAST_DURATION = 8000;
+
+interface QuickProgressProps {
+  media: {
+    id: number;
+    type?: string;
+    episodes?: number;
+    chapters?: number;
+  };
+  title: string;
+  /** The viewer's entry for this media (null when not on their list) */
+  entry: MediaListEntry | null;
+  /** Called with the optimistic, saved or restored entry, so the parent can update every place showing this media */
+  onChange: (mediaId: number, entry: MediaListEntry | null) => void;
+}
+
+/**
+ * Changes for one more episode/chapter, with the usual automatic status
+ * changes: Planning → Current, and Current/Rewatching → Completed on the last
+ * episode (a finished rewatch also counts as one more repeat).
+ */
+function getIncrementInput(entry: MediaListEntry | null, total?: number): MediaListEntryInput {
+  const progress = (entry?.progress ?? 0) + 1;
+  let status: MediaListStatus = !entry || entry.status === 'PLANNING' ? 'CURRENT' : entry.status || 'CURRENT';
+  let repeat = entry?.repeat;
+
+  if (total && progress >= total && (status === 'CURRENT' || status === 'REPEATING')) {
+    if (status === 'REPEATING') repeat = (repeat ?? 0) + 1;
+    status = 'COMPLETED';
+  }
+
+  return { status, progress, repeat };
+}
+
+/**
+ * "+1 episode/chapter" and status controls for the viewer's own list entry,
+ * shown on list activities and search results. Changes are applied
+ * optimistically and can be undone from the toast.
+ */
+export default function QuickProgress({ media, title, entry, onChange }: QuickProgressProps) {
+  const { showToast } = useToast();
+  const [pending, setPending] = useState<boolean>(false);
+
+  const type: Media['type'] = media.type === 'MANGA' ? 'MANGA' : 'ANIME';
+  const total = type === 'MANGA' ? media.chapters : media.episodes;
+  const unit = type === 'MANGA' ? 'chapter' : 'episode';
+  const progress = entry?.progress ?? 0;
+  const isFinished = !!total && progress >= total;
+
+  const handleError = (error: unknown) => {
+    // Expired sessions are handled by AuthContext, rate limits and other
+    // HTTP errors are already shown by handleHttpError in lib/anilist.ts
+    if (error instanceof TypeError) {
+      showToast('Network error. Your list was not updated.', 'error');
+    }
+  };
+
+  const undo = async (saved: MediaListEntry, previous: MediaListEntry | null) => {
+    onChange(media.id, previous);
+    try {
+      if (previous) {
+        const restored = await saveMediaListEntry({
+          id: saved.id,
+          status: previous.status,
+          progress: previous.progress ?? 0,
+          repeat: previous.repeat ?? 0,
+        });
+        onChange(media.id, restored);
+      } else {
+        await deleteMediaListEntry(saved.id);
+      }
+      showToast(`${title}: change undone`, 'info', 3000);
+    } catch (error) {
+      console.error('[QuickProgress] ❌ Failed to undo:', error);
+      onChange(media.id, saved);
+      handleError(error);
+    }
+  };
+
+  const apply = async (input: MediaListEntryInput, message: string) => {
+    const previous = entry;
+    onChange(media.id, { ...(previous || { id: 0 }), ...input, mediaId: media.id });
+    setPending(true);
+    try {
+      const saved = await saveMediaListEntry({ ...input, id: previous?.id, mediaId: media.id });
+      onChange(media.id, saved);
+      showToast(message, 'success', UNDO_TOAST_DURATION, { label: 'Undo', onClick: () => undo(saved, previous) });
+    } catch (error) {
+      console.error('[QuickProgress] ❌ Failed to save list entry:', error);
+      onChange(media.id, previous);
+      handleError(error);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleIncrement = () => {
+    const input = getIncrementInput(entry, total);
+    const statusChange = input.status !== entry?.status ? ` (${getStatusOptionLabel(input.status!, type)})` : '';
+    apply(input, `${title}: ${unit} ${input.progress}${total ? `/${total}` : ''}${statusChange}`);
+  };
+
+  const handleStatusChange = (status: MediaListStatus) => {
+    // Completing sets the progress to the last episode, like on AniList
+    const input: MediaListEntryInput = status === 'COMPLETED' && total ? { status, progress: total } : { status };
+    apply(input, `${title}: ${getStatusOptionLabel(status, type)}`);
+  };
+
+  return (
+    <div className={styles.quickProgress}>
+      <button
+        type="button"
+        onClick={handleIncrement}
+        disabled={pending || isFinished}
+        className={styles.quickProgressButton}
+        title={`+1 ${unit}`}
+      >
+        +1 {type === 'MANGA' ? 'ch' : 'ep'}
+      </button>
+      {entry && (
+        <span className={styles.quickProgressCount}>
+          {progress}/{total ?? '?'}
+        </span>
+      )}
+      <select
+        value={entry?.status ?? ''}
+        onChange={(e) => handleStatusChange(e.target.value as MediaListStatus)}
+        disabled={pending}
+        className={styles.quickProgressSelect}
+        aria-label="Set status"
+      >
+        {!entry && <option value="" disabled>Add to list…</option>}
+        {STATUSES.map((value) => (
+          <option key={value} value={value}>{getStatusOptionLabel(value, type)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from './contexts/AuthContext';
+import styles from './anilist.module.css';
+
+function formatExpiry(expiresAt: Date): string {
+  return expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Banner under the header when the AniList login needs attention: the token
+ * expires within a week, or the session expired / was revoked. "Log in again"
+ * comes back to the current page.
+ */
+export default function SessionBanner() {
+  const { authUser, expiresAt, expiresSoon, expiredUser, relogin, dismissExpired } = useAuth();
+  // Expiry date the warning was dismissed for
+  const [dismissedExpiry, setDismissedExpiry] = useState<number | null>(null);
+
+  if (expiredUser) {
+    return (
+      <div className={`${styles.sessionBanner} ${styles.sessionBannerError}`} role="alert">
+        <span>
+          Your AniList session for <strong>{expiredUser.name}</strong> has expired or was revoked.
+          {authUser && <> You are now using <strong>{authUser.name}</strong>.</>}
+        </span>
+        <div className={styles.sessionBannerActions}>
+          <button onClick={relogin} className={styles.sessionBannerButton}>
+            Log in again
+          </button>
+          <button onClick={dismissExpired} className={styles.sessionBannerDismiss} aria-label="Dismiss">
+            ×
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (authUser && expiresAt && expiresSoon && dismissedExpiry !== expiresAt.getTime()) {
+    return (
+      <div className={styles.sessionBanner} role="status">
+        <span>
+          Your AniList login expires on <strong>{formatExpiry(expiresAt)}</strong>. Log in again to keep using your account.
+        </span>
+        <div className={styles.sessionBannerActions}>
+          <button onClick={relogin} className={styles.sessionBannerButton}>
+            Log in again
+          </button>
+          <button
+            onClick={() => setDismissedExpiry(expiresAt.getTime())}
+            className={styles.sessionBannerDismiss}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { fetchAiringSchedule, AiringScheduleData, AiringListEntry, AiringEpisode, Media } from '@/lib/anilist';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import styles from '../anilist.module.css';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Monday 00:00 (local time) of the current week, shifted by `offset` weeks.
+ */
+function getWeekStart(offset: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday + offset * 7);
+  return date;
+}
+
+function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + index);
+    return day;
+  });
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * Episodes already aired: the one before the next airing episode, or all of
+ * them once the show is finished. null when unknown.
+ */
+function getAiredEpisodes(media: Media): number | null {
+  if (media.nextAiringEpisode) return media.nextAiringEpisode.episode - 1;
+  if (media.status === 'FINISHED') return media.episodes ?? null;
+  return null;
+}
+
+function getEpisodesBehind(entry: AiringListEntry): number {
+  const aired = getAiredEpisodes(entry.media);
+  if (aired === null) return 0;
+  return Math.max(aired - (entry.progress || 0), 0);
+}
+
+const getTitle = (media: Media) => media.title.userPreferred || media.title.romaji || media.title.english || 'Untitled';
+
+const formatTime = (airingAt: number) =>
+  new Date(airingAt * 1000).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+export default function AiringPage() {
+  const { showToast } = useToast();
+  const { isAuthenticated, isLoading: authLoading, login } = useAuth();
+  const [weekOffset, setWeekOffset] = useState<number>(0);
+  const [data, setData] = useState<AiringScheduleData | null>(null);
+  // Week of `data`; loading while it differs from the displayed week
+  const [loadedWeek, setLoadedWeek] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // When the schedule was loaded, to tell aired episodes from upcoming ones
+  const [now, setNow] = useState<number>(() => Date.now() / 1000);
+
+  const handleError = useCallback((err: unknown) => {
+    const message = err instanceof Error ? err.message : 'Failed to load the airing schedule';
+    // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    setError(message);
+  }, [showToast]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    const weekStart = getWeekStart(weekOffset);
+    const start = Math.floor(weekStart.getTime() / 1000);
+    const end = Math.floor((weekStart.getTime() + 7 * DAY_MS) / 1000);
+
+    fetchAiringSchedule(start, end)
+      .then((result) => {
+        if (cancelled) return;
+        setData(result);
+        setNow(Date.now() / 1000);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) handleError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedWeek(weekOffset);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, weekOffset, handleError]);
+
+  if (authLoading) {
+    return <div className={styles.loading}>Loading...</div>;
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className={styles.compareContainer}>
+        <div className={styles.compareHeader}>
+          <h2>Airing Schedule</h2>
+          <p>Log in to see when the next episodes of the anime you are watching air.</p>
+        </div>
+        <button onClick={login} className={styles.compareButton}>
+          Login with AniList
+        </button>
+      </div>
+    );
+  }
+
+  const loading = loadedWeek !== weekOffset;
+  const weekStart = getWeekStart(weekOffset);
+  const days = getWeekDays(weekStart);
+  const today = new Date();
+
+  const entriesByMedia = new Map((data?.entries || []).map((entry) => [entry.media.id, entry]));
+  const behind = (data?.entries || [])
+    .map((entry) => ({ entry, behind: getEpisodesBehind(entry) }))
+    .filter((item) => item.behind > 0)
+    .sort((a, b) => b.behind - a.behind);
+
+  const schedulesForDay = (day: Date): AiringEpisode[] =>
+    (data?.schedules || []).filter((schedule) => isSameDay(new Date(schedule.airingAt * 1000), day));
+
+  const weekLabel = `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className={styles.compareContainer}>
+      <div className={styles.compareHeader}>
+        <h2>Airing Schedule</h2>
+        <p>Upcoming episodes of the anime you are watching, in your local time</p>
+      </div>
+
+      <div className={styles.airingWeekNav}>
+        <button onClick={() => setWeekOffset(weekOffset - 1)} className={styles.timelineButton} disabled={loading}>
+          ← Previous week
+        </button>
+        <span className={styles.airingWeekLabel}>{weekLabel}</span>
+        {weekOffset !== 0 && (
+          <button onClick={() => setWeekOffset(0)} className={styles.timelineButton} disabled={loading}>
+            This week
+          </button>
+        )}
+        <button onClick={() => setWeekOffset(weekOffset + 1)} className={styles.timelineButton} disabled={loading}>
+          Next week →
+        </button>
+      </div>
+
+      {error && !loading && <div className={styles.error}>{error}</div>}
+
+      {loading && !data ? (
+        <div className={styles.loading}>Loading airing schedule...</div>
+      ) : data && (
+        <>
+          {behind.length > 0 && (
+            <div className={styles.airingBehindSection}>
+              <h4>Behind</h4>
+              <ul className={styles.airingBehindList}>
+                {behind.map(({ entry, behind: episodesBehind }) => (
+                  <li key={entry.id}>
+                    <Link href={`/anilist/search?mediaId=${entry.media.id}`} className={styles.airingTitleLink}>
+                      {getTitle(entry.media)}
+                    </Link>
+                    <span className={styles.airingBehindBadge}>
+                      behind by {episodesBehind} episode{episodesBehind > 1 ? 's' : ''}
+                    </span>
+                    <span className={styles.airingMuted}>
+                      ({entry.progress || 0}/{getAiredEpisodes(entry.media)} aired)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className={`${styles.airingCalendar} ${loading ? styles.airingCalendarLoading : ''}`}>
+            {days.map((day) => {
+              const daySchedules = schedulesForDay(day);
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`${styles.airingDay} ${isSameDay(day, today) ? styles.airingDayToday : ''}`}
+                >
+                  <div className={styles.airingDayHeader}>
+                    <span className={styles.airingDayName}>{day.toLocaleDateString(undefined, { weekday: 'short' })}</span>
+                    <span className={styles.airingMuted}>{day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                  </div>
+                  {daySchedules.length === 0 && <div className={styles.airingEmpty}>—</div>}
+                  {daySchedules.map((schedule) => {
+                    const entry = schedule.mediaId ? entriesByMedia.get(schedule.mediaId) : undefined;
+                    if (!entry) return null;
+                    const watched = (entry.progress || 0) >= schedule.episode;
+                    const aired = schedule.airingAt <= now;
+                    const episodesBehind = getEpisodesBehind(entry);
+
+                    return (
+                      <Link
+                        key={schedule.id}
+                        href={`/anilist/search?mediaId=${entry.media.id}`}
+                        className={`${styles.airingEpisode} ${watched ? styles.airingEpisodeWatched : ''}`}
+                      >
+                        {entry.media.coverImage?.medium && (
+                          <img src={entry.media.coverImage.medium} alt="" className={styles.airingCover} loading="lazy" />
+                        )}
+                        <div className={styles.airingEpisodeInfo}>
+                          <span className={styles.airingTime}>{formatTime(schedule.airingAt)}</span>
+                          <span className={styles.airingEpisodeTitle}>{getTitle(entry.media)}</span>
+                          <span className={styles.airingMuted}>
+                            Ep {schedule.episode}
+                            {entry.media.episodes ? `/${entry.media.episodes}` : ''}
+                            {watched ? ' · ✓ watched' : aired ? ' · aired' : ''}
+                          </span>
+                          {episodesBehind > 0 && (
+                            <span className={styles.airingBehindBadge}>behind by {episodesBehind}</span>
+                          )}
+                        </div>
+                      </Link>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+
+          {data.entries.length === 0 && (
+            <div className={styles.affinityEmpty}>Nothing in your Watching list.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AniListUser, UserListEntry } from '@/lib/anilist';
+import { computeAffinity, MIN_SHARED_FOR_AFFINITY, ScoredPair, StatusGap, GenreAffinity } from './affinity';
+import SortableTable, { SortableColumn } from './SortableTable';
+import styles from '../anilist.module.css';
+
+interface AffinityComparisonProps {
+  user1: AniListUser;
+  user2: AniListUser;
+  list1: UserListEntry[];
+  list2: UserListEntry[];
+}
+
+type MediaTypeFilter = 'ALL' | 'ANIME' | 'MANGA';
+
+// Scores are on 0-100, shown on 10 like the rest of the compare page
+const formatScore = (score: number | null) => (score === null || score === 0 ? '-' : (score / 10).toFixed(1));
+
+const formatAffinity = (affinity: number | null) => (affinity === null ? 'N/A' : `${affinity.toFixed(1)}%`);
+
+const getTitle = (media: UserListEntry['media']) => media.title.romaji || media.title.english || 'Untitled';
+
+function renderTitle(media: UserListEntry['media']) {
+  return (
+    <Link href={`/anilist/search?mediaId=${media.id}`} className={styles.affinityTitleLink}>
+      {media.coverImage?.medium && (
+        <img src={media.coverImage.medium} alt="" className={styles.affinityCover} loading="lazy" />
+      )}
+      <span>{getTitle(media)}</span>
+    </Link>
+  );
+}
+
+/**
+ * Whole-list comparison of two users: affinity, biggest disagreements,
+ * completed-vs-planning titles and a per-genre breakdown.
+ */
+export default function AffinityComparison({ user1, user2, list1, list2 }: AffinityComparisonProps) {
+  const [mediaTypeFilter, setMediaTypeFilter] = useState<MediaTypeFilter>('ALL');
+
+  const result = useMemo(() => {
+    const filterList = (list: UserListEntry[]) =>
+      mediaTypeFilter === 'ALL' ? list : list.filter((entry) => entry.media.type === mediaTypeFilter);
+    return computeAffinity(filterList(list1), filterList(list2));
+  }, [list1, list2, mediaTypeFilter]);
+
+  const typeColumn: SortableColumn<{ media: UserListEntry['media'] }> = {
+    key: 'type',
+    label: 'Type',
+    sortValue: (row) => row.media.format || row.media.type,
+  };
+
+  const disagreementColumns: SortableColumn<ScoredPair>[] = [
+    { key: 'title', label: 'Title', sortValue: (row) => getTitle(row.media), render: (row) => renderTitle(row.media) },
+    typeColumn,
+    { key: 'score1', label: user1.name, sortValue: (row) => row.score1, render: (row) => formatScore(row.score1) },
+    { key: 'score2', label: user2.name, sortValue: (row) => row.score2, render: (row) => formatScore(row.score2) },
+    {
+      key: 'difference',
+      label: 'Difference',
+      sortValue: (row) => Math.abs(row.adjustedDifference),
+      render: (row) => (
+        <span title="Difference after adjusting for each user's average score">
+          {row.adjustedDifference > 0 ? '+' : ''}{(row.adjustedDifference / 10).toFixed(1)}
+        </span>
+      ),
+    },
+  ];
+
+  const statusGapColumns: SortableColumn<StatusGap>[] = [
+    { key: 'title', label: 'Title', sortValue: (row) => getTitle(row.media), render: (row) => renderTitle(row.media) },
+    typeColumn,
+    {
+      key: 'completedBy',
+      label: 'Completed by',
+      sortValue: (row) => (row.completedBy === 1 ? user1.name : user2.name),
+    },
+    { key: 'score', label: 'Their score', sortValue: (row) => row.score, render: (row) => formatScore(row.score) },
+  ];
+
+  const genreColumns: SortableColumn<GenreAffinity>[] = [
+    { key: 'genre', label: 'Genre', sortValue: (row) => row.genre },
+    { key: 'count', label: 'Shared', sortValue: (row) => row.count },
+    { key: 'mean1', label: `${user1.name} avg`, sortValue: (row) => row.mean1, render: (row) => formatScore(row.mean1) },
+    { key: 'mean2', label: `${user2.name} avg`, sortValue: (row) => row.mean2, render: (row) => formatScore(row.mean2) },
+    {
+      key: 'affinity',
+      label: 'Affinity',
+      sortValue: (row) => row.affinity ?? -Infinity,
+      render: (row) => formatAffinity(row.affinity),
+    },
+  ];
+
+  return (
+    <div className={styles.compareResults}>
+      <div className={styles.affinityToolbar}>
+        <div className={styles.affinityUsers}>
+          {user1.avatar?.medium && <img src={user1.avatar.medium} alt={user1.name} className={styles.userAvatar} loading="lazy" />}
+          <h4>{user1.name}</h4>
+          <span>vs</span>
+          {user2.avatar?.medium && <img src={user2.avatar.medium} alt={user2.name} className={styles.userAvatar} loading="lazy" />}
+          <h4>{user2.name}</h4>
+        </div>
+        <select
+          value={mediaTypeFilter}
+          onChange={(e) => setMediaTypeFilter(e.target.value as MediaTypeFilter)}
+          className={styles.filterSelect}
+        >
+          <option value="ALL">Anime + Manga</option>
+          <option value="ANIME">Anime</option>
+          <option value="MANGA">Manga</option>
+        </select>
+      </div>
+
+      <div className={styles.comparisonSummary}>
+        <h4>Affinity</h4>
+        <div className={styles.summaryStats}>
+          <div className={styles.summaryStat}>
+            <span className={styles.summaryLabel}>Affinity:</span>
+            <span className={styles.summaryValue}>{formatAffinity(result.affinity)}</span>
+          </div>
+          <div className={styles.summaryStat}>
+            <span className={styles.summaryLabel}>Shared titles:</span>
+            <span className={styles.summaryValue}>{result.sharedCount}</span>
+          </div>
+          <div className={styles.summaryStat}>
+            <span className={styles.summaryLabel}>Scored by both:</span>
+            <span className={styles.summaryValue}>{result.scoredPairs.length}</span>
+          </div>
+          <div className={styles.summaryStat}>
+            <span className={styles.summaryLabel}>{user1.name} mean:</span>
+            <span className={styles.summaryValue}>{formatScore(result.mean1)}</span>
+          </div>
+          <div className={styles.summaryStat}>
+            <span className={styles.summaryLabel}>{user2.name} mean:</span>
+            <span className={styles.summaryValue}>{formatScore(result.mean2)}</span>
+          </div>
+        </div>
+        {result.affinity === null && (
+          <p className={styles.affinityNote}>
+            At least {MIN_SHARED_FOR_AFFINITY} titles scored by both users are needed to compute an affinity.
+          </p>
+        )}
+      </div>
+
+      <div className={styles.affinitySection}>
+        <h4>Biggest disagreements</h4>
+        <SortableTable
+          rows={result.scoredPairs}
+          columns={disagreementColumns}
+          rowKey={(row) => row.mediaId}
+          initialSortKey="difference"
+          emptyMessage="No titles scored by both users"
+        />
+      </div>
+
+      <div className={styles.affinitySection}>
+        <h4>Completed by one, planned by the other</h4>
+        <SortableTable
+          rows={result.statusGaps}
+          columns={statusGapColumns}
+          rowKey={(row) => row.mediaId}
+          initialSortKey="score"
+          emptyMessage="No completed titles sitting in the other user's Planning list"
+        />
+      </div>
+
+      <div className={styles.affinitySection}>
+        <h4>By genre</h4>
+        <SortableTable
+          rows={result.genres}
+          columns={genreColumns}
+          rowKey={(row) => row.genre}
+          initialSortKey="count"
+          emptyMessage="No titles scored by both users"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { fetchGroupScores, formatScoreForFormat, GroupScores, GroupScoreEntry } from '@/lib/anilist';
+import { readSavedUsers } from '@/lib/anilist-saved-users';
+import { useAuth } from '../contexts/AuthContext';
+import { buildGroupMatrix, GroupMediaRow } from './groupScores';
+import SortableTable, { SortableColumn } from './SortableTable';
+import styles from '../anilist.module.css';
+
+// Same limits as /api/anilist/group-scores
+const MAX_USERS = 50;
+const MAX_MEDIA = 50;
+
+interface GroupMember {
+  id: number;
+  name: string;
+  avatar?: string;
+}
+
+interface GroupComparisonProps {
+  initialUserIds: number[];
+  initialMediaIds: string;
+  // Called with the group about to be loaded, to keep it in the URL
+  onCompare: (userIds: number[], mediaIds: number[]) => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  CURRENT: 'Watching/Reading',
+  PLANNING: 'Planning',
+  COMPLETED: 'Completed',
+  DROPPED: 'Dropped',
+  PAUSED: 'Paused',
+  REPEATING: 'Repeating',
+};
+
+// Consensus and deviation are on 0-100, shown on 10 like the affinity tables
+const formatOutOfTen = (value: number | null) => (value === null ? '-' : (value / 10).toFixed(1));
+
+const getTitle = (media: GroupScores['media'][number]) => media.title.romaji || media.title.english || 'Untitled';
+
+/**
+ * Media IDs typed as "21, 1535" or pasted as AniList URLs (anilist.co/anime/21/...).
+ */
+function parseMediaIds(value: string): number[] {
+  const ids = value
+    .split(/[\s,]+/)
+    .map((token) => parseInt(token.match(/(?:anime|manga)\/(\d+)/)?.[1] ?? token, 10))
+    .filter((id) => !isNaN(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+function renderCell(entry: GroupScoreEntry | undefined, media: GroupScores['media'][number]) {
+  if (!entry || entry.status === 'PLANNING') {
+    return (
+      <span className={`${styles.groupCell} ${styles.groupCellNotWatched}`}>
+        {entry ? 'Planning' : 'Not on list'}
+      </span>
+    );
+  }
+  const total = media.episodes || media.chapters;
+  return (
+    <span className={styles.groupCell}>
+      <strong>{entry.rawScore ? formatScoreForFormat(entry.rawScore, entry.scoreFormat) : '-'}</strong>
+      <span className={styles.groupCellDetail}>
+        {STATUS_LABELS[entry.status] || entry.status}
+        {entry.progress ? ` · ${entry.progress}/${total || '?'}` : ''}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Group mode of the compare page: status, score and progress of several
+ * saved users for several titles, with each title's consensus score,
+ * standard deviation and who has not watched it yet.
+ */
+export default function GroupComparison({ initialUserIds, initialMediaIds, onCompare }: GroupComparisonProps) {
+  const { authUser, isLoading: authLoading } = useAuth();
+  const accountId = authUser?.id ?? null;
+  const [candidates, setCandidates] = useState<GroupMember[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>(initialUserIds);
+  const [mediaInput, setMediaInput] = useState<string>(initialMediaIds);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ data: GroupScores; userIds: number[]; mediaIds: number[] } | null>(null);
+
+  // The logged-in user and the "Recent Users" of the home page
+  useEffect(() => {
+    if (authLoading) return;
+    const members: GroupMember[] = authUser
+      ? [{ id: authUser.id, name: authUser.name, avatar: authUser.avatar?.medium }]
+      : [];
+    for (const savedUser of readSavedUsers(accountId)) {
+      if (!members.some((member) => member.id === savedUser.id)) {
+        members.push({ id: savedUser.id, name: savedUser.name, avatar: savedUser.avatar });
+      }
+    }
+    setCandidates(members);
+  }, [authLoading, authUser, accountId]);
+
+  const toggleUser = (userId: number) => {
+    setSelectedIds((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+  };
+
+  const mediaIds = useMemo(() => parseMediaIds(mediaInput), [mediaInput]);
+
+  const loadGroup = useCallback(async (userIds: number[], ids: number[]) => {
+    if (userIds.length < 2 || ids.length === 0) {
+      setError('Pick at least two users and one media ID');
+      return;
+    }
+    if (userIds.length > MAX_USERS || ids.length > MAX_MEDIA) {
+      setError(`At most ${MAX_USERS} users and ${MAX_MEDIA} titles at once`);
+      return;
+    }
+
+    onCompare(userIds, ids);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await fetchGroupScores(userIds, ids);
+      setResult({ data, userIds, mediaIds: ids });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load group scores');
+    } finally {
+      setLoading(false);
+    }
+  }, [onCompare]);
+
+  // Run the group from the URL once on arrival
+  const autoLoadedRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (autoLoadedRef.current) return;
+    autoLoadedRef.current = true;
+    const ids = parseMediaIds(initialMediaIds);
+    if (initialUserIds.length >= 2 && ids.length > 0) {
+      loadGroup(initialUserIds, ids);
+    }
+  }, [initialUserIds, initialMediaIds, loadGroup]);
+
+  const rows = useMemo(
+    () => (result ? buildGroupMatrix(result.data, result.userIds, result.mediaIds) : []),
+    [result]
+  );
+
+  // Names of the loaded users: saved users first, then whatever AniList returned
+  const members = useMemo(() => (result?.userIds || []).map((userId): GroupMember => {
+    const candidate = candidates.find((member) => member.id === userId);
+    if (candidate) return candidate;
+    const user = result?.data.users.find((item) => item.id === userId);
+    return user ? { id: user.id, name: user.name, avatar: user.avatar?.medium } : { id: userId, name: `User ${userId}` };
+  }), [result, candidates]);
+
+  const columns: SortableColumn<GroupMediaRow>[] = [
+    {
+      key: 'title',
+      label: 'Title',
+      sortValue: (row) => getTitle(row.media),
+      render: (row) => (
+        <Link href={`/anilist/search?mediaId=${row.mediaId}`} className={styles.affinityTitleLink}>
+          {row.media.coverImage?.medium && (
+            <img src={row.media.coverImage.medium} alt="" className={styles.affinityCover} loading="lazy" />
+          )}
+          <span>{getTitle(row.media)}</span>
+        </Link>
+      ),
+    },
+    ...members.map((member): SortableColumn<GroupMediaRow> => ({
+      key: `user-${member.id}`,
+      label: member.name,
+      sortValue: (row) => row.entries[member.id]?.score || 0,
+      render: (row) => renderCell(row.entries[member.id], row.media),
+    })),
+    {
+      key: 'consensus',
+      label: 'Consensus',
+      sortValue: (row) => row.consensus ?? -1,
+      render: (row) => (
+        <span title={`Mean of ${row.scoredCount} score${row.scoredCount === 1 ? '' : 's'}`}>
+          {formatOutOfTen(row.consensus)}
+        </span>
+      ),
+    },
+    {
+      key: 'deviation',
+      label: 'Std. dev.',
+      sortValue: (row) => row.deviation ?? -1,
+      render: (row) => (
+        <span title="How much the group disagrees (standard deviation of the scores)">
+          {formatOutOfTen(row.deviation)}
+        </span>
+      ),
+    },
+    {
+      key: 'notWatched',
+      label: "Hasn't watched",
+      sortValue: (row) => row.notWatched.length,
+      render: (row) => (row.notWatched.length === 0
+        ? <span className={styles.groupAllWatched}>Everyone</span>
+        : members.filter((member) => row.notWatched.includes(member.id)).map((member) => member.name).join(', ')),
+    },
+  ];
+
+  return (
+    <>
+      <div className={styles.compareForm}>
+        <div className={styles.compareFormGroup}>
+          <label>Users ({selectedIds.length} selected):</label>
+          {candidates.length === 0 ? (
+            <p className={styles.affinityNote}>
+              No saved users yet. Users looked up on the home page or opened on a profile show up here.
+            </p>
+          ) : (
+            <div className={styles.groupUserPicker}>
+              {candidates.map((member) => (
+                <button
+                  key={member.id}
+                  onClick={() => toggleUser(member.id)}
+                  className={`${styles.groupUserChip} ${selectedIds.includes(member.id) ? styles.groupUserChipActive : ''}`}
+                >
+                  {member.avatar && <img src={member.avatar} alt="" className={styles.groupUserAvatar} loading="lazy" />}
+                  {member.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={styles.compareFormGroup}>
+          <label>Media IDs ({mediaIds.length}):</label>
+          <input
+            type="text"
+            value={mediaInput}
+            onChange={(e) => setMediaInput(e.target.value)}
+            placeholder="21, 1535 or AniList URLs"
+            className={styles.compareInput}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                loadGroup(selectedIds, mediaIds);
+              }
+            }}
+          />
+        </div>
+
+        <button
+          onClick={() => loadGroup(selectedIds, mediaIds)}
+          disabled={loading || selectedIds.length < 2 || mediaIds.length === 0}
+          className={styles.compareButton}
+        >
+          {loading ? 'Loading...' : 'Compare'}
+        </button>
+      </div>
+
+      {error && (
+        <div className={styles.error}>
+          {error}
+        </div>
+      )}
+
+      {result && !loading && (
+        <div className={styles.compareResults}>
+          <SortableTable
+            rows={rows}
+            columns={columns}
+            rowKey={(row) => row.mediaId}
+            initialSortKey="consensus"
+            emptyMessage="None of these media IDs were found"
+          />
+          <p className={styles.affinityNote}>
+            Scores are shown in each user&apos;s own format; the consensus and standard deviation are on 10.
+            &quot;Hasn&apos;t watched&quot; counts titles missing from a list or still in Planning.
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
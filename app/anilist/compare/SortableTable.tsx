@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, ReactNode } from 'react';
+import styles from '../anilist.module.css';
+
+export interface SortableColumn<T> {
+  key: string;
+  label: string;
+  sortValue: (row: T) => string | number;
+  render?: (row: T) => ReactNode;
+}
+
+interface SortableTableProps<T> {
+  rows: T[];
+  columns: SortableColumn<T>[];
+  rowKey: (row: T) => string | number;
+  initialSortKey: string;
+  initialDirection?: 'asc' | 'desc';
+  pageSize?: number;
+  emptyMessage?: string;
+}
+
+/**
+ * Table whose columns can be sorted by clicking their header (click again to
+ * reverse). Long tables show the first `pageSize` rows with a "Show all" button.
+ */
+export default function SortableTable<T>({
+  rows,
+  columns,
+  rowKey,
+  initialSortKey,
+  initialDirection = 'desc',
+  pageSize = 25,
+  emptyMessage = 'Nothing to show',
+}: SortableTableProps<T>) {
+  const [sortKey, setSortKey] = useState<string>(initialSortKey);
+  const [direction, setDirection] = useState<'asc' | 'desc'>(initialDirection);
+  const [showAll, setShowAll] = useState<boolean>(false);
+
+  const sortColumn = columns.find((column) => column.key === sortKey) || columns[0];
+  const sortedRows = [...rows].sort((a, b) => {
+    const valueA = sortColumn.sortValue(a);
+    const valueB = sortColumn.sortValue(b);
+    const comparison = typeof valueA === 'number' && typeof valueB === 'number'
+      ? valueA - valueB
+      : String(valueA).localeCompare(String(valueB));
+    return direction === 'asc' ? comparison : -comparison;
+  });
+  const visibleRows = showAll ? sortedRows : sortedRows.slice(0, pageSize);
+
+  const handleSort = (key: string) => {
+    if (key === sortKey) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setDirection('desc');
+    }
+  };
+
+  if (rows.length === 0) {
+    return <div className={styles.affinityEmpty}>{emptyMessage}</div>;
+  }
+
+  return (
+    <div className={styles.sortableTableWrapper}>
+      <table className={styles.sortableTable}>
+        <thead>
+          <tr>
+            {columns.map((column) => (
+              <th key={column.key} onClick={() => handleSort(column.key)} title={`Sort by ${column.label}`}>
+                {column.label}
+                {column.key === sortColumn.key && (direction === 'asc' ? ' ▲' : ' ▼')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map((row) => (
+            <tr key={rowKey(row)}>
+              {columns.map((column) => (
+                <td key={column.key}>{column.render ? column.render(row) : column.sortValue(row)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > pageSize && (
+        <button onClick={() => setShowAll(!showAll)} className={styles.loadMoreButton}>
+          {showAll ? 'Show less' : `Show all (${rows.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { UserListEntry } from '@/lib/anilist';
+
+// Below this many shared scored titles the affinity is too noisy to show
+export const MIN_SHARED_FOR_AFFINITY = 5;
+// Per-genre affinity needs a few titles of that genre
+const MIN_SHARED_FOR_GENRE_AFFINITY = 3;
+
+export interface ScoredPair {
+  mediaId: number;
+  media: UserListEntry['media'];
+  score1: number;
+  score2: number;
+  // Difference after removing each user's own mean (positive = user 1 liked it more)
+  adjustedDifference: number;
+}
+
+export interface StatusGap {
+  mediaId: number;
+  media: UserListEntry['media'];
+  completedBy: 1 | 2;
+  score: number; // Score of the user who completed it (0 = not scored)
+}
+
+export interface GenreAffinity {
+  genre: string;
+  count: number;
+  mean1: number;
+  mean2: number;
+  affinity: number | null;
+}
+
+export interface AffinityResult {
+  sharedCount: number;
+  mean1: number | null;
+  mean2: number | null;
+  affinity: number | null;
+  scoredPairs: ScoredPair[];
+  statusGaps: StatusGap[];
+  genres: GenreAffinity[];
+}
+
+function isCompleted(entry: UserListEntry): boolean {
+  return entry.status === 'COMPLETED' || entry.status === 'REPEATING';
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Mean-adjusted correlation: each score is centered on its user's own list
+ * mean, so a harsh and a generous scorer who rank titles the same way still
+ * get a high affinity. Returns a percentage between -100 and 100.
+ */
+function meanAdjustedCorrelation(pairs: ScoredPair[], mean1: number, mean2: number): number | null {
+  let numerator = 0;
+  let squares1 = 0;
+  let squares2 = 0;
+
+  for (const pair of pairs) {
+    const deviation1 = pair.score1 - mean1;
+    const deviation2 = pair.score2 - mean2;
+    numerator += deviation1 * deviation2;
+    squares1 += deviation1 * deviation1;
+    squares2 += deviation2 * deviation2;
+  }
+
+  const denominator = Math.sqrt(squares1 * squares2);
+  if (denominator === 0) return null;
+  return (numerator / denominator) * 100;
+}
+
+/**
+ * Compare two complete lists (same media type or mixed).
+ * Scores are expected on a 0-100 scale, with 0 meaning "not scored".
+ */
+export function computeAffinity(list1: UserListEntry[], list2: UserListEntry[]): AffinityResult {
+  const entries2 = new Map(list2.map((entry) => [entry.mediaId, entry]));
+
+  const mean1 = mean(list1.filter((entry) => entry.score > 0).map((entry) => entry.score));
+  const mean2 = mean(list2.filter((entry) => entry.score > 0).map((entry) => entry.score));
+
+  let sharedCount = 0;
+  const scoredPairs: ScoredPair[] = [];
+  const statusGaps: StatusGap[] = [];
+
+  for (const entry1 of list1) {
+    const entry2 = entries2.get(entry1.mediaId);
+    if (!entry2) continue;
+    sharedCount++;
+
+    if (entry1.score > 0 && entry2.score > 0 && mean1 !== null && mean2 !== null) {
+      scoredPairs.push({
+        mediaId: entry1.mediaId,
+        media: entry1.media,
+        score1: entry1.score,
+        score2: entry2.score,
+        adjustedDifference: (entry1.score - mean1) - (entry2.score - mean2),
+      });
+    }
+
+    if (isCompleted(entry1) && entry2.status === 'PLANNING') {
+      statusGaps.push({ mediaId: entry1.mediaId, media: entry1.media, completedBy: 1, score: entry1.score });
+    } else if (isCompleted(entry2) && entry1.status === 'PLANNING') {
+      statusGaps.push({ mediaId: entry2.mediaId, media: entry2.media, completedBy: 2, score: entry2.score });
+    }
+  }
+
+  const affinity = mean1 !== null && mean2 !== null && scoredPairs.length >= MIN_SHARED_FOR_AFFINITY
+    ? meanAdjustedCorrelation(scoredPairs, mean1, mean2)
+    : null;
+
+  // Per-genre breakdown of the shared scored titles
+  const pairsByGenre = new Map<string, ScoredPair[]>();
+  for (const pair of scoredPairs) {
+    for (const genre of pair.media.genres || []) {
+      const pairs = pairsByGenre.get(genre) || [];
+      pairs.push(pair);
+      pairsByGenre.set(genre, pairs);
+    }
+  }
+
+  const genres: GenreAffinity[] = Array.from(pairsByGenre.entries()).map(([genre, pairs]) => ({
+    genre,
+    count: pairs.length,
+    mean1: mean(pairs.map((pair) => pair.score1)) ?? 0,
+    mean2: mean(pairs.map((pair) => pair.score2)) ?? 0,
+    affinity: pairs.length >= MIN_SHARED_FOR_GENRE_AFFINITY && mean1 !== null && mean2 !== null
+      ? meanAdjustedCorrelation(pairs, mean1, mean2)
+      : null,
+  }));
+
+  return { sharedCount, mean1, mean2, affinity, scoredPairs, statusGaps, genres };
+}
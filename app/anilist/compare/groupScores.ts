@@ -0,0 +1,55 @@
+import { GroupScores, GroupScoreEntry } from '@/lib/anilist';
+
+// Below this many scores a standard deviation says nothing
+export const MIN_SCORES_FOR_DEVIATION = 2;
+
+export interface GroupMediaRow {
+  mediaId: number;
+  media: GroupScores['media'][number];
+  entries: Record<number, GroupScoreEntry | undefined>; // By user ID
+  scoredCount: number;
+  consensus: number | null; // Mean of the scores given (0-100)
+  deviation: number | null; // Population standard deviation of those scores
+  notWatched: number[]; // Users who have not started it: not on their list, or Planning
+}
+
+function isNotWatched(entry: GroupScoreEntry | undefined): boolean {
+  return !entry || entry.status === 'PLANNING';
+}
+
+/**
+ * One row per title (in the order of `mediaIds`), one cell per user.
+ * Titles that AniList did not return are left out.
+ */
+export function buildGroupMatrix(data: GroupScores, userIds: number[], mediaIds: number[]): GroupMediaRow[] {
+  const media = new Map(data.media.map((item) => [item.id, item]));
+  const rows: GroupMediaRow[] = [];
+
+  for (const mediaId of mediaIds) {
+    const item = media.get(mediaId);
+    if (!item) continue;
+
+    const entries: GroupMediaRow['entries'] = {};
+    for (const entry of data.entries) {
+      if (entry.mediaId === mediaId) entries[entry.userId] = entry;
+    }
+
+    const scores = userIds.map((userId) => entries[userId]?.score || 0).filter((score) => score > 0);
+    const consensus = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+    const deviation = consensus !== null && scores.length >= MIN_SCORES_FOR_DEVIATION
+      ? Math.sqrt(scores.reduce((sum, score) => sum + (score - consensus) ** 2, 0) / scores.length)
+      : null;
+
+    rows.push({
+      mediaId,
+      media: item,
+      entries,
+      scoredCount: scores.length,
+      consensus,
+      deviation,
+      notWatched: userIds.filter((userId) => isNotWatched(entries[userId])),
+    });
+  }
+
+  return rows;
+}
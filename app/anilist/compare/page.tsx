@@ -1,13 +1,26 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { fetchUserId, fetchMediaById, getFollowedUsersScores, UserMediaScore, AniListUser, Media } from '@/lib/anilist';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { fetchUserId, fetchMediaById, getFollowedUsersScores, formatScoreForFormat, fetchMediaListCollection, UserMediaScore, UserListEntry, AniListUser, Media } from '@/lib/anilist';
+import AffinityComparison from './AffinityComparison';
+import GroupComparison from './GroupComparison';
 import styles from '../anilist.module.css';
 
-export default function ComparePage() {
-  const [user1Username, setUser1Username] = useState<string>('');
-  const [user2Username, setUser2Username] = useState<string>('');
-  const [mediaId, setMediaId] = useState<string>('');
+function CompareContent() {
+  // The last comparison is kept in the URL (?mode=&user1=&user2=&mediaId=,
+  // or ?mode=group&users=&mediaIds=), so reloading or logging in again comes back to it
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  // 'media' compares a single title, 'lists' compares both complete lists,
+  // 'group' compares several users on several titles
+  const [mode, setMode] = useState<'media' | 'lists' | 'group'>(() => {
+    const initialMode = searchParams.get('mode');
+    return initialMode === 'lists' || initialMode === 'group' ? initialMode : 'media';
+  });
+  const [user1Username, setUser1Username] = useState<string>(() => searchParams.get('user1') || '');
+  const [user2Username, setUser2Username] = useState<string>(() => searchParams.get('user2') || '');
+  const [mediaId, setMediaId] = useState<string>(() => searchParams.get('mediaId') || '');
   const [user1, setUser1] = useState<AniListUser | null>(null);
   const [user2, setUser2] = useState<AniListUser | null>(null);
   const [media, setMedia] = useState<Media | null>(null);
@@ -15,8 +28,65 @@ export default function ComparePage() {
   const [user2Score, setUser2Score] = useState<UserMediaScore | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [lists, setLists] = useState<{ list1: UserListEntry[]; list2: UserListEntry[] } | null>(null);
+
+  const loadListComparison = useCallback(async () => {
+    if (!user1Username.trim() || !user2Username.trim()) {
+      setError('Please fill in both usernames');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setUser1(null);
+    setUser2(null);
+    setLists(null);
+
+    try {
+      const [user1Data, user2Data] = await Promise.all([
+        fetchUserId(user1Username.trim()),
+        fetchUserId(user2Username.trim())
+      ]);
+
+      if (!user1Data) {
+        setError(`User "${user1Username}" not found`);
+        return;
+      }
+      if (!user2Data) {
+        setError(`User "${user2Username}" not found`);
+        return;
+      }
+
+      // Anime and manga lists of both users (private lists need the login session)
+      const [anime1, manga1, anime2, manga2] = await Promise.all([
+        fetchMediaListCollection(user1Data.id, 'ANIME'),
+        fetchMediaListCollection(user1Data.id, 'MANGA'),
+        fetchMediaListCollection(user2Data.id, 'ANIME'),
+        fetchMediaListCollection(user2Data.id, 'MANGA')
+      ]);
+
+      setUser1(user1Data);
+      setUser2(user2Data);
+      setLists({
+        list1: [...anime1.entries, ...manga1.entries],
+        list2: [...anime2.entries, ...manga2.entries]
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load lists');
+    } finally {
+      setLoading(false);
+    }
+  }, [user1Username, user2Username]);
 
   const loadComparison = useCallback(async () => {
+    const params = new URLSearchParams({ mode, user1: user1Username.trim(), user2: user2Username.trim() });
+    if (mode === 'media') params.set('mediaId', mediaId.trim());
+    router.replace(`/anilist/compare?${params}`, { scroll: false });
+
+    if (mode === 'lists') {
+      return loadListComparison();
+    }
+
     if (!user1Username.trim() || !user2Username.trim() || !mediaId.trim()) {
       setError('Please fill in all fields');
       return;
@@ -58,11 +128,9 @@ export default function ComparePage() {
       setUser2(user2Data);
       setMedia(mediaData);
 
-      // Fetch scores for both users
-      const token = typeof window !== 'undefined' ? localStorage.getItem('anilist_access_token') : null;
-      
+      // Fetch scores for both users (needs the login session)
       try {
-        const scores = await getFollowedUsersScores(token || '', parseInt(mediaId.trim(), 10));
+        const scores = await getFollowedUsersScores(parseInt(mediaId.trim(), 10));
         
         const user1ScoreData = scores.find(s => s.userId === user1Data.id);
         const user2ScoreData = scores.find(s => s.userId === user2Data.id);
@@ -80,14 +148,35 @@ export default function ComparePage() {
     } finally {
       setLoading(false);
     }
-  }, [user1Username, user2Username, mediaId]);
+  }, [mode, loadListComparison, user1Username, user2Username, mediaId, router]);
+
+  const handleGroupCompare = useCallback((userIds: number[], mediaIds: number[]) => {
+    const params = new URLSearchParams({ mode: 'group', users: userIds.join(','), mediaIds: mediaIds.join(',') });
+    router.replace(`/anilist/compare?${params}`, { scroll: false });
+  }, [router]);
 
-  const formatScore = (score: number | null | undefined, scoreFormat: string = 'POINT_10') => {
-    if (score === null || score === undefined) return 'N/A';
-    if (scoreFormat === 'POINT_10') {
-      return (score / 10).toFixed(1);
+  // Group mode state only lives in the URL (read once by GroupComparison)
+  const [initialGroup] = useState(() => ({
+    userIds: (searchParams.get('users') || '').split(',').map((id) => parseInt(id, 10)).filter((id) => !isNaN(id)),
+    mediaIds: (searchParams.get('mediaIds') || '').split(',').filter(Boolean).join(', '),
+  }));
+
+  // Run the comparison from the URL once on arrival
+  const autoLoadedRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (autoLoadedRef.current) return;
+    autoLoadedRef.current = true;
+    if (mode !== 'group' && searchParams.get('user1') && searchParams.get('user2')) {
+      loadComparison();
     }
-    return score.toString();
+  }, [mode, searchParams, loadComparison]);
+
+  // Shown in each user's own score format; `score` itself is on 0-100
+  const formatScore = (score: UserMediaScore) => {
+    if (!score.score) return 'N/A';
+    return score.scoreFormat && score.rawScore !== undefined
+      ? formatScoreForFormat(score.rawScore, score.scoreFormat)
+      : `${score.score}/100`;
   };
 
   const formatStatus = (status: string | null | undefined) => {
@@ -107,74 +196,117 @@ export default function ComparePage() {
     <div className={styles.compareContainer}>
       <div className={styles.compareHeader}>
         <h2>Compare Lists</h2>
-        <p>Compare two users' scores and progress for a specific anime or manga</p>
+        <p>
+          {mode === 'media'
+            ? "Compare two users' scores and progress for a specific anime or manga"
+            : mode === 'lists'
+              ? "Compare two users' complete anime and manga lists"
+              : 'Compare the scores and progress of several saved users on several titles'}
+        </p>
       </div>
 
-      <div className={styles.compareForm}>
-        <div className={styles.compareFormGroup}>
-          <label>User 1:</label>
-          <input
-            type="text"
-            value={user1Username}
-            onChange={(e) => setUser1Username(e.target.value)}
-            placeholder="Username 1"
-            className={styles.compareInput}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                loadComparison();
-              }
-            }}
-          />
-        </div>
-
-        <div className={styles.compareFormGroup}>
-          <label>User 2:</label>
-          <input
-            type="text"
-            value={user2Username}
-            onChange={(e) => setUser2Username(e.target.value)}
-            placeholder="Username 2"
-            className={styles.compareInput}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                loadComparison();
-              }
-            }}
-          />
-        </div>
-
-        <div className={styles.compareFormGroup}>
-          <label>Media ID:</label>
-          <input
-            type="text"
-            value={mediaId}
-            onChange={(e) => setMediaId(e.target.value)}
-            placeholder="Anime/Manga ID"
-            className={styles.compareInput}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                loadComparison();
-              }
-            }}
-          />
-        </div>
-
+      <div className={styles.timelineToggle}>
         <button
-          onClick={loadComparison}
-          disabled={loading || !user1Username.trim() || !user2Username.trim() || !mediaId.trim()}
-          className={styles.compareButton}
+          onClick={() => setMode('media')}
+          className={`${styles.timelineButton} ${mode === 'media' ? styles.timelineButtonActive : ''}`}
         >
-          {loading ? 'Loading...' : 'Compare'}
+          Single title
+        </button>
+        <button
+          onClick={() => setMode('lists')}
+          className={`${styles.timelineButton} ${mode === 'lists' ? styles.timelineButtonActive : ''}`}
+        >
+          Full lists (affinity)
+        </button>
+        <button
+          onClick={() => setMode('group')}
+          className={`${styles.timelineButton} ${mode === 'group' ? styles.timelineButtonActive : ''}`}
+        >
+          Group
         </button>
       </div>
 
-      {error && (
+      {mode === 'group' && (
+        <GroupComparison
+          initialUserIds={initialGroup.userIds}
+          initialMediaIds={initialGroup.mediaIds}
+          onCompare={handleGroupCompare}
+        />
+      )}
+
+      {mode !== 'group' && (
+        <div className={styles.compareForm}>
+          <div className={styles.compareFormGroup}>
+            <label>User 1:</label>
+            <input
+              type="text"
+              value={user1Username}
+              onChange={(e) => setUser1Username(e.target.value)}
+              placeholder="Username 1"
+              className={styles.compareInput}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  loadComparison();
+                }
+              }}
+            />
+          </div>
+
+          <div className={styles.compareFormGroup}>
+            <label>User 2:</label>
+            <input
+              type="text"
+              value={user2Username}
+              onChange={(e) => setUser2Username(e.target.value)}
+              placeholder="Username 2"
+              className={styles.compareInput}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  loadComparison();
+                }
+              }}
+            />
+          </div>
+
+          {mode === 'media' && (
+            <div className={styles.compareFormGroup}>
+              <label>Media ID:</label>
+              <input
+                type="text"
+                value={mediaId}
+                onChange={(e) => setMediaId(e.target.value)}
+                placeholder="Anime/Manga ID"
+                className={styles.compareInput}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    loadComparison();
+                  }
+                }}
+              />
+            </div>
+          )}
+
+          <button
+            onClick={loadComparison}
+            disabled={loading || !user1Username.trim() || !user2Username.trim() || (mode === 'media' && !mediaId.trim())}
+            className={styles.compareButton}
+          >
+            {loading ? 'Loading...' : 'Compare'}
+          </button>
+        </div>
+      )}
+
+      {mode !== 'group' && error && (
         <div className={styles.error}>
           {error}
         </div>
       )}
 
-      {media && user1 && user2 && (
+      {mode === 'lists' && lists && user1 && user2 && (
+        <AffinityComparison user1={user1} user2={user2} list1={lists.list1} list2={lists.list2} />
+      )}
+
+      {mode === 'media' && media && user1 && user2 && (
         <div className={styles.compareResults}>
           <div className={styles.mediaInfo}>
             {media.coverImage?.large && (
@@ -199,7 +331,7 @@ export default function ComparePage() {
                   <span className={styles.statLabel}>Score:</span>
                   <span className={styles.statValue}>
                     {user1Score?.score !== null && user1Score?.score !== undefined
-                      ? formatScore(user1Score.score, user1Score.scoreFormat)
+                      ? formatScore(user1Score)
                       : 'N/A'}
                   </span>
                 </div>
@@ -230,7 +362,7 @@ export default function ComparePage() {
                   <span className={styles.statLabel}>Score:</span>
                   <span className={styles.statValue}>
                     {user2Score?.score !== null && user2Score?.score !== undefined
-                      ? formatScore(user2Score.score, user2Score.scoreFormat)
+                      ? formatScore(user2Score)
                       : 'N/A'}
                   </span>
                 </div>
@@ -258,7 +390,7 @@ export default function ComparePage() {
                   <div className={styles.summaryStat}>
                     <span className={styles.summaryLabel}>Score Difference:</span>
                     <span className={styles.summaryValue}>
-                      {Math.abs(parseFloat(formatScore(user1Score.score, user1Score.scoreFormat)) - parseFloat(formatScore(user2Score.score, user2Score.scoreFormat))).toFixed(1)}
+                      {(Math.abs((user1Score.score || 0) - (user2Score.score || 0)) / 10).toFixed(1)}
                     </span>
                   </div>
                 )}
@@ -286,3 +418,11 @@ export default function ComparePage() {
     </div>
   );
 }
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={<div className={styles.loading}>Loading...</div>}>
+      <CompareContent />
+    </Suspense>
+  );
+}
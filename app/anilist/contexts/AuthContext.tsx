@@ -0,0 +1,255 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { fetchAuthSession, logoutSession, switchAuthAccount, AniListUser, SESSION_EXPIRED_EVENT, SESSION_CHECK_EVENT } from '@/lib/anilist';
+
+// Cached copy of the logged-in user so the header renders before the session check
+const AUTH_USER_KEY = 'anilist_user';
+// Access tokens used to live in localStorage; any leftover copy is removed
+const LEGACY_AUTH_TOKEN_KEY = 'anilist_access_token';
+// Scroll position to restore when coming back from a re-login
+export const RELOGIN_SCROLL_KEY = 'anilist_relogin_scroll';
+
+// Warn this long before the AniList token expires
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+interface AuthContextType {
+  authUser: AniListUser | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  /** Every account logged in on this browser, active one included */
+  accounts: AniListUser[];
+  login: () => void;
+  /** Log the active account out; another logged-in account becomes active if there is one */
+  logout: () => Promise<void>;
+  refreshSession: () => Promise<void>;
+  /** Make another logged-in account the active one (reloads the page) */
+  switchAccount: (userId: number) => Promise<void>;
+  /** When the active account's token expires */
+  expiresAt: Date | null;
+  /** The token expires within a week */
+  expiresSoon: boolean;
+  /** Account whose session expired or was revoked, until the prompt is dismissed */
+  expiredUser: AniListUser | null;
+  /** Log in again, coming back to the current page */
+  relogin: () => void;
+  dismissExpired: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Provides the AniList login state.
+ *
+ * The OAuth token is kept server-side in an httpOnly cookie session, so the
+ * client only knows who is logged in. API routes read the token from the
+ * session cookie that the browser sends with every request.
+ *
+ * Several accounts can be logged in side by side; `login()` adds one and
+ * `switchAccount()` changes which one the API routes act as.
+ *
+ * A viewer check refused by AniList (SESSION_EXPIRED_EVENT), any other 401
+ * once the session endpoint confirms the session is gone (SESSION_CHECK_EVENT)
+ * or reaching the token expiry logs the account out and sets `expiredUser`,
+ * so pages don't have to clear the login themselves.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [authUser, setAuthUser] = useState<AniListUser | null>(null);
+  const [accounts, setAccounts] = useState<AniListUser[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  // User ID the expiry warning was raised for
+  const [expiryWarningFor, setExpiryWarningFor] = useState<number | null>(null);
+  const [expiredUser, setExpiredUser] = useState<AniListUser | null>(null);
+  const authUserRef = useRef<AniListUser | null>(null);
+  // Parallel requests all fail with a 401: only the first one logs out
+  const expiringRef = useRef<boolean>(false);
+  // Parallel requests all fail with a 401: only the first one asks the session endpoint
+  const checkingRef = useRef<boolean>(false);
+
+  const storeUser = useCallback((user: AniListUser | null) => {
+    setAuthUser(user);
+    if (typeof window === 'undefined') return;
+    if (user) {
+      localStorage.setItem(AUTH_USER_KEY, JSON.stringify(user));
+    } else {
+      localStorage.removeItem(AUTH_USER_KEY);
+    }
+  }, []);
+
+  const refreshSession = useCallback(async () => {
+    try {
+      const session = await fetchAuthSession();
+      storeUser(session.user);
+      setAccounts((session.accounts || []).map((account) => account.user));
+      setExpiresAt(session.expiresAt ? new Date(session.expiresAt) : null);
+      // Logged in again with the expired account
+      setExpiredUser((prev) => (prev && prev.id === session.user?.id ? null : prev));
+    } catch (error) {
+      // Keep the cached user if the session endpoint is unreachable
+      console.error('[AuthContext] ❌ Error checking session:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeUser]);
+
+  useEffect(() => {
+    localStorage.removeItem(LEGACY_AUTH_TOKEN_KEY);
+
+    const savedUser = localStorage.getItem(AUTH_USER_KEY);
+    if (savedUser) {
+      try {
+        setAuthUser(JSON.parse(savedUser));
+      } catch (e) {
+        console.error('Error parsing saved user:', e);
+      }
+    }
+
+    refreshSession();
+
+    // Keep tabs in sync when logging in or out elsewhere
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === AUTH_USER_KEY) {
+        refreshSession();
+      }
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+    };
+  }, [refreshSession]);
+
+  useEffect(() => {
+    authUserRef.current = authUser;
+  }, [authUser]);
+
+  const logout = useCallback(async () => {
+    storeUser(null);
+    setExpiresAt(null);
+    const nextUser = await logoutSession();
+    if (nextUser) {
+      // Another logged-in account took over
+      await refreshSession();
+    } else {
+      setAccounts([]);
+    }
+  }, [storeUser, refreshSession]);
+
+  const handleSessionExpired = useCallback(async () => {
+    const user = authUserRef.current;
+    if (!user || expiringRef.current) return;
+    expiringRef.current = true;
+    console.warn(`[AuthContext] 🔒 Session of ${user.name} expired or was revoked`);
+
+    setExpiredUser(user);
+    try {
+      // Revoke the dead session; another logged-in account takes over if there is one
+      await logout();
+    } finally {
+      expiringRef.current = false;
+    }
+  }, [logout]);
+
+  // A 401 from a route that is not a viewer check may not mean the session is
+  // gone: only log out when the session endpoint no longer has one
+  const handleSessionCheck = useCallback(async () => {
+    const user = authUserRef.current;
+    if (!user || checkingRef.current) return;
+    checkingRef.current = true;
+    try {
+      const session = await fetchAuthSession();
+      if (!session.user) {
+        await handleSessionExpired();
+      } else if (session.user.id !== user.id) {
+        // Another tab switched accounts meanwhile
+        await refreshSession();
+      }
+    } catch (error) {
+      // Keep the user if the session endpoint is unreachable
+      console.error('[AuthContext] ❌ Error checking session:', error);
+    } finally {
+      checkingRef.current = false;
+    }
+  }, [handleSessionExpired, refreshSession]);
+
+  useEffect(() => {
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    window.addEventListener(SESSION_CHECK_EVENT, handleSessionCheck);
+    return () => {
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+      window.removeEventListener(SESSION_CHECK_EVENT, handleSessionCheck);
+    };
+  }, [handleSessionExpired, handleSessionCheck]);
+
+  // Warn a week before the token expires, and log out when it does
+  useEffect(() => {
+    if (!authUser || !expiresAt) return;
+
+    const remaining = expiresAt.getTime() - Date.now();
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    if (remaining - EXPIRY_WARNING_MS < MAX_TIMEOUT_MS) {
+      const userId = authUser.id;
+      timers.push(setTimeout(() => setExpiryWarningFor(userId), Math.max(0, remaining - EXPIRY_WARNING_MS)));
+    }
+    if (remaining < MAX_TIMEOUT_MS) {
+      timers.push(setTimeout(handleSessionExpired, Math.max(0, remaining)));
+    }
+    return () => {
+      timers.forEach(clearTimeout);
+    };
+  }, [authUser, expiresAt, handleSessionExpired]);
+
+  const login = useCallback(() => {
+    window.location.href = '/api/anilist/auth/authorize';
+  }, []);
+
+  const relogin = useCallback(() => {
+    sessionStorage.setItem(RELOGIN_SCROLL_KEY, String(window.scrollY));
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    window.location.href = `/api/anilist/auth/authorize?returnTo=${encodeURIComponent(returnTo)}`;
+  }, []);
+
+  const dismissExpired = useCallback(() => {
+    setExpiredUser(null);
+  }, []);
+
+  const switchAccount = useCallback(async (userId: number) => {
+    const user = await switchAuthAccount(userId);
+    storeUser(user);
+    // Pages hold data fetched as the previous account
+    window.location.reload();
+  }, [storeUser]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        authUser,
+        isAuthenticated: !!authUser,
+        isLoading,
+        accounts,
+        login,
+        logout,
+        refreshSession,
+        switchAccount,
+        expiresAt,
+        expiresSoon: !!authUser && expiryWarningFor === authUser.id,
+        expiredUser,
+        relogin,
+        dismissExpired,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -5,16 +5,23 @@ import styles from '../anilist.module.css';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+// Button shown in the toast, e.g. "Undo"; clicking it also closes the toast
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   message: string;
   type: ToastType;
   duration?: number; // Duration in ms, default 5000
+  action?: ToastAction;
 }
 
 interface ToastContextType {
   toasts: Toast[];
-  showToast: (message: string, type?: ToastType, duration?: number) => void;
+  showToast: (message: string, type?: ToastType, duration?: number, action?: ToastAction) => void;
   removeToast: (id: string) => void;
 }
 
@@ -23,9 +30,9 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined);
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType = 'info', duration: number = 5000) => {
+  const showToast = useCallback((message: string, type: ToastType = 'info', duration: number = 5000, action?: ToastAction) => {
     const id = `toast-${Date.now()}-${Math.random()}`;
-    const newToast: Toast = { id, message, type, duration };
+    const newToast: Toast = { id, message, type, duration, action };
     
     setToasts((prev) => [...prev, newToast]);
     
@@ -82,6 +89,18 @@ function ToastContainer({ toasts, removeToast }: { toasts: Toast[]; removeToast:
             {toast.type === 'info' && 'ℹ️'}
           </div>
           <div className={styles.toastMessage}>{toast.message}</div>
+          {toast.action && (
+            <button
+              className={styles.toastAction}
+              onClick={(e) => {
+                e.stopPropagation();
+                removeToast(toast.id);
+                toast.action?.onClick();
+              }}
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button
             className={styles.toastClose}
             onClick={(e) => {
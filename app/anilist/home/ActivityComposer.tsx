@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { renderAniListMarkdown } from '@/lib/anilist-markdown';
+import styles from '../anilist.module.css';
+
+interface ActivityComposerProps {
+  initialText?: string;
+  placeholder: string;
+  submitLabel: string;
+  submitting: boolean;
+  /** Resolves to true when the text was posted, which clears the composer */
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Text box for replies and statuses, with a Write / Preview toggle that
+ * renders AniList markdown (spoilers, images, links...) before posting.
+ */
+export default function ActivityComposer({
+  initialText = '',
+  placeholder,
+  submitLabel,
+  submitting,
+  onSubmit,
+  onCancel,
+}: ActivityComposerProps) {
+  const [text, setText] = useState<string>(initialText);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+
+  const canSubmit = text.trim().length > 0 && !submitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    const posted = await onSubmit(text.trim());
+    if (posted) {
+      setText('');
+      setShowPreview(false);
+    }
+  };
+
+  return (
+    <div className={styles.composer}>
+      <div className={styles.composerTabs}>
+        <button
+          type="button"
+          onClick={() => setShowPreview(false)}
+          className={`${styles.composerTab} ${!showPreview ? styles.composerTabActive : ''}`}
+        >
+          Write
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowPreview(true)}
+          className={`${styles.composerTab} ${showPreview ? styles.composerTabActive : ''}`}
+        >
+          Preview
+        </button>
+      </div>
+
+      {showPreview ? (
+        <div
+          className={`${styles.activityText} ${styles.composerPreview}`}
+          dangerouslySetInnerHTML={{
+            __html: text.trim() ? renderAniListMarkdown(text) : '<em>Nothing to preview</em>'
+          }}
+        />
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            // Ctrl/Cmd + Enter posts, like on AniList
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder={placeholder}
+          className={styles.composerInput}
+          rows={3}
+          disabled={submitting}
+        />
+      )}
+
+      <div className={styles.composerActions}>
+        <span className={styles.composerHint}>
+          Markdown: **bold**, _italic_, ~!spoiler!~, [link](url), img(url)
+        </span>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={submitting} className={styles.resetFiltersButton}>
+            Cancel
+          </button>
+        )}
+        <button type="button" onClick={handleSubmit} disabled={!canSubmit} className={styles.refreshFiltersButton}>
+          {submitting ? 'Posting...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
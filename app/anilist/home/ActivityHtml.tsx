@@ -0,0 +1,89 @@
+'use client';
+
+import { useMemo, MouseEvent, KeyboardEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { sanitizeActivityHtml } from '@/lib/anilist-html';
+import styles from '../anilist.module.css';
+
+interface ActivityHtmlProps {
+  html: string;
+  className: string;
+}
+
+// The player replaces the placeholder for good, so the video keeps playing across re-renders
+function loadEmbed(placeholder: HTMLElement) {
+  const source = placeholder.dataset.source || '';
+  let player: HTMLElement;
+  if (placeholder.dataset.embed === 'youtube') {
+    const iframe = document.createElement('iframe');
+    iframe.src = `https://www.youtube-nocookie.com/embed/${encodeURIComponent(source)}?autoplay=1`;
+    iframe.allow = 'autoplay; encrypted-media; picture-in-picture';
+    iframe.allowFullscreen = true;
+    iframe.title = 'YouTube video';
+    player = iframe;
+  } else {
+    const video = document.createElement('video');
+    video.src = source;
+    video.controls = true;
+    video.autoplay = true;
+    video.loop = true;
+    video.muted = true;
+    player = video;
+  }
+  player.className = 'anilist_embed_player';
+  placeholder.replaceWith(player);
+}
+
+/**
+ * Activity or reply body from AniList, sanitized (see lib/anilist-html.ts).
+ * Spoilers reveal on click, video placeholders load their player on click and
+ * links to AniList media/users open the in-app pages.
+ */
+export default function ActivityHtml({ html, className }: ActivityHtmlProps) {
+  const router = useRouter();
+  const sanitized = useMemo(() => sanitizeActivityHtml(html), [html]);
+
+  // Returns true when the event was handled
+  const activate = (target: HTMLElement): boolean => {
+    const spoiler = target.closest<HTMLElement>('.markdown_spoiler');
+    if (spoiler) {
+      spoiler.classList.toggle('markdown_spoiler_revealed');
+      return true;
+    }
+    const embed = target.closest<HTMLElement>('.anilist_embed');
+    if (embed) {
+      loadEmbed(embed);
+      return true;
+    }
+    return false;
+  };
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const link = target.closest<HTMLAnchorElement>('a[data-internal]');
+    // Let the browser handle new-tab clicks
+    if (link && !e.metaKey && !e.ctrlKey && !e.shiftKey && e.button === 0) {
+      e.preventDefault();
+      router.push(link.getAttribute('href') || '/anilist/home');
+      return;
+    }
+    if (activate(target)) {
+      e.preventDefault();
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if ((e.key === 'Enter' || e.key === ' ') && activate(e.target as HTMLElement)) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div
+      className={`${className} ${styles.activityHtml}`}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      dangerouslySetInnerHTML={{ __html: sanitized }}
+    />
+  );
+}
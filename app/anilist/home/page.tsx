@@ -2,30 +2,125 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { fetchUserId, fetchUserActivities, fetchActivityReplies, toggleActivityLike, toggleActivityReplyLike, ActivityStatus, ActivityComment, AniListUser } from '@/lib/anilist';
+import Link from 'next/link';
+import { fetchUserId, fetchUserActivities, fetchFollowingActivities, fetchActivityReplies, fetchActivityRepliesBatch, toggleActivityLike, toggleActivityReplyLike, saveActivityReply, deleteActivityReply, saveTextActivity, ActivityStatus, ActivityComment, AniListUser, MediaListEntry } from '@/lib/anilist';
+import { SavedUser, readSavedUsers, addSavedUser, removeSavedUserById } from '@/lib/anilist-saved-users';
+import { readAccountItem, writeAccountItem } from '@/lib/anilist-account-storage';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import ActivityComposer from './ActivityComposer';
+import ActivityHtml from './ActivityHtml';
+import FollowButton from '../FollowButton';
+import QuickProgress from '../QuickProgress';
 import styles from '../anilist.module.css';
 
 const STORAGE_KEY = 'anilist_username';
 const THEME_KEY = 'anilist_theme';
-const SAVED_USERS_KEY = 'anilist_saved_users';
 const USER_FILTERS_KEY = 'anilist_user_filters';
 const FILTER_PRESETS_KEY = 'anilist_filter_presets';
 const COMPACT_MODE_KEY = 'anilist_compact_mode';
 const LAST_VISIT_KEY = 'anilist_last_visit';
+const TIMELINE_KEY = 'anilist_home_timeline';
+// Same limit as /api/anilist/replies-batch
+const REPLIES_BATCH = 50;
 
-interface SavedUser {
-  username: string;
-  id: number;
-  name: string;
-  avatar?: string;
-  lastSearched: number; // timestamp
+type DateFilter = 'all' | 'today' | 'yesterday' | 'week' | 'month' | 'custom';
+
+/**
+ * Convert the date filter into createdAt_greater / createdAt_lesser values
+ * for the API (Unix timestamps in seconds, local day boundaries).
+ */
+function getCreatedAtRange(
+  dateFilter: DateFilter,
+  customDateStart: string,
+  customDateEnd: string
+): { createdAtGreater?: number; createdAtLesser?: number; error?: string } {
+  let createdAtGreater: number | undefined;
+  let createdAtLesser: number | undefined;
+
+  if (dateFilter === 'all') {
+    return {};
+  }
+
+  const now = new Date();
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (dateFilter === 'today') {
+    createdAtGreater = Math.floor(todayStart.getTime() / 1000);
+    console.log(`[getCreatedAtRange] 📅 Date filter: today - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
+  } else if (dateFilter === 'yesterday') {
+    const yesterdayStart = new Date(todayStart);
+    yesterdayStart.setDate(yesterdayStart.getDate() - 1);
+    const yesterdayEnd = new Date(todayStart);
+    yesterdayEnd.setMilliseconds(yesterdayEnd.getMilliseconds() - 1);
+    createdAtGreater = Math.floor(yesterdayStart.getTime() / 1000);
+    createdAtLesser = Math.floor(yesterdayEnd.getTime() / 1000);
+    console.log(`[getCreatedAtRange] 📅 Date filter: yesterday - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()}), createdAt_lesser: ${createdAtLesser} (${new Date(createdAtLesser * 1000).toISOString()})`);
+  } else if (dateFilter === 'week') {
+    const weekStart = new Date(todayStart);
+    weekStart.setDate(weekStart.getDate() - 7);
+    createdAtGreater = Math.floor(weekStart.getTime() / 1000);
+    console.log(`[getCreatedAtRange] 📅 Date filter: week - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
+  } else if (dateFilter === 'month') {
+    const monthStart = new Date(todayStart);
+    monthStart.setMonth(monthStart.getMonth() - 1);
+    createdAtGreater = Math.floor(monthStart.getTime() / 1000);
+    console.log(`[getCreatedAtRange] 📅 Date filter: month - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
+  } else if (dateFilter === 'custom') {
+    if (customDateStart) {
+      const startDate = new Date(customDateStart);
+      if (isNaN(startDate.getTime())) {
+        console.error(`[getCreatedAtRange] ❌ Invalid custom start date: ${customDateStart}`);
+        return { error: `Invalid start date: ${customDateStart}` };
+      }
+      startDate.setHours(0, 0, 0, 0);
+      createdAtGreater = Math.floor(startDate.getTime() / 1000);
+      console.log(`[getCreatedAtRange] 📅 Date filter: custom start - createdAt_greater: ${createdAtGreater} (${startDate.toISOString()})`);
+    }
+    if (customDateEnd) {
+      const endDate = new Date(customDateEnd);
+      if (isNaN(endDate.getTime())) {
+        console.error(`[getCreatedAtRange] ❌ Invalid custom end date: ${customDateEnd}`);
+        return { error: `Invalid end date: ${customDateEnd}` };
+      }
+      endDate.setHours(23, 59, 59, 999);
+      createdAtLesser = Math.floor(endDate.getTime() / 1000);
+      console.log(`[getCreatedAtRange] 📅 Date filter: custom end - createdAt_lesser: ${createdAtLesser} (${endDate.toISOString()})`);
+    }
+
+    // Validate custom date range
+    if (createdAtGreater !== undefined && createdAtLesser !== undefined && createdAtGreater > createdAtLesser) {
+      console.error(`[getCreatedAtRange] ❌ Invalid date range: start (${createdAtGreater}) > end (${createdAtLesser})`);
+      return { error: 'Invalid date range: start date must be before end date' };
+    }
+  }
+
+  return { createdAtGreater, createdAtLesser };
+}
+
+/**
+ * Split the combined type filter (e.g. 'list-anime') into the API's
+ * activity type and media type parameters.
+ */
+function getActivityTypeParams(
+  filter: 'all' | 'list' | 'list-anime' | 'list-manga' | 'text' | 'message'
+): { type: 'all' | 'text' | 'list' | 'message'; mediaType: 'all' | 'anime' | 'manga' } {
+  if (filter === 'list-anime') {
+    return { type: 'list', mediaType: 'anime' };
+  }
+  if (filter === 'list-manga') {
+    return { type: 'list', mediaType: 'manga' };
+  }
+  return { type: filter, mediaType: 'all' };
 }
 
 export default function HomePage() {
   const router = useRouter();
   const { showToast } = useToast();
+  const { authUser, isAuthenticated } = useAuth();
   const [username, setUsername] = useState<string>('');
+  // 'user' shows a single user's activities, 'following' the logged-in user's timeline
+  const [timeline, setTimeline] = useState<'user' | 'following'>('user');
   const [user, setUser] = useState<AniListUser | null>(null);
   const [activities, setActivities] = useState<ActivityStatus[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
@@ -51,10 +146,20 @@ export default function HomePage() {
   const [expandedComments, setExpandedComments] = useState<{
     [key: number]: { replies: ActivityComment[], loading: boolean }
   }>({});
+  // Reply threads fetched ahead of time for the activities on screen, by activity ID
+  const [prefetchedReplies, setPrefetchedReplies] = useState<Record<number, ActivityComment[]>>({});
+  const prefetchRequestedRef = useRef<Set<number>>(new Set());
   const [savedUsers, setSavedUsers] = useState<SavedUser[]>([]);
-  const [accessToken, setAccessToken] = useState<string | null>(null);
   const [likingActivityId, setLikingActivityId] = useState<number | null>(null);
   const [likingReplyId, setLikingReplyId] = useState<number | null>(null);
+  const [postingReplyFor, setPostingReplyFor] = useState<number | null>(null);
+  const [editingReplyId, setEditingReplyId] = useState<number | null>(null);
+  const [deletingReplyId, setDeletingReplyId] = useState<number | null>(null);
+  const [postingStatus, setPostingStatus] = useState<boolean>(false);
+  // Follows toggled from this page, by user ID (wins over the isFollowing loaded with activities)
+  const [followOverrides, setFollowOverrides] = useState<Record<number, boolean>>({});
+  // Own list entries changed from this page, by media ID (wins over the mediaListEntry loaded with activities)
+  const [listEntryOverrides, setListEntryOverrides] = useState<Record<number, MediaListEntry | null>>({});
   
   // Refs for debouncing and preventing duplicate requests
   const filterDebounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -62,30 +167,16 @@ export default function HomePage() {
   const isRequestInProgressRef = useRef<boolean>(false);
   const isLoadingFiltersRef = useRef<boolean>(false); // Flag to prevent useEffect during filter loading
 
-  // Load saved username, theme, and saved users from localStorage
+  // Saved users and filter presets belong to the logged-in account
+  const accountId = authUser?.id ?? null;
+
+  // Load saved username and theme from localStorage
   useEffect(() => {
     const savedUsername = localStorage.getItem(STORAGE_KEY);
     if (savedUsername) {
       setUsername(savedUsername);
     }
 
-    // Load saved users
-    const savedUsersData = localStorage.getItem(SAVED_USERS_KEY);
-    if (savedUsersData) {
-      try {
-        const users = JSON.parse(savedUsersData);
-        setSavedUsers(users);
-      } catch (e) {
-        console.error('Error parsing saved users:', e);
-      }
-    }
-
-    // Load access token for like functionality
-    const token = localStorage.getItem('anilist_access_token');
-    if (token) {
-      setAccessToken(token);
-    }
-    
     // Load compact mode preference
     const savedCompactMode = localStorage.getItem(COMPACT_MODE_KEY);
     if (savedCompactMode === 'true') {
@@ -98,6 +189,22 @@ export default function HomePage() {
     }
   }, []);
 
+  // Load the account's saved users and filter presets (again after switching account)
+  useEffect(() => {
+    setSavedUsers(readSavedUsers(accountId));
+
+    const savedPresets = readAccountItem(FILTER_PRESETS_KEY, accountId);
+    let presets = [];
+    if (savedPresets) {
+      try {
+        presets = JSON.parse(savedPresets);
+      } catch (e) {
+        console.error('Error parsing filter presets:', e);
+      }
+    }
+    setFilterPresets(Array.isArray(presets) ? presets : []);
+  }, [accountId]);
+
   // Save filters for current user
   const saveUserFilters = useCallback((userId: number, filters: { filter: string; status: string; sortBy: string; dateFilter?: string; customDateStart?: string; customDateEnd?: string }) => {
     if (typeof window === 'undefined') return;
@@ -200,11 +307,11 @@ export default function HomePage() {
     const updatedPresets = [...filterPresets, preset];
     setFilterPresets(updatedPresets);
     if (typeof window !== 'undefined') {
-      localStorage.setItem(FILTER_PRESETS_KEY, JSON.stringify(updatedPresets));
+      writeAccountItem(FILTER_PRESETS_KEY, accountId, JSON.stringify(updatedPresets));
     }
     setPresetName('');
     setShowPresetModal(false);
-  }, [presetName, filter, status, dateFilter, customDateStart, customDateEnd, sortBy, filterPresets]);
+  }, [presetName, filter, status, dateFilter, customDateStart, customDateEnd, sortBy, filterPresets, accountId]);
 
   // Load filter preset
   const loadFilterPreset = useCallback((preset: typeof filterPresets[0]) => {
@@ -216,7 +323,7 @@ export default function HomePage() {
     setSortBy(preset.filters.sortBy as any);
     
     // Save to user filters if user is loaded
-    if (user) {
+    if (user && timeline === 'user') {
       saveUserFilters(user.id, {
         filter: preset.filters.filter,
         status: preset.filters.status,
@@ -226,16 +333,16 @@ export default function HomePage() {
         customDateEnd: preset.filters.customDateEnd
       });
     }
-  }, [user, saveUserFilters]);
+  }, [user, timeline, saveUserFilters]);
 
   // Delete filter preset
   const deleteFilterPreset = useCallback((presetId: string) => {
     const updatedPresets = filterPresets.filter(p => p.id !== presetId);
     setFilterPresets(updatedPresets);
     if (typeof window !== 'undefined') {
-      localStorage.setItem(FILTER_PRESETS_KEY, JSON.stringify(updatedPresets));
+      writeAccountItem(FILTER_PRESETS_KEY, accountId, JSON.stringify(updatedPresets));
     }
-  }, [filterPresets]);
+  }, [filterPresets, accountId]);
 
   // Save username to localStorage
   const saveUsername = useCallback((newUsername: string) => {
@@ -244,32 +351,13 @@ export default function HomePage() {
 
   // Save user to saved users list
   const saveUserToHistory = useCallback((userData: AniListUser, username: string) => {
-    const savedUser: SavedUser = {
-      username: username.toLowerCase(),
-      id: userData.id,
-      name: userData.name,
-      avatar: userData.avatar?.medium || userData.avatar?.large,
-      lastSearched: Date.now()
-    };
-
-    setSavedUsers(prev => {
-      // Remove if already exists
-      const filtered = prev.filter(u => u.id !== userData.id);
-      // Add to beginning and limit to 10 users
-      const updated = [savedUser, ...filtered].slice(0, 10);
-      localStorage.setItem(SAVED_USERS_KEY, JSON.stringify(updated));
-      return updated;
-    });
-  }, []);
+    setSavedUsers(prev => addSavedUser(prev, userData, username, accountId));
+  }, [accountId]);
 
   // Remove user from saved users list
   const removeSavedUser = useCallback((userId: number) => {
-    setSavedUsers(prev => {
-      const updated = prev.filter(u => u.id !== userId);
-      localStorage.setItem(SAVED_USERS_KEY, JSON.stringify(updated));
-      return updated;
-    });
-  }, []);
+    setSavedUsers(prev => removeSavedUserById(prev, userId, accountId));
+  }, [accountId]);
 
   // Fetch user data and activities
   const loadUserActivities = useCallback(async (
@@ -278,7 +366,7 @@ export default function HomePage() {
     activityType?: 'all' | 'text' | 'list' | 'message',
     mediaTypeFilter?: 'all' | 'anime' | 'manga',
     statusFilter?: string,
-    dateFilterParam?: 'all' | 'today' | 'yesterday' | 'week' | 'month' | 'custom',
+    dateFilterParam?: DateFilter,
     customDateStartParam?: string,
     customDateEndParam?: string
   ) => {
@@ -372,79 +460,19 @@ export default function HomePage() {
       
       // statusFilter is NOT passed to API - it's filtered client-side in filteredAndSortedActivities
       // Calculate date filters for API (Unix timestamps in seconds)
-      let createdAtGreater: number | undefined;
-      let createdAtLesser: number | undefined;
-      
-      const activeDateFilter = dateFilterParam || dateFilter;
-      const activeCustomStart = customDateStartParam !== undefined ? customDateStartParam : customDateStart;
-      const activeCustomEnd = customDateEndParam !== undefined ? customDateEndParam : customDateEnd;
-      
-      if (activeDateFilter !== 'all') {
-        const now = new Date();
-        const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        
-        if (activeDateFilter === 'today') {
-          createdAtGreater = Math.floor(todayStart.getTime() / 1000);
-          console.log(`[loadUserActivities] 📅 Date filter: today - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
-        } else if (activeDateFilter === 'yesterday') {
-          const yesterdayStart = new Date(todayStart);
-          yesterdayStart.setDate(yesterdayStart.getDate() - 1);
-          const yesterdayEnd = new Date(todayStart);
-          yesterdayEnd.setMilliseconds(yesterdayEnd.getMilliseconds() - 1);
-          createdAtGreater = Math.floor(yesterdayStart.getTime() / 1000);
-          createdAtLesser = Math.floor(yesterdayEnd.getTime() / 1000);
-          console.log(`[loadUserActivities] 📅 Date filter: yesterday - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()}), createdAt_lesser: ${createdAtLesser} (${new Date(createdAtLesser * 1000).toISOString()})`);
-        } else if (activeDateFilter === 'week') {
-          const weekStart = new Date(todayStart);
-          weekStart.setDate(weekStart.getDate() - 7);
-          createdAtGreater = Math.floor(weekStart.getTime() / 1000);
-          console.log(`[loadUserActivities] 📅 Date filter: week - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
-        } else if (activeDateFilter === 'month') {
-          const monthStart = new Date(todayStart);
-          monthStart.setMonth(monthStart.getMonth() - 1);
-          createdAtGreater = Math.floor(monthStart.getTime() / 1000);
-          console.log(`[loadUserActivities] 📅 Date filter: month - createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
-        } else if (activeDateFilter === 'custom') {
-          if (activeCustomStart) {
-            const startDate = new Date(activeCustomStart);
-            if (isNaN(startDate.getTime())) {
-              console.error(`[loadUserActivities] ❌ Invalid custom start date: ${activeCustomStart}`);
-              showToast(`Invalid start date: ${activeCustomStart}`, 'error');
-              setLoading(false);
-              isRequestInProgressRef.current = false;
-              return;
-            }
-            startDate.setHours(0, 0, 0, 0);
-            createdAtGreater = Math.floor(startDate.getTime() / 1000);
-            console.log(`[loadUserActivities] 📅 Date filter: custom start - createdAt_greater: ${createdAtGreater} (${startDate.toISOString()})`);
-          }
-          if (activeCustomEnd) {
-            const endDate = new Date(activeCustomEnd);
-            if (isNaN(endDate.getTime())) {
-              console.error(`[loadUserActivities] ❌ Invalid custom end date: ${activeCustomEnd}`);
-              showToast(`Invalid end date: ${activeCustomEnd}`, 'error');
-              setLoading(false);
-              isRequestInProgressRef.current = false;
-              return;
-            }
-            endDate.setHours(23, 59, 59, 999);
-            createdAtLesser = Math.floor(endDate.getTime() / 1000);
-            console.log(`[loadUserActivities] 📅 Date filter: custom end - createdAt_lesser: ${createdAtLesser} (${endDate.toISOString()})`);
-          }
-          
-          // Validate custom date range
-          if (createdAtGreater !== undefined && createdAtLesser !== undefined && createdAtGreater > createdAtLesser) {
-            console.error(`[loadUserActivities] ❌ Invalid date range: start (${createdAtGreater}) > end (${createdAtLesser})`);
-            showToast('Invalid date range: start date must be before end date', 'error');
-            setLoading(false);
-            isRequestInProgressRef.current = false;
-            return;
-          }
-        }
+      const dateRange = getCreatedAtRange(
+        dateFilterParam || dateFilter,
+        customDateStartParam !== undefined ? customDateStartParam : customDateStart,
+        customDateEndParam !== undefined ? customDateEndParam : customDateEnd
+      );
+      if (dateRange.error) {
+        showToast(dateRange.error, 'error');
+        setLoading(false);
+        isRequestInProgressRef.current = false;
+        return;
       }
-      
-      // Pass access token if available to get isLiked status
-      const token = typeof window !== 'undefined' ? localStorage.getItem('anilist_access_token') : null;
+      const { createdAtGreater, createdAtLesser } = dateRange;
+      // The session cookie (if logged in) provides the isLiked status
       const activitiesData = await fetchUserActivities(
         userData.id, 
         pageNum, 
@@ -452,7 +480,6 @@ export default function HomePage() {
         typeToFetch, 
         mediaTypeToFetch, 
         undefined, 
-        token || undefined,
         createdAtGreater,
         createdAtLesser
       );
@@ -493,6 +520,86 @@ export default function HomePage() {
     }
   }, [saveUserToHistory, filter, loadUserFilters, dateFilter, customDateStart, customDateEnd]);
 
+  // Fetch the "Following" timeline (everyone the logged-in user follows)
+  // Uses the same filters as the single-user view; status is filtered client-side
+  const loadFollowingActivities = useCallback(async (
+    pageNum: number = 1,
+    activityFilter: typeof filter = filter,
+    dateFilterParam: DateFilter = dateFilter,
+    customDateStartParam: string = customDateStart,
+    customDateEndParam: string = customDateEnd
+  ) => {
+    const { type: typeToFetch, mediaType: mediaTypeToFetch } = getActivityTypeParams(activityFilter);
+    const requestKey = `following-${pageNum}-${typeToFetch}-${mediaTypeToFetch}-${dateFilterParam}`;
+
+    // Prevent duplicate requests
+    if (isRequestInProgressRef.current && lastRequestKeyRef.current === requestKey) {
+      return;
+    }
+
+    const dateRange = getCreatedAtRange(dateFilterParam, customDateStartParam, customDateEndParam);
+    if (dateRange.error) {
+      showToast(dateRange.error, 'error');
+      return;
+    }
+
+    isRequestInProgressRef.current = true;
+    lastRequestKeyRef.current = requestKey;
+    setLoading(true);
+
+    try {
+      const activitiesData = await fetchFollowingActivities(
+        pageNum,
+        50,
+        typeToFetch,
+        mediaTypeToFetch,
+        dateRange.createdAtGreater,
+        dateRange.createdAtLesser
+      );
+      if (!activitiesData) {
+        showToast('Error loading activities. Check the console for more details.', 'error');
+        return;
+      }
+
+      if (pageNum === 1) {
+        setActivities(activitiesData.activities);
+      } else {
+        setActivities(prev => [...prev, ...activitiesData.activities]);
+      }
+
+      setHasNextPage(activitiesData.pageInfo.hasNextPage);
+      setPage(pageNum);
+    } catch (err: unknown) {
+      // Expired sessions are handled by AuthContext, other errors (rate limit...)
+      // are already shown by handleHttpError in lib/anilist.ts
+      console.error('Error:', err);
+    } finally {
+      isRequestInProgressRef.current = false;
+      setLoading(false);
+    }
+  }, [filter, dateFilter, customDateStart, customDateEnd, showToast]);
+
+  // Switch between a single user's activities and the following timeline
+  const handleTimelineChange = useCallback((newTimeline: 'user' | 'following') => {
+    if (newTimeline === timeline) return;
+
+    setTimeline(newTimeline);
+    localStorage.setItem(TIMELINE_KEY, newTimeline);
+    setActivities([]);
+    setExpandedComments({});
+    setHasNextPage(false);
+    setPage(1);
+    setAppliedFilter(filter);
+    setAppliedStatus(status);
+    setAppliedSortBy(sortBy);
+
+    if (newTimeline === 'following') {
+      loadFollowingActivities(1);
+    } else if (username.trim()) {
+      loadUserActivities(username, 1);
+    }
+  }, [timeline, filter, status, sortBy, username, loadFollowingActivities, loadUserActivities]);
+
   // Load user from saved users list
   const loadSavedUser = useCallback((savedUser: SavedUser) => {
     setUsername(savedUser.username);
@@ -523,13 +630,21 @@ export default function HomePage() {
 
   // Load more activities
   const loadMore = useCallback(() => {
-    if (!loading && hasNextPage && user) {
+    if (loading || !hasNextPage) return;
+    if (timeline === 'following') {
+      loadFollowingActivities(page + 1, appliedFilter);
+    } else if (user) {
       loadUserActivities(username, page + 1);
     }
-  }, [loading, hasNextPage, user, username, page, loadUserActivities]);
+  }, [loading, hasNextPage, timeline, appliedFilter, user, username, page, loadUserActivities, loadFollowingActivities]);
 
   // Auto-load if username is saved (only once on mount)
   useEffect(() => {
+    // The following timeline is loaded once the login state is known (see below)
+    if (localStorage.getItem(TIMELINE_KEY) === 'following') {
+      setTimeline('following');
+      return;
+    }
     const savedUsername = localStorage.getItem(STORAGE_KEY);
     if (savedUsername && savedUsername.trim() && !user) {
       setUsername(savedUsername);
@@ -538,11 +653,30 @@ export default function HomePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
+  // Auto-load the following timeline when it was the last mode used
+  const followingAutoLoadedRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (timeline === 'following' && isAuthenticated && !followingAutoLoadedRef.current) {
+      followingAutoLoadedRef.current = true;
+      loadFollowingActivities(1);
+    }
+  }, [timeline, isAuthenticated, loadFollowingActivities]);
+
   // Filters are now applied manually via "Apply" button - no automatic reload
   // This prevents API spam and gives user control over when to fetch
 
   // Apply filters manually (replaces automatic filter application)
   const handleApplyFilters = useCallback(() => {
+    if (timeline === 'following') {
+      setAppliedFilter(filter);
+      setAppliedStatus(status);
+      setAppliedSortBy(sortBy);
+      setPage(1);
+      setActivities([]);
+      loadFollowingActivities(1, filter, dateFilter, customDateStart, customDateEnd);
+      return;
+    }
+
     if (user && username) {
       // Clear debounce if active
       if (filterDebounceRef.current) {
@@ -559,25 +693,11 @@ export default function HomePage() {
       setPage(1);
       setActivities([]);
       // Parse filter to extract type and mediaType
-      let typeToFetch: 'all' | 'text' | 'list' | 'message' = 'all';
-      let mediaTypeToFetch: 'all' | 'anime' | 'manga' = 'all';
-      
-      if (filter === 'list-anime') {
-        typeToFetch = 'list';
-        mediaTypeToFetch = 'anime';
-      } else if (filter === 'list-manga') {
-        typeToFetch = 'list';
-        mediaTypeToFetch = 'manga';
-      } else if (filter === 'list') {
-        typeToFetch = 'list';
-        mediaTypeToFetch = 'all';
-      } else {
-        typeToFetch = filter;
-      }
+      const { type: typeToFetch, mediaType: mediaTypeToFetch } = getActivityTypeParams(filter);
       
       loadUserActivities(username, 1, typeToFetch, mediaTypeToFetch, undefined, dateFilter, customDateStart, customDateEnd);
     }
-  }, [user, username, filter, status, sortBy, dateFilter, customDateStart, customDateEnd, loadUserActivities]);
+  }, [timeline, user, username, filter, status, sortBy, dateFilter, customDateStart, customDateEnd, loadUserActivities, loadFollowingActivities]);
 
   // Reset filters to default values
   const handleResetFilters = useCallback(() => {
@@ -593,8 +713,15 @@ export default function HomePage() {
     setAppliedStatus('all');
     setAppliedSortBy('date');
     
+    if (timeline === 'following') {
+      setPage(1);
+      setActivities([]);
+      loadFollowingActivities(1, 'all', 'all', '', '');
+      return;
+    }
+
     // Save reset filters for current user
-    if (user) {
+    if (user && timeline === 'user') {
       saveUserFilters(user.id, {
         filter: 'all',
         status: 'all',
@@ -615,7 +742,7 @@ export default function HomePage() {
       setActivities([]);
       loadUserActivities(username, 1, 'all', 'all', undefined, 'all', '', '');
     }
-  }, [user, username, loadUserActivities, saveUserFilters]);
+  }, [timeline, user, username, loadUserActivities, loadFollowingActivities, saveUserFilters]);
 
   // Normalize API status values to dropdown enum values
   const normalizeStatus = (status: string, mediaType?: string): string => {
@@ -716,6 +843,35 @@ export default function HomePage() {
       }
     });
 
+  // Activities on screen whose replies aren't loaded yet, as a stable dependency
+  const repliesToPrefetch = filteredAndSortedActivities
+    .filter((activity) => (activity.replyCount || 0) > 0)
+    .map((activity) => activity.id)
+    .join(',');
+
+  // Prefetch reply threads in batches, so opening comments is instant
+  useEffect(() => {
+    const activityIds = repliesToPrefetch
+      .split(',')
+      .map(Number)
+      .filter((id) => id > 0 && !prefetchRequestedRef.current.has(id));
+    if (activityIds.length === 0) return;
+    activityIds.forEach((id) => prefetchRequestedRef.current.add(id));
+
+    (async () => {
+      for (let index = 0; index < activityIds.length; index += REPLIES_BATCH) {
+        try {
+          const replies = await fetchActivityRepliesBatch(activityIds.slice(index, index + REPLIES_BATCH));
+          setPrefetchedReplies((prev) => ({ ...prev, ...replies }));
+        } catch (err) {
+          // Threads not prefetched are fetched one by one when opened
+          console.error('Error prefetching replies:', err);
+          return;
+        }
+      }
+    })();
+  }, [repliesToPrefetch]);
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp * 1000);
     return new Intl.DateTimeFormat('en-US', {
@@ -767,7 +923,7 @@ export default function HomePage() {
   };
 
   const handleLike = useCallback(async (activityId: number) => {
-    if (!accessToken) {
+    if (!isAuthenticated) {
       alert('Please log in to like activities');
       return;
     }
@@ -780,7 +936,7 @@ export default function HomePage() {
     try {
       // Find the activity to get its type
       const activity = activities.find(a => a.id === activityId);
-      const result = await toggleActivityLike(accessToken, activityId, activity?.type);
+      const result = await toggleActivityLike(activityId, activity?.type);
       if (result) {
         // Update the activity in the list
         setActivities(prev => prev.map(activity => 
@@ -791,21 +947,25 @@ export default function HomePage() {
       }
     } catch (error: any) {
       console.error('Error toggling like:', error);
-      if (error.message?.includes('UNAUTHORIZED')) {
-        alert('Your session has expired. Please log in again.');
-        localStorage.removeItem('anilist_access_token');
-        localStorage.removeItem('anilist_user');
-        setAccessToken(null);
-      } else {
+      // Expired sessions are handled by AuthContext
+      if (!error.message?.includes('UNAUTHORIZED')) {
         alert('Failed to like activity. Please try again.');
       }
     } finally {
       setLikingActivityId(null);
     }
-  }, [accessToken, likingActivityId, activities]);
+  }, [isAuthenticated, likingActivityId, activities]);
+
+  const handleFollowChange = useCallback((userId: number, isFollowing: boolean) => {
+    setFollowOverrides(prev => ({ ...prev, [userId]: isFollowing }));
+  }, []);
+
+  const handleListEntryChange = useCallback((mediaId: number, entry: MediaListEntry | null) => {
+    setListEntryOverrides(prev => ({ ...prev, [mediaId]: entry }));
+  }, []);
 
   const handleReplyLike = useCallback(async (replyId: number, activityId: number) => {
-    if (!accessToken) {
+    if (!isAuthenticated) {
       alert('Please log in to like comments');
       return;
     }
@@ -816,7 +976,7 @@ export default function HomePage() {
 
     setLikingReplyId(replyId);
     try {
-      const result = await toggleActivityReplyLike(accessToken, replyId);
+      const result = await toggleActivityReplyLike(replyId);
       if (result) {
         // Update the reply in the expanded comments
         setExpandedComments(prev => {
@@ -838,21 +998,23 @@ export default function HomePage() {
       }
     } catch (error: any) {
       console.error('Error toggling reply like:', error);
-      if (error.message?.includes('UNAUTHORIZED')) {
-        alert('Your session has expired. Please log in again.');
-        localStorage.removeItem('anilist_access_token');
-        localStorage.removeItem('anilist_user');
-        setAccessToken(null);
-      } else {
+      // Expired sessions are handled by AuthContext
+      if (!error.message?.includes('UNAUTHORIZED')) {
         alert('Failed to like comment. Please try again.');
       }
     } finally {
       setLikingReplyId(null);
     }
-  }, [accessToken, likingReplyId]);
+  }, [isAuthenticated, likingReplyId]);
 
   const loadComments = useCallback(async (activityId: number) => {
-    if (expandedComments[activityId]?.replies && expandedComments[activityId].replies.length > 0) {
+    const thread = expandedComments[activityId];
+    const replyCount = activities.find(a => a.id === activityId)?.replyCount || 0;
+
+    // Collapse an open thread (failed loads stay open so they can be retried).
+    // Its replies are kept, with the likes and replies made while it was open.
+    if (thread && !thread.loading && (thread.replies.length > 0 || replyCount === 0)) {
+      setPrefetchedReplies(prev => ({ ...prev, [activityId]: thread.replies }));
       setExpandedComments(prev => {
         const newState = { ...prev };
         delete newState[activityId];
@@ -861,16 +1023,28 @@ export default function HomePage() {
       return;
     }
     
-    if (expandedComments[activityId]?.loading) {
+    if (thread?.loading) {
+      return;
+    }
+
+    // Nothing to fetch, just open the reply composer
+    if (replyCount === 0) {
+      setExpandedComments(prev => ({ ...prev, [activityId]: { replies: [], loading: false } }));
+      return;
+    }
+
+    // Prefetched thread, unless someone replied since
+    const prefetched = prefetchedReplies[activityId];
+    if (prefetched && prefetched.length === replyCount) {
+      setExpandedComments(prev => ({ ...prev, [activityId]: { replies: prefetched, loading: false } }));
       return;
     }
     
     setExpandedComments(prev => ({ ...prev, [activityId]: { replies: [], loading: true } }));
     
     try {
-      // Pass access token if available to get isLiked status for replies
-      const token = typeof window !== 'undefined' ? localStorage.getItem('anilist_access_token') : null;
-      const replies = await fetchActivityReplies(activityId, token || undefined);
+      // The session cookie (if logged in) provides the isLiked status for replies
+      const replies = await fetchActivityReplies(activityId);
       setExpandedComments(prev => ({ 
         ...prev, 
         [activityId]: { 
@@ -888,77 +1062,215 @@ export default function HomePage() {
         } 
       }));
     }
-  }, [expandedComments, activities]);
+  }, [expandedComments, activities, prefetchedReplies]);
+
+  const handleComposeError = useCallback((error: unknown) => {
+    // Expired sessions are handled by AuthContext, rate limits and other
+    // HTTP errors are already shown by handleHttpError in lib/anilist.ts
+    if (error instanceof TypeError) {
+      showToast('Network error. Nothing was posted.', 'error');
+    }
+  }, [showToast]);
+
+  const updateReplyCount = useCallback((activityId: number, delta: number) => {
+    setActivities(prev => prev.map(activity =>
+      activity.id === activityId
+        ? { ...activity, replyCount: Math.max((activity.replyCount || 0) + delta, 0) }
+        : activity
+    ));
+  }, []);
+
+  const handlePostReply = useCallback(async (activityId: number, text: string) => {
+    setPostingReplyFor(activityId);
+    try {
+      const reply = await saveActivityReply(activityId, text);
+      setExpandedComments(prev => ({
+        ...prev,
+        [activityId]: {
+          replies: [...(prev[activityId]?.replies || []), reply],
+          loading: false
+        }
+      }));
+      updateReplyCount(activityId, 1);
+      return true;
+    } catch (error) {
+      handleComposeError(error);
+      return false;
+    } finally {
+      setPostingReplyFor(null);
+    }
+  }, [handleComposeError, updateReplyCount]);
+
+  const handleEditReply = useCallback(async (activityId: number, replyId: number, text: string) => {
+    setPostingReplyFor(activityId);
+    try {
+      const saved = await saveActivityReply(activityId, text, replyId);
+      setExpandedComments(prev => {
+        const activityComments = prev[activityId];
+        if (!activityComments) return prev;
+        return {
+          ...prev,
+          [activityId]: {
+            ...activityComments,
+            replies: activityComments.replies.map(reply => reply.id === replyId ? { ...reply, ...saved } : reply)
+          }
+        };
+      });
+      setEditingReplyId(null);
+      return true;
+    } catch (error) {
+      handleComposeError(error);
+      return false;
+    } finally {
+      setPostingReplyFor(null);
+    }
+  }, [handleComposeError]);
+
+  const handleDeleteReply = useCallback(async (activityId: number, replyId: number) => {
+    if (!confirm('Delete this comment?')) return;
+
+    setDeletingReplyId(replyId);
+    try {
+      const deleted = await deleteActivityReply(replyId);
+      if (!deleted) {
+        showToast('AniList did not delete the comment.', 'error');
+        return;
+      }
+      setExpandedComments(prev => {
+        const activityComments = prev[activityId];
+        if (!activityComments) return prev;
+        return {
+          ...prev,
+          [activityId]: {
+            ...activityComments,
+            replies: activityComments.replies.filter(reply => reply.id !== replyId)
+          }
+        };
+      });
+      updateReplyCount(activityId, -1);
+    } catch (error) {
+      handleComposeError(error);
+    } finally {
+      setDeletingReplyId(null);
+    }
+  }, [showToast, handleComposeError, updateReplyCount]);
+
+  // Statuses are shown right away on our own timelines (following feed or own profile)
+  const handlePostStatus = useCallback(async (text: string) => {
+    setPostingStatus(true);
+    try {
+      const activity = await saveTextActivity(text);
+      if (timeline === 'following' || user?.id === activity.userId) {
+        setActivities(prev => [activity, ...prev]);
+      }
+      showToast('Status posted', 'success');
+      return true;
+    } catch (error) {
+      handleComposeError(error);
+      return false;
+    } finally {
+      setPostingStatus(false);
+    }
+  }, [timeline, user, showToast, handleComposeError]);
+
+  // Filters apply to whichever timeline is shown
+  const hasTimeline = timeline === 'following' ? isAuthenticated : !!user;
 
   return (
     <>
-      <div className={styles.searchSection}>
-        <div className={styles.searchBox}>
-          <input
-            type="text"
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
-            placeholder="AniList username"
-            className={styles.searchInput}
-            autoComplete="off"
-            data-1p-ignore
-            data-lpignore="true"
-            data-bwignore="true"
-            data-form-type="other"
-          />
-          <button 
-            onClick={handleSearch} 
-            disabled={loading}
-            className={styles.searchButton}
+      {isAuthenticated && (
+        <div className={styles.timelineToggle}>
+          <button
+            onClick={() => handleTimelineChange('user')}
+            className={`${styles.timelineButton} ${timeline === 'user' ? styles.timelineButtonActive : ''}`}
+          >
+            👤 User
+          </button>
+          <button
+            onClick={() => handleTimelineChange('following')}
+            className={`${styles.timelineButton} ${timeline === 'following' ? styles.timelineButtonActive : ''}`}
+            title="Activities from everyone you follow"
           >
-            {loading ? 'Loading...' : 'Search'}
+            👥 Following
           </button>
         </div>
-        
-        {savedUsers.length > 0 && (
-          <div className={styles.savedUsersSection}>
-            <div className={styles.savedUsersHeader}>
-              <span className={styles.savedUsersTitle}>Recent Users</span>
-            </div>
-            <div className={styles.savedUsersList}>
-              {savedUsers.map((savedUser) => (
-                <div key={savedUser.id} className={styles.savedUserItem}>
-                  <button
-                    onClick={() => loadSavedUser(savedUser)}
-                    className={styles.savedUserButton}
-                    title={`Load ${savedUser.name}`}
-                  >
-                    {savedUser.avatar && (
-                      <img 
-                        src={savedUser.avatar} 
-                        alt={savedUser.name}
-                        className={styles.savedUserAvatar}
-                        loading="lazy"
-                      />
-                    )}
-                    <span className={styles.savedUserName}>{savedUser.name}</span>
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      removeSavedUser(savedUser.id);
-                    }}
-                    className={styles.removeUserButton}
-                    title={`Remove ${savedUser.name}`}
-                    aria-label={`Remove ${savedUser.name}`}
-                  >
-                    ×
-                  </button>
-                </div>
-              ))}
-            </div>
+      )}
+
+      {timeline === 'following' && !isAuthenticated && (
+        <div className={styles.empty}>
+          Log in with AniList to see activities from the users you follow.
+        </div>
+      )}
+
+      {timeline === 'user' && (
+        <div className={styles.searchSection}>
+          <div className={styles.searchBox}>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
+              placeholder="AniList username"
+              className={styles.searchInput}
+              autoComplete="off"
+              data-1p-ignore
+              data-lpignore="true"
+              data-bwignore="true"
+              data-form-type="other"
+            />
+            <button 
+              onClick={handleSearch} 
+              disabled={loading}
+              className={styles.searchButton}
+            >
+              {loading ? 'Loading...' : 'Search'}
+            </button>
           </div>
-        )}
-      </div>
+          
+          {savedUsers.length > 0 && (
+            <div className={styles.savedUsersSection}>
+              <div className={styles.savedUsersHeader}>
+                <span className={styles.savedUsersTitle}>Recent Users</span>
+              </div>
+              <div className={styles.savedUsersList}>
+                {savedUsers.map((savedUser) => (
+                  <div key={savedUser.id} className={styles.savedUserItem}>
+                    <button
+                      onClick={() => loadSavedUser(savedUser)}
+                      className={styles.savedUserButton}
+                      title={`Load ${savedUser.name}`}
+                    >
+                      {savedUser.avatar && (
+                        <img 
+                          src={savedUser.avatar} 
+                          alt={savedUser.name}
+                          className={styles.savedUserAvatar}
+                          loading="lazy"
+                        />
+                      )}
+                      <span className={styles.savedUserName}>{savedUser.name}</span>
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeSavedUser(savedUser.id);
+                      }}
+                      className={styles.removeUserButton}
+                      title={`Remove ${savedUser.name}`}
+                      aria-label={`Remove ${savedUser.name}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
 
 
-      {user && (
+      {user && timeline === 'user' && (
         <div className={styles.userInfoPage}>
           <div className={styles.userInfoMain}>
             {user.avatar?.medium && (
@@ -970,6 +1282,9 @@ export default function HomePage() {
               />
             )}
             <span className={styles.userName}>{user.name}</span>
+            <Link href={`/anilist/user/${encodeURIComponent(user.name)}`} className={styles.userProfileLink}>
+              Full statistics →
+            </Link>
           </div>
           {user.statistics && (
             <div className={styles.userStats}>
@@ -1022,7 +1337,7 @@ export default function HomePage() {
         </div>
       )}
 
-      {user && (
+      {hasTimeline && (
         <div className={styles.filters}>
           <div className={styles.filterGroup}>
             <label>Type:</label>
@@ -1035,7 +1350,7 @@ export default function HomePage() {
                   setStatus('all');
                 }
                 // Save filters when they change
-                if (user) {
+                if (user && timeline === 'user') {
                   saveUserFilters(user.id, {
                     filter: newFilter,
                     status: (newFilter === 'list' || newFilter === 'list-anime' || newFilter === 'list-manga') ? status : 'all',
@@ -1064,7 +1379,7 @@ export default function HomePage() {
               onChange={(e) => {
                 setStatus(e.target.value);
                 // Save filters when they change
-                if (user) {
+                if (user && timeline === 'user') {
                   saveUserFilters(user.id, {
                     filter,
                     status: e.target.value,
@@ -1122,7 +1437,7 @@ export default function HomePage() {
                 const newDateFilter = e.target.value as 'all' | 'today' | 'yesterday' | 'week' | 'month' | 'custom';
                 setDateFilter(newDateFilter);
                 // Save filters when they change
-                if (user) {
+                if (user && timeline === 'user') {
                   saveUserFilters(user.id, {
                     filter,
                     status,
@@ -1154,7 +1469,7 @@ export default function HomePage() {
                   onChange={(e) => {
                     setCustomDateStart(e.target.value);
                     // Save filters when they change
-                    if (user) {
+                    if (user && timeline === 'user') {
                       saveUserFilters(user.id, {
                         filter,
                         status,
@@ -1175,7 +1490,7 @@ export default function HomePage() {
                   onChange={(e) => {
                     setCustomDateEnd(e.target.value);
                     // Save filters when they change
-                    if (user) {
+                    if (user && timeline === 'user') {
                       saveUserFilters(user.id, {
                         filter,
                         status,
@@ -1201,7 +1516,7 @@ export default function HomePage() {
                 const newSortBy = e.target.value as any;
                 setSortBy(newSortBy);
                 // Save filters when they change
-                if (user) {
+                if (user && timeline === 'user') {
                   saveUserFilters(user.id, {
                     filter,
                     status,
@@ -1267,7 +1582,7 @@ export default function HomePage() {
             <button 
               onClick={handleApplyFilters}
               className={styles.refreshFiltersButton}
-              disabled={loading || !user}
+              disabled={loading || !hasTimeline}
               title="Apply current filters"
             >
               ✓ Apply
@@ -1275,7 +1590,7 @@ export default function HomePage() {
             <button 
               onClick={handleResetFilters}
               className={styles.resetFiltersButton}
-              disabled={loading || !user}
+              disabled={loading || !hasTimeline}
               title="Reset all filters to default"
             >
               ↺ Reset
@@ -1347,9 +1662,11 @@ export default function HomePage() {
         <div className={styles.loading}>Loading...</div>
       )}
 
-      {!loading && activities.length === 0 && user && (
+      {!loading && activities.length === 0 && hasTimeline && (
         <div className={styles.empty}>
-          No activities found for this user.
+          {timeline === 'following'
+            ? 'No activities found from the users you follow.'
+            : 'No activities found for this user.'}
         </div>
       )}
 
@@ -1365,6 +1682,17 @@ export default function HomePage() {
         </div>
       )}
 
+      {isAuthenticated && (timeline === 'following' || (user && user.id === authUser?.id)) && (
+        <div className={styles.statusComposer}>
+          <ActivityComposer
+            placeholder="Write a status..."
+            submitLabel="Post"
+            submitting={postingStatus}
+            onSubmit={handlePostStatus}
+          />
+        </div>
+      )}
+
       <div className={`${styles.activitiesList} ${compactMode ? styles.activitiesListCompact : ''}`}>
           {filteredAndSortedActivities.map((activity) => (
             <div key={activity.id} className={`${styles.activityCard} ${compactMode ? styles.compactMode : ''}`}>
@@ -1381,6 +1709,14 @@ export default function HomePage() {
                   <div>
                     <div className={styles.activityUserName}>
                       {activity.user?.name || (activity.userId ? `User ${activity.userId}` : 'AniList')}
+                      {isAuthenticated && activity.user && activity.user.id !== authUser?.id && (
+                        <FollowButton
+                          userId={activity.user.id}
+                          userName={activity.user.name}
+                          isFollowing={followOverrides[activity.user.id] ?? !!activity.user.isFollowing}
+                          onChange={handleFollowChange}
+                        />
+                      )}
                     </div>
                     <div className={styles.activityMeta}>
                       <span 
@@ -1397,7 +1733,7 @@ export default function HomePage() {
                 </div>
                 <div className={styles.activityStats}>
                   <div className={styles.statGroup}>
-                    {accessToken && (
+                    {isAuthenticated && (
                       <button
                         onClick={() => handleLike(activity.id)}
                         disabled={likingActivityId === activity.id}
@@ -1407,7 +1743,7 @@ export default function HomePage() {
                         {activity.isLiked ? '❤️' : '🤍'} {activity.likeCount || 0}
                       </button>
                     )}
-                    {!accessToken && activity.likeCount !== undefined && activity.likeCount > 0 && (
+                    {!isAuthenticated && activity.likeCount !== undefined && activity.likeCount > 0 && (
                       <span className={styles.stat}>❤️ {activity.likeCount}</span>
                     )}
                     {activity.replyCount !== undefined && activity.replyCount > 0 && (
@@ -1427,11 +1763,9 @@ export default function HomePage() {
               </div>
 
               {(activity.text || activity.message) && (
-                <div 
+                <ActivityHtml
                   className={styles.activityText}
-                  dangerouslySetInnerHTML={{ 
-                    __html: activity.text || activity.message || '' 
-                  }}
+                  html={activity.text || activity.message || ''}
                 />
               )}
 
@@ -1468,19 +1802,29 @@ export default function HomePage() {
                         Progress: {activity.progress}
                       </div>
                     )}
+                    {isAuthenticated && (
+                      <QuickProgress
+                        media={activity.media}
+                        title={activity.media.title?.romaji || activity.media.title?.english || 'Untitled'}
+                        entry={activity.media.id in listEntryOverrides
+                          ? listEntryOverrides[activity.media.id]
+                          : activity.media.mediaListEntry ?? null}
+                        onChange={handleListEntryChange}
+                      />
+                    )}
                   </div>
                 </div>
               )}
 
-              {activity.replyCount !== undefined && activity.replyCount > 0 && (
+              {((activity.replyCount !== undefined && activity.replyCount > 0) || isAuthenticated) && (
                 <div className={styles.commentsSection}>
                   <div 
                     className={styles.commentsHeader}
                     onClick={() => loadComments(activity.id)}
                   >
-                    💬 {activity.replyCount} comment(s)
+                    {activity.replyCount ? `💬 ${activity.replyCount} comment(s)` : '💬 Reply'}
                     {expandedComments[activity.id]?.loading && ' - Loading...'}
-                    {expandedComments[activity.id]?.replies && expandedComments[activity.id].replies.length > 0 && ' ▼'}
+                    {expandedComments[activity.id] && !expandedComments[activity.id].loading && ' ▼'}
                     {!expandedComments[activity.id] && ' ▶'}
                   </div>
                   
@@ -1507,12 +1851,20 @@ export default function HomePage() {
                               <span className={styles.commentUserName}>
                                 {reply.user?.name || 'User'}
                               </span>
+                              {isAuthenticated && reply.user && reply.user.id !== authUser?.id && (
+                                <FollowButton
+                                  userId={reply.user.id}
+                                  userName={reply.user.name}
+                                  isFollowing={followOverrides[reply.user.id] ?? !!reply.user.isFollowing}
+                                  onChange={handleFollowChange}
+                                />
+                              )}
                               <span className={styles.commentDate}>
                                 {formatDate(reply.createdAt)}
                               </span>
                             </div>
                             <div className={styles.commentStats}>
-                              {accessToken && (
+                              {isAuthenticated && (
                                 <button
                                   onClick={() => handleReplyLike(reply.id, activity.id)}
                                   disabled={likingReplyId === reply.id}
@@ -1522,31 +1874,64 @@ export default function HomePage() {
                                   {reply.isLiked ? '❤️' : '🤍'} {reply.likeCount || 0}
                                 </button>
                               )}
-                              {!accessToken && reply.likeCount !== undefined && reply.likeCount > 0 && (
+                              {!isAuthenticated && reply.likeCount !== undefined && reply.likeCount > 0 && (
                                 <span className={styles.commentLikes}>
                                   ❤️ {reply.likeCount}
                                 </span>
                               )}
                             </div>
                           </div>
-                          {(reply.text || reply.comment) && (
-                            <div 
+                          {editingReplyId === reply.id ? (
+                            <ActivityComposer
+                              initialText={reply.rawText || ''}
+                              placeholder="Edit your comment..."
+                              submitLabel="Save"
+                              submitting={postingReplyFor === activity.id}
+                              onSubmit={(text) => handleEditReply(activity.id, reply.id, text)}
+                              onCancel={() => setEditingReplyId(null)}
+                            />
+                          ) : (reply.text || reply.comment) && (
+                            <ActivityHtml
                               className={styles.commentText}
-                              dangerouslySetInnerHTML={{ 
-                                __html: reply.text || reply.comment || '' 
-                              }}
+                              html={reply.text || reply.comment || ''}
                             />
                           )}
+                          {isAuthenticated && authUser && (reply.userId || reply.user?.id) === authUser.id && editingReplyId !== reply.id && (
+                            <div className={styles.commentActions}>
+                              <button
+                                onClick={() => setEditingReplyId(reply.id)}
+                                className={styles.commentActionButton}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDeleteReply(activity.id, reply.id)}
+                                disabled={deletingReplyId === reply.id}
+                                className={styles.commentActionButton}
+                              >
+                                {deletingReplyId === reply.id ? 'Deleting...' : 'Delete'}
+                              </button>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
                   )}
                   
-                  {expandedComments[activity.id] && !expandedComments[activity.id].loading && expandedComments[activity.id].replies.length === 0 && (
+                  {expandedComments[activity.id] && !expandedComments[activity.id].loading && expandedComments[activity.id].replies.length === 0 && !!activity.replyCount && (
                     <div className={styles.commentsEmpty}>
                       No comments available or error loading. Check the console (F12) for more details.
                     </div>
                   )}
+
+                  {isAuthenticated && expandedComments[activity.id] && !expandedComments[activity.id].loading && (
+                    <ActivityComposer
+                      placeholder="Write a comment..."
+                      submitLabel="Reply"
+                      submitting={postingReplyFor === activity.id}
+                      onSubmit={(text) => handlePostReply(activity.id, text)}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useCallback, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { diffMalImport, applyListEntriesBatch } from '@/lib/anilist';
+import { MalImportDiff, MalApplyEntry, ListState } from '@/lib/anilist-mal';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import styles from './import.module.css';
+
+// Must match the batch size accepted by /api/anilist/media-list-entries
+const APPLY_BATCH_SIZE = 10;
+// Pause between batches so other pages keep some of the rate limit
+const BATCH_PAUSE_MS = 2000;
+
+interface ApplyProgress {
+  done: number;
+  failed: number;
+  total: number;
+  waitingSeconds: number | null; // Set while waiting out a rate limit
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatEnumLabel = (value: string) =>
+  value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+const formatState = (state: ListState, type: MalImportDiff['type']) =>
+  `${formatEnumLabel(state.status)} · ${state.score ? `${state.score / 10}/10` : 'no score'} · ${state.progress} ${type === 'ANIME' ? 'ep' : 'ch'}`;
+
+function ImportContent() {
+  const searchParams = useSearchParams();
+  const { isAuthenticated } = useAuth();
+  const { showToast } = useToast();
+  const [username, setUsername] = useState<string>(searchParams.get('username') || '');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [diff, setDiff] = useState<MalImportDiff | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState<ApplyProgress | null>(null);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    const message = err instanceof Error ? err.message : fallback;
+    // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    return message;
+  }, [showToast]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    setSelected(new Set());
+    setProgress(null);
+    try {
+      const xml = await file.text();
+      const result = await diffMalImport(xml, username.trim() || undefined);
+      setDiff(result);
+    } catch (err) {
+      setError(handleError(err, 'Failed to compare this export'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (mediaId: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(mediaId)) {
+        next.delete(mediaId);
+      } else {
+        next.add(mediaId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (mediaIds: number[]) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const allSelected = mediaIds.every((id) => next.has(id));
+      for (const id of mediaIds) {
+        if (allSelected) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Write the selected MAL entries to the viewer's list, one batch at a time.
+   * Rate-limited batches are resent (minus what was saved) after the delay
+   * given by the server.
+   */
+  const handleApply = async () => {
+    if (!diff) return;
+
+    const queue: MalApplyEntry[] = [...diff.onlyInMal, ...diff.differing]
+      .filter((item) => selected.has(item.mediaId))
+      .map((item) => ({ ...item.mal, mediaId: item.mediaId }));
+    if (queue.length === 0) return;
+
+    const applied = new Set<number>();
+    let failed = 0;
+    setProgress({ done: 0, failed: 0, total: queue.length, waitingSeconds: null });
+
+    try {
+      while (queue.length > 0) {
+        const batch = queue.slice(0, APPLY_BATCH_SIZE);
+        const { results, retryAfter } = await applyListEntriesBatch(batch);
+
+        for (const result of results) {
+          if (result.ok) {
+            applied.add(result.mediaId);
+          } else {
+            failed++;
+          }
+        }
+        queue.splice(0, results.length);
+        setProgress({ done: applied.size + failed, failed, total: applied.size + failed + queue.length, waitingSeconds: retryAfter ?? null });
+
+        if (queue.length === 0) break;
+        await sleep(retryAfter !== undefined ? retryAfter * 1000 : BATCH_PAUSE_MS);
+        setProgress((prev) => prev && { ...prev, waitingSeconds: null });
+      }
+      showToast(
+        failed > 0 ? `Imported ${applied.size} entries, ${failed} failed` : `Imported ${applied.size} entries`,
+        failed > 0 ? 'warning' : 'success'
+      );
+    } catch (err) {
+      setError(handleError(err, 'Failed to apply the import'));
+    } finally {
+      // Applied entries now match MAL
+      setDiff((prev) => prev && {
+        ...prev,
+        onlyInMal: prev.onlyInMal.filter((item) => !applied.has(item.mediaId)),
+        differing: prev.differing.filter((item) => !applied.has(item.mediaId)),
+      });
+      setSelected((prev) => new Set([...prev].filter((id) => !applied.has(id))));
+      setProgress((prev) => prev && { ...prev, waitingSeconds: null });
+    }
+  };
+
+  const applying = progress !== null && progress.done < progress.total;
+  const canApply = !!diff?.isViewer && isAuthenticated;
+
+  return (
+    <div className={styles.importContainer}>
+      <section className={styles.uploadPanel}>
+        <h2>Import a MyAnimeList export</h2>
+        <p className={styles.hint}>
+          Export your list from MyAnimeList (XML, anime or manga) and pick the file below.
+          Titles are matched to AniList by their MAL ID.
+        </p>
+        <div className={styles.uploadRow}>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder={isAuthenticated ? 'AniList username (default: you)' : 'AniList username'}
+            className={styles.usernameInput}
+            disabled={loading || applying}
+          />
+          <label className={styles.fileButton}>
+            {fileName || 'Choose MAL XML file'}
+            <input
+              type="file"
+              accept=".xml,application/xml,text/xml"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              disabled={loading || applying}
+              hidden
+            />
+          </label>
+        </div>
+      </section>
+
+      {loading && <div className={styles.loading}>Comparing lists...</div>}
+      {error && <div className={styles.error}>{error}</div>}
+
+      {diff && !loading && (
+        <>
+          <div className={styles.summary}>
+            <span>
+              {formatEnumLabel(diff.type)} list of{' '}
+              <Link href={`/anilist/user/${encodeURIComponent(diff.userName)}`}>{diff.userName}</Link>
+            </span>
+            {canApply ? (
+              <button
+                type="button"
+                className={styles.applyButton}
+                onClick={handleApply}
+                disabled={applying || selected.size === 0}
+              >
+                {applying ? 'Applying...' : `Apply ${selected.size} selected to AniList`}
+              </button>
+            ) : (
+              <span className={styles.hint}>Log in as {diff.userName} to apply differences.</span>
+            )}
+          </div>
+
+          {progress && (
+            <div className={styles.progress}>
+              <div className={styles.progressTrack}>
+                <div className={styles.progressBar} style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <span>
+                {progress.done}/{progress.total} saved
+                {progress.failed > 0 && ` · ${progress.failed} failed`}
+                {progress.waitingSeconds !== null && ` · rate limited, resuming in ${progress.waitingSeconds}s`}
+              </span>
+            </div>
+          )}
+
+          {diff.unmapped.length > 0 && (
+            <details className={styles.unmapped}>
+              <summary>{diff.unmapped.length} MAL titles have no AniList equivalent</summary>
+              <ul>
+                {diff.unmapped.map((item) => (
+                  <li key={item.idMal}>{item.title} (MAL #{item.idMal})</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className={styles.columns}>
+            <section className={styles.column}>
+              <div className={styles.columnHeader}>
+                <h3>Only in MAL ({diff.onlyInMal.length})</h3>
+                {canApply && diff.onlyInMal.length > 0 && (
+                  <button type="button" className={styles.selectAll} onClick={() => toggleAll(diff.onlyInMal.map((item) => item.mediaId))}>
+                    Select all
+                  </button>
+                )}
+              </div>
+              {diff.onlyInMal.map((item) => (
+                <label key={item.mediaId} className={styles.row}>
+                  {canApply && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.mediaId)}
+                      onChange={() => toggleSelected(item.mediaId)}
+                      disabled={applying}
+                    />
+                  )}
+                  {item.coverImage && <img src={item.coverImage} alt="" className={styles.cover} />}
+                  <div className={styles.rowText}>
+                    <span className={styles.rowTitle}>{item.title}</span>
+                    <span className={styles.rowState}>{formatState(item.mal, diff.type)}</span>
+                  </div>
+                </label>
+              ))}
+            </section>
+
+            <section className={styles.column}>
+              <div className={styles.columnHeader}>
+                <h3>Only in AniList ({diff.onlyInAniList.length})</h3>
+              </div>
+              {diff.onlyInAniList.map((item) => (
+                <div key={item.mediaId} className={styles.row}>
+                  {item.coverImage && <img src={item.coverImage} alt="" className={styles.cover} />}
+                  <div className={styles.rowText}>
+                    <span className={styles.rowTitle}>{item.title}</span>
+                    <span className={styles.rowState}>{formatState(item.anilist, diff.type)}</span>
+                  </div>
+                </div>
+              ))}
+            </section>
+
+            <section className={styles.column}>
+              <div className={styles.columnHeader}>
+                <h3>Different ({diff.differing.length})</h3>
+                {canApply && diff.differing.length > 0 && (
+                  <button type="button" className={styles.selectAll} onClick={() => toggleAll(diff.differing.map((item) => item.mediaId))}>
+                    Select all
+                  </button>
+                )}
+              </div>
+              {diff.differing.map((item) => (
+                <label key={item.mediaId} className={styles.row}>
+                  {canApply && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.mediaId)}
+                      onChange={() => toggleSelected(item.mediaId)}
+                      disabled={applying}
+                    />
+                  )}
+                  {item.coverImage && <img src={item.coverImage} alt="" className={styles.cover} />}
+                  <div className={styles.rowText}>
+                    <span className={styles.rowTitle}>{item.title}</span>
+                    <span className={styles.rowState}>MAL: {formatState(item.mal, diff.type)}</span>
+                    <span className={styles.rowState}>AniList: {formatState(item.anilist, diff.type)}</span>
+                    <span className={styles.differences}>
+                      {item.differences.map((field) => formatEnumLabel(field)).join(', ')} differ
+                    </span>
+                  </div>
+                </label>
+              ))}
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * MyAnimeList import: compare an uploaded MAL XML export with an AniList list
+ * and, for the logged-in user's own list, apply the selected differences.
+ */
+export default function ImportPage() {
+  return (
+    <Suspense fallback={<div className={styles.loading}>Loading...</div>}>
+      <ImportContent />
+    </Suspense>
+  );
+}
@@ -5,6 +5,10 @@ import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ApiRequestProvider, useApiRequest } from './contexts/ApiRequestContext';
 import { ToastProvider } from './contexts/ToastContext';
+import { AuthProvider, useAuth, RELOGIN_SCROLL_KEY } from './contexts/AuthContext';
+import NotificationsPanel from './NotificationsPanel';
+import AccountSwitcher from './AccountSwitcher';
+import SessionBanner from './SessionBanner';
 import styles from './anilist.module.css';
 
 const THEME_KEY = 'anilist_theme';
@@ -12,39 +16,27 @@ const COLOR_THEME_KEY = 'anilist_color_theme';
 const BACKGROUND_IMAGE_KEY = 'anilist_background_image';
 const BACKGROUND_IMAGE_POSITION_KEY = 'anilist_background_image_position';
 const BACKGROUND_IMAGE_ZOOM_KEY = 'anilist_background_image_zoom';
-const AUTH_TOKEN_KEY = 'anilist_access_token';
-const AUTH_USER_KEY = 'anilist_user';
 
 export type ColorTheme = 'magical-blue' | 'forest-green' | 'twilight-purple' | 'ice-blue' | 'sunset-orange' | 'default';
+export type AniListTab = 'home' | 'search' | 'compare' | 'airing';
 export type BackgroundImagePosition = 'center' | 'left' | 'right' | 'top' | 'bottom' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
 
-interface AuthUser {
-  id: number;
-  name: string;
-  avatar?: {
-    large?: string;
-    medium?: string;
-  };
-}
-
 export default function AniListLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const [activeTab, setActiveTab] = useState<'home' | 'search' | 'compare'>('home');
+  const [activeTab, setActiveTab] = useState<AniListTab>('home');
   const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
   const [colorTheme, setColorTheme] = useState<ColorTheme>('default');
   const [backgroundImage, setBackgroundImage] = useState<string>('');
   const [backgroundImagePosition, setBackgroundImagePosition] = useState<BackgroundImagePosition>('center');
   const [backgroundImageZoom, setBackgroundImageZoom] = useState<number>(100);
   const [showThemeSelector, setShowThemeSelector] = useState<boolean>(false);
-  const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
   const pathname = usePathname();
   const router = useRouter();
 
-  // Load theme and auth token from localStorage
+  // Load theme from localStorage
   useEffect(() => {
     if (typeof window !== 'undefined' && typeof document !== 'undefined') {
       const savedTheme = localStorage.getItem(THEME_KEY);
@@ -90,28 +82,17 @@ export default function AniListLayout({
       } else {
         document.documentElement.style.setProperty('--background-image-zoom', '100');
       }
-
-      const savedToken = localStorage.getItem(AUTH_TOKEN_KEY);
-      const savedUser = localStorage.getItem(AUTH_USER_KEY);
-      if (savedToken) {
-        setAccessToken(savedToken);
-      }
-      if (savedUser) {
-        try {
-          setAuthUser(JSON.parse(savedUser));
-        } catch (e) {
-          console.error('Error parsing saved user:', e);
-        }
-      }
     }
   }, []);
 
   // Sync active tab with URL
   useEffect(() => {
-    if (pathname === '/anilist/search') {
+    if (pathname === '/anilist/search' || pathname.startsWith('/anilist/media/')) {
       setActiveTab('search');
     } else if (pathname === '/anilist/compare') {
       setActiveTab('compare');
+    } else if (pathname === '/anilist/airing') {
+      setActiveTab('airing');
     } else {
       setActiveTab('home');
     }
@@ -189,55 +170,44 @@ export default function AniListLayout({
     }
   };
 
-  const handleTabChange = (tab: 'home' | 'search' | 'compare') => {
+  const handleTabChange = (tab: AniListTab) => {
     setActiveTab(tab);
     if (tab === 'search') {
       router.push('/anilist/search');
     } else if (tab === 'compare') {
       router.push('/anilist/compare');
+    } else if (tab === 'airing') {
+      router.push('/anilist/airing');
     } else {
       router.push('/anilist/home');
     }
   };
 
-  const handleLogin = () => {
-    window.location.href = '/api/anilist/auth/authorize';
-  };
-
-  const handleLogout = () => {
-    localStorage.removeItem(AUTH_TOKEN_KEY);
-    localStorage.removeItem(AUTH_USER_KEY);
-    setAccessToken(null);
-    setAuthUser(null);
-  };
-
   return (
     <ApiRequestProvider>
       <ToastProvider>
-        <Suspense fallback={<div>Loading...</div>}>
-          <AniListLayoutContent
-            activeTab={activeTab}
-            isDarkMode={isDarkMode}
-            colorTheme={colorTheme}
-            backgroundImage={backgroundImage}
-            showThemeSelector={showThemeSelector}
-            authUser={authUser}
-            accessToken={accessToken}
-            onTabChange={handleTabChange}
-            onToggleDarkMode={toggleDarkMode}
-            onColorThemeChange={handleColorThemeChange}
-          onBackgroundImageChange={handleBackgroundImageChange}
-          backgroundImagePosition={backgroundImagePosition}
-          backgroundImageZoom={backgroundImageZoom}
-          onBackgroundImagePositionChange={handleBackgroundImagePositionChange}
-          onBackgroundImageZoomChange={handleBackgroundImageZoomChange}
-          onToggleThemeSelector={() => setShowThemeSelector(!showThemeSelector)}
-            onLogin={handleLogin}
-            onLogout={handleLogout}
-          >
-            {children}
-          </AniListLayoutContent>
-        </Suspense>
+        <AuthProvider>
+          <Suspense fallback={<div>Loading...</div>}>
+            <AniListLayoutContent
+              activeTab={activeTab}
+              isDarkMode={isDarkMode}
+              colorTheme={colorTheme}
+              backgroundImage={backgroundImage}
+              showThemeSelector={showThemeSelector}
+              onTabChange={handleTabChange}
+              onToggleDarkMode={toggleDarkMode}
+              onColorThemeChange={handleColorThemeChange}
+            onBackgroundImageChange={handleBackgroundImageChange}
+            backgroundImagePosition={backgroundImagePosition}
+            backgroundImageZoom={backgroundImageZoom}
+            onBackgroundImagePositionChange={handleBackgroundImagePositionChange}
+            onBackgroundImageZoomChange={handleBackgroundImageZoomChange}
+            onToggleThemeSelector={() => setShowThemeSelector(!showThemeSelector)}
+            >
+              {children}
+            </AniListLayoutContent>
+          </Suspense>
+        </AuthProvider>
       </ToastProvider>
     </ApiRequestProvider>
   );
@@ -251,8 +221,6 @@ function AniListLayoutContent({
   backgroundImagePosition,
   backgroundImageZoom,
   showThemeSelector,
-  authUser,
-  accessToken,
   onTabChange,
   onToggleDarkMode,
   onColorThemeChange,
@@ -260,34 +228,30 @@ function AniListLayoutContent({
   onBackgroundImagePositionChange,
   onBackgroundImageZoomChange,
   onToggleThemeSelector,
-  onLogin,
-  onLogout,
   children,
 }: {
-  activeTab: 'home' | 'search';
+  activeTab: AniListTab;
   isDarkMode: boolean;
   colorTheme: ColorTheme;
   backgroundImage: string;
   backgroundImagePosition: BackgroundImagePosition;
   backgroundImageZoom: number;
   showThemeSelector: boolean;
-  authUser: AuthUser | null;
-  accessToken: string | null;
-  onTabChange: (tab: 'home' | 'search' | 'compare') => void;
+  onTabChange: (tab: AniListTab) => void;
   onToggleDarkMode: () => void;
   onColorThemeChange: (theme: ColorTheme) => void;
   onBackgroundImageChange: (imageUrl: string) => void;
   onBackgroundImagePositionChange: (position: BackgroundImagePosition) => void;
   onBackgroundImageZoomChange: (zoom: number) => void;
   onToggleThemeSelector: () => void;
-  onLogin: () => void;
-  onLogout: () => void;
   children: React.ReactNode;
 }) {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const pathname = usePathname();
   const themeSelectorRef = useRef<HTMLDivElement>(null);
   const { requestCount, resetRequestCount } = useApiRequest();
+  const { authUser, login, logout, refreshSession } = useAuth();
 
   // Close theme selector when clicking outside
   useEffect(() => {
@@ -305,51 +269,27 @@ function AniListLayoutContent({
     }
   }, [showThemeSelector, onToggleThemeSelector]);
 
-  // Handle OAuth callback
+  // Handle OAuth callback: the server has already set the session cookie and
+  // redirected back to the page the login started from
   useEffect(() => {
     if (typeof window !== 'undefined') {
       const authSuccess = searchParams.get('auth_success');
-      const token = searchParams.get('token');
       
-      if (authSuccess === 'true' && token) {
-        // Store token
-        localStorage.setItem(AUTH_TOKEN_KEY, token);
-        
-        // Fetch user info
-        fetch('https://graphql.anilist.co', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            query: `
-              query {
-                Viewer {
-                  id
-                  name
-                  avatar {
-                    large
-                    medium
-                  }
-                }
-              }
-            `,
-          }),
-        })
-          .then(res => res.json())
-          .then(data => {
-            if (data.data?.Viewer) {
-              const user = data.data.Viewer;
-              localStorage.setItem(AUTH_USER_KEY, JSON.stringify(user));
-              window.location.reload(); // Reload to update state
-            }
-          })
-          .catch(err => console.error('Error fetching user info:', err));
+      if (authSuccess === 'true') {
+        refreshSession();
         
         // Clean URL
-        router.replace('/anilist/home');
+        const params = new URLSearchParams(searchParams.toString());
+        params.delete('auth_success');
+        const path = pathname === '/anilist' ? '/anilist/home' : pathname;
+        router.replace(params.size > 0 ? `${path}?${params}` : path, { scroll: false });
+
+        // Back to where the page was scrolled before re-logging in (once its content is there)
+        const scrollY = parseInt(sessionStorage.getItem(RELOGIN_SCROLL_KEY) || '', 10);
+        sessionStorage.removeItem(RELOGIN_SCROLL_KEY);
+        if (!isNaN(scrollY)) {
+          setTimeout(() => window.scrollTo({ top: scrollY }), 500);
+        }
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -367,18 +307,14 @@ function AniListLayoutContent({
             {authUser ? (
               <>
                 <div className={styles.userInfo}>
-                  {authUser.avatar?.medium && (
-                    <img 
-                      src={authUser.avatar.medium} 
-                      alt={authUser.name}
-                      className={styles.userAvatarSmall}
-                      loading="lazy"
-                    />
-                  )}
-                  <span className={styles.userNameSmall}>{authUser.name}</span>
+                  <AccountSwitcher />
+                  <Link href="/anilist/social" className={styles.socialLink} title="Followers & following">
+                    👥
+                  </Link>
+                  <NotificationsPanel />
                 </div>
                 <button 
-                  onClick={onLogout}
+                  onClick={logout}
                   className={styles.logoutButton}
                   title="Logout"
                 >
@@ -387,7 +323,7 @@ function AniListLayoutContent({
               </>
             ) : (
               <button 
-                onClick={onLogin}
+                onClick={login}
                 className={styles.loginButton}
               >
                 Login
@@ -575,9 +511,17 @@ function AniListLayoutContent({
           >
             Compare
           </button>
+          <button
+            onClick={() => onTabChange('airing')}
+            className={`${styles.tab} ${activeTab === 'airing' ? styles.tabActive : ''}`}
+          >
+            Airing
+          </button>
         </nav>
       </header>
 
+      <SessionBanner />
+
       <main className={styles.main}>
         {children}
       </main>
@@ -0,0 +1,492 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { fetchMediaDetails, getFollowedUsersScores, MediaDetails, Media, UserMediaScore } from '@/lib/anilist';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import FollowedScoresSummary from '../../search/FollowedScoresSummary';
+import FollowedScoresList from '../../search/FollowedScoresList';
+import searchStyles from '../../search/search.module.css';
+import styles from '../media.module.css';
+
+// Characters and staff shown before "Show all"
+const PREVIEW_COUNT = 12;
+
+const STATUS_COLORS: Record<string, string> = {
+  CURRENT: '#68d639',
+  PLANNING: '#02a9ff',
+  COMPLETED: '#9256f3',
+  DROPPED: '#f779a4',
+  PAUSED: '#e85d75',
+  REPEATING: '#f7bf63',
+};
+
+const formatEnumLabel = (value?: string) => {
+  if (!value) return 'Unknown';
+  return value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+};
+
+const formatDate = (date?: { year?: number; month?: number; day?: number }) => {
+  if (!date?.year) return null;
+  const parts: (number | string)[] = [date.year];
+  if (date.month) parts.push(String(date.month).padStart(2, '0'));
+  if (date.day) parts.push(String(date.day).padStart(2, '0'));
+  return parts.join('-');
+};
+
+const getTitle = (media: Media) => media.title.userPreferred || media.title.romaji || media.title.english || 'Untitled';
+
+/**
+ * Small cover card linking to another media page (relations, recommendations).
+ */
+function MediaCard({ media, label }: { media: Media; label: string }) {
+  return (
+    <Link href={`/anilist/media/${media.id}`} className={styles.mediaCard}>
+      {media.coverImage?.medium && (
+        <img src={media.coverImage.medium} alt="" className={styles.mediaCardCover} loading="lazy" />
+      )}
+      <div className={styles.mediaCardInfo}>
+        <span className={styles.mediaCardLabel}>{label}</span>
+        <span className={styles.mediaCardTitle}>{getTitle(media)}</span>
+        <span className={styles.muted}>
+          {[formatEnumLabel(media.format || media.type), media.startDate?.year].filter(Boolean).join(' · ')}
+        </span>
+      </div>
+    </Link>
+  );
+}
+
+/**
+ * Dedicated media page: everything from the search page details panel plus
+ * characters, staff, studios, relations, recommendations, distributions and
+ * tags, with the followed users' scores when logged in.
+ */
+export default function MediaPage() {
+  const params = useParams<{ id: string }>();
+  const mediaId = parseInt(params.id, 10);
+  const { showToast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const [details, setDetails] = useState<MediaDetails | null>(null);
+  // Media ID of `details` (or of the error); loading while it differs from the URL
+  const [loadedId, setLoadedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [followedScores, setFollowedScores] = useState<UserMediaScore[]>([]);
+  const [scoresLoadedId, setScoresLoadedId] = useState<number | null>(null);
+  const [scoresError, setScoresError] = useState<string | null>(null);
+  const [showSpoilers, setShowSpoilers] = useState<boolean>(false);
+  const [showAllCharacters, setShowAllCharacters] = useState<boolean>(false);
+  const [showAllStaff, setShowAllStaff] = useState<boolean>(false);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    const message = err instanceof Error ? err.message : fallback;
+    // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    return message;
+  }, [showToast]);
+
+  useEffect(() => {
+    if (isNaN(mediaId)) return;
+
+    let cancelled = false;
+    fetchMediaDetails(mediaId)
+      .then((result) => {
+        if (cancelled) return;
+        setDetails(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(handleError(err, 'Failed to load this media'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedId(mediaId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId, handleError]);
+
+  useEffect(() => {
+    if (isNaN(mediaId) || !isAuthenticated) return;
+
+    let cancelled = false;
+    getFollowedUsersScores(mediaId)
+      .then((scores) => {
+        if (cancelled) return;
+        setFollowedScores(scores || []);
+        setScoresError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setScoresError(handleError(err, 'Failed to load followed users scores'));
+      })
+      .finally(() => {
+        if (!cancelled) setScoresLoadedId(mediaId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId, isAuthenticated, handleError]);
+
+  if (isNaN(mediaId)) {
+    return <div className={searchStyles.error}>Invalid media ID</div>;
+  }
+
+  if (loadedId !== mediaId) {
+    return <div className={searchStyles.loadingScores}>Loading media...</div>;
+  }
+
+  if (error || !details || details.id !== mediaId) {
+    return <div className={searchStyles.error}>{error || 'Media not found'}</div>;
+  }
+
+  const media = details;
+  const tags = [...media.tags].sort((a, b) => (b.rank ?? 0) - (a.rank ?? 0));
+  const spoilerCount = tags.filter((tag) => tag.isGeneralSpoiler || tag.isMediaSpoiler).length;
+  const visibleTags = showSpoilers ? tags : tags.filter((tag) => !tag.isGeneralSpoiler && !tag.isMediaSpoiler);
+
+  const scoreDistribution = [...(media.stats?.scoreDistribution || [])].sort((a, b) => a.score - b.score);
+  const maxScoreAmount = Math.max(...scoreDistribution.map((item) => item.amount), 1);
+  const statusDistribution = media.stats?.statusDistribution || [];
+  const statusTotal = statusDistribution.reduce((sum, item) => sum + item.amount, 0);
+
+  const characters = showAllCharacters ? media.characters : media.characters.slice(0, PREVIEW_COUNT);
+  const staff = showAllStaff ? media.staff : media.staff.slice(0, PREVIEW_COUNT);
+  const mainStudios = media.studios.filter((studio) => studio.isMain);
+  const producers = media.studios.filter((studio) => !studio.isMain);
+  const scoresLoading = isAuthenticated && scoresLoadedId !== mediaId;
+
+  return (
+    <div className={searchStyles.mediaDetail}>
+      {media.bannerImage && (
+        <div
+          className={searchStyles.banner}
+          style={{ backgroundImage: `url(${media.bannerImage})` }}
+        />
+      )}
+
+      <div className={searchStyles.mediaContent}>
+        <div className={searchStyles.mediaHeader}>
+          {media.coverImage?.large && (
+            <img
+              src={media.coverImage.large}
+              alt={media.title.userPreferred || ''}
+              className={searchStyles.coverImage}
+            />
+          )}
+          <div className={searchStyles.mediaInfo}>
+            <h2 className={searchStyles.mediaTitle}>{getTitle(media)}</h2>
+            {media.title.native && media.title.native !== media.title.userPreferred && (
+              <p className={searchStyles.mediaNativeTitle}>{media.title.native}</p>
+            )}
+
+            <div className={searchStyles.mediaMeta}>
+              <span className={searchStyles.mediaTypeBadge} data-type={media.type.toLowerCase()}>
+                {media.type === 'ANIME' ? 'Anime' : 'Manga'}
+              </span>
+              {media.format && <span className={searchStyles.metaItem}>{formatEnumLabel(media.format)}</span>}
+              {media.status && <span className={searchStyles.metaItem}>{formatEnumLabel(media.status)}</span>}
+              {media.season && media.seasonYear && (
+                <span className={searchStyles.metaItem}>{formatEnumLabel(media.season)} {media.seasonYear}</span>
+              )}
+              {media.source && <span className={searchStyles.metaItem}>Source: {formatEnumLabel(media.source)}</span>}
+            </div>
+
+            <div className={searchStyles.mediaStats}>
+              {media.averageScore && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Average:</span>
+                  <span className={searchStyles.statValue}>{media.averageScore}%</span>
+                </div>
+              )}
+              {media.meanScore && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Mean:</span>
+                  <span className={searchStyles.statValue}>{media.meanScore}%</span>
+                </div>
+              )}
+              {media.popularity && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Popularity:</span>
+                  <span className={searchStyles.statValue}>#{media.popularity}</span>
+                </div>
+              )}
+              {media.favourites && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Favourites:</span>
+                  <span className={searchStyles.statValue}>{media.favourites}</span>
+                </div>
+              )}
+              {media.episodes && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Episodes:</span>
+                  <span className={searchStyles.statValue}>
+                    {media.episodes}{media.duration ? ` × ${media.duration} min` : ''}
+                  </span>
+                </div>
+              )}
+              {media.chapters && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Chapters:</span>
+                  <span className={searchStyles.statValue}>{media.chapters}</span>
+                </div>
+              )}
+              {media.volumes && (
+                <div className={searchStyles.stat}>
+                  <span className={searchStyles.statLabel}>Volumes:</span>
+                  <span className={searchStyles.statValue}>{media.volumes}</span>
+                </div>
+              )}
+            </div>
+
+            <div className={searchStyles.mediaDates}>
+              {formatDate(media.startDate) && (
+                <div className={searchStyles.dateItem}>
+                  <span className={searchStyles.dateLabel}>Start:</span>
+                  <span>{formatDate(media.startDate)}</span>
+                </div>
+              )}
+              {formatDate(media.endDate) && (
+                <div className={searchStyles.dateItem}>
+                  <span className={searchStyles.dateLabel}>End:</span>
+                  <span>{formatDate(media.endDate)}</span>
+                </div>
+              )}
+            </div>
+
+            {media.studios.length > 0 && (
+              <div className={styles.studios}>
+                {mainStudios.length > 0 && (
+                  <span>
+                    <span className={searchStyles.dateLabel}>Studios:</span>{' '}
+                    {mainStudios.map((studio) => studio.name).join(', ')}
+                  </span>
+                )}
+                {producers.length > 0 && (
+                  <span className={styles.muted}>
+                    Producers: {producers.map((studio) => studio.name).join(', ')}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {media.genres && media.genres.length > 0 && (
+          <div className={searchStyles.genres}>
+            {media.genres.map((genre) => (
+              <Link
+                key={genre}
+                href={`/anilist/search?type=${media.type}&genres=${encodeURIComponent(genre)}`}
+                className={searchStyles.genreTag}
+              >
+                {genre}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {media.description && (
+          <div className={searchStyles.description}>
+            <h3>Description</h3>
+            <p>{media.description.replace(/<[^>]*>/g, '')}</p>
+          </div>
+        )}
+
+        <div className={styles.links}>
+          {media.siteUrl && (
+            <a href={media.siteUrl} target="_blank" rel="noopener noreferrer" className={searchStyles.externalLink}>
+              View on AniList →
+            </a>
+          )}
+          {isAuthenticated && (
+            <Link href={`/anilist/search?mediaId=${media.id}`} className={searchStyles.externalLink}>
+              Edit my list entry →
+            </Link>
+          )}
+        </div>
+
+        {tags.length > 0 && (
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h3>Tags</h3>
+              {spoilerCount > 0 && (
+                <button onClick={() => setShowSpoilers(!showSpoilers)} className={styles.sectionToggle}>
+                  {showSpoilers ? 'Hide spoiler tags' : `Show ${spoilerCount} spoiler tag${spoilerCount > 1 ? 's' : ''}`}
+                </button>
+              )}
+            </div>
+            <div className={styles.tags}>
+              {visibleTags.map((tag) => (
+                <span
+                  key={tag.id}
+                  className={`${styles.tag} ${tag.isGeneralSpoiler || tag.isMediaSpoiler ? styles.tagSpoiler : ''}`}
+                  title={tag.description}
+                >
+                  {tag.name}
+                  {tag.rank !== undefined && <span className={styles.tagRank}>{tag.rank}%</span>}
+                </span>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {(scoreDistribution.length > 0 || statusTotal > 0) && (
+          <section className={styles.section}>
+            <h3>Distributions</h3>
+            <div className={styles.distributions}>
+              {statusTotal > 0 && (
+                <div className={styles.distribution}>
+                  <h4>Status</h4>
+                  <div className={styles.statusBar}>
+                    {statusDistribution.map((item) => (
+                      <div
+                        key={item.status}
+                        className={styles.statusBarSegment}
+                        style={{ width: `${(item.amount / statusTotal) * 100}%`, background: STATUS_COLORS[item.status] || '#999' }}
+                        title={`${formatEnumLabel(item.status)}: ${item.amount}`}
+                      />
+                    ))}
+                  </div>
+                  <ul className={styles.statusLegend}>
+                    {statusDistribution.map((item) => (
+                      <li key={item.status}>
+                        <span className={styles.statusDot} style={{ background: STATUS_COLORS[item.status] || '#999' }} />
+                        {formatEnumLabel(item.status)} <span className={styles.muted}>{item.amount.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {scoreDistribution.length > 0 && (
+                <div className={styles.distribution}>
+                  <h4>Score</h4>
+                  <div className={styles.scoreChart}>
+                    {scoreDistribution.map((item) => (
+                      <div key={item.score} className={styles.scoreColumn} title={`${item.score}: ${item.amount} users`}>
+                        <div className={styles.scoreColumnTrack}>
+                          <div
+                            className={styles.scoreColumnBar}
+                            style={{ height: `${(item.amount / maxScoreAmount) * 100}%` }}
+                          />
+                        </div>
+                        <span className={styles.muted}>{item.score}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
+        {media.relations.length > 0 && (
+          <section className={styles.section}>
+            <h3>Relations</h3>
+            <div className={styles.cardGrid}>
+              {media.relations.map((relation) => (
+                <MediaCard key={`${relation.relationType}-${relation.media.id}`} media={relation.media} label={formatEnumLabel(relation.relationType)} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {media.characters.length > 0 && (
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h3>Characters</h3>
+              {media.characters.length > PREVIEW_COUNT && (
+                <button onClick={() => setShowAllCharacters(!showAllCharacters)} className={styles.sectionToggle}>
+                  {showAllCharacters ? 'Show less' : `Show all ${media.characters.length}`}
+                </button>
+              )}
+            </div>
+            <div className={styles.peopleGrid}>
+              {characters.map(({ role, character, voiceActors }) => (
+                <div key={character.id} className={styles.characterCard}>
+                  <div className={styles.person}>
+                    {character.image && <img src={character.image} alt="" className={styles.personImage} loading="lazy" />}
+                    <div className={styles.personInfo}>
+                      <span className={styles.personName}>{character.name}</span>
+                      <span className={styles.muted}>{formatEnumLabel(role)}</span>
+                    </div>
+                  </div>
+                  {voiceActors[0] && (
+                    <div className={`${styles.person} ${styles.personRight}`}>
+                      <div className={styles.personInfo}>
+                        <span className={styles.personName}>{voiceActors[0].name}</span>
+                        <span className={styles.muted}>{formatEnumLabel(voiceActors[0].language)}</span>
+                      </div>
+                      {voiceActors[0].image && <img src={voiceActors[0].image} alt="" className={styles.personImage} loading="lazy" />}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {media.staff.length > 0 && (
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h3>Staff</h3>
+              {media.staff.length > PREVIEW_COUNT && (
+                <button onClick={() => setShowAllStaff(!showAllStaff)} className={styles.sectionToggle}>
+                  {showAllStaff ? 'Show less' : `Show all ${media.staff.length}`}
+                </button>
+              )}
+            </div>
+            <div className={styles.peopleGrid}>
+              {staff.map(({ role, staff: person }) => (
+                <div key={`${person.id}-${role}`} className={styles.person}>
+                  {person.image && <img src={person.image} alt="" className={styles.personImage} loading="lazy" />}
+                  <div className={styles.personInfo}>
+                    <span className={styles.personName}>{person.name}</span>
+                    <span className={styles.muted}>{role}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {media.recommendations.length > 0 && (
+          <section className={styles.section}>
+            <h3>Recommendations</h3>
+            <div className={styles.cardGrid}>
+              {media.recommendations.map((recommendation) => (
+                <MediaCard
+                  key={recommendation.media.id}
+                  media={recommendation.media}
+                  label={`${recommendation.rating > 0 ? '+' : ''}${recommendation.rating} · ${recommendation.media.averageScore ? `${recommendation.media.averageScore}%` : 'no score'}`}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {isAuthenticated && (
+          <div className={searchStyles.followedScoresSection}>
+            <h3 className={searchStyles.followedScoresTitle}>Followed Users Scores</h3>
+            {scoresLoading ? (
+              <div className={searchStyles.loadingScores}>Loading scores...</div>
+            ) : scoresError ? (
+              <div className={searchStyles.tokenError}>{scoresError}</div>
+            ) : followedScores.length > 0 ? (
+              <>
+                <FollowedScoresSummary scores={followedScores} />
+                <FollowedScoresList key={mediaId} mediaId={mediaId} scores={followedScores} />
+              </>
+            ) : (
+              <div className={searchStyles.noScores}>No followed users have rated this media yet.</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { UserMediaScore, ActivityStatus, fetchUserMediaListActivities, formatScoreForFormat } from '@/lib/anilist';
+import { useAuth } from '../contexts/AuthContext';
+import styles from './search.module.css';
+
+interface FollowedScoresListProps {
+  mediaId: number;
+  scores: UserMediaScore[];
+}
+
+const getStatusLabel = (status?: string) => {
+  if (!status) return 'Unknown';
+  return status.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+};
+
+const formatActivityDate = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return date.toLocaleDateString('en-US', { 
+    year: 'numeric', 
+    month: 'long', 
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Followed users' score, status and progress for one media, each with their
+ * list activities for it on demand. Used by the search and media pages.
+ */
+export default function FollowedScoresList({ mediaId, scores }: FollowedScoresListProps) {
+  const { isAuthenticated } = useAuth();
+  const [expandedUserActivities, setExpandedUserActivities] = useState<Record<number, ActivityStatus[]>>({});
+  const [loadingUserActivities, setLoadingUserActivities] = useState<Record<number, boolean>>({});
+
+  const handleViewActivities = async (userId: number) => {
+    // Toggle: if already expanded, collapse it
+    if (expandedUserActivities[userId]) {
+      setExpandedUserActivities(prev => {
+        const newState = { ...prev };
+        delete newState[userId];
+        return newState;
+      });
+      return;
+    }
+
+    // Set loading state
+    setLoadingUserActivities(prev => ({ ...prev, [userId]: true }));
+
+    try {
+      if (!isAuthenticated) {
+        alert('Please log in to view activities');
+        return;
+      }
+
+      const activities = await fetchUserMediaListActivities(userId, mediaId);
+      
+      setExpandedUserActivities(prev => ({ ...prev, [userId]: activities }));
+    } catch (error) {
+      console.error('Error loading activities:', error);
+      alert(`Failed to load activities: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoadingUserActivities(prev => {
+        const newState = { ...prev };
+        delete newState[userId];
+        return newState;
+      });
+    }
+  };
+
+  return (
+    <div className={styles.scoresList}>
+      {Array.from(
+        new Map(scores.map(score => [score.userId, score])).values()
+      ).map((score) => (
+        <div key={score.userId}>
+          <div className={styles.scoreItem}>
+            {/* User avatar */}
+            {score.userAvatar && (
+              <img 
+                src={score.userAvatar} 
+                alt={score.userName}
+                className={styles.scoreAvatar}
+                loading="lazy"
+              />
+            )}
+            {/* User info and score details */}
+            <div className={styles.scoreInfo}>
+              <span className={styles.scoreUserName}>
+                {score.userName}
+                {score.isViewer && <span className={styles.scoreViewerBadge}>You</span>}
+              </span>
+              <div className={styles.scoreDetails}>
+                {/* Score in the user's own format, as shown on their AniList list */}
+                {score.score !== null && score.score !== undefined && (
+                  <span className={styles.scoreValue} title={`${score.score}/100`}>
+                    Score: {score.score === 0
+                      ? 'Not scored'
+                      : formatScoreForFormat(score.rawScore ?? score.score, score.rawScore !== undefined ? score.scoreFormat : 'POINT_100')}
+                  </span>
+                )}
+                {/* Status (CURRENT, PLANNING, COMPLETED, etc.) */}
+                {score.status && (
+                  <span className={styles.scoreStatus}>{score.status}</span>
+                )}
+                {/* Progress (episode/chapter number) */}
+                {score.progress !== null && score.progress !== undefined && (
+                  <span className={styles.scoreProgress}>Progress: {score.progress}</span>
+                )}
+              </div>
+            </div>
+            {/* View activities button */}
+            <button
+              onClick={() => handleViewActivities(score.userId)}
+              className={styles.viewActivitiesButton}
+              disabled={loadingUserActivities[score.userId]}
+            >
+              {loadingUserActivities[score.userId] 
+                ? 'Loading...' 
+                : expandedUserActivities[score.userId] 
+                  ? 'Hide Activities' 
+                  : 'View Activities'}
+            </button>
+          </div>
+          {/* Expanded activities section */}
+          {expandedUserActivities[score.userId] && (
+            <div className={styles.userActivitiesSection}>
+              {expandedUserActivities[score.userId].length > 0 ? (
+                <div className={styles.activitiesList}>
+                  {expandedUserActivities[score.userId].map((activity) => (
+                    <div key={activity.id} className={styles.activityItem}>
+                      <div className={styles.activityHeader}>
+                        <span className={styles.activityDate}>
+                          {formatActivityDate(activity.createdAt)}
+                        </span>
+                        {activity.status && (
+                          <span className={styles.activityStatus}>
+                            {getStatusLabel(activity.status)}
+                          </span>
+                        )}
+                        {activity.progress !== null && activity.progress !== undefined && (
+                          <span className={styles.activityProgress}>
+                            Progress: {activity.progress}
+                          </span>
+                        )}
+                      </div>
+                      {activity.media?.coverImage?.medium && (
+                        <img 
+                          src={activity.media.coverImage.medium} 
+                          alt={activity.media.title?.romaji || ''}
+                          className={styles.activityMediaImage}
+                          loading="lazy"
+                        />
+                      )}
+                      <a 
+                        href={`https://anilist.co/activity/${activity.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={styles.activityLink}
+                      >
+                        View on AniList →
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className={styles.noActivities}>
+                  No list activities found for this media.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { UserMediaScore } from '@/lib/anilist';
+import styles from './search.module.css';
+
+interface FollowedScoresSummaryProps {
+  scores: UserMediaScore[];
+}
+
+// Ten buckets of 10 points: 1-10, 11-20, ..., 91-100
+const BUCKETS = Array.from({ length: 10 }, (_, index) => ({
+  min: index * 10 + 1,
+  max: (index + 1) * 10,
+}));
+
+/**
+ * Average and score distribution of the followed users (and the viewer) who
+ * scored this media. Uses the 0-100 scores so every score format counts the same.
+ */
+export default function FollowedScoresSummary({ scores }: FollowedScoresSummaryProps) {
+  const scored = scores
+    .map((score) => score.score ?? 0)
+    .filter((score) => score > 0);
+
+  if (scored.length === 0) {
+    return null;
+  }
+
+  const average = scored.reduce((sum, score) => sum + score, 0) / scored.length;
+  const counts = BUCKETS.map(({ min, max }) => scored.filter((score) => score >= min && score <= max).length);
+  const maxCount = Math.max(...counts);
+
+  return (
+    <div className={styles.scoresSummary}>
+      <div className={styles.scoresSummaryAverage}>
+        <span className={styles.scoresSummaryValue}>{Math.round(average)}%</span>
+        <span className={styles.scoresSummaryLabel}>
+          Average of {scored.length} score{scored.length > 1 ? 's' : ''}
+        </span>
+      </div>
+      <div className={styles.scoresDistribution}>
+        {BUCKETS.map(({ min, max }, index) => (
+          <div
+            key={min}
+            className={styles.scoresDistributionColumn}
+            title={`${min}-${max}: ${counts[index]} user${counts[index] === 1 ? '' : 's'}`}
+          >
+            <span className={styles.scoresDistributionCount}>{counts[index] || ''}</span>
+            <div className={styles.scoresDistributionTrack}>
+              <div
+                className={styles.scoresDistributionBar}
+                style={{ height: `${(counts[index] / maxCount) * 100}%` }}
+              />
+            </div>
+            <span className={styles.scoresDistributionLabel}>{max}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { Media, MediaListEntry, MediaListEntryInput, MediaListStatus, ScoreFormat } from '@/lib/anilist';
+import styles from './search.module.css';
+
+interface ListEntryEditorProps {
+  media: Media;
+  scoreFormat: ScoreFormat;
+  entry: MediaListEntry | null;
+  saving: boolean;
+  onSave: (input: MediaListEntryInput) => void;
+  onDelete: () => void;
+}
+
+export const STATUSES: MediaListStatus[] = ['CURRENT', 'PLANNING', 'COMPLETED', 'REPEATING', 'PAUSED', 'DROPPED'];
+
+export function getStatusOptionLabel(status: MediaListStatus, type: Media['type']): string {
+  const isAnime = type === 'ANIME';
+  switch (status) {
+    case 'CURRENT':
+      return isAnime ? 'Watching' : 'Reading';
+    case 'REPEATING':
+      return isAnime ? 'Rewatching' : 'Rereading';
+    case 'PLANNING':
+      return 'Planning';
+    case 'COMPLETED':
+      return 'Completed';
+    case 'PAUSED':
+      return 'Paused';
+    case 'DROPPED':
+      return 'Dropped';
+  }
+}
+
+function getScoreMax(scoreFormat: ScoreFormat): number {
+  switch (scoreFormat) {
+    case 'POINT_10_DECIMAL':
+    case 'POINT_10':
+      return 10;
+    case 'POINT_5':
+      return 5;
+    case 'POINT_3':
+      return 3;
+    default:
+      return 100;
+  }
+}
+
+/**
+ * Editor for the logged-in user's own list entry (status, score, progress,
+ * rewatch count). Scores are entered in the user's AniList score format.
+ *
+ * The parent re-mounts this component (via `key`) whenever the saved entry
+ * changes, so the draft values always start from the latest entry.
+ */
+export default function ListEntryEditor({ media, scoreFormat, entry, saving, onSave, onDelete }: ListEntryEditorProps) {
+  const [status, setStatus] = useState<MediaListStatus>(entry?.status || 'PLANNING');
+  const [score, setScore] = useState<string>(entry?.score ? String(entry.score) : '');
+  const [progress, setProgress] = useState<string>(String(entry?.progress ?? 0));
+  const [progressVolumes, setProgressVolumes] = useState<string>(String(entry?.progressVolumes ?? 0));
+  const [repeat, setRepeat] = useState<string>(String(entry?.repeat ?? 0));
+
+  const isManga = media.type === 'MANGA';
+  const total = isManga ? media.chapters : media.episodes;
+  const scoreMax = getScoreMax(scoreFormat);
+
+  const parseCount = (value: string, max?: number) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 0) return 0;
+    return max ? Math.min(parsed, max) : parsed;
+  };
+
+  const handleSave = () => {
+    const parsedScore = parseFloat(score);
+    onSave({
+      status,
+      score: isNaN(parsedScore) ? 0 : Math.min(Math.max(parsedScore, 0), scoreMax),
+      progress: parseCount(progress, total),
+      progressVolumes: isManga ? parseCount(progressVolumes, media.volumes) : undefined,
+      repeat: parseCount(repeat),
+    });
+  };
+
+  const handleIncrementProgress = () => {
+    const next = parseCount(progress) + 1;
+    setProgress(String(total ? Math.min(next, total) : next));
+  };
+
+  const renderScoreInput = () => {
+    if (scoreFormat === 'POINT_5') {
+      return (
+        <select value={score || '0'} onChange={(e) => setScore(e.target.value)} className={styles.listEditorInput}>
+          <option value="0">No score</option>
+          {[1, 2, 3, 4, 5].map((stars) => (
+            <option key={stars} value={stars}>{'★'.repeat(stars)}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (scoreFormat === 'POINT_3') {
+      return (
+        <select value={score || '0'} onChange={(e) => setScore(e.target.value)} className={styles.listEditorInput}>
+          <option value="0">No score</option>
+          <option value="1">🙁</option>
+          <option value="2">😐</option>
+          <option value="3">🙂</option>
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type="number"
+        min={0}
+        max={scoreMax}
+        step={scoreFormat === 'POINT_10_DECIMAL' ? 0.1 : 1}
+        value={score}
+        onChange={(e) => setScore(e.target.value)}
+        placeholder={`0-${scoreMax}`}
+        className={styles.listEditorInput}
+      />
+    );
+  };
+
+  return (
+    <div className={styles.listEditor}>
+      <h3 className={styles.followedScoresTitle}>My List Entry</h3>
+      <div className={styles.listEditorFields}>
+        <label className={styles.listEditorField}>
+          <span>Status</span>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as MediaListStatus)}
+            className={styles.listEditorInput}
+          >
+            {STATUSES.map((value) => (
+              <option key={value} value={value}>{getStatusOptionLabel(value, media.type)}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className={styles.listEditorField}>
+          <span>Score</span>
+          {renderScoreInput()}
+        </label>
+
+        <label className={styles.listEditorField}>
+          <span>{isManga ? 'Chapters' : 'Episodes'}</span>
+          <div className={styles.listEditorProgress}>
+            <input
+              type="number"
+              min={0}
+              max={total || undefined}
+              value={progress}
+              onChange={(e) => setProgress(e.target.value)}
+              className={styles.listEditorInput}
+            />
+            <span className={styles.listEditorTotal}>/ {total || '?'}</span>
+            <button
+              type="button"
+              onClick={handleIncrementProgress}
+              className={styles.listEditorIncrement}
+              title="+1"
+            >
+              +1
+            </button>
+          </div>
+        </label>
+
+        {isManga && (
+          <label className={styles.listEditorField}>
+            <span>Volumes</span>
+            <input
+              type="number"
+              min={0}
+              max={media.volumes || undefined}
+              value={progressVolumes}
+              onChange={(e) => setProgressVolumes(e.target.value)}
+              className={styles.listEditorInput}
+            />
+          </label>
+        )}
+
+        <label className={styles.listEditorField}>
+          <span>{isManga ? 'Rereads' : 'Rewatches'}</span>
+          <input
+            type="number"
+            min={0}
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value)}
+            className={styles.listEditorInput}
+          />
+        </label>
+      </div>
+
+      <div className={styles.listEditorActions}>
+        <button onClick={handleSave} disabled={saving} className={styles.viewActivitiesButton}>
+          {saving ? 'Saving...' : entry ? 'Save' : 'Add to List'}
+        </button>
+        {entry && (
+          <button onClick={onDelete} disabled={saving} className={styles.listEditorDelete}>
+            Remove from List
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
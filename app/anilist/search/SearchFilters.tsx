@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  MediaSearchFilters,
+  MEDIA_GENRES,
+  MEDIA_SEASONS,
+  MEDIA_FORMATS,
+  MEDIA_STATUSES,
+  MEDIA_SORTS,
+  MediaSeason,
+  MediaFormat,
+  MediaReleaseStatus,
+  MediaSort,
+} from '@/lib/anilist-search-filters';
+import styles from './search.module.css';
+
+interface SearchFiltersProps {
+  filters: MediaSearchFilters;
+  onChange: (filters: MediaSearchFilters) => void;
+}
+
+const SORT_LABELS: Record<MediaSort, string> = {
+  POPULARITY_DESC: 'Popularity',
+  SCORE_DESC: 'Average score',
+  TRENDING_DESC: 'Trending',
+  START_DATE_DESC: 'Newest',
+};
+
+const formatEnumLabel = (value: string) =>
+  value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+const parseNumberInput = (value: string) => {
+  const number = parseInt(value, 10);
+  return isNaN(number) ? undefined : number;
+};
+
+/**
+ * Comma-separated list input, applied on blur / Enter so partially typed
+ * entries don't trigger a search.
+ */
+function ListInput({ value, placeholder, onCommit }: {
+  value?: string[];
+  placeholder: string;
+  onCommit: (items: string[] | undefined) => void;
+}) {
+  const [draft, setDraft] = useState<string>(value?.join(', ') || '');
+
+  const commit = () => {
+    const items = draft.split(',').map((item) => item.trim()).filter(Boolean);
+    onCommit(items.length > 0 ? items : undefined);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      placeholder={placeholder}
+      className={styles.filterInput}
+    />
+  );
+}
+
+/**
+ * Filter panel for browsing media without a title query. Genres cycle
+ * through include → exclude → off when clicked.
+ */
+export default function SearchFilters({ filters, onChange }: SearchFiltersProps) {
+  const update = (changes: Partial<MediaSearchFilters>) => {
+    const next: MediaSearchFilters = { ...filters, ...changes };
+    // Keep the object free of unset keys (see parseSearchFilters)
+    for (const key of Object.keys(next) as (keyof MediaSearchFilters)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    onChange(next);
+  };
+
+  const toggleGenre = (genre: string) => {
+    const included = filters.genres || [];
+    const excluded = filters.excludeGenres || [];
+    const without = (list: string[]) => {
+      const rest = list.filter((item) => item !== genre);
+      return rest.length > 0 ? rest : undefined;
+    };
+
+    if (included.includes(genre)) {
+      update({ genres: without(included), excludeGenres: [...excluded, genre] });
+    } else if (excluded.includes(genre)) {
+      update({ excludeGenres: without(excluded) });
+    } else {
+      update({ genres: [...included, genre] });
+    }
+  };
+
+  return (
+    <div className={styles.filtersPanel}>
+      <div className={styles.filterGroup}>
+        <span className={styles.filterLabel}>Genres</span>
+        <div className={styles.genreChips}>
+          {MEDIA_GENRES.map((genre) => {
+            const included = filters.genres?.includes(genre);
+            const excluded = filters.excludeGenres?.includes(genre);
+            return (
+              <button
+                key={genre}
+                type="button"
+                onClick={() => toggleGenre(genre)}
+                className={`${styles.genreChip} ${included ? styles.genreChipIncluded : ''} ${excluded ? styles.genreChipExcluded : ''}`}
+                title={included ? 'Included (click to exclude)' : excluded ? 'Excluded (click to clear)' : 'Click to include'}
+              >
+                {excluded ? '−' : included ? '+' : ''}{genre}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className={styles.filterRow}>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Tags</span>
+          <ListInput
+            key={filters.tags?.join(',') || ''}
+            value={filters.tags}
+            placeholder="e.g. Time Skip, Isekai"
+            onCommit={(tags) => update({ tags })}
+          />
+        </label>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Exclude tags</span>
+          <ListInput
+            key={filters.excludeTags?.join(',') || ''}
+            value={filters.excludeTags}
+            placeholder="e.g. Harem"
+            onCommit={(excludeTags) => update({ excludeTags })}
+          />
+        </label>
+      </div>
+
+      <div className={styles.filterRow}>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Season</span>
+          <select
+            value={filters.season || ''}
+            onChange={(e) => update({ season: (e.target.value || undefined) as MediaSeason | undefined })}
+            className={styles.filterInput}
+          >
+            <option value="">Any</option>
+            {MEDIA_SEASONS.map((season) => (
+              <option key={season} value={season}>{formatEnumLabel(season)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Year</span>
+          <input
+            type="number"
+            min={1940}
+            max={2100}
+            value={filters.seasonYear ?? ''}
+            onChange={(e) => update({ seasonYear: parseNumberInput(e.target.value) })}
+            placeholder="Any"
+            className={styles.filterInput}
+          />
+        </label>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Format</span>
+          <select
+            value={filters.format || ''}
+            onChange={(e) => update({ format: (e.target.value || undefined) as MediaFormat | undefined })}
+            className={styles.filterInput}
+          >
+            <option value="">Any</option>
+            {MEDIA_FORMATS.map((format) => (
+              <option key={format} value={format}>{format === 'TV' || format === 'OVA' || format === 'ONA' ? format : formatEnumLabel(format)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Status</span>
+          <select
+            value={filters.status || ''}
+            onChange={(e) => update({ status: (e.target.value || undefined) as MediaReleaseStatus | undefined })}
+            className={styles.filterInput}
+          >
+            <option value="">Any</option>
+            {MEDIA_STATUSES.map((status) => (
+              <option key={status} value={status}>{formatEnumLabel(status)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.filterRow}>
+        <div className={styles.filterField}>
+          <span className={styles.filterLabel}>Average score (0-100)</span>
+          <div className={styles.filterRange}>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={filters.scoreMin ?? ''}
+              onChange={(e) => update({ scoreMin: parseNumberInput(e.target.value) })}
+              placeholder="Min"
+              className={styles.filterInput}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={filters.scoreMax ?? ''}
+              onChange={(e) => update({ scoreMax: parseNumberInput(e.target.value) })}
+              placeholder="Max"
+              className={styles.filterInput}
+            />
+          </div>
+        </div>
+        <div className={styles.filterField}>
+          <span className={styles.filterLabel}>Episodes</span>
+          <div className={styles.filterRange}>
+            <input
+              type="number"
+              min={0}
+              value={filters.episodesMin ?? ''}
+              onChange={(e) => update({ episodesMin: parseNumberInput(e.target.value) })}
+              placeholder="Min"
+              className={styles.filterInput}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.episodesMax ?? ''}
+              onChange={(e) => update({ episodesMax: parseNumberInput(e.target.value) })}
+              placeholder="Max"
+              className={styles.filterInput}
+            />
+          </div>
+        </div>
+        <label className={styles.filterField}>
+          <span className={styles.filterLabel}>Sort by</span>
+          <select
+            value={filters.sort || ''}
+            onChange={(e) => update({ sort: (e.target.value || undefined) as MediaSort | undefined })}
+            className={styles.filterInput}
+          >
+            <option value="">Default</option>
+            {MEDIA_SORTS.map((sort) => (
+              <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.filterFooter}>
+        <label className={styles.filterCheckbox}>
+          <input
+            type="checkbox"
+            checked={!!filters.includeAdult}
+            onChange={(e) => update({ includeAdult: e.target.checked || undefined })}
+          />
+          Include adult (18+) titles
+        </label>
+        <button type="button" onClick={() => onChange({})} className={styles.filterResetButton}>
+          Reset filters
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,74 +1,86 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
-import { searchMedia, fetchMediaById, fetchMediaWithScores, Media, getFollowedUsersScores, UserMediaScore, fetchUserMediaListActivities, ActivityStatus } from '@/lib/anilist';
+import { useState, useEffect, useCallback, useRef, useMemo, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { searchMedia, fetchMediaById, fetchMediaWithScores, Media, getFollowedUsersScores, UserMediaScore, fetchUserMediaListActivities, ActivityStatus, saveMediaListEntry, deleteMediaListEntry, normalizeScore, MediaListEntry, MediaListEntryInput, ViewerMediaInfo, MediaSearchResult } from '@/lib/anilist';
+import { MediaSearchFilters, parseSearchFilters, appendSearchFilters, hasActiveFilters } from '@/lib/anilist-search-filters';
 import { useApiRequest } from '../contexts/ApiRequestContext';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import ListEntryEditor from './ListEntryEditor';
+import FollowedScoresSummary from './FollowedScoresSummary';
+import FollowedScoresList from './FollowedScoresList';
+import QuickProgress from '../QuickProgress';
+import SearchFilters from './SearchFilters';
 import styles from './search.module.css';
 
-const AUTH_TOKEN_KEY = 'anilist_access_token';
+/**
+ * Put the viewer's own entry at the top of the scores list (or remove it when
+ * the entry is gone), so list edits show up next to the followed users' scores.
+ */
+function withViewerScore(scores: UserMediaScore[], viewer: ViewerMediaInfo | null, entry: MediaListEntry | null): UserMediaScore[] {
+  if (!viewer) return scores;
+  const others = scores.filter(score => score.userId !== viewer.id);
+  if (!entry) return others;
+  return [
+    {
+      userId: viewer.id,
+      userName: viewer.name,
+      userAvatar: viewer.avatar,
+      score: normalizeScore(entry.score ?? 0, viewer.scoreFormat),
+      status: entry.status,
+      progress: entry.progress,
+      rawScore: entry.score,
+      scoreFormat: viewer.scoreFormat,
+      isViewer: true,
+    },
+    ...others,
+  ];
+}
+
+const BROWSE_PER_PAGE = 24;
+
+type SearchMediaType = 'ALL' | 'ANIME' | 'MANGA';
+
+const parseMediaType = (value: string | null): SearchMediaType =>
+  value === 'ANIME' || value === 'MANGA' ? value : 'ALL';
 
 function SearchContent() {
   const searchParams = useSearchParams();
+  const router = useRouter();
   const { showToast } = useToast();
-  const [query, setQuery] = useState<string>('');
-  const [mediaType, setMediaType] = useState<'ALL' | 'ANIME' | 'MANGA'>('ALL');
+  const { authUser, isAuthenticated, relogin } = useAuth();
+  const [query, setQuery] = useState<string>(() => searchParams.get('query') || '');
+  const [mediaType, setMediaType] = useState<SearchMediaType>(() => parseMediaType(searchParams.get('type')));
   const [results, setResults] = useState<Media[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [selectedMedia, setSelectedMedia] = useState<Media | null>(null);
   const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
   const [followedScores, setFollowedScores] = useState<UserMediaScore[]>([]);
   const [loadingScores, setLoadingScores] = useState<boolean>(false);
-  const [hasToken, setHasToken] = useState<boolean>(false);
   const [tokenError, setTokenError] = useState<string | null>(null);
-  const [expandedUserActivities, setExpandedUserActivities] = useState<Record<number, ActivityStatus[]>>({});
-  const [loadingUserActivities, setLoadingUserActivities] = useState<Record<number, boolean>>({});
   const [ownActivities, setOwnActivities] = useState<ActivityStatus[]>([]);
   const [showOwnActivities, setShowOwnActivities] = useState<boolean>(false);
   const [loadingOwnActivities, setLoadingOwnActivities] = useState<boolean>(false);
+  const [viewerInfo, setViewerInfo] = useState<ViewerMediaInfo | null>(null);
+  const [savingListEntry, setSavingListEntry] = useState<boolean>(false);
   const { incrementRequestCount } = useApiRequest();
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
 
-  /**
-   * Check if user is authenticated and monitor token changes.
-   * 
-   * This effect:
-   * - Checks for authentication token on mount
-   * - Listens for storage changes (token set in another tab/component)
-   * - Periodically re-checks token (in case it was set after mount)
-   * - Updates hasToken state to show/hide the scores section
-   */
-  useEffect(() => {
-    const checkToken = () => {
-      if (typeof window !== 'undefined') {
-        const token = localStorage.getItem(AUTH_TOKEN_KEY);
-        setHasToken(!!token);
-      }
-    };
-
-    // Check immediately on mount
-    checkToken();
-
-    // Listen for storage changes (e.g., token set in another tab or after login)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === AUTH_TOKEN_KEY) {
-        checkToken();
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-
-    // Re-check periodically (in case token was set after component mount)
-    // This ensures the scores section appears even if login happens after page load
-    const interval = setInterval(checkToken, 1000);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      clearInterval(interval);
-    };
-  }, []);
+  // Filter browsing: the filters live in the URL so searches can be bookmarked
+  const filters = useMemo(() => parseSearchFilters(searchParams), [searchParams]);
+  const isBrowsing = hasActiveFilters(filters);
+  const [showFilters, setShowFilters] = useState<boolean>(isBrowsing);
+  const [browseResults, setBrowseResults] = useState<Media[]>([]);
+  // Own list entries changed from the results grid, by media ID (wins over the loaded mediaListEntry)
+  const [listEntryOverrides, setListEntryOverrides] = useState<Record<number, MediaListEntry | null>>({});
+  const [browsePageInfo, setBrowsePageInfo] = useState<MediaSearchResult['pageInfo'] | null>(null);
+  // URL the browse results were loaded for; results are loading while it differs from the current one
+  const [loadedBrowseKey, setLoadedBrowseKey] = useState<string | null>(null);
+  const [loadingMoreResults, setLoadingMoreResults] = useState<boolean>(false);
+  const browseKey = isBrowsing && !searchParams.get('mediaId') ? searchParams.toString() : null;
 
   // Load media by ID from URL parameter and scores in a single request
   useEffect(() => {
@@ -83,13 +95,10 @@ function SearchContent() {
         // Clear any previous errors (toasts auto-dismiss)
         setTokenError(null);
         
-        const token = typeof window !== 'undefined' ? localStorage.getItem(AUTH_TOKEN_KEY) : null;
-        console.log(`[SearchPage] 🔑 Token status: ${token ? 'present' : 'missing'}`);
-        
-        // Fetch media and scores in a single request
+        // Fetch media and scores in a single request (scores need the session cookie)
         console.log(`[SearchPage] 🚀 Calling fetchMediaWithScores for mediaId: ${mediaId}`);
         // Note: fetchMediaWithScores will increment the counter internally
-        fetchMediaWithScores(mediaId, token || undefined)
+        fetchMediaWithScores(mediaId)
           .then((result) => {
             console.log(`[SearchPage] ✅ fetchMediaWithScores completed`, result);
             if (result) {
@@ -97,7 +106,8 @@ function SearchContent() {
               setSelectedMedia(result.media);
               setQuery(result.media.title?.userPreferred || result.media.title?.romaji || result.media.title?.english || '');
               setMediaType(result.media.type || 'ALL');
-              setFollowedScores(result.scores);
+              setViewerInfo(result.viewer);
+              setFollowedScores(withViewerScore(result.scores, result.viewer, result.viewer?.entry ?? null));
               // Reset own activities when loading from URL
               setShowOwnActivities(false);
               setOwnActivities([]);
@@ -106,19 +116,11 @@ function SearchContent() {
               showToast('Media not found', 'warning');
             }
           })
-          .catch((err: any) => {
-            const errorMessage = err?.message || 'An error occurred';
-            // Rate limit and other HTTP errors are already shown by handleHttpError in lib/anilist.ts
-            if (errorMessage.includes('UNAUTHORIZED') || errorMessage.includes('401')) {
-              // Handle token expiration/invalidation
-              if (token) {
-                localStorage.removeItem(AUTH_TOKEN_KEY);
-                localStorage.removeItem('anilist_user');
-                setHasToken(false);
-                showToast('Your session has expired. Please log in again.', 'warning');
-              }
-            }
+          .catch(() => {
+            // Expired sessions are handled by AuthContext, rate limits and other
+            // HTTP errors are already shown by handleHttpError in lib/anilist.ts
             setFollowedScores([]);
+            setViewerInfo(null);
           })
           .finally(() => {
             setLoading(false);
@@ -127,8 +129,14 @@ function SearchContent() {
       }
     } else {
       // No mediaId in URL, clear everything
+      const urlQuery = searchParams.get('query');
+      if (urlQuery !== null) {
+        setQuery(prev => (prev.trim() === urlQuery ? prev : urlQuery));
+        setMediaType(parseMediaType(searchParams.get('type')));
+      }
       setSelectedMedia(null);
       setFollowedScores([]);
+      setViewerInfo(null);
       setShowOwnActivities(false);
       setOwnActivities([]);
     }
@@ -136,7 +144,7 @@ function SearchContent() {
   }, [searchParams]);
 
   // Handle search with debounce for auto-completion
-  const performSearch = useCallback(async (searchQuery: string, type: 'ALL' | 'ANIME' | 'MANGA') => {
+  const performSearch = useCallback(async (searchQuery: string, type: SearchMediaType) => {
     if (!searchQuery || searchQuery.trim().length < 2) {
       setResults([]);
       setShowSuggestions(false);
@@ -173,7 +181,8 @@ function SearchContent() {
       searchTimeoutRef.current = null;
     }
 
-    if (query.trim().length >= 2) {
+    // While browsing with filters the query narrows the results grid instead
+    if (query.trim().length >= 2 && !isBrowsing) {
       searchTimeoutRef.current = setTimeout(() => {
         performSearch(query, mediaType);
       }, 500); // 500ms debounce to reduce API calls
@@ -188,7 +197,85 @@ function SearchContent() {
         searchTimeoutRef.current = null;
       }
     };
-  }, [query, mediaType, performSearch]);
+  }, [query, mediaType, performSearch, isBrowsing]);
+
+  /**
+   * Replace the URL with the given filters (plus the current query and type
+   * when browsing). Filter-less URLs go back to the plain search page.
+   */
+  const updateBrowseUrl = useCallback((changes: { filters?: MediaSearchFilters; query?: string; type?: SearchMediaType }) => {
+    const nextFilters = changes.filters ?? filters;
+    const params = appendSearchFilters(new URLSearchParams(), nextFilters);
+    if (hasActiveFilters(nextFilters)) {
+      const nextQuery = (changes.query ?? query).trim();
+      const nextType = changes.type ?? mediaType;
+      if (nextQuery) params.set('query', nextQuery);
+      if (nextType !== 'ALL') params.set('type', nextType);
+    }
+    const search = params.toString();
+    router.replace(search ? `/anilist/search?${search}` : '/anilist/search', { scroll: false });
+  }, [filters, query, mediaType, router]);
+
+  // Push the typed query into the URL while browsing (debounced like the auto-completion)
+  useEffect(() => {
+    if (!isBrowsing || (searchParams.get('query') || '') === query.trim()) return;
+    const timeout = setTimeout(() => updateBrowseUrl({ query }), 500);
+    return () => clearTimeout(timeout);
+  }, [query, isBrowsing, searchParams, updateBrowseUrl]);
+
+  // Load the first page of browse results whenever the filter URL changes
+  useEffect(() => {
+    if (!browseKey) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams(browseKey);
+    const timeout = setTimeout(() => {
+      searchMedia(params.get('query') || '', parseMediaType(params.get('type')), 1, BROWSE_PER_PAGE, parseSearchFilters(params))
+        .then((result) => {
+          if (cancelled) return;
+          setBrowseResults(result?.media || []);
+          setBrowsePageInfo(result?.pageInfo || null);
+        })
+        .catch(() => {
+          // Rate limit and other HTTP errors are already shown by handleHttpError in lib/anilist.ts
+          if (cancelled) return;
+          setBrowseResults([]);
+          setBrowsePageInfo(null);
+        })
+        .finally(() => {
+          if (!cancelled) setLoadedBrowseKey(browseKey);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [browseKey]);
+
+  const handleLoadMoreResults = async () => {
+    if (!browseKey || !browsePageInfo?.hasNextPage) return;
+
+    const params = new URLSearchParams(browseKey);
+    setLoadingMoreResults(true);
+    try {
+      const result = await searchMedia(
+        params.get('query') || '',
+        parseMediaType(params.get('type')),
+        browsePageInfo.currentPage + 1,
+        BROWSE_PER_PAGE,
+        parseSearchFilters(params)
+      );
+      if (result) {
+        setBrowseResults(prev => [...prev, ...result.media]);
+        setBrowsePageInfo(result.pageInfo);
+      }
+    } catch (error) {
+      console.error('[SearchPage] ❌ Failed to load more results:', error);
+    } finally {
+      setLoadingMoreResults(false);
+    }
+  };
 
   // Close suggestions when clicking outside
   useEffect(() => {
@@ -218,36 +305,34 @@ function SearchContent() {
     setShowSuggestions(false);
     setQuery(media.title.userPreferred || media.title.romaji || media.title.english || '');
     
-    // Reset own activities when media changes
+    // Reset own activities and list entry when media changes
     setShowOwnActivities(false);
     setOwnActivities([]);
+    setViewerInfo(null);
     
     // Load scores in a single request with media info
-    const token = typeof window !== 'undefined' ? localStorage.getItem(AUTH_TOKEN_KEY) : null;
-    console.log(`[SearchPage] 🔑 Token status for scores: ${token ? 'present' : 'missing'}`);
+    console.log(`[SearchPage] 🔑 Session status for scores: ${isAuthenticated ? 'logged in' : 'logged out'}`);
     
-    if (token) {
+    if (isAuthenticated) {
       setLoadingScores(true);
       setTokenError(null);
       
       console.log(`[SearchPage] 🚀 Calling fetchMediaWithScores for mediaId: ${media.id}`);
       // Note: fetchMediaWithScores will increment the counter internally
       try {
-        const result = await fetchMediaWithScores(media.id, token);
+        const result = await fetchMediaWithScores(media.id);
         console.log(`[SearchPage] ✅ fetchMediaWithScores completed`, result);
         if (result) {
           console.log(`[SearchPage] 📝 Setting scores: ${result.scores.length}`);
-          setFollowedScores(result.scores);
+          setViewerInfo(result.viewer);
+          setFollowedScores(withViewerScore(result.scores, result.viewer, result.viewer?.entry ?? null));
         }
       } catch (err: any) {
         console.error('[SearchPage] ❌ Error in handleMediaSelect:', err);
         const errorMessage = err?.message || '';
         
-        // Handle token expiration/invalidation
-        if (errorMessage.includes('UNAUTHORIZED') || errorMessage.includes('401')) {
-          localStorage.removeItem(AUTH_TOKEN_KEY);
-          localStorage.removeItem('anilist_user');
-          setHasToken(false);
+        // Session expiration/invalidation (AuthContext logs out)
+        if (errorMessage.includes('UNAUTHORIZED')) {
           setTokenError('Your session has expired. Please log in again.');
         } else {
           setTokenError(`Error loading scores: ${errorMessage}`);
@@ -262,6 +347,90 @@ function SearchContent() {
     }
   };
 
+  const handleListEntryChange = useCallback((mediaId: number, entry: MediaListEntry | null) => {
+    setListEntryOverrides(prev => ({ ...prev, [mediaId]: entry }));
+  }, []);
+
+  const handleListEntryError = (error: unknown) => {
+    // Expired sessions are handled by AuthContext, rate limits and other
+    // HTTP errors are already shown by handleHttpError in lib/anilist.ts
+    if (error instanceof TypeError) {
+      showToast('Network error. Your list was not updated.', 'error');
+    }
+  };
+
+  /**
+   * Save the viewer's list entry with an optimistic update: the editor and the
+   * scores list change immediately and are rolled back if AniList rejects it.
+   */
+  const handleSaveListEntry = async (input: MediaListEntryInput) => {
+    if (!selectedMedia || !viewerInfo) return;
+
+    const previousViewer = viewerInfo;
+    const previousScores = followedScores;
+    const optimisticEntry: MediaListEntry = {
+      ...(viewerInfo.entry || { id: 0 }),
+      ...input,
+      mediaId: selectedMedia.id,
+    };
+
+    setViewerInfo({ ...viewerInfo, entry: optimisticEntry });
+    setFollowedScores(prev => withViewerScore(prev, viewerInfo, optimisticEntry));
+    setSavingListEntry(true);
+
+    try {
+      const savedEntry = await saveMediaListEntry({
+        ...input,
+        id: viewerInfo.entry?.id,
+        mediaId: selectedMedia.id,
+      });
+      setViewerInfo(prev => prev ? { ...prev, entry: savedEntry } : prev);
+      setFollowedScores(prev => withViewerScore(prev, previousViewer, savedEntry));
+      showToast(previousViewer.entry ? 'List entry updated' : 'Added to your list', 'success', 3000);
+    } catch (error) {
+      console.error('[SearchPage] ❌ Failed to save list entry:', error);
+      setViewerInfo(previousViewer);
+      setFollowedScores(previousScores);
+      handleListEntryError(error);
+    } finally {
+      setSavingListEntry(false);
+    }
+  };
+
+  const handleDeleteListEntry = async () => {
+    if (!viewerInfo?.entry) return;
+
+    const title = selectedMedia?.title?.userPreferred || selectedMedia?.title?.romaji || 'this title';
+    if (!window.confirm(`Remove ${title} from your list?`)) {
+      return;
+    }
+
+    const previousViewer = viewerInfo;
+    const previousScores = followedScores;
+
+    setViewerInfo({ ...viewerInfo, entry: null });
+    setFollowedScores(prev => withViewerScore(prev, viewerInfo, null));
+    setSavingListEntry(true);
+
+    try {
+      const deleted = await deleteMediaListEntry(previousViewer.entry!.id);
+      if (deleted) {
+        showToast('Removed from your list', 'success', 3000);
+      } else {
+        setViewerInfo(previousViewer);
+        setFollowedScores(previousScores);
+        showToast('AniList did not remove the entry. Please try again.', 'error');
+      }
+    } catch (error) {
+      console.error('[SearchPage] ❌ Failed to delete list entry:', error);
+      setViewerInfo(previousViewer);
+      setFollowedScores(previousScores);
+      handleListEntryError(error);
+    } finally {
+      setSavingListEntry(false);
+    }
+  };
+
   const formatDate = (date?: { year?: number; month?: number; day?: number }) => {
     if (!date || !date.year) return 'Unknown';
     const parts = [date.year];
@@ -290,44 +459,6 @@ function SearchContent() {
     });
   };
 
-  const handleViewActivities = async (userId: number, userName: string) => {
-    if (!selectedMedia) return;
-    
-    // Toggle: if already expanded, collapse it
-    if (expandedUserActivities[userId]) {
-      setExpandedUserActivities(prev => {
-        const newState = { ...prev };
-        delete newState[userId];
-        return newState;
-      });
-      return;
-    }
-
-    // Set loading state
-    setLoadingUserActivities(prev => ({ ...prev, [userId]: true }));
-
-    try {
-      const token = typeof window !== 'undefined' ? localStorage.getItem(AUTH_TOKEN_KEY) : null;
-      if (!token) {
-        alert('Please log in to view activities');
-        return;
-      }
-
-      const activities = await fetchUserMediaListActivities(userId, selectedMedia.id, token);
-      
-      setExpandedUserActivities(prev => ({ ...prev, [userId]: activities }));
-    } catch (error: any) {
-      console.error('Error loading activities:', error);
-      alert(`Failed to load activities: ${error.message || 'Unknown error'}`);
-    } finally {
-      setLoadingUserActivities(prev => {
-        const newState = { ...prev };
-        delete newState[userId];
-        return newState;
-      });
-    }
-  };
-
   const handleViewOwnActivities = async () => {
     if (!selectedMedia) return;
     
@@ -341,26 +472,12 @@ function SearchContent() {
     setLoadingOwnActivities(true);
 
     try {
-      const token = typeof window !== 'undefined' ? localStorage.getItem(AUTH_TOKEN_KEY) : null;
-      if (!token) {
+      if (!authUser) {
         showToast('Please log in to view your activities', 'warning');
         return;
       }
 
-      // Get current user ID from localStorage
-      const userStr = typeof window !== 'undefined' ? localStorage.getItem('anilist_user') : null;
-      if (!userStr) {
-        showToast('User information not found. Please log in again.', 'warning');
-        return;
-      }
-
-      const user = JSON.parse(userStr);
-      if (!user.id) {
-        showToast('User ID not found. Please log in again.', 'warning');
-        return;
-      }
-
-      const activities = await fetchUserMediaListActivities(user.id, selectedMedia.id, token);
+      const activities = await fetchUserMediaListActivities(authUser.id, selectedMedia.id);
       
       setOwnActivities(activities);
       setShowOwnActivities(true);
@@ -428,15 +545,31 @@ function SearchContent() {
 
           <select
             value={mediaType}
-            onChange={(e) => setMediaType(e.target.value as 'ALL' | 'ANIME' | 'MANGA')}
+            onChange={(e) => {
+              const type = e.target.value as SearchMediaType;
+              setMediaType(type);
+              if (isBrowsing) updateBrowseUrl({ type });
+            }}
             className={styles.typeSelect}
           >
             <option value="ALL">All</option>
             <option value="ANIME">Anime</option>
             <option value="MANGA">Manga</option>
           </select>
+
+          <button
+            type="button"
+            onClick={() => setShowFilters(!showFilters)}
+            className={`${styles.filtersToggle} ${isBrowsing ? styles.filtersToggleActive : ''}`}
+          >
+            Filters{isBrowsing ? ' •' : ''}
+          </button>
         </div>
 
+        {showFilters && (
+          <SearchFilters filters={filters} onChange={(nextFilters) => updateBrowseUrl({ filters: nextFilters })} />
+        )}
+
       </div>
 
       <main className={styles.main}>
@@ -552,13 +685,29 @@ function SearchContent() {
                       View on AniList →
                     </a>
                   )}
+                  <Link href={`/anilist/media/${selectedMedia.id}`} className={styles.externalLink} style={{ marginLeft: '0.75rem' }}>
+                    Characters, staff & more →
+                  </Link>
+
+                  {/* Own list entry editor (status, score, progress, rewatches) */}
+                  {isAuthenticated && viewerInfo && (
+                    <ListEntryEditor
+                      key={`${selectedMedia.id}-${viewerInfo.entry?.id ?? 'new'}-${viewerInfo.entry?.updatedAt ?? ''}`}
+                      media={selectedMedia}
+                      scoreFormat={viewerInfo.scoreFormat}
+                      entry={viewerInfo.entry}
+                      saving={savingListEntry}
+                      onSave={handleSaveListEntry}
+                      onDelete={handleDeleteListEntry}
+                    />
+                  )}
 
                   {/* 
                     Followed Users Scores Section
                     Displays scores, status, and progress from users that the authenticated user follows.
                     Similar to AniList's "Social" section on media pages.
                   */}
-                  {hasToken && (
+                  {isAuthenticated && (
                     <div className={styles.followedScoresSection}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
                         <h3 className={styles.followedScoresTitle}>Followed Users Scores</h3>
@@ -625,13 +774,18 @@ function SearchContent() {
                         </div>
                       )}
                       
+                      {/* Average and distribution of the scores below (0-100, whatever each user's format) */}
+                      {!tokenError && !loadingScores && (
+                        <FollowedScoresSummary scores={followedScores} />
+                      )}
+
                       {/* Error message (e.g., expired token) */}
                       {tokenError ? (
                         <div className={styles.tokenError}>
                           {tokenError}
                           {tokenError.includes('expired') && (
                             <button 
-                              onClick={() => window.location.href = '/api/anilist/auth/authorize'}
+                              onClick={relogin}
                               className={styles.loginButton}
                               style={{ marginTop: '0.5rem', padding: '0.5rem 1rem', fontSize: '0.9rem' }}
                             >
@@ -644,107 +798,11 @@ function SearchContent() {
                         <div className={styles.loadingScores}>Loading scores...</div>
                       ) : followedScores.length > 0 ? (
                         // Display scores list
-                        <div className={styles.scoresList}>
-                          {Array.from(
-                            new Map(followedScores.map(score => [score.userId, score])).values()
-                          ).map((score) => (
-                            <div key={score.userId}>
-                              <div className={styles.scoreItem}>
-                                {/* User avatar */}
-                                {score.userAvatar && (
-                                  <img 
-                                    src={score.userAvatar} 
-                                    alt={score.userName}
-                                    className={styles.scoreAvatar}
-                                    loading="lazy"
-                                  />
-                                )}
-                                {/* User info and score details */}
-                                <div className={styles.scoreInfo}>
-                                  <span className={styles.scoreUserName}>{score.userName}</span>
-                                  <div className={styles.scoreDetails}>
-                                    {/* Score out of 100 */}
-                                    {score.score !== null && score.score !== undefined && (
-                                      <span className={styles.scoreValue}>Score: {score.score}/100</span>
-                                    )}
-                                    {/* Status (CURRENT, PLANNING, COMPLETED, etc.) */}
-                                    {score.status && (
-                                      <span className={styles.scoreStatus}>{score.status}</span>
-                                    )}
-                                    {/* Progress (episode/chapter number) */}
-                                    {score.progress !== null && score.progress !== undefined && (
-                                      <span className={styles.scoreProgress}>Progress: {score.progress}</span>
-                                    )}
-                                  </div>
-                                </div>
-                                {/* View activities button */}
-                                <button
-                                  onClick={() => handleViewActivities(score.userId, score.userName)}
-                                  className={styles.viewActivitiesButton}
-                                  disabled={loadingUserActivities[score.userId]}
-                                >
-                                  {loadingUserActivities[score.userId] 
-                                    ? 'Loading...' 
-                                    : expandedUserActivities[score.userId] 
-                                      ? 'Hide Activities' 
-                                      : 'View Activities'}
-                                </button>
-                              </div>
-                              {/* Expanded activities section */}
-                              {expandedUserActivities[score.userId] && (
-                                <div className={styles.userActivitiesSection}>
-                                  {expandedUserActivities[score.userId].length > 0 ? (
-                                    <div className={styles.activitiesList}>
-                                      {expandedUserActivities[score.userId].map((activity) => (
-                                        <div key={activity.id} className={styles.activityItem}>
-                                          <div className={styles.activityHeader}>
-                                            <span className={styles.activityDate}>
-                                              {formatActivityDate(activity.createdAt)}
-                                            </span>
-                                            {activity.status && (
-                                              <span className={styles.activityStatus}>
-                                                {getStatusLabel(activity.status)}
-                                              </span>
-                                            )}
-                                            {activity.progress !== null && activity.progress !== undefined && (
-                                              <span className={styles.activityProgress}>
-                                                Progress: {activity.progress}
-                                              </span>
-                                            )}
-                                          </div>
-                                          {activity.media?.coverImage?.medium && (
-                                            <img 
-                                              src={activity.media.coverImage.medium} 
-                                              alt={activity.media.title?.romaji || ''}
-                                              className={styles.activityMediaImage}
-                                              loading="lazy"
-                                            />
-                                          )}
-                                          <a 
-                                            href={`https://anilist.co/activity/${activity.id}`}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
-                                            className={styles.activityLink}
-                                          >
-                                            View on AniList →
-                                          </a>
-                                        </div>
-                                      ))}
-                                    </div>
-                                  ) : (
-                                    <div className={styles.noActivities}>
-                                      No list activities found for this media.
-                                    </div>
-                                  )}
-                                </div>
-                              )}
-                            </div>
-                          ))}
-                        </div>
+                        <FollowedScoresList key={selectedMedia.id} mediaId={selectedMedia.id} scores={followedScores} />
                       ) : (
                         // No scores found
                         <div className={styles.noScores}>
-                          {hasToken 
+                          {isAuthenticated 
                             ? 'No followed users have rated this media yet.' 
                             : 'Please log in to see followed users scores.'}
                         </div>
@@ -755,11 +813,71 @@ function SearchContent() {
               </div>
             </div>
           </div>
+        ) : isBrowsing ? (
+          <div className={styles.browseSection}>
+            {browseKey !== loadedBrowseKey ? (
+              <div className={styles.loadingScores}>Loading results...</div>
+            ) : browseResults.length === 0 ? (
+              <div className={styles.empty}>
+                <p>No media match these filters</p>
+              </div>
+            ) : (
+              <>
+                <div className={styles.browseSummary}>
+                  {browsePageInfo?.total ?? browseResults.length} results
+                </div>
+                <div className={styles.browseGrid}>
+                  {browseResults.map((media) => (
+                    <div key={media.id} className={styles.browseItem}>
+                      <button
+                        onClick={() => router.push(`/anilist/search?mediaId=${media.id}`)}
+                        className={styles.browseCard}
+                      >
+                        {media.coverImage?.large && (
+                          <img
+                            src={media.coverImage.large}
+                            alt={media.title.userPreferred || ''}
+                            className={styles.browseCover}
+                            loading="lazy"
+                          />
+                        )}
+                        <span className={styles.browseTitle}>
+                          {media.title.userPreferred || media.title.romaji || media.title.english}
+                        </span>
+                        <span className={styles.suggestionMeta}>
+                          {[media.format, media.startDate?.year, media.averageScore ? `${media.averageScore}%` : null]
+                            .filter(Boolean)
+                            .join(' • ')}
+                        </span>
+                      </button>
+                      {isAuthenticated && (
+                        <QuickProgress
+                          media={media}
+                          title={media.title.userPreferred || media.title.romaji || media.title.english || 'Untitled'}
+                          entry={media.id in listEntryOverrides ? listEntryOverrides[media.id] : media.mediaListEntry ?? null}
+                          onChange={handleListEntryChange}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {browsePageInfo?.hasNextPage && (
+                  <button
+                    onClick={handleLoadMoreResults}
+                    disabled={loadingMoreResults}
+                    className={styles.browseMoreButton}
+                  >
+                    {loadingMoreResults ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
         ) : (
           <div className={styles.empty}>
             <p>Search for anime or manga to see details</p>
             {query.length > 0 && query.length < 2 && (
-              <p className={styles.hint}>Type at least 2 characters to search</p>
+              <p className={styles.hint}>Type at least 2 characters to search, or use the filters to browse</p>
             )}
           </div>
         )}
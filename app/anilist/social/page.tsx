@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { getFollowedUsers, getFollowers, fetchLastActivityDates, AniListUser } from '@/lib/anilist';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import FollowButton from '../FollowButton';
+import styles from './social.module.css';
+
+// Same limit as /api/anilist/last-activity
+const LAST_ACTIVITY_BATCH = 50;
+
+type SocialTab = 'mutuals' | 'notFollowingBack' | 'notFollowedBack' | 'all';
+type SocialSort = 'name' | 'recent' | 'inactive';
+
+const TABS: { key: SocialTab; label: string; description: string }[] = [
+  { key: 'mutuals', label: 'Mutuals', description: 'You follow each other' },
+  { key: 'notFollowingBack', label: 'Not following back', description: 'You follow them, they don\'t follow you' },
+  { key: 'notFollowedBack', label: 'Followers', description: 'They follow you, you don\'t follow them' },
+  { key: 'all', label: 'Everyone', description: 'Everyone you follow or who follows you' },
+];
+
+function formatLastActivity(timestamp: number | null | undefined): string {
+  if (timestamp === undefined) return '…';
+  if (timestamp === null) return 'No activity';
+  const days = Math.floor((Date.now() / 1000 - timestamp) / 86400);
+  if (days < 1) return 'Today';
+  if (days < 2) return 'Yesterday';
+  if (days < 30) return `${days} days ago`;
+  return new Date(timestamp * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Social management for the logged-in user: mutuals, people who don't follow
+ * back, followers you don't follow, with each user's last activity date and
+ * follow/unfollow buttons.
+ */
+export default function SocialPage() {
+  const { showToast } = useToast();
+  const { authUser, isAuthenticated, isLoading: authLoading, login } = useAuth();
+  const [following, setFollowing] = useState<AniListUser[]>([]);
+  const [followers, setFollowers] = useState<AniListUser[]>([]);
+  // Viewer ID the lists were loaded for; loading while it differs from authUser
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastActivity, setLastActivity] = useState<Record<number, number | null>>({});
+  // Follows toggled from this page, by user ID
+  const [followOverrides, setFollowOverrides] = useState<Record<number, boolean>>({});
+  const [tab, setTab] = useState<SocialTab>('mutuals');
+  const [sortBy, setSortBy] = useState<SocialSort>('name');
+
+  const handleError = useCallback((err: unknown) => {
+    const message = err instanceof Error ? err.message : 'Failed to load your followers';
+    // Expired sessions (UNAUTHORIZED) are handled by AuthContext
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    return message;
+  }, [showToast]);
+
+  useEffect(() => {
+    if (!authUser) return;
+
+    let cancelled = false;
+    Promise.all([getFollowedUsers(), getFollowers()])
+      .then(([followingResult, followersResult]) => {
+        if (cancelled) return;
+        setFollowing(followingResult || []);
+        setFollowers(followersResult);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(handleError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFor(authUser.id);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authUser, handleError]);
+
+  // Everyone on either list, by ID
+  const users = useMemo(() => {
+    const byId = new Map<number, AniListUser>();
+    for (const user of [...following, ...followers]) {
+      if (!byId.has(user.id)) byId.set(user.id, user);
+    }
+    return byId;
+  }, [following, followers]);
+
+  // Last activity dates, loaded in batches once the lists are there
+  useEffect(() => {
+    const userIds = Array.from(users.keys());
+    if (userIds.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      for (let index = 0; index < userIds.length && !cancelled; index += LAST_ACTIVITY_BATCH) {
+        try {
+          const dates = await fetchLastActivityDates(userIds.slice(index, index + LAST_ACTIVITY_BATCH));
+          if (!cancelled) setLastActivity((prev) => ({ ...prev, ...dates }));
+        } catch (err) {
+          console.error('Error loading last activity dates:', err);
+          return;
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [users]);
+
+  const handleFollowChange = useCallback((userId: number, isFollowing: boolean) => {
+    setFollowOverrides((prev) => ({ ...prev, [userId]: isFollowing }));
+  }, []);
+
+  const followingIds = useMemo(() => new Set(following.map((user) => user.id)), [following]);
+  const followerIds = useMemo(() => new Set(followers.map((user) => user.id)), [followers]);
+  const isFollowing = (userId: number) => followOverrides[userId] ?? followingIds.has(userId);
+
+  if (authLoading) {
+    return <div className={styles.loading}>Loading...</div>;
+  }
+
+  if (!isAuthenticated || !authUser) {
+    return (
+      <div className={styles.socialContainer}>
+        <div className={styles.socialHeader}>
+          <h2>Followers &amp; Following</h2>
+          <p>Log in to see who follows you back.</p>
+        </div>
+        <button onClick={login} className={styles.loginButton}>
+          Login with AniList
+        </button>
+      </div>
+    );
+  }
+
+  const loading = loadedFor !== authUser.id;
+
+  const counts: Record<SocialTab, number> = { mutuals: 0, notFollowingBack: 0, notFollowedBack: 0, all: users.size };
+  const inTab: Record<SocialTab, (userId: number) => boolean> = {
+    mutuals: (id) => isFollowing(id) && followerIds.has(id),
+    notFollowingBack: (id) => isFollowing(id) && !followerIds.has(id),
+    notFollowedBack: (id) => !isFollowing(id) && followerIds.has(id),
+    all: () => true,
+  };
+  for (const id of users.keys()) {
+    if (inTab.mutuals(id)) counts.mutuals++;
+    if (inTab.notFollowingBack(id)) counts.notFollowingBack++;
+    if (inTab.notFollowedBack(id)) counts.notFollowedBack++;
+  }
+
+  const rows = Array.from(users.values())
+    .filter((user) => inTab[tab](user.id))
+    .sort((a, b) => {
+      if (sortBy === 'name') return a.name.localeCompare(b.name);
+      const aDate = lastActivity[a.id] ?? 0;
+      const bDate = lastActivity[b.id] ?? 0;
+      return sortBy === 'recent' ? bDate - aDate : aDate - bDate;
+    });
+
+  return (
+    <div className={styles.socialContainer}>
+      <div className={styles.socialHeader}>
+        <h2>Followers &amp; Following</h2>
+        {!loading && !error && (
+          <p>You follow {following.length} users and {followers.length} users follow you.</p>
+        )}
+      </div>
+
+      {loading && <div className={styles.loading}>Loading your followers...</div>}
+      {error && <div className={styles.error}>{error}</div>}
+
+      {!loading && !error && (
+        <>
+          <div className={styles.toolbar}>
+            <div className={styles.tabs}>
+              {TABS.map((item) => (
+                <button
+                  key={item.key}
+                  onClick={() => setTab(item.key)}
+                  className={`${styles.tab} ${tab === item.key ? styles.tabActive : ''}`}
+                  title={item.description}
+                >
+                  {item.label} ({counts[item.key]})
+                </button>
+              ))}
+            </div>
+            <label className={styles.sortControl}>
+              Sort by
+              <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SocialSort)} className={styles.sortSelect}>
+                <option value="name">Name</option>
+                <option value="recent">Most recently active</option>
+                <option value="inactive">Least recently active</option>
+              </select>
+            </label>
+          </div>
+
+          <p className={styles.tabDescription}>{TABS.find((item) => item.key === tab)?.description}</p>
+
+          {rows.length === 0 ? (
+            <div className={styles.empty}>Nobody here.</div>
+          ) : (
+            <ul className={styles.userList}>
+              {rows.map((user) => (
+                <li key={user.id} className={styles.userRow}>
+                  {user.avatar?.medium && <img src={user.avatar.medium} alt="" className={styles.avatar} loading="lazy" />}
+                  <div className={styles.userInfo}>
+                    <Link href={`/anilist/user/${encodeURIComponent(user.name)}`} className={styles.userName}>
+                      {user.name}
+                    </Link>
+                    <span className={styles.userMeta}>
+                      {followerIds.has(user.id) && <span className={styles.followsYou}>Follows you</span>}
+                      Last activity: {formatLastActivity(lastActivity[user.id])}
+                    </span>
+                  </div>
+                  <FollowButton
+                    userId={user.id}
+                    userName={user.name}
+                    isFollowing={isFollowing(user.id)}
+                    onChange={handleFollowChange}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
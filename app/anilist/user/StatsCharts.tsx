@@ -0,0 +1,49 @@
+'use client';
+
+import styles from './user.module.css';
+
+export interface ChartItem {
+  label: string;
+  value: number;
+  title?: string;
+}
+
+/**
+ * Horizontal bars, one per row (statuses, formats).
+ */
+export function BarList({ items }: { items: ChartItem[] }) {
+  const max = Math.max(...items.map((item) => item.value), 1);
+  return (
+    <ul className={styles.barList}>
+      {items.map((item) => (
+        <li key={item.label} className={styles.barRow} title={item.title}>
+          <span className={styles.barLabel}>{item.label}</span>
+          <div className={styles.barTrack}>
+            <div className={styles.bar} style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+          <span className={styles.barValue}>{item.value.toLocaleString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Vertical columns along an axis (scores, years, weeks, hours).
+ */
+export function ColumnChart({ items }: { items: ChartItem[] }) {
+  const max = Math.max(...items.map((item) => item.value), 1);
+  return (
+    <div className={styles.columnChart}>
+      {items.map((item) => (
+        <div key={item.label} className={styles.column} title={item.title || `${item.label}: ${item.value}`}>
+          <span className={styles.columnValue}>{item.value}</span>
+          <div className={styles.columnTrack}>
+            <div className={styles.columnBar} style={{ height: `${(item.value / max) * 100}%` }} />
+          </div>
+          <span className={styles.columnLabel}>{item.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
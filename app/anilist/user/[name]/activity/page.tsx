@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { fetchUserId, fetchUserActivities, ActivityStatus } from '@/lib/anilist';
+import { buildActivityAnalytics, buildHeatmapWeeks, TitleTimeline } from '@/lib/anilist-activity-stats';
+import { useToast } from '../../../contexts/ToastContext';
+import { ColumnChart } from '../../StatsCharts';
+import styles from '../../user.module.css';
+
+type AnalyticsRange = '30d' | '90d' | '180d' | '365d';
+
+const RANGES: { key: AnalyticsRange; label: string; days: number }[] = [
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '3 months', days: 90 },
+  { key: '180d', label: '6 months', days: 180 },
+  { key: '365d', label: '1 year', days: 365 },
+];
+
+const PER_PAGE = 50;
+// 1000 list activities per range at most, to stay well within the rate limit
+const MAX_PAGES = 20;
+// Timelines shown before "Show all"
+const TITLES_SHOWN = 12;
+
+const formatShortDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// 0 = no activity, 4 = the busiest days of the range
+function getHeatLevel(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0;
+  return Math.min(Math.max(Math.ceil((count / max) * 4), 1), 4);
+}
+
+function formatEvent(event: TitleTimeline['events'][number]): string {
+  const date = new Date(event.createdAt * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  return `${date}: ${event.status}${event.progress !== null ? ` ${event.progress}` : ''}`;
+}
+
+/**
+ * Progress of one title over the range: one dot per list activity.
+ */
+function TitleTimelineRow({ timeline, start, end }: { timeline: TitleTimeline; start: number; end: number }) {
+  const first = timeline.events.find((event) => event.progress !== null)?.progress;
+  const last = [...timeline.events].reverse().find((event) => event.progress !== null)?.progress;
+  const unit = timeline.type === 'MANGA' ? 'ch.' : 'ep.';
+
+  return (
+    <li className={styles.timelineRow}>
+      <Link href={`/anilist/media/${timeline.mediaId}`} className={styles.timelineTitle} title={timeline.title}>
+        {timeline.coverImage && <img src={timeline.coverImage} alt="" className={styles.timelineCover} loading="lazy" />}
+        <span>{timeline.title}</span>
+      </Link>
+      <div className={styles.timelineTrack}>
+        {timeline.events.map((event, index) => (
+          <span
+            key={`${event.createdAt}-${index}`}
+            className={`${styles.timelineDot} ${event.status.startsWith('completed') ? styles.timelineDotCompleted : ''}`}
+            style={{ left: `${Math.min(Math.max((event.createdAt - start) / (end - start), 0), 1) * 100}%` }}
+            title={formatEvent(event)}
+          />
+        ))}
+      </div>
+      <span className={styles.timelineSummary}>
+        {first !== undefined && last !== undefined && first !== last ? `${unit} ${first} → ${last}` : ''}
+        {timeline.units > 0 && ` (${timeline.units})`}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Activity habits of a user over a chosen range: daily heatmap, streaks,
+ * episodes/chapters per week, most active hours and per-title timelines.
+ * Built from the user's list activities, paged through the activities route.
+ */
+export default function UserActivityPage() {
+  const params = useParams<{ name: string }>();
+  const username = decodeURIComponent(params.name);
+  const { showToast } = useToast();
+  const [range, setRange] = useState<AnalyticsRange>('90d');
+  const [activities, setActivities] = useState<ActivityStatus[]>([]);
+  // `${username}|${range}` of `activities` (or of the error); loading while it differs
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loadedCount, setLoadedCount] = useState<number>(0);
+  const [truncated, setTruncated] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllTitles, setShowAllTitles] = useState<boolean>(false);
+  // Range bounds in Unix seconds, fixed when the range is loaded
+  const [bounds, setBounds] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
+
+  const handleError = useCallback((err: unknown) => {
+    const message = err instanceof Error ? err.message : 'Failed to load activities';
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    setError(message);
+  }, [showToast]);
+
+  const key = `${username}|${range}`;
+
+  useEffect(() => {
+    const days = RANGES.find((item) => item.key === range)!.days;
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - days * 86400;
+    let cancelled = false;
+
+    (async () => {
+      setLoadedCount(0);
+      const user = await fetchUserId(username);
+      if (!user) throw new Error('User not found');
+
+      const loaded: ActivityStatus[] = [];
+      let page = 1;
+      let hasNextPage = true;
+      while (hasNextPage && page <= MAX_PAGES && !cancelled) {
+        const result = await fetchUserActivities(user.id, page, PER_PAGE, 'list', 'all', undefined, start, end);
+        loaded.push(...(result?.activities || []));
+        hasNextPage = !!result?.pageInfo.hasNextPage;
+        page++;
+        if (!cancelled) setLoadedCount(loaded.length);
+      }
+      return { loaded, truncated: hasNextPage };
+    })()
+      .then((result) => {
+        if (cancelled) return;
+        setActivities(result.loaded);
+        setTruncated(result.truncated);
+        setBounds({ start, end });
+        setShowAllTitles(false);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) handleError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedKey(key);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, range, key, handleError]);
+
+  const analytics = useMemo(() => buildActivityAnalytics(activities), [activities]);
+  const heatmap = useMemo(
+    () => (bounds.end ? buildHeatmapWeeks(analytics.days, new Date(bounds.start * 1000), new Date(bounds.end * 1000)) : []),
+    [analytics, bounds]
+  );
+  const maxPerDay = Math.max(0, ...Object.values(analytics.days));
+  const totalEpisodes = analytics.weeks.reduce((sum, week) => sum + week.episodes, 0);
+  const totalChapters = analytics.weeks.reduce((sum, week) => sum + week.chapters, 0);
+  const titles = showAllTitles ? analytics.titles : analytics.titles.slice(0, TITLES_SHOWN);
+
+  const loading = loadedKey !== key;
+
+  return (
+    <div className={styles.profileContainer}>
+      <div className={styles.analyticsHeader}>
+        <h2>{username}&apos;s activity</h2>
+        <Link href={`/anilist/user/${encodeURIComponent(username)}`} className={styles.exportLink}>
+          ← Profile
+        </Link>
+      </div>
+
+      <div className={styles.profileTabs}>
+        {RANGES.map((item) => (
+          <button
+            key={item.key}
+            onClick={() => setRange(item.key)}
+            disabled={loading}
+            className={`${styles.profileTab} ${range === item.key ? styles.profileTabActive : ''}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className={styles.loading}>Loading activities... {loadedCount > 0 && `(${loadedCount})`}</div>
+      ) : error ? (
+        <div className={styles.error}>{error}</div>
+      ) : analytics.totalActivities === 0 ? (
+        <div className={styles.empty}>No list activity in this range.</div>
+      ) : (
+        <>
+          {truncated && (
+            <div className={styles.empty}>
+              Only the latest {analytics.totalActivities} activities of this range were loaded.
+            </div>
+          )}
+
+          <div className={styles.overview}>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{analytics.totalActivities.toLocaleString()}</span>
+              <span className={styles.overviewLabel}>List activities</span>
+            </div>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{analytics.activeDays}</span>
+              <span className={styles.overviewLabel}>Active days</span>
+            </div>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{analytics.currentStreak}</span>
+              <span className={styles.overviewLabel}>Current streak (days)</span>
+            </div>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{analytics.longestStreak}</span>
+              <span className={styles.overviewLabel}>Longest streak (days)</span>
+            </div>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{totalEpisodes.toLocaleString()}</span>
+              <span className={styles.overviewLabel}>Episodes</span>
+            </div>
+            <div className={styles.overviewCard}>
+              <span className={styles.overviewValue}>{totalChapters.toLocaleString()}</span>
+              <span className={styles.overviewLabel}>Chapters</span>
+            </div>
+          </div>
+
+          <section className={styles.section}>
+            <h3>Daily activity</h3>
+            <div className={styles.heatmap}>
+              {heatmap.map((week) => (
+                <div key={week[0].dateKey} className={styles.heatmapWeek}>
+                  {week.map((cell) => (
+                    <span
+                      key={cell.dateKey}
+                      className={cell.inRange ? `${styles.heatmapCell} ${styles[`heatLevel${getHeatLevel(cell.count, maxPerDay)}`]}` : styles.heatmapCellEmpty}
+                      title={cell.inRange ? `${formatShortDate(parseDateKey(cell.dateKey))}: ${cell.count} activit${cell.count === 1 ? 'y' : 'ies'}` : undefined}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className={styles.heatmapLegend}>
+              Less
+              {[0, 1, 2, 3, 4].map((level) => (
+                <span key={level} className={`${styles.heatmapCell} ${styles[`heatLevel${level}`]}`} />
+              ))}
+              More
+            </div>
+          </section>
+
+          <div className={styles.chartsGrid}>
+            {totalEpisodes > 0 && (
+              <section className={styles.section}>
+                <h3>Episodes per week</h3>
+                <ColumnChart
+                  items={analytics.weeks.map((week) => ({
+                    label: formatShortDate(parseDateKey(week.weekStart)),
+                    value: week.episodes,
+                    title: `Week of ${formatShortDate(parseDateKey(week.weekStart))}: ${week.episodes} episodes`,
+                  }))}
+                />
+              </section>
+            )}
+            {totalChapters > 0 && (
+              <section className={styles.section}>
+                <h3>Chapters per week</h3>
+                <ColumnChart
+                  items={analytics.weeks.map((week) => ({
+                    label: formatShortDate(parseDateKey(week.weekStart)),
+                    value: week.chapters,
+                    title: `Week of ${formatShortDate(parseDateKey(week.weekStart))}: ${week.chapters} chapters`,
+                  }))}
+                />
+              </section>
+            )}
+          </div>
+
+          <section className={styles.section}>
+            <h3>Most active hours</h3>
+            <ColumnChart
+              items={analytics.hours.map((count, hour) => ({
+                label: String(hour),
+                value: count,
+                title: `${hour}:00 - ${hour}:59: ${count} activities`,
+              }))}
+            />
+          </section>
+
+          <section className={styles.section}>
+            <h3>Progress by title</h3>
+            <ul className={styles.timelineList}>
+              {titles.map((timeline) => (
+                <TitleTimelineRow key={timeline.mediaId} timeline={timeline} start={bounds.start} end={bounds.end} />
+              ))}
+            </ul>
+            {analytics.titles.length > TITLES_SHOWN && (
+              <button onClick={() => setShowAllTitles((prev) => !prev)} className={`${styles.exportLink} ${styles.timelineMore}`}>
+                {showAllTitles ? 'Show less' : `Show all ${analytics.titles.length} titles`}
+              </button>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { fetchUserProfile, UserProfile, UserStatisticRow, FullUserStatistics } from '@/lib/anilist';
+import { SavedUser, readSavedUsers, addSavedUser, removeSavedUserById } from '@/lib/anilist-saved-users';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { BarList, ColumnChart } from '../StatsCharts';
+import styles from '../user.module.css';
+
+type StatsType = 'anime' | 'manga';
+type RankBy = 'count' | 'meanScore';
+
+const formatEnumLabel = (value: string) =>
+  value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+const formatDays = (minutes: number) => (minutes / 1440).toFixed(1);
+
+/**
+ * Genres, tags, studios, staff or voice actors ranked by count or mean score.
+ */
+function RankedTable({ title, rows, type, rankBy }: { title: string; rows: UserStatisticRow[]; type: StatsType; rankBy: RankBy }) {
+  if (rows.length === 0) return null;
+
+  const sorted = [...rows].sort((a, b) => b[rankBy] - a[rankBy] || b.count - a.count);
+
+  return (
+    <section className={styles.section}>
+      <h3>{title}</h3>
+      <table className={styles.rankedTable}>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Name</th>
+            <th>Count</th>
+            <th>Mean score</th>
+            <th>{type === 'anime' ? 'Days watched' : 'Chapters read'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, index) => (
+            <tr key={row.id ?? row.name}>
+              <td className={styles.rank}>{index + 1}</td>
+              <td>{row.name}</td>
+              <td>{row.count}</td>
+              <td>{row.meanScore ? `${row.meanScore.toFixed(1)}%` : '—'}</td>
+              <td>
+                {type === 'anime'
+                  ? formatDays(row.minutesWatched || 0)
+                  : (row.chaptersRead || 0).toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+/**
+ * User profile with the full AniList statistics breakdown: overview, score
+ * distribution, statuses, formats, release/start years and ranked genres,
+ * tags, studios, staff and voice actors.
+ */
+export default function UserProfilePage() {
+  const params = useParams<{ name: string }>();
+  const username = decodeURIComponent(params.name);
+  const router = useRouter();
+  const { showToast } = useToast();
+  const { authUser, isLoading: authLoading } = useAuth();
+  const accountId = authUser?.id ?? null;
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  // Username of `profile` (or of the error); loading while it differs from the URL
+  const [loadedName, setLoadedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [savedUsers, setSavedUsers] = useState<SavedUser[]>([]);
+  const [statsType, setStatsType] = useState<StatsType>('anime');
+  const [rankBy, setRankBy] = useState<RankBy>('count');
+  const [usernameInput, setUsernameInput] = useState<string>('');
+
+  const handleError = useCallback((err: unknown) => {
+    const message = err instanceof Error ? err.message : 'Failed to load this user';
+    if (err instanceof TypeError) {
+      showToast('Network error. Please check your connection.', 'error');
+    }
+    setError(message);
+  }, [showToast]);
+
+  useEffect(() => {
+    // Wait for the session check so the visit is saved to the right account
+    if (authLoading) return;
+    let cancelled = false;
+
+    fetchUserProfile(username)
+      .then((result) => {
+        if (cancelled) return;
+        setProfile(result);
+        setError(null);
+        // Same shortcut list as the home page's "Recent Users"
+        setSavedUsers(addSavedUser(readSavedUsers(accountId), result, username, accountId));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        handleError(err);
+        setSavedUsers(readSavedUsers(accountId));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedName(username);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, handleError, authLoading, accountId]);
+
+  const goToUser = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setUsernameInput('');
+    router.push(`/anilist/user/${encodeURIComponent(trimmed)}`);
+  };
+
+  const loading = loadedName !== username;
+  const stats: FullUserStatistics | null = profile?.statistics[statsType] ?? null;
+
+  return (
+    <div className={styles.profileContainer}>
+      <div className={styles.profileSearch}>
+        <input
+          type="text"
+          value={usernameInput}
+          onChange={(e) => setUsernameInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && goToUser(usernameInput)}
+          placeholder="Another AniList username"
+          className={styles.profileSearchInput}
+          autoComplete="off"
+        />
+        <button onClick={() => goToUser(usernameInput)} className={styles.profileSearchButton}>
+          View profile
+        </button>
+      </div>
+
+      {savedUsers.length > 0 && (
+        <div className={styles.savedUsers}>
+          {savedUsers.map((savedUser) => (
+            <div key={savedUser.id} className={styles.savedUser}>
+              <Link href={`/anilist/user/${encodeURIComponent(savedUser.name)}`} className={styles.savedUserLink}>
+                {savedUser.avatar && <img src={savedUser.avatar} alt="" className={styles.savedUserAvatar} loading="lazy" />}
+                {savedUser.name}
+              </Link>
+              <button
+                onClick={() => setSavedUsers(removeSavedUserById(savedUsers, savedUser.id, accountId))}
+                className={styles.savedUserRemove}
+                aria-label={`Remove ${savedUser.name}`}
+                title={`Remove ${savedUser.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className={styles.loading}>Loading profile...</div>
+      ) : error || !profile ? (
+        <div className={styles.error}>{error || 'User not found'}</div>
+      ) : (
+        <>
+          <div
+            className={styles.profileHeader}
+            style={profile.bannerImage ? { backgroundImage: `url(${profile.bannerImage})` } : undefined}
+          >
+            <div className={styles.profileHeaderContent}>
+              {profile.avatar?.large && <img src={profile.avatar.large} alt={profile.name} className={styles.profileAvatar} />}
+              <h2 className={styles.profileName}>{profile.name}</h2>
+              {profile.siteUrl && (
+                <a href={profile.siteUrl} target="_blank" rel="noopener noreferrer" className={styles.profileLink}>
+                  AniList profile →
+                </a>
+              )}
+            </div>
+          </div>
+
+          <div className={styles.exportBar}>
+            <span>Export list:</span>
+            {[
+              { label: 'MAL XML (anime)', query: 'format=xml&type=ANIME' },
+              { label: 'MAL XML (manga)', query: 'format=xml&type=MANGA' },
+              { label: 'CSV', query: 'format=csv' },
+            ].map((item) => (
+              <a
+                key={item.query}
+                href={`/api/anilist/export?username=${encodeURIComponent(profile.name)}&${item.query}`}
+                download
+                className={styles.exportLink}
+              >
+                {item.label}
+              </a>
+            ))}
+            <Link href={`/anilist/import?username=${encodeURIComponent(profile.name)}`} className={styles.exportLink}>
+              Import MAL XML
+            </Link>
+          </div>
+
+          <div className={styles.exportBar}>
+            <span>Activity feed:</span>
+            {(['rss', 'atom'] as const).map((format) => (
+              <a
+                key={format}
+                href={`/api/anilist/feed/${encodeURIComponent(profile.name)}?format=${format}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={styles.exportLink}
+              >
+                {format === 'rss' ? 'RSS' : 'Atom'}
+              </a>
+            ))}
+            <Link href={`/anilist/user/${encodeURIComponent(profile.name)}/activity`} className={styles.exportLink}>
+              Analytics
+            </Link>
+          </div>
+
+          <div className={styles.profileTabs}>
+            {(['anime', 'manga'] as StatsType[]).map((type) => (
+              <button
+                key={type}
+                onClick={() => setStatsType(type)}
+                className={`${styles.profileTab} ${statsType === type ? styles.profileTabActive : ''}`}
+              >
+                {type === 'anime' ? 'Anime' : 'Manga'}
+              </button>
+            ))}
+          </div>
+
+          {!stats || stats.count === 0 ? (
+            <div className={styles.empty}>No {statsType} on this user&apos;s list.</div>
+          ) : (
+            <>
+              <div className={styles.overview}>
+                <div className={styles.overviewCard}>
+                  <span className={styles.overviewValue}>{stats.count.toLocaleString()}</span>
+                  <span className={styles.overviewLabel}>Total {statsType}</span>
+                </div>
+                {statsType === 'anime' ? (
+                  <>
+                    <div className={styles.overviewCard}>
+                      <span className={styles.overviewValue}>{stats.episodesWatched.toLocaleString()}</span>
+                      <span className={styles.overviewLabel}>Episodes watched</span>
+                    </div>
+                    <div className={styles.overviewCard}>
+                      <span className={styles.overviewValue}>{formatDays(stats.minutesWatched)}</span>
+                      <span className={styles.overviewLabel}>Days watched</span>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className={styles.overviewCard}>
+                      <span className={styles.overviewValue}>{stats.chaptersRead.toLocaleString()}</span>
+                      <span className={styles.overviewLabel}>Chapters read</span>
+                    </div>
+                    <div className={styles.overviewCard}>
+                      <span className={styles.overviewValue}>{stats.volumesRead.toLocaleString()}</span>
+                      <span className={styles.overviewLabel}>Volumes read</span>
+                    </div>
+                  </>
+                )}
+                <div className={styles.overviewCard}>
+                  <span className={styles.overviewValue}>{stats.meanScore.toFixed(1)}</span>
+                  <span className={styles.overviewLabel}>Mean score</span>
+                </div>
+                <div className={styles.overviewCard}>
+                  <span className={styles.overviewValue}>{stats.standardDeviation.toFixed(1)}</span>
+                  <span className={styles.overviewLabel}>Standard deviation</span>
+                </div>
+              </div>
+
+              <div className={styles.chartsGrid}>
+                {stats.scores.length > 0 && (
+                  <section className={styles.section}>
+                    <h3>Scores</h3>
+                    <ColumnChart
+                      items={[...stats.scores]
+                        .sort((a, b) => a.score - b.score)
+                        .map((item) => ({ label: String(item.score), value: item.count }))}
+                    />
+                  </section>
+                )}
+                {stats.statuses.length > 0 && (
+                  <section className={styles.section}>
+                    <h3>Statuses</h3>
+                    <BarList items={stats.statuses.map((item) => ({ label: formatEnumLabel(item.status), value: item.count }))} />
+                  </section>
+                )}
+                {stats.formats.length > 0 && (
+                  <section className={styles.section}>
+                    <h3>Formats</h3>
+                    <BarList items={stats.formats.map((item) => ({ label: formatEnumLabel(item.format), value: item.count }))} />
+                  </section>
+                )}
+              </div>
+
+              {stats.releaseYears.length > 0 && (
+                <section className={styles.section}>
+                  <h3>Release years</h3>
+                  <ColumnChart
+                    items={[...stats.releaseYears]
+                      .sort((a, b) => a.releaseYear - b.releaseYear)
+                      .map((item) => ({
+                        label: String(item.releaseYear),
+                        value: item.count,
+                        title: `${item.releaseYear}: ${item.count} titles, mean ${item.meanScore.toFixed(1)}`,
+                      }))}
+                  />
+                </section>
+              )}
+              {stats.startYears.length > 0 && (
+                <section className={styles.section}>
+                  <h3>{statsType === 'anime' ? 'Watch years' : 'Read years'}</h3>
+                  <ColumnChart
+                    items={[...stats.startYears]
+                      .sort((a, b) => a.startYear - b.startYear)
+                      .map((item) => ({
+                        label: String(item.startYear),
+                        value: item.count,
+                        title: `${item.startYear}: ${item.count} titles started, mean ${item.meanScore.toFixed(1)}`,
+                      }))}
+                  />
+                </section>
+              )}
+
+              <div className={styles.rankControls}>
+                <span>Rank by</span>
+                <select value={rankBy} onChange={(e) => setRankBy(e.target.value as RankBy)} className={styles.rankSelect}>
+                  <option value="count">Count</option>
+                  <option value="meanScore">Mean score</option>
+                </select>
+              </div>
+
+              <RankedTable
+                title="Genres"
+                rows={stats.genres.map(({ genre, ...row }) => ({ ...row, name: genre }))}
+                type={statsType}
+                rankBy={rankBy}
+              />
+              <RankedTable title="Tags" rows={stats.tags} type={statsType} rankBy={rankBy} />
+              <RankedTable title="Studios" rows={stats.studios} type={statsType} rankBy={rankBy} />
+              <RankedTable title="Voice actors" rows={stats.voiceActors} type={statsType} rankBy={rankBy} />
+              <RankedTable title="Staff" rows={stats.staff} type={statsType} rankBy={rankBy} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { invalidateCache, viewerTag } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// Passing `id` edits an existing reply instead of creating a new one
+const SAVE_ACTIVITY_REPLY = `
+  mutation SaveActivityReply($id: Int, $activityId: Int, $text: String) {
+    SaveActivityReply(id: $id, activityId: $activityId, text: $text) {
+      id
+      userId
+      activityId
+      text(asHtml: true)
+      rawText: text
+      createdAt
+      isLiked
+      likeCount
+      user {
+        id
+        name
+        avatar {
+          large
+          medium
+        }
+      }
+    }
+  }
+`;
+
+const DELETE_ACTIVITY_REPLY = `
+  mutation DeleteActivityReply($id: Int!) {
+    DeleteActivityReply(id: $id) {
+      deleted
+    }
+  }
+`;
+
+/**
+ * API route to post a reply on an activity, or edit one of the viewer's replies.
+ *
+ * @param request.body.activityId - Activity to reply to (required for new replies)
+ * @param request.body.id - Existing reply ID (edit mode)
+ * @param request.body.text - Reply text (AniList markdown)
+ * @returns JSON response with the saved reply
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return anilistErrorJson('Invalid request body', 400, 'BAD_REQUEST');
+    }
+
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      return anilistErrorJson('text is required', 400, 'BAD_REQUEST');
+    }
+
+    if (!body.id && !body.activityId) {
+      return anilistErrorJson('activityId or id is required', 400, 'BAD_REQUEST');
+    }
+
+    const variables: Record<string, unknown> = { text };
+    for (const field of ['id', 'activityId'] as const) {
+      if (body[field] === undefined || body[field] === null) continue;
+      const value = parseInt(body[field], 10);
+      if (isNaN(value) || value < 1) {
+        return anilistErrorJson(`Invalid ${field}`, 400, 'BAD_REQUEST');
+      }
+      variables[field] = value;
+    }
+
+    const data = await anilistRequest<{ SaveActivityReply?: { activityId: number } }>(
+      SAVE_ACTIVITY_REPLY,
+      variables,
+      { accessToken, context: 'activity-reply API' }
+    );
+
+    if (!data.SaveActivityReply) {
+      return anilistErrorJson('No data returned', 500, 'INVALID_RESPONSE');
+    }
+
+    await invalidateCache([viewerTag(accessToken), `activity:${data.SaveActivityReply.activityId}`]);
+
+    return NextResponse.json(data.SaveActivityReply);
+  } catch (error) {
+    return anilistErrorResponse(error, 'activity-reply API');
+  }
+}
+
+/**
+ * API route to delete one of the viewer's replies.
+ *
+ * @param request.nextUrl.searchParams.id - The reply ID
+ * @returns JSON response `{ deleted: boolean }`
+ */
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+
+  if (!id) {
+    return anilistErrorJson('id is required', 400, 'BAD_REQUEST');
+  }
+
+  const replyId = parseInt(id, 10);
+  if (isNaN(replyId)) {
+    return anilistErrorJson('Invalid id', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const data = await anilistRequest<{ DeleteActivityReply?: { deleted: boolean } }>(
+      DELETE_ACTIVITY_REPLY,
+      { id: replyId },
+      { accessToken, context: 'activity-reply API' }
+    );
+
+    // The reply's activity is unknown here: other viewers see it gone once their entries expire
+    await invalidateCache([viewerTag(accessToken)]);
+
+    return NextResponse.json({ deleted: !!data.DeleteActivityReply?.deleted });
+  } catch (error) {
+    return anilistErrorResponse(error, 'activity-reply API');
+  }
+}
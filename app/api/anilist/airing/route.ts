@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// Longest window that can be requested at once
+const MAX_WINDOW_SECONDS = 14 * 24 * 60 * 60;
+// AiringSchedule pages are capped at 50; a busy season rarely needs more than a few
+const MAX_SCHEDULE_PAGES = 5;
+
+/**
+ * The viewer's anime currently being watched (or rewatched), with their
+ * progress and each title's next episode.
+ */
+const GET_CURRENT_ANIME = `
+  query GetCurrentAnime($userId: Int!) {
+    MediaListCollection(userId: $userId, type: ANIME, status_in: [CURRENT, REPEATING]) {
+      lists {
+        isCustomList
+        entries {
+          id
+          status
+          progress
+          media {
+            id
+            title {
+              romaji
+              english
+              native
+              userPreferred
+            }
+            type
+            format
+            status
+            episodes
+            coverImage {
+              large
+              medium
+            }
+            siteUrl
+            nextAiringEpisode {
+              id
+              airingAt
+              episode
+              timeUntilAiring
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Episodes of the given titles airing within a time window.
+ */
+const GET_AIRING_SCHEDULES = `
+  query GetAiringSchedules($mediaIds: [Int], $start: Int, $end: Int, $page: Int) {
+    Page(page: $page, perPage: 50) {
+      pageInfo {
+        hasNextPage
+      }
+      airingSchedules(mediaId_in: $mediaIds, airingAt_greater: $start, airingAt_lesser: $end, sort: TIME) {
+        id
+        airingAt
+        episode
+        mediaId
+      }
+    }
+  }
+`;
+
+interface CurrentEntry {
+  id: number;
+  status: string;
+  progress: number | null;
+  media: { id: number };
+}
+
+interface CurrentAnimeResponse {
+  MediaListCollection?: {
+    lists?: Array<{
+      isCustomList: boolean;
+      entries?: CurrentEntry[];
+    }>;
+  };
+}
+
+interface AiringSchedule {
+  id: number;
+  airingAt: number;
+  episode: number;
+  mediaId: number;
+}
+
+interface AiringSchedulesResponse {
+  Page?: {
+    pageInfo?: { hasNextPage: boolean };
+    airingSchedules?: AiringSchedule[];
+  };
+}
+
+/**
+ * API route for the airing calendar of the logged-in user's current anime.
+ *
+ * This endpoint:
+ * 1. Gets the authenticated user's ID (Viewer)
+ * 2. Fetches their CURRENT and REPEATING anime with progress and next episode
+ * 3. Fetches the episodes of those titles airing between `start` and `end`
+ *
+ * @param request.nextUrl.searchParams.start - Window start (Unix seconds)
+ * @param request.nextUrl.searchParams.end - Window end (Unix seconds, at most 14 days after start)
+ * @returns JSON response `{ entries, schedules }`
+ */
+export async function GET(request: NextRequest) {
+  const accessToken = await getAccessToken(request);
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const start = parseInt(searchParams.get('start') || '', 10);
+  const end = parseInt(searchParams.get('end') || '', 10);
+
+  if (isNaN(start) || isNaN(end) || end <= start) {
+    return anilistErrorJson('start and end are required (Unix seconds, end after start)', 400, 'BAD_REQUEST');
+  }
+  if (end - start > MAX_WINDOW_SECONDS) {
+    return anilistErrorJson('The window cannot be longer than 14 days', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const cacheStatuses: CacheStatus[] = [];
+    const { data: viewerData, cacheStatus: viewerCacheStatus } = await cachedAnilistRequest<{ Viewer?: { id: number } }>(
+      `query { Viewer { id } }`,
+      undefined,
+      { accessToken, context: 'airing API', entity: 'user' }
+    );
+    cacheStatuses.push(viewerCacheStatus);
+
+    if (!viewerData.Viewer?.id) {
+      return anilistErrorJson('Failed to get authenticated user ID', 401, 'UNAUTHORIZED');
+    }
+
+    const { data: listData, cacheStatus: listCacheStatus } = await cachedAnilistRequest<CurrentAnimeResponse>(
+      GET_CURRENT_ANIME,
+      { userId: viewerData.Viewer.id },
+      { accessToken, context: 'airing API', entity: 'listEntry', tags: [`list:${viewerData.Viewer.id}`] }
+    );
+    cacheStatuses.push(listCacheStatus);
+
+    // Custom lists repeat entries of the status lists
+    const entries = new Map<number, CurrentEntry>();
+    for (const list of listData.MediaListCollection?.lists || []) {
+      if (list.isCustomList) continue;
+      for (const entry of list.entries || []) {
+        entries.set(entry.media.id, entry);
+      }
+    }
+
+    const mediaIds = Array.from(entries.keys());
+    const schedules: AiringSchedule[] = [];
+
+    if (mediaIds.length > 0) {
+      for (let page = 1; page <= MAX_SCHEDULE_PAGES; page++) {
+        // Schedules are the same for everyone: cached without the token
+        const { data: scheduleData, cacheStatus } = await cachedAnilistRequest<AiringSchedulesResponse>(
+          GET_AIRING_SCHEDULES,
+          { mediaIds, start, end, page },
+          { context: 'airing API', entity: 'airing' }
+        );
+        cacheStatuses.push(cacheStatus);
+        schedules.push(...(scheduleData.Page?.airingSchedules || []));
+        if (!scheduleData.Page?.pageInfo?.hasNextPage) break;
+      }
+    }
+
+    console.log(`[airing API] ✅ ${entries.size} current titles, ${schedules.length} episodes in window`);
+
+    return withCacheStatus(NextResponse.json({
+      entries: Array.from(entries.values()),
+      schedules,
+    }), cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'airing API');
+  }
+}
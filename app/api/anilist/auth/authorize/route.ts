@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ANILIST_OAUTH_URL } from '@/lib/anilist-server';
+import { RETURN_TO_COOKIE_NAME } from '@/lib/anilist-session';
 
 const ANILIST_CLIENT_ID = process.env.ANILIST_CLIENT_ID;
 const ANILIST_REDIRECT_URI = process.env.ANILIST_REDIRECT_URI || 'http://localhost:3000/api/anilist/auth/callback';
 
+/**
+ * Start the OAuth login.
+ *
+ * @param request.nextUrl.searchParams.returnTo - In-app path to come back to after login (e.g. when the session expired)
+ */
 export async function GET(request: NextRequest) {
   if (!ANILIST_CLIENT_ID) {
     console.error('ANILIST_CLIENT_ID is not set in environment variables');
@@ -17,9 +24,9 @@ export async function GET(request: NextRequest) {
 
   const state = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   
-  // Store state in a cookie for verification
+  // Sent back by AniList with the code; the callback checks it against this cookie
   const response = NextResponse.redirect(
-    `https://anilist.co/api/v2/oauth/authorize?client_id=${ANILIST_CLIENT_ID}&response_type=code&redirect_uri=${encodeURIComponent(ANILIST_REDIRECT_URI)}`
+    `${ANILIST_OAUTH_URL}/authorize?client_id=${ANILIST_CLIENT_ID}&response_type=code&redirect_uri=${encodeURIComponent(ANILIST_REDIRECT_URI)}&state=${state}`
   );
   
   response.cookies.set('anilist_oauth_state', state, {
@@ -29,5 +36,18 @@ export async function GET(request: NextRequest) {
     maxAge: 600, // 10 minutes
   });
 
+  // Only same-origin paths, never `//host` or absolute URLs
+  const returnTo = request.nextUrl.searchParams.get('returnTo');
+  if (returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//')) {
+    response.cookies.set(RETURN_TO_COOKIE_NAME, returnTo, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 600,
+    });
+  } else {
+    response.cookies.delete(RETURN_TO_COOKIE_NAME);
+  }
+
   return response;
 }
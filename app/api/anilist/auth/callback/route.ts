@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, ANILIST_OAUTH_URL } from '@/lib/anilist-server';
+import { createSession, getAccountSessions, revokeSessionId, setSessionCookie, setAccountsCookie, MAX_ACCOUNTS, RETURN_TO_COOKIE_NAME, SessionUser } from '@/lib/anilist-session';
 
 const ANILIST_CLIENT_ID = process.env.ANILIST_CLIENT_ID;
 const ANILIST_CLIENT_SECRET = process.env.ANILIST_CLIENT_SECRET;
@@ -34,6 +36,14 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  // The state must be the one this browser got from /auth/authorize, otherwise
+  // the code could be someone else's (login CSRF)
+  if (!state || state !== storedState) {
+    return NextResponse.redirect(
+      `${baseUrl}/anilist?error=invalid_state`
+    );
+  }
+
   if (!ANILIST_CLIENT_ID || !ANILIST_CLIENT_SECRET) {
     return NextResponse.redirect(
       `${baseUrl}/anilist?error=config_error`
@@ -42,7 +52,7 @@ export async function GET(request: NextRequest) {
 
   try {
     // Exchange code for access token
-    const tokenResponse = await fetch('https://anilist.co/api/v2/oauth/token', {
+    const tokenResponse = await fetch(`${ANILIST_OAUTH_URL}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -75,15 +85,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Get user info to verify token
-    const userResponse = await fetch('https://graphql.anilist.co', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        query: `
+    let viewer: SessionUser;
+    try {
+      const data = await anilistRequest<{ Viewer: SessionUser }>(
+        `
           query {
             Viewer {
               id
@@ -95,31 +100,43 @@ export async function GET(request: NextRequest) {
             }
           }
         `,
-      }),
-    });
-
-    if (!userResponse.ok) {
+        undefined,
+        { accessToken, context: 'auth callback' }
+      );
+      viewer = data.Viewer;
+    } catch (error) {
+      console.error('OAuth callback: failed to verify token:', error);
       return NextResponse.redirect(
         `${baseUrl}/anilist?error=user_fetch_failed`
       );
     }
 
-    const userData = await userResponse.json();
-    
-    if (userData.errors) {
-      return NextResponse.redirect(
-        `${baseUrl}/anilist?error=user_fetch_failed`
-      );
+    // Keep the token server-side: the browser only gets an httpOnly session cookie.
+    // Logging in again with the same account replaces its previous session;
+    // other accounts stay logged in (the oldest ones past MAX_ACCOUNTS are signed out).
+    const accounts = await getAccountSessions(request);
+    const others = accounts.filter((account) => account.user.id !== viewer.id);
+    const dropped = [
+      ...accounts.filter((account) => account.user.id === viewer.id),
+      ...others.slice(0, Math.max(0, others.length - (MAX_ACCOUNTS - 1))),
+    ];
+    for (const account of dropped) {
+      await revokeSessionId(account.sessionId);
     }
+    const kept = others.filter((account) => !dropped.includes(account));
 
-    // Redirect to anilist page with success
-    // The token will be stored client-side via a query parameter (we'll handle this in the frontend)
-    const redirectUrl = `${baseUrl}/anilist?auth_success=true&token=${encodeURIComponent(accessToken)}`;
-    
-    const response = NextResponse.redirect(redirectUrl);
+    const { sessionId, expiresAt } = await createSession(accessToken, viewer, tokenData.expires_in);
+
+    // Back to where the login started (e.g. the page on which the session expired)
+    const returnTo = new URL(request.cookies.get(RETURN_TO_COOKIE_NAME)?.value || '/anilist', baseUrl);
+    returnTo.searchParams.set('auth_success', 'true');
+    const response = NextResponse.redirect(`${baseUrl}${returnTo.pathname}${returnTo.search}`);
+    setSessionCookie(response, sessionId, expiresAt);
+    setAccountsCookie(response, [...kept.map((account) => account.sessionId), sessionId]);
     
-    // Clear the state cookie
+    // Clear the state and return cookies
     response.cookies.delete('anilist_oauth_state');
+    response.cookies.delete(RETURN_TO_COOKIE_NAME);
     
     return response;
   } catch (error) {
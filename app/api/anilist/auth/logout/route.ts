@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearSessionCookie,
+  clearAccountsCookie,
+  getAccountSessions,
+  revokeSessionId,
+  setAccountsCookie,
+  setSessionCookie,
+  SESSION_COOKIE_NAME,
+} from '@/lib/anilist-session';
+
+/**
+ * Log the active account out. When other accounts are logged in on this
+ * browser, the most recently added one becomes active and is returned as
+ * `user`. `?all=true` logs every account out.
+ */
+export async function POST(request: NextRequest) {
+  const all = request.nextUrl.searchParams.get('all') === 'true';
+  const activeId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+
+  let remaining: Awaited<ReturnType<typeof getAccountSessions>> = [];
+  try {
+    const accounts = await getAccountSessions(request);
+    for (const account of accounts) {
+      if (all || account.sessionId === activeId) {
+        await revokeSessionId(account.sessionId);
+      } else {
+        remaining.push(account);
+      }
+    }
+    // The active session may already be invalid (and so missing from the accounts)
+    if (activeId && !accounts.some((account) => account.sessionId === activeId)) {
+      await revokeSessionId(activeId);
+    }
+  } catch (error) {
+    // Still clear the cookies so the browser is logged out either way
+    console.error('Logout: failed to revoke session:', error);
+    remaining = [];
+  }
+
+  const next = remaining[remaining.length - 1];
+  const response = NextResponse.json({ success: true, user: next?.user ?? null });
+  if (next) {
+    setSessionCookie(response, next.sessionId, next.expiresAt);
+    setAccountsCookie(response, remaining.map((account) => account.sessionId));
+  } else {
+    clearSessionCookie(response);
+    clearAccountsCookie(response);
+  }
+  return response;
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccountSessions, SESSION_COOKIE_NAME } from '@/lib/anilist-session';
+
+// Returns the logged-in AniList user and the other accounts logged in on this
+// browser (never the access tokens themselves)
+export async function GET(request: NextRequest) {
+  const accounts = await getAccountSessions(request);
+  const activeId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = accounts.find((account) => account.sessionId === activeId);
+
+  if (!session) {
+    return NextResponse.json({ user: null, accounts: [] }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  return NextResponse.json(
+    {
+      user: session.user,
+      expiresAt: session.expiresAt.toISOString(),
+      accounts: accounts.map((account) => ({
+        user: account.user,
+        expiresAt: account.expiresAt.toISOString(),
+      })),
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
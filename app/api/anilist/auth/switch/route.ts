@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson } from '@/lib/anilist-server';
+import { getAccountSessions, setSessionCookie } from '@/lib/anilist-session';
+
+/**
+ * Make another account logged in on this browser the active one.
+ *
+ * @param request.body.userId - AniList user ID of the account to switch to
+ * @returns JSON response `{ user }` with the now active user
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const userId = parseInt(body?.userId, 10);
+  if (isNaN(userId)) {
+    return anilistErrorJson('userId is required', 400, 'BAD_REQUEST');
+  }
+
+  const accounts = await getAccountSessions(request);
+  const account = accounts.find((item) => item.user.id === userId);
+  if (!account) {
+    return anilistErrorJson('This account is not logged in', 401, 'UNAUTHORIZED');
+  }
+
+  console.log(`[auth switch] 🔁 Switched to ${account.user.name} (${account.user.id})`);
+
+  const response = NextResponse.json({ user: account.user });
+  setSessionCookie(response, account.sessionId, account.expiresAt);
+  return response;
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { getAccessToken } from '@/lib/anilist-session';
+import { buildMalXml, buildListCsv, formatFuzzyDate, ExportListEntry, ListMediaType, AniListStatus } from '@/lib/anilist-mal';
+
+/**
+ * A user's complete list for one media type, with the MAL ID of each title.
+ * Scores are requested as POINT_100 and converted to MAL's 10-point scale.
+ */
+const GET_EXPORT_LIST = `
+  query GetExportList($userName: String!, $type: MediaType!) {
+    MediaListCollection(userName: $userName, type: $type, forceSingleCompletedList: true) {
+      user {
+        id
+        name
+      }
+      lists {
+        isCustomList
+        entries {
+          mediaId
+          status
+          score(format: POINT_100)
+          progress
+          progressVolumes
+          repeat
+          notes
+          startedAt {
+            year
+            month
+            day
+          }
+          completedAt {
+            year
+            month
+            day
+          }
+          media {
+            idMal
+            format
+            episodes
+            chapters
+            volumes
+            title {
+              romaji
+              english
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+type FuzzyDate = { year: number | null; month: number | null; day: number | null } | null;
+
+interface ExportCollectionEntry {
+  mediaId: number;
+  status: AniListStatus;
+  score: number;
+  progress: number | null;
+  progressVolumes: number | null;
+  repeat: number | null;
+  notes: string | null;
+  startedAt: FuzzyDate;
+  completedAt: FuzzyDate;
+  media: {
+    idMal: number | null;
+    format?: string;
+    episodes: number | null;
+    chapters: number | null;
+    volumes: number | null;
+    title: { romaji?: string; english?: string };
+  };
+}
+
+interface ExportCollectionResponse {
+  MediaListCollection?: {
+    user?: { id: number; name: string };
+    lists?: Array<{
+      isCustomList: boolean;
+      entries?: ExportCollectionEntry[];
+    }>;
+  };
+}
+
+async function fetchExportEntries(
+  userName: string,
+  type: ListMediaType,
+  accessToken: string | null
+): Promise<{ userName: string; entries: ExportListEntry[] }> {
+  const data = await anilistRequest<ExportCollectionResponse>(
+    GET_EXPORT_LIST,
+    { userName, type },
+    { accessToken, context: 'export API' }
+  );
+
+  // Custom lists repeat entries of the status lists
+  const entries = new Map<number, ExportListEntry>();
+  for (const list of data.MediaListCollection?.lists || []) {
+    if (list.isCustomList) continue;
+    for (const entry of list.entries || []) {
+      entries.set(entry.mediaId, {
+        mediaId: entry.mediaId,
+        idMal: entry.media.idMal,
+        type,
+        title: entry.media.title.romaji || entry.media.title.english || '',
+        format: entry.media.format,
+        status: entry.status,
+        score: entry.score || 0,
+        progress: entry.progress || 0,
+        progressVolumes: entry.progressVolumes || 0,
+        repeat: entry.repeat || 0,
+        startedAt: formatFuzzyDate(entry.startedAt),
+        completedAt: formatFuzzyDate(entry.completedAt),
+        notes: entry.notes,
+        totalEpisodes: type === 'ANIME' ? entry.media.episodes : entry.media.chapters,
+        totalVolumes: entry.media.volumes,
+      });
+    }
+  }
+
+  return {
+    userName: data.MediaListCollection?.user?.name || userName,
+    entries: Array.from(entries.values()),
+  };
+}
+
+/**
+ * API route exporting a user's list as a file download.
+ *
+ * - `format=xml`: MyAnimeList XML for one media type (`type` is required).
+ *   Titles without a MAL ID are left out; their count is in `X-Skipped-Entries`.
+ * - `format=csv`: flat CSV, anime and manga together unless `type` is given.
+ *
+ * Private lists are exported when the logged-in user is allowed to see them.
+ *
+ * @param request.nextUrl.searchParams.username - The AniList username
+ * @param request.nextUrl.searchParams.format - xml or csv
+ * @param request.nextUrl.searchParams.type - ANIME or MANGA
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const username = searchParams.get('username')?.trim();
+  const format = searchParams.get('format')?.toLowerCase();
+  const typeParam = searchParams.get('type')?.toUpperCase();
+
+  if (!username) {
+    return anilistErrorJson('Username is required', 400, 'BAD_REQUEST');
+  }
+  if (format !== 'xml' && format !== 'csv') {
+    return anilistErrorJson('format must be xml or csv', 400, 'BAD_REQUEST');
+  }
+  if (typeParam && typeParam !== 'ANIME' && typeParam !== 'MANGA') {
+    return anilistErrorJson('type must be ANIME or MANGA', 400, 'BAD_REQUEST');
+  }
+  if (format === 'xml' && !typeParam) {
+    return anilistErrorJson('type is required for the MAL XML export', 400, 'BAD_REQUEST');
+  }
+
+  const types: ListMediaType[] = typeParam ? [typeParam as ListMediaType] : ['ANIME', 'MANGA'];
+
+  try {
+    const accessToken = await getAccessToken(request);
+    let userName = username;
+    const entries: ExportListEntry[] = [];
+    for (const type of types) {
+      const result = await fetchExportEntries(username, type, accessToken);
+      userName = result.userName;
+      entries.push(...result.entries);
+    }
+
+    if (format === 'xml') {
+      const type = types[0];
+      const { xml, skipped } = buildMalXml(type, userName, entries);
+      console.log(`[export API] ✅ ${userName} ${type} XML: ${entries.length - skipped.length} entries, ${skipped.length} without MAL ID`);
+
+      return new NextResponse(xml, {
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${userName}_${type.toLowerCase()}_mal.xml"`,
+          'X-Skipped-Entries': String(skipped.length),
+        },
+      });
+    }
+
+    console.log(`[export API] ✅ ${userName} CSV: ${entries.length} entries`);
+
+    return new NextResponse(buildListCsv(entries), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${userName}_${typeParam ? typeParam.toLowerCase() : 'lists'}.csv"`,
+      },
+    });
+  } catch (error) {
+    return anilistErrorResponse(error, 'export API');
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getFeedActivityTypes, buildRssFeed, buildAtomFeed, FeedActivity, FeedFormat } from '@/lib/anilist-feed';
+
+const FEED_SIZE = 30;
+
+// Feed readers poll often: they (and proxies) may reuse a feed this long.
+// AniList itself is asked at most once per activity TTL (lib/anilist-cache.ts).
+const FEED_MAX_AGE_SECONDS = 5 * 60;
+
+// Same lookup as /api/anilist/user (used by fetchUserId)
+const GET_FEED_USER = `
+  query GetFeedUser($username: String!) {
+    User(search: $username) {
+      id
+      name
+      siteUrl
+      avatar {
+        medium
+      }
+    }
+  }
+`;
+
+const GET_FEED_ACTIVITIES = `
+  query GetFeedActivities($userId: Int!, $perPage: Int, $types: [ActivityType]) {
+    Page(perPage: $perPage) {
+      activities(userId: $userId, sort: ID_DESC, type_in: $types) {
+        ... on TextActivity {
+          id
+          type
+          createdAt
+          text(asHtml: true)
+        }
+        ... on ListActivity {
+          id
+          type
+          status
+          progress
+          createdAt
+          media {
+            id
+            type
+            siteUrl
+            title {
+              userPreferred
+              romaji
+            }
+            coverImage {
+              large
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface BuiltFeed {
+  body: string;
+  etag: string;
+  lastModified: Date;
+  cacheStatuses: CacheStatus[];
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+async function buildFeed(username: string, format: FeedFormat, types: string[] | null, selfUrl: string): Promise<BuiltFeed | null> {
+  // Only public data, so never with the session token: cached entries are shared by everyone
+  const userResult = await cachedAnilistRequest<{ User?: { id: number; name: string; siteUrl: string; avatar?: { medium?: string } } }>(
+    GET_FEED_USER,
+    { username },
+    { context: 'feed API', entity: 'user' }
+  );
+  const user = userResult.data.User;
+  if (!user) return null;
+
+  const variables: Record<string, unknown> = { userId: user.id, perPage: FEED_SIZE };
+  if (types) variables.types = types;
+
+  const { data, cacheStatus } = await cachedAnilistRequest<{ Page?: { activities?: FeedActivity[] } }>(
+    GET_FEED_ACTIVITIES,
+    variables,
+    { context: 'feed API', entity: 'activity', tags: [`activities:${user.id}`] }
+  );
+  // Message activities come back as empty objects (no fragment for them)
+  const activities = (data.Page?.activities || []).filter((activity) => activity.id);
+
+  const channel = { userName: user.name, profileUrl: user.siteUrl, selfUrl, avatar: user.avatar?.medium };
+  const body = format === 'atom' ? buildAtomFeed(channel, activities) : buildRssFeed(channel, activities);
+
+  // HTTP dates have a one-second resolution, like AniList timestamps
+  const lastModified = new Date((activities[0]?.createdAt ?? Math.floor(Date.now() / 1000)) * 1000);
+
+  return {
+    body,
+    etag: `"${createHash('sha1').update(body).digest('hex')}"`,
+    lastModified,
+    cacheStatuses: [userResult.cacheStatus, cacheStatus],
+  };
+}
+
+function isNotModified(request: NextRequest, feed: BuiltFeed): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === feed.etag || tag.trim() === '*');
+  }
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && feed.lastModified.getTime() <= since;
+  }
+  return false;
+}
+
+/**
+ * Public RSS 2.0 / Atom feed of a user's recent activities (list progress
+ * and text posts), for feed readers.
+ *
+ * Only public activities are included: the session is never used, so cached
+ * feeds are the same for everyone. Responses carry an ETag and Last-Modified
+ * and conditional requests get a 304.
+ *
+ * @param params.username - The AniList username
+ * @param request.nextUrl.searchParams.format - rss (default) or atom
+ * @param request.nextUrl.searchParams.type - Same values as /api/anilist/activities ('text', 'list')
+ * @param request.nextUrl.searchParams.mediaType - 'anime' or 'manga'
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ username: string }> }) {
+  const { username: rawUsername } = await params;
+  let username: string;
+  try {
+    username = decodeURIComponent(rawUsername).trim();
+  } catch {
+    // Malformed escape such as "%E0%A4%A"
+    return anilistErrorJson('Invalid username', 400, 'BAD_REQUEST');
+  }
+  const searchParams = request.nextUrl.searchParams;
+  const format = (searchParams.get('format') || 'rss').toLowerCase();
+  const types = getFeedActivityTypes(searchParams.get('type'), searchParams.get('mediaType'));
+
+  if (!username) {
+    return anilistErrorJson('Username is required', 400, 'BAD_REQUEST');
+  }
+  if (format !== 'rss' && format !== 'atom') {
+    return anilistErrorJson('format must be rss or atom', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const feed = await buildFeed(username, format, types, request.nextUrl.href);
+    if (!feed) {
+      return anilistErrorJson('User not found', 404, 'NOT_FOUND');
+    }
+    console.log(`[feed API] ✅ Built ${format} feed for ${username} (${types?.join(', ') || 'all types'})`);
+
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Cache-Control': `public, max-age=${FEED_MAX_AGE_SECONDS}`,
+      'ETag': feed.etag,
+      'Last-Modified': feed.lastModified.toUTCString(),
+    };
+
+    if (isNotModified(request, feed)) {
+      return withCacheStatus(new NextResponse(null, { status: 304, headers }), feed.cacheStatuses);
+    }
+    return withCacheStatus(new NextResponse(feed.body, { headers }), feed.cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'feed API');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { invalidateCache, viewerTag } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+const TOGGLE_FOLLOW = `
+  mutation ToggleFollow($userId: Int!) {
+    ToggleFollow(userId: $userId) {
+      id
+      name
+      isFollowing
+      isFollower
+    }
+  }
+`;
+
+/**
+ * API route to follow or unfollow a user (AniList toggles the current state).
+ *
+ * @param request.body.userId - The user to follow/unfollow
+ * @returns JSON response `{ id, name, isFollowing, isFollower }` with the new state
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const body = await request.json().catch(() => null);
+    const userId = parseInt(body?.userId, 10);
+    if (isNaN(userId)) {
+      return anilistErrorJson('userId is required', 400, 'BAD_REQUEST');
+    }
+
+    const data = await anilistRequest<{ ToggleFollow?: { id: number; name: string; isFollowing: boolean; isFollower: boolean } }>(
+      TOGGLE_FOLLOW,
+      { userId },
+      { accessToken, context: 'follow API' }
+    );
+
+    if (!data.ToggleFollow) {
+      return anilistErrorJson('No data returned', 500, 'INVALID_RESPONSE');
+    }
+
+    // Drops the viewer's cached following list (media scores) and their timeline
+    await invalidateCache([viewerTag(accessToken)]);
+    console.log(`[follow API] ✅ ${data.ToggleFollow.isFollowing ? 'Followed' : 'Unfollowed'} ${data.ToggleFollow.name}`);
+    return NextResponse.json(data.ToggleFollow);
+  } catch (error) {
+    return anilistErrorResponse(error, 'follow API');
+  }
+}
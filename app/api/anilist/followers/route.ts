@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+/**
+ * Users following a specific user (the counterpart of Page.following).
+ * isFollowing tells whether the viewer follows them back.
+ */
+const GET_FOLLOWERS = `
+  query GetFollowers($userId: Int!, $page: Int, $perPage: Int) {
+    Page(page: $page, perPage: $perPage) {
+      pageInfo {
+        hasNextPage
+      }
+      followers(userId: $userId) {
+        id
+        name
+        isFollowing
+        avatar {
+          large
+          medium
+        }
+      }
+    }
+  }
+`;
+
+// 50 users per page; stop there for users with thousands of followers
+const MAX_PAGES = 10;
+
+/**
+ * API route to get the users following the authenticated user.
+ *
+ * @param request.cookies.anilist_session - Login session holding the AniList token
+ * @returns JSON response `{ users, pageInfo: { hasNextPage } }` (hasNextPage when the list was cut)
+ */
+export async function GET(request: NextRequest) {
+  const accessToken = await getAccessToken(request);
+
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  try {
+    const cacheStatuses: CacheStatus[] = [];
+    const { data: viewerData, cacheStatus: viewerCacheStatus } = await cachedAnilistRequest<{ Viewer?: { id: number } }>(
+      `query { Viewer { id } }`,
+      undefined,
+      { accessToken, context: 'followers API', entity: 'user' }
+    );
+    cacheStatuses.push(viewerCacheStatus);
+
+    if (!viewerData.Viewer?.id) {
+      return anilistErrorJson('Failed to get authenticated user ID', 401, 'UNAUTHORIZED');
+    }
+
+    const followers: unknown[] = [];
+    let hasNextPage = false;
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      // Cached per viewer (isFollowing changes with the follow route, which drops them)
+      const { data, cacheStatus } = await cachedAnilistRequest<{ Page?: { followers?: unknown[]; pageInfo?: { hasNextPage?: boolean } } }>(
+        GET_FOLLOWERS,
+        { userId: viewerData.Viewer.id, page, perPage: 50 },
+        { accessToken, context: 'followers API', entity: 'user' }
+      );
+      cacheStatuses.push(cacheStatus);
+
+      followers.push(...(data.Page?.followers || []));
+      hasNextPage = !!data.Page?.pageInfo?.hasNextPage;
+      if (!hasNextPage) break;
+    }
+
+    console.log(`[followers API] ✅ ${followers.length} followers`);
+
+    return withCacheStatus(NextResponse.json({
+      users: followers,
+      pageInfo: { hasNextPage },
+    }), cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'followers API');
+  }
+}
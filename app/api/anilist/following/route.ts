@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
 
 /**
  * GraphQL query to get the list of users followed by a specific user.
@@ -19,9 +20,13 @@ const GET_FOLLOWING = `
       id
     }
     Page(page: $page, perPage: $perPage) {
+      pageInfo {
+        hasNextPage
+      }
       following(userId: $userId) {
         id
         name
+        isFollower
         avatar {
           large
           medium
@@ -31,119 +36,73 @@ const GET_FOLLOWING = `
   }
 `;
 
+// 50 users per page; stop there for users following thousands of people
+const MAX_PAGES = 10;
+
 /**
  * API route to get the list of users followed by the authenticated user.
  * 
  * @param request - Next.js request object
- * @param request.headers.authorization - Bearer token for AniList authentication
+ * @param request.cookies.anilist_session - Login session holding the AniList token
  * @returns JSON response with array of followed users
  */
 export async function GET(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
+  const accessToken = await getAccessToken(request);
   
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return NextResponse.json(
-      { error: 'Authorization header required' },
-      { status: 401 }
-    );
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
   }
 
-  const accessToken = authHeader.substring(7);
-
   try {
     // Step 1: Get the authenticated user's ID (Viewer)
     // We need this because Viewer (User type) doesn't have a "following" field
-    const viewerQuery = {
-      query: `query { Viewer { id } }`,
-    };
-    
-    const viewerResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(viewerQuery),
-    });
-
-    if (!viewerResponse.ok) {
-      const errorText = await viewerResponse.text();
-      console.error('[following API] Failed to get Viewer ID:', errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${viewerResponse.status}` },
-        { status: viewerResponse.status }
-      );
-    }
+    const cacheStatuses: CacheStatus[] = [];
+    const { data: viewerData, cacheStatus: viewerCacheStatus } = await cachedAnilistRequest<{ Viewer?: { id: number } }>(
+      `query { Viewer { id } }`,
+      undefined,
+      { accessToken, context: 'following API', entity: 'user' }
+    );
+    cacheStatuses.push(viewerCacheStatus);
 
-    const viewerData = await viewerResponse.json();
-    if (viewerData.errors || !viewerData.data?.Viewer?.id) {
+    if (!viewerData.Viewer?.id) {
       console.error('[following API] Failed to get Viewer ID:', viewerData);
-      return NextResponse.json(
-        { error: 'Failed to get authenticated user ID' },
-        { status: 401 }
-      );
+      return anilistErrorJson('Failed to get authenticated user ID', 401, 'UNAUTHORIZED');
     }
 
-    const viewerId = viewerData.data.Viewer.id;
+    const viewerId = viewerData.Viewer.id;
 
-    // Step 2: Get the list of users followed by the authenticated user
-    // Page.following(userId: $userId) returns an array of User objects directly
-    const response = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        query: GET_FOLLOWING,
-        variables: {
+    // Step 2: Get the list of users followed by the authenticated user, page by page
+    // Page.following(userId: $userId) returns an array of User objects directly (not { nodes: [...] }).
+    // Cached per viewer: the follow route drops these entries on follow/unfollow.
+    const following: unknown[] = [];
+    let hasNextPage = false;
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const { data, cacheStatus } = await cachedAnilistRequest<{ Page?: { following?: unknown[]; pageInfo?: { hasNextPage?: boolean } } }>(
+        GET_FOLLOWING,
+        {
           userId: viewerId,
-          page: 1,
+          page,
           perPage: 50,
         },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[following API] AniList API error:', errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${response.status}` },
-        { status: response.status }
+        { accessToken, context: 'following API', entity: 'user' }
       );
-    }
+      cacheStatuses.push(cacheStatus);
 
-    const data = await response.json();
-
-    if (data.errors) {
-      console.error('[following API] GraphQL errors:', data.errors);
-      return NextResponse.json(
-        { error: 'API error', details: data.errors },
-        { status: 400 }
-      );
-    }
+      const pageData = data.Page;
+      if (!pageData) {
+        return anilistErrorJson('No Page data returned. Token may be invalid or expired.', 401, 'UNAUTHORIZED');
+      }
 
-    const pageData = data.data?.Page;
-    if (!pageData) {
-      return NextResponse.json(
-        { error: 'No Page data returned. Token may be invalid or expired.' },
-        { status: 401 }
-      );
+      following.push(...(Array.isArray(pageData.following) ? pageData.following : []));
+      hasNextPage = !!pageData.pageInfo?.hasNextPage;
+      if (!hasNextPage) break;
     }
 
-    // Page.following(userId: $userId) returns an array directly (not { nodes: [...] })
-    const following = pageData.following || [];
-    return NextResponse.json({
-      users: Array.isArray(following) ? following : [],
-      pageInfo: {}, // Pagination info not available with this query structure
-    });
+    return withCacheStatus(NextResponse.json({
+      users: following,
+      pageInfo: { hasNextPage }, // true when MAX_PAGES was reached
+    }), cacheStatuses);
   } catch (error) {
-    console.error('Error fetching following:', error);
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return anilistErrorResponse(error, 'following API');
   }
 }
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// Entries are fetched USERS_PER_QUERY x MEDIA_PER_QUERY at a time: at most
+// 500 entries, so each chunk fits in MAX_PAGES pages of 50
+const USERS_PER_QUERY = 20;
+const MEDIA_PER_QUERY = 25;
+const MAX_PAGES = 10;
+// Upper bound of a whole request: 50 x 50 is at most 2500 entries, i.e. about
+// 50 pages plus the media query, which stays within one minute of AniList's
+// rate limit (90 requests). MAX_MEDIA also keeps the media in one page.
+const MAX_USERS = 50;
+const MAX_MEDIA = 50;
+
+const GET_GROUP_MEDIA = `
+  query GetGroupMedia($mediaIds: [Int]) {
+    Page(perPage: 50) {
+      media(id_in: $mediaIds) {
+        id
+        type
+        format
+        episodes
+        chapters
+        title {
+          romaji
+          english
+        }
+        coverImage {
+          medium
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Every list entry of the given users for the given media, one page at a time.
+ * Scores come back both in each user's own format (for display) and as
+ * POINT_100, so the group's scores can be averaged.
+ */
+const GET_GROUP_ENTRIES = `
+  query GetGroupEntries($userIds: [Int], $mediaIds: [Int], $page: Int) {
+    Page(page: $page, perPage: 50) {
+      pageInfo {
+        hasNextPage
+      }
+      mediaList(userId_in: $userIds, mediaId_in: $mediaIds) {
+        userId
+        mediaId
+        status
+        score
+        normalizedScore: score(format: POINT_100)
+        progress
+        user {
+          id
+          name
+          avatar {
+            medium
+          }
+          mediaListOptions {
+            scoreFormat
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface GroupEntry {
+  userId: number;
+  mediaId: number;
+  status: string;
+  score: number;
+  normalizedScore: number;
+  progress: number | null;
+  user?: {
+    id: number;
+    name: string;
+    avatar?: { medium?: string };
+    mediaListOptions?: { scoreFormat?: string };
+  };
+}
+
+interface GroupEntriesResponse {
+  Page?: {
+    pageInfo?: { hasNextPage?: boolean };
+    mediaList?: GroupEntry[];
+  };
+}
+
+function parseIds(value: string | null): number[] {
+  const ids = (value || '')
+    .split(',')
+    .map((id) => parseInt(id, 10))
+    .filter((id) => !isNaN(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * API route to get the list entries of several users for several media
+ * (group scores matrix of the compare page).
+ *
+ * @param request.nextUrl.searchParams.userIds - Comma-separated AniList user IDs (up to 50)
+ * @param request.nextUrl.searchParams.mediaIds - Comma-separated media IDs (up to 50)
+ * @returns JSON response `{ media, users, entries }`; users without an entry for a media are absent from
+ * `entries`, and users with no entry at all are absent from `users`
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const userIds = parseIds(searchParams.get('userIds'));
+  const mediaIds = parseIds(searchParams.get('mediaIds'));
+
+  if (userIds.length === 0 || mediaIds.length === 0) {
+    return anilistErrorJson('userIds and mediaIds are required', 400, 'BAD_REQUEST');
+  }
+  if (userIds.length > MAX_USERS) {
+    return anilistErrorJson(`At most ${MAX_USERS} userIds per request`, 400, 'BAD_REQUEST');
+  }
+  if (mediaIds.length > MAX_MEDIA) {
+    return anilistErrorJson(`At most ${MAX_MEDIA} mediaIds per request`, 400, 'BAD_REQUEST');
+  }
+
+  // Private lists are only visible with a token of someone allowed to see them
+  const accessToken = await getAccessToken(request);
+
+  try {
+    const cacheStatuses: CacheStatus[] = [];
+
+    const mediaResult = await cachedAnilistRequest<{ Page?: { media?: unknown[] } }>(
+      GET_GROUP_MEDIA,
+      { mediaIds },
+      {
+        context: 'group-scores API',
+        entity: 'media',
+        tags: mediaIds.map((mediaId) => `media:${mediaId}`),
+      }
+    );
+    cacheStatuses.push(mediaResult.cacheStatus);
+
+    const entries: GroupEntry[] = [];
+    for (let userIndex = 0; userIndex < userIds.length; userIndex += USERS_PER_QUERY) {
+      const userChunk = userIds.slice(userIndex, userIndex + USERS_PER_QUERY);
+      for (let mediaIndex = 0; mediaIndex < mediaIds.length; mediaIndex += MEDIA_PER_QUERY) {
+        const mediaChunk = mediaIds.slice(mediaIndex, mediaIndex + MEDIA_PER_QUERY);
+        let page = 1;
+        let hasNextPage = true;
+        while (hasNextPage && page <= MAX_PAGES) {
+          const { data, cacheStatus } = await cachedAnilistRequest<GroupEntriesResponse>(
+            GET_GROUP_ENTRIES,
+            { userIds: userChunk, mediaIds: mediaChunk, page },
+            {
+              accessToken,
+              context: 'group-scores API',
+              entity: 'listEntry',
+              tags: [
+                ...userChunk.map((userId) => `list:${userId}`),
+                ...mediaChunk.map((mediaId) => `media-list:${mediaId}`),
+              ],
+            }
+          );
+          cacheStatuses.push(cacheStatus);
+          entries.push(...(data.Page?.mediaList || []));
+          hasNextPage = !!data.Page?.pageInfo?.hasNextPage;
+          page++;
+        }
+      }
+    }
+
+    const users = new Map<number, { id: number; name: string; avatar?: { medium?: string } }>();
+    for (const entry of entries) {
+      if (entry.user) users.set(entry.user.id, { id: entry.user.id, name: entry.user.name, avatar: entry.user.avatar });
+    }
+
+    console.log(`[group-scores API] ✅ ${userIds.length} users x ${mediaIds.length} media: ${entries.length} entries`);
+
+    return withCacheStatus(NextResponse.json({
+      media: mediaResult.data.Page?.media || [],
+      users: Array.from(users.values()),
+      entries: entries.map((entry) => ({
+        userId: entry.userId,
+        mediaId: entry.mediaId,
+        status: entry.status,
+        score: entry.normalizedScore || 0,
+        rawScore: entry.score || 0,
+        scoreFormat: entry.user?.mediaListOptions?.scoreFormat || 'POINT_100',
+        progress: entry.progress,
+      })),
+    }), cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'group-scores API');
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+
+const MAX_USERS = 50;
+
+// Users looked up per GraphQL request (one aliased Page each)
+const USERS_PER_QUERY = 10;
+
+/**
+ * One query fetching the latest activity of several users, through aliases:
+ * `u<userId>: Page(perPage: 1) { activities(userId: ..., sort: ID_DESC) }`.
+ */
+function buildLastActivityQuery(userIds: number[]): string {
+  const pages = userIds.map((userId) => `
+    u${userId}: Page(perPage: 1) {
+      activities(userId: ${userId}, sort: ID_DESC) {
+        ... on TextActivity {
+          createdAt
+        }
+        ... on ListActivity {
+          createdAt
+        }
+        ... on MessageActivity {
+          createdAt
+        }
+      }
+    }`).join('');
+  return `query GetLastActivities {${pages}\n  }`;
+}
+
+/**
+ * API route to get the date of each user's most recent activity.
+ *
+ * @param request.nextUrl.searchParams.userIds - Comma-separated user IDs (up to 50)
+ * @returns JSON response `{ lastActivity: { [userId]: createdAt | null } }` (Unix seconds)
+ */
+export async function GET(request: NextRequest) {
+  const userIds = (request.nextUrl.searchParams.get('userIds') || '')
+    .split(',')
+    .map((id) => parseInt(id, 10))
+    .filter((id) => !isNaN(id) && id > 0);
+
+  if (userIds.length === 0) {
+    return anilistErrorJson('userIds is required', 400, 'BAD_REQUEST');
+  }
+  if (userIds.length > MAX_USERS) {
+    return anilistErrorJson(`At most ${MAX_USERS} userIds per request`, 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const lastActivity: Record<number, number | null> = {};
+    const cacheStatuses: CacheStatus[] = [];
+    for (let index = 0; index < userIds.length; index += USERS_PER_QUERY) {
+      const chunk = userIds.slice(index, index + USERS_PER_QUERY);
+      const { data, cacheStatus } = await cachedAnilistRequest<Record<string, { activities?: Array<{ createdAt?: number }> } | undefined>>(
+        buildLastActivityQuery(chunk),
+        undefined,
+        {
+          context: 'last-activity API',
+          entity: 'activity',
+          tags: chunk.map((userId) => `activities:${userId}`),
+        }
+      );
+      cacheStatuses.push(cacheStatus);
+      for (const userId of chunk) {
+        lastActivity[userId] = data[`u${userId}`]?.activities?.[0]?.createdAt ?? null;
+      }
+    }
+
+    return withCacheStatus(NextResponse.json({ lastActivity }), cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'last-activity API');
+  }
+}
@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { getAccessToken } from '@/lib/anilist-session';
+import { parseMalXml, toMalScore, MalListEntry, AniListStatus, ListState, MalImportDiff } from '@/lib/anilist-mal';
+
+// idMal_in lookups per request
+const MAL_LOOKUP_CHUNK = 50;
+
+const GET_ANILIST_LIST = `
+  query GetListForImport($userId: Int, $userName: String, $type: MediaType!) {
+    MediaListCollection(userId: $userId, userName: $userName, type: $type, forceSingleCompletedList: true) {
+      user {
+        id
+        name
+      }
+      lists {
+        isCustomList
+        entries {
+          id
+          mediaId
+          status
+          score(format: POINT_100)
+          progress
+          progressVolumes
+          repeat
+          media {
+            idMal
+            title {
+              userPreferred
+            }
+            coverImage {
+              medium
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * AniList media for MAL IDs that aren't on the AniList list yet.
+ */
+const GET_MEDIA_BY_MAL_IDS = `
+  query GetMediaByMalIds($idMals: [Int], $type: MediaType, $perPage: Int) {
+    Page(perPage: $perPage) {
+      media(idMal_in: $idMals, type: $type) {
+        id
+        idMal
+        title {
+          userPreferred
+        }
+        coverImage {
+          medium
+        }
+      }
+    }
+  }
+`;
+
+interface AniListListEntry {
+  id: number;
+  mediaId: number;
+  status: AniListStatus;
+  score: number;
+  progress: number | null;
+  progressVolumes: number | null;
+  repeat: number | null;
+  media: {
+    idMal: number | null;
+    title: { userPreferred?: string };
+    coverImage?: { medium?: string };
+  };
+}
+
+interface AniListListResponse {
+  MediaListCollection?: {
+    user?: { id: number; name: string };
+    lists?: Array<{ isCustomList: boolean; entries?: AniListListEntry[] }>;
+  };
+}
+
+interface LookedUpMedia {
+  id: number;
+  idMal: number;
+  title: { userPreferred?: string };
+  coverImage?: { medium?: string };
+}
+
+interface MalLookupResponse {
+  Page?: {
+    media?: LookedUpMedia[];
+  };
+}
+
+const toMalState = (entry: MalListEntry): ListState => ({
+  status: entry.status,
+  score: entry.score,
+  progress: entry.progress,
+  progressVolumes: entry.progressVolumes,
+  repeat: entry.repeat,
+});
+
+/**
+ * Fields that differ between both lists. Scores are compared on MAL's
+ * 10-point scale, since that's all the MAL export has.
+ */
+function getDifferences(mal: ListState, anilist: ListState): MalImportDiff['differing'][number]['differences'] {
+  const differences: MalImportDiff['differing'][number]['differences'] = [];
+  if (mal.status !== anilist.status) differences.push('status');
+  // MAL scores are whole points out of 10: compare through the export conversion
+  if (toMalScore(mal.score) !== toMalScore(anilist.score)) differences.push('score');
+  if (mal.progress !== anilist.progress) differences.push('progress');
+  return differences;
+}
+
+/**
+ * API route comparing an uploaded MyAnimeList XML export with an AniList list.
+ *
+ * MAL entries are matched to AniList through `idMal`: first against the
+ * AniList list itself, then through a media lookup for the remaining ones.
+ *
+ * @param request.body.xml - Content of the MAL export (anime or manga)
+ * @param request.body.username - AniList user to compare with (defaults to the logged-in viewer)
+ * @returns JSON response `{ type, userName, isViewer, onlyInMal, onlyInAniList, differing, unmapped }`
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.xml !== 'string') {
+    return anilistErrorJson('xml is required', 400, 'BAD_REQUEST');
+  }
+
+  let parsed: ReturnType<typeof parseMalXml>;
+  try {
+    parsed = parseMalXml(body.xml);
+  } catch (error) {
+    return anilistErrorJson(error instanceof Error ? error.message : 'Invalid MAL export', 400, 'BAD_REQUEST');
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim() : '';
+  const accessToken = await getAccessToken(request);
+
+  try {
+    let viewerId: number | null = null;
+    if (accessToken) {
+      const viewerData = await anilistRequest<{ Viewer?: { id: number } }>(
+        `query { Viewer { id } }`,
+        undefined,
+        { accessToken, context: 'mal-import API' }
+      );
+      viewerId = viewerData.Viewer?.id ?? null;
+    }
+
+    if (!username && !viewerId) {
+      return anilistErrorJson('Authentication required (or give a username)', 401, 'UNAUTHORIZED');
+    }
+
+    const listData = await anilistRequest<AniListListResponse>(
+      GET_ANILIST_LIST,
+      username ? { userName: username, type: parsed.type } : { userId: viewerId, type: parsed.type },
+      { accessToken, context: 'mal-import API' }
+    );
+
+    const collection = listData.MediaListCollection;
+    if (!collection) {
+      return anilistErrorJson('List not found', 404, 'NOT_FOUND');
+    }
+
+    // Custom lists repeat entries of the status lists
+    const anilistEntries = new Map<number, AniListListEntry>();
+    for (const list of collection.lists || []) {
+      if (list.isCustomList) continue;
+      for (const entry of list.entries || []) {
+        anilistEntries.set(entry.mediaId, entry);
+      }
+    }
+    const anilistByMalId = new Map<number, AniListListEntry>();
+    for (const entry of anilistEntries.values()) {
+      if (entry.media.idMal) anilistByMalId.set(entry.media.idMal, entry);
+    }
+
+    // MAL entries that aren't on the AniList list still need their AniList ID
+    const missingIds = parsed.entries
+      .map((entry) => entry.idMal)
+      .filter((idMal) => !anilistByMalId.has(idMal));
+    const lookedUp = new Map<number, LookedUpMedia>();
+    for (let index = 0; index < missingIds.length; index += MAL_LOOKUP_CHUNK) {
+      const chunk = missingIds.slice(index, index + MAL_LOOKUP_CHUNK);
+      const lookup = await anilistRequest<MalLookupResponse>(
+        GET_MEDIA_BY_MAL_IDS,
+        { idMals: chunk, type: parsed.type, perPage: MAL_LOOKUP_CHUNK },
+        { context: 'mal-import API' }
+      );
+      for (const media of lookup.Page?.media || []) {
+        lookedUp.set(media.idMal, media);
+      }
+    }
+
+    const onlyInMal: MalImportDiff['onlyInMal'] = [];
+    const differing: MalImportDiff['differing'] = [];
+    const unmapped: MalImportDiff['unmapped'] = [];
+    const matchedMediaIds = new Set<number>();
+
+    for (const malEntry of parsed.entries) {
+      const anilistEntry = anilistByMalId.get(malEntry.idMal);
+      if (anilistEntry) {
+        matchedMediaIds.add(anilistEntry.mediaId);
+        const anilistState: ListState = {
+          status: anilistEntry.status,
+          score: anilistEntry.score || 0,
+          progress: anilistEntry.progress || 0,
+          progressVolumes: anilistEntry.progressVolumes || 0,
+          repeat: anilistEntry.repeat || 0,
+        };
+        const differences = getDifferences(toMalState(malEntry), anilistState);
+        if (differences.length > 0) {
+          differing.push({
+            mediaId: anilistEntry.mediaId,
+            idMal: malEntry.idMal,
+            title: anilistEntry.media.title.userPreferred || malEntry.title,
+            coverImage: anilistEntry.media.coverImage?.medium,
+            mal: { ...toMalState(malEntry), startedAt: malEntry.startedAt, completedAt: malEntry.completedAt },
+            anilist: anilistState,
+            differences,
+          });
+        }
+        continue;
+      }
+
+      const media = lookedUp.get(malEntry.idMal);
+      if (!media) {
+        unmapped.push({ idMal: malEntry.idMal, title: malEntry.title });
+        continue;
+      }
+      onlyInMal.push({
+        mediaId: media.id,
+        idMal: malEntry.idMal,
+        title: media.title.userPreferred || malEntry.title,
+        coverImage: media.coverImage?.medium,
+        mal: { ...toMalState(malEntry), startedAt: malEntry.startedAt, completedAt: malEntry.completedAt },
+      });
+    }
+
+    const onlyInAniList: MalImportDiff['onlyInAniList'] = Array.from(anilistEntries.values())
+      .filter((entry) => !matchedMediaIds.has(entry.mediaId))
+      .map((entry) => ({
+        mediaId: entry.mediaId,
+        idMal: entry.media.idMal,
+        title: entry.media.title.userPreferred || '',
+        coverImage: entry.media.coverImage?.medium,
+        anilist: {
+          status: entry.status,
+          score: entry.score || 0,
+          progress: entry.progress || 0,
+          progressVolumes: entry.progressVolumes || 0,
+          repeat: entry.repeat || 0,
+        },
+      }));
+
+    console.log(`[mal-import API] ✅ ${parsed.type}: ${onlyInMal.length} only in MAL, ${onlyInAniList.length} only in AniList, ${differing.length} differing, ${unmapped.length} unmapped`);
+
+    const diff: MalImportDiff = {
+      type: parsed.type,
+      userName: collection.user?.name || username,
+      isViewer: !!viewerId && collection.user?.id === viewerId,
+      onlyInMal,
+      onlyInAniList,
+      differing,
+      unmapped,
+    };
+    return NextResponse.json(diff);
+  } catch (error) {
+    return anilistErrorResponse(error, 'mal-import API');
+  }
+}
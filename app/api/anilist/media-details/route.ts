@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
+
+// Connection sizes; AniList caps pages at 25 for nested connections
+const CHARACTERS_PER_PAGE = 25;
+const STAFF_PER_PAGE = 25;
+const RECOMMENDATIONS_PER_PAGE = 12;
+
+/**
+ * Everything shown on the media page: the base fields used by the search page
+ * plus characters (with Japanese voice actors), staff, studios, relations,
+ * recommendations, score/status distributions and tags.
+ */
+const GET_MEDIA_DETAILS = `
+  query GetMediaDetails($id: Int!, $characterCount: Int, $staffCount: Int, $recommendationCount: Int) {
+    Media(id: $id) {
+      id
+      idMal
+      title {
+        romaji
+        english
+        native
+        userPreferred
+      }
+      synonyms
+      type
+      format
+      status
+      description
+      startDate {
+        year
+        month
+        day
+      }
+      endDate {
+        year
+        month
+        day
+      }
+      season
+      seasonYear
+      episodes
+      duration
+      chapters
+      volumes
+      source
+      coverImage {
+        large
+        medium
+      }
+      bannerImage
+      genres
+      averageScore
+      meanScore
+      popularity
+      favourites
+      siteUrl
+      nextAiringEpisode {
+        id
+        airingAt
+        episode
+        timeUntilAiring
+      }
+      tags {
+        id
+        name
+        description
+        category
+        rank
+        isGeneralSpoiler
+        isMediaSpoiler
+      }
+      studios {
+        edges {
+          isMain
+          node {
+            id
+            name
+            isAnimationStudio
+            siteUrl
+          }
+        }
+      }
+      characters(sort: [ROLE, RELEVANCE, ID], perPage: $characterCount) {
+        edges {
+          role
+          node {
+            id
+            name {
+              userPreferred
+            }
+            image {
+              medium
+            }
+          }
+          voiceActors(language: JAPANESE, sort: [RELEVANCE, ID]) {
+            id
+            name {
+              userPreferred
+            }
+            image {
+              medium
+            }
+            languageV2
+          }
+        }
+      }
+      staff(sort: [RELEVANCE, ID], perPage: $staffCount) {
+        edges {
+          role
+          node {
+            id
+            name {
+              userPreferred
+            }
+            image {
+              medium
+            }
+          }
+        }
+      }
+      relations {
+        edges {
+          relationType(version: 2)
+          node {
+            id
+            title {
+              romaji
+              english
+              userPreferred
+            }
+            type
+            format
+            status
+            startDate {
+              year
+            }
+            coverImage {
+              medium
+            }
+          }
+        }
+      }
+      recommendations(sort: [RATING_DESC, ID], perPage: $recommendationCount) {
+        nodes {
+          rating
+          mediaRecommendation {
+            id
+            title {
+              romaji
+              english
+              userPreferred
+            }
+            type
+            format
+            averageScore
+            coverImage {
+              medium
+            }
+          }
+        }
+      }
+      stats {
+        scoreDistribution {
+          score
+          amount
+        }
+        statusDistribution {
+          status
+          amount
+        }
+      }
+    }
+  }
+`;
+
+interface Person {
+  id: number;
+  name: { userPreferred?: string };
+  image?: { medium?: string };
+  languageV2?: string;
+}
+
+interface MediaDetailsResponse {
+  Media?: Record<string, unknown> & {
+    studios?: { edges?: Array<{ isMain: boolean; node: { id: number; name: string; isAnimationStudio: boolean; siteUrl?: string } }> };
+    characters?: { edges?: Array<{ role: string; node: Person; voiceActors?: Person[] }> };
+    staff?: { edges?: Array<{ role: string; node: Person }> };
+    relations?: { edges?: Array<{ relationType: string; node: Record<string, unknown> | null }> };
+    recommendations?: { nodes?: Array<{ rating: number; mediaRecommendation: Record<string, unknown> | null }> };
+  };
+}
+
+const toPerson = (person: Person) => ({
+  id: person.id,
+  name: person.name?.userPreferred || '',
+  image: person.image?.medium,
+  language: person.languageV2,
+});
+
+/**
+ * API route for the full details of a media (media page).
+ *
+ * Connections are flattened (no `edges`/`nodes` wrappers) and entries pointing
+ * to deleted media are dropped.
+ *
+ * @param request.nextUrl.searchParams.id - The media ID
+ * @returns JSON response with the MediaDetails object
+ */
+export async function GET(request: NextRequest) {
+  const mediaId = parseInt(request.nextUrl.searchParams.get('id') || '', 10);
+
+  if (isNaN(mediaId)) {
+    return anilistErrorJson('Media ID is required', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const { data, cacheStatus } = await cachedAnilistRequest<MediaDetailsResponse>(
+      GET_MEDIA_DETAILS,
+      {
+        id: mediaId,
+        characterCount: CHARACTERS_PER_PAGE,
+        staffCount: STAFF_PER_PAGE,
+        recommendationCount: RECOMMENDATIONS_PER_PAGE,
+      },
+      { context: 'media-details API', entity: 'media', tags: [`media:${mediaId}`] }
+    );
+
+    const media = data.Media;
+    if (!media) {
+      return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
+    }
+
+    const { studios, characters, staff, relations, recommendations, ...rest } = media;
+
+    return withCacheStatus(NextResponse.json({
+      ...rest,
+      studios: (studios?.edges || []).map((edge) => ({ ...edge.node, isMain: edge.isMain })),
+      characters: (characters?.edges || []).map((edge) => ({
+        role: edge.role,
+        character: toPerson(edge.node),
+        voiceActors: (edge.voiceActors || []).map(toPerson),
+      })),
+      staff: (staff?.edges || []).map((edge) => ({ role: edge.role, staff: toPerson(edge.node) })),
+      relations: (relations?.edges || [])
+        .filter((edge) => edge.node)
+        .map((edge) => ({ relationType: edge.relationType, media: edge.node })),
+      recommendations: (recommendations?.nodes || [])
+        .filter((node) => node.mediaRecommendation)
+        .map((node) => ({ rating: node.rating, media: node.mediaRecommendation })),
+    }), [cacheStatus]);
+  } catch (error) {
+    return anilistErrorResponse(error, 'media-details API');
+  }
+}
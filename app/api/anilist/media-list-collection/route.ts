@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// Scores are requested as POINT_100 so lists with different score formats
+// can be compared directly. Custom lists repeat entries of the status lists,
+// so they are skipped when flattening.
+const GET_MEDIA_LIST_COLLECTION = `
+  query GetMediaListCollection($userId: Int!, $type: MediaType!) {
+    MediaListCollection(userId: $userId, type: $type, forceSingleCompletedList: true) {
+      user {
+        id
+        name
+        mediaListOptions {
+          scoreFormat
+        }
+      }
+      lists {
+        isCustomList
+        entries {
+          mediaId
+          status
+          score(format: POINT_100)
+          progress
+          media {
+            id
+            type
+            format
+            genres
+            title {
+              romaji
+              english
+            }
+            coverImage {
+              medium
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface CollectionEntry {
+  mediaId: number;
+  status: string;
+  score: number;
+  progress: number | null;
+  media: unknown;
+}
+
+interface MediaListCollectionResponse {
+  MediaListCollection?: {
+    user?: {
+      id: number;
+      name: string;
+      mediaListOptions?: { scoreFormat?: string };
+    };
+    lists?: Array<{
+      isCustomList: boolean;
+      entries?: CollectionEntry[];
+    }>;
+  };
+}
+
+/**
+ * API route to fetch a user's complete anime or manga list.
+ *
+ * @param request.nextUrl.searchParams.userId - The AniList user ID
+ * @param request.nextUrl.searchParams.type - ANIME or MANGA
+ * @returns JSON response `{ userId, scoreFormat, entries }` with one entry per media (scores on 0-100)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const userId = searchParams.get('userId');
+  const type = searchParams.get('type')?.toUpperCase();
+
+  if (!userId) {
+    return anilistErrorJson('userId is required', 400, 'BAD_REQUEST');
+  }
+
+  const userIdInt = parseInt(userId, 10);
+  if (isNaN(userIdInt)) {
+    return anilistErrorJson('Invalid userId parameter', 400, 'BAD_REQUEST');
+  }
+
+  if (type !== 'ANIME' && type !== 'MANGA') {
+    return anilistErrorJson('type must be ANIME or MANGA', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    // Private lists are only visible with a token of someone allowed to see them
+    const { data, cacheStatus } = await cachedAnilistRequest<MediaListCollectionResponse>(
+      GET_MEDIA_LIST_COLLECTION,
+      { userId: userIdInt, type },
+      {
+        accessToken: await getAccessToken(request),
+        context: 'media-list-collection API',
+        entity: 'listEntry',
+        tags: [`list:${userIdInt}`],
+      }
+    );
+
+    const collection = data.MediaListCollection;
+    if (!collection) {
+      return anilistErrorJson('List not found', 404, 'NOT_FOUND');
+    }
+
+    const entries = new Map<number, CollectionEntry>();
+    for (const list of collection.lists || []) {
+      if (list.isCustomList) continue;
+      for (const entry of list.entries || []) {
+        entries.set(entry.mediaId, entry);
+      }
+    }
+
+    console.log(`[media-list-collection API] ✅ User ${userIdInt} ${type}: ${entries.size} entries`);
+
+    return withCacheStatus(NextResponse.json({
+      userId: userIdInt,
+      scoreFormat: collection.user?.mediaListOptions?.scoreFormat || 'POINT_100',
+      entries: Array.from(entries.values()),
+    }), [cacheStatus]);
+  } catch (error) {
+    return anilistErrorResponse(error, 'media-list-collection API');
+  }
+}
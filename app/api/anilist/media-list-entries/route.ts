@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse, AniListApiError } from '@/lib/anilist-server';
+import { invalidateCache, viewerTag } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+import { parseFuzzyDate, MalApplyEntry } from '@/lib/anilist-mal';
+
+// Entries per request; the client sends the next batch once this one is done
+const MAX_BATCH_SIZE = 10;
+
+const MEDIA_LIST_STATUSES = ['CURRENT', 'PLANNING', 'COMPLETED', 'DROPPED', 'PAUSED', 'REPEATING'];
+
+// `scoreRaw` is always on 0-100, whatever the viewer's score format
+const SAVE_IMPORTED_ENTRY = `
+  mutation SaveImportedEntry(
+    $mediaId: Int
+    $status: MediaListStatus
+    $scoreRaw: Int
+    $progress: Int
+    $progressVolumes: Int
+    $repeat: Int
+    $startedAt: FuzzyDateInput
+    $completedAt: FuzzyDateInput
+  ) {
+    SaveMediaListEntry(
+      mediaId: $mediaId
+      status: $status
+      scoreRaw: $scoreRaw
+      progress: $progress
+      progressVolumes: $progressVolumes
+      repeat: $repeat
+      startedAt: $startedAt
+      completedAt: $completedAt
+    ) {
+      id
+      userId
+      mediaId
+    }
+  }
+`;
+
+interface BatchResult {
+  mediaId: number;
+  ok: boolean;
+  error?: string;
+}
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function isValidEntry(entry: Partial<MalApplyEntry> | null): entry is MalApplyEntry {
+  return !!entry
+    && isCount(entry.mediaId)
+    && MEDIA_LIST_STATUSES.includes(entry.status as string)
+    && isCount(entry.score) && (entry.score as number) <= 100
+    && isCount(entry.progress)
+    && isCount(entry.progressVolumes)
+    && isCount(entry.repeat);
+}
+
+/**
+ * API route writing a batch of imported entries to the viewer's list.
+ *
+ * Entries are saved one after the other. When AniList rate limits us the
+ * batch stops there: the remaining entries are left out of `results` and
+ * `retryAfter` tells the client how long to wait before sending them again.
+ *
+ * @param request.body.entries - Up to 10 entries `{ mediaId, status, score (0-100), progress, progressVolumes, repeat, startedAt, completedAt }`
+ * @returns JSON response `{ results: [{ mediaId, ok, error? }], retryAfter? }`
+ */
+export async function POST(request: NextRequest) {
+  const accessToken = await getAccessToken(request);
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const body = await request.json().catch(() => null);
+  const entries: Partial<MalApplyEntry>[] | undefined = body?.entries;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return anilistErrorJson('entries is required', 400, 'BAD_REQUEST');
+  }
+  if (entries.length > MAX_BATCH_SIZE) {
+    return anilistErrorJson(`At most ${MAX_BATCH_SIZE} entries per request`, 400, 'BAD_REQUEST');
+  }
+  if (!entries.every(isValidEntry)) {
+    return anilistErrorJson('Invalid entry', 400, 'BAD_REQUEST');
+  }
+
+  const results: BatchResult[] = [];
+  const invalidatedTags = [viewerTag(accessToken)];
+  try {
+    for (const entry of entries as MalApplyEntry[]) {
+      try {
+        const data = await anilistRequest<{ SaveMediaListEntry?: { userId: number; mediaId: number } }>(
+          SAVE_IMPORTED_ENTRY,
+          {
+            mediaId: entry.mediaId,
+            status: entry.status,
+            scoreRaw: entry.score,
+            progress: entry.progress,
+            progressVolumes: entry.progressVolumes,
+            repeat: entry.repeat,
+            startedAt: parseFuzzyDate(entry.startedAt),
+            completedAt: parseFuzzyDate(entry.completedAt),
+          },
+          { accessToken, context: 'media-list-entries API' }
+        );
+        results.push({ mediaId: entry.mediaId, ok: true });
+        if (data.SaveMediaListEntry) {
+          invalidatedTags.push(`list:${data.SaveMediaListEntry.userId}`, `media-list:${data.SaveMediaListEntry.mediaId}`);
+        }
+      } catch (error) {
+        // Rate limits and auth failures apply to every remaining entry
+        if (error instanceof AniListApiError && (error.status === 429 || error.status === 401)) {
+          throw error;
+        }
+        results.push({ mediaId: entry.mediaId, ok: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  } catch (error) {
+    await invalidateCache(invalidatedTags);
+    if (error instanceof AniListApiError && error.status === 429 && results.length > 0) {
+      console.warn(`[media-list-entries API] ⏱️ Rate limited after ${results.length} entries`);
+      return NextResponse.json({ results, retryAfter: error.retryAfter ?? 60 });
+    }
+    return anilistErrorResponse(error, 'media-list-entries API');
+  }
+
+  await invalidateCache(invalidatedTags);
+  console.log(`[media-list-entries API] ✅ Saved ${results.filter((result) => result.ok).length}/${results.length} entries`);
+  return NextResponse.json({ results });
+}
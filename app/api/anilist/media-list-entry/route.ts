@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { invalidateCache, viewerTag } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// `score` is read and written in the viewer's own score format
+const SAVE_MEDIA_LIST_ENTRY = `
+  mutation SaveMediaListEntry(
+    $id: Int
+    $mediaId: Int
+    $status: MediaListStatus
+    $score: Float
+    $progress: Int
+    $progressVolumes: Int
+    $repeat: Int
+  ) {
+    SaveMediaListEntry(
+      id: $id
+      mediaId: $mediaId
+      status: $status
+      score: $score
+      progress: $progress
+      progressVolumes: $progressVolumes
+      repeat: $repeat
+    ) {
+      id
+      userId
+      mediaId
+      status
+      score
+      progress
+      progressVolumes
+      repeat
+      updatedAt
+    }
+  }
+`;
+
+const DELETE_MEDIA_LIST_ENTRY = `
+  mutation DeleteMediaListEntry($id: Int!) {
+    DeleteMediaListEntry(id: $id) {
+      deleted
+    }
+  }
+`;
+
+const MEDIA_LIST_STATUSES = ['CURRENT', 'PLANNING', 'COMPLETED', 'DROPPED', 'PAUSED', 'REPEATING'];
+
+type NumericField = 'id' | 'mediaId' | 'progress' | 'progressVolumes' | 'repeat';
+
+/**
+ * API route to create or update one of the viewer's list entries.
+ *
+ * Only the fields present in the body are sent to AniList, so partial updates
+ * (e.g. progress only) leave the other fields untouched.
+ *
+ * @param request.body.mediaId - Media to add/update (required unless `id` is given)
+ * @param request.body.id - Existing list entry ID
+ * @param request.body.status - MediaListStatus (CURRENT, PLANNING, COMPLETED, DROPPED, PAUSED, REPEATING)
+ * @param request.body.score - Score in the viewer's score format
+ * @param request.body.progress - Episodes watched / chapters read
+ * @param request.body.progressVolumes - Volumes read (manga)
+ * @param request.body.repeat - Rewatch/reread count
+ * @returns JSON response with the saved entry
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return anilistErrorJson('Invalid request body', 400, 'BAD_REQUEST');
+    }
+
+    if (!body.id && !body.mediaId) {
+      return anilistErrorJson('mediaId or id is required', 400, 'BAD_REQUEST');
+    }
+
+    const variables: Record<string, unknown> = {};
+
+    const numericFields: NumericField[] = ['id', 'mediaId', 'progress', 'progressVolumes', 'repeat'];
+    for (const field of numericFields) {
+      if (body[field] === undefined || body[field] === null) continue;
+      const value = parseInt(body[field], 10);
+      if (isNaN(value) || value < 0) {
+        return anilistErrorJson(`Invalid ${field}`, 400, 'BAD_REQUEST');
+      }
+      variables[field] = value;
+    }
+
+    if (body.status !== undefined && body.status !== null) {
+      if (!MEDIA_LIST_STATUSES.includes(body.status)) {
+        return anilistErrorJson(`Invalid status: ${body.status}`, 400, 'BAD_REQUEST');
+      }
+      variables.status = body.status;
+    }
+
+    if (body.score !== undefined && body.score !== null) {
+      const score = parseFloat(body.score);
+      if (isNaN(score) || score < 0 || score > 100) {
+        return anilistErrorJson('Invalid score', 400, 'BAD_REQUEST');
+      }
+      variables.score = score;
+    }
+
+    const data = await anilistRequest<{ SaveMediaListEntry?: { userId: number; mediaId: number } }>(
+      SAVE_MEDIA_LIST_ENTRY,
+      variables,
+      { accessToken, context: 'media-list-entry API' }
+    );
+
+    if (!data.SaveMediaListEntry) {
+      return anilistErrorJson('No data returned', 500, 'INVALID_RESPONSE');
+    }
+
+    const { userId, mediaId } = data.SaveMediaListEntry;
+    await invalidateCache([viewerTag(accessToken), `list:${userId}`, `media-list:${mediaId}`]);
+
+    return NextResponse.json(data.SaveMediaListEntry);
+  } catch (error) {
+    return anilistErrorResponse(error, 'media-list-entry API');
+  }
+}
+
+/**
+ * API route to remove one of the viewer's list entries.
+ *
+ * @param request.nextUrl.searchParams.id - The list entry ID (not the media ID)
+ * @returns JSON response `{ deleted: boolean }`
+ */
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+
+  if (!id) {
+    return anilistErrorJson('id is required', 400, 'BAD_REQUEST');
+  }
+
+  const entryId = parseInt(id, 10);
+  if (isNaN(entryId)) {
+    return anilistErrorJson('Invalid id', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const data = await anilistRequest<{ DeleteMediaListEntry?: { deleted: boolean } }>(
+      DELETE_MEDIA_LIST_ENTRY,
+      { id: entryId },
+      { accessToken, context: 'media-list-entry API' }
+    );
+
+    // Only the entry ID is known here: other viewers see the removal once their entries expire
+    await invalidateCache([viewerTag(accessToken)]);
+
+    return NextResponse.json({ deleted: !!data.DeleteMediaListEntry?.deleted });
+  } catch (error) {
+    return anilistErrorResponse(error, 'media-list-entry API');
+  }
+}
@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+interface FollowedUser {
+  id: number;
+  name: string;
+  avatar?: {
+    large?: string;
+    medium?: string;
+  };
+}
 
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+interface MediaListEntry {
+  userId: number;
+  score?: number; // In the user's own score format
+  normalizedScore?: number; // Same score on 0-100
+  status?: string;
+  progress?: number;
+  user?: FollowedUser & { mediaListOptions?: { scoreFormat?: string } };
+}
 
 /**
  * GraphQL query to get the list of users followed by a specific user.
@@ -36,6 +55,9 @@ const GET_FOLLOWING_USER_IDS = `
  * 
  * @param mediaId - The ID of the media to get entries for
  * @param userIds - Array of user IDs to filter entries by
+ * Scores come back both in each user's own format (for display) and as POINT_100,
+ * so users with different score formats can be compared and averaged.
+ *
  * @returns Array of MediaList entries with score, status, progress, and user info
  */
 const GET_MEDIA_LIST_ENTRIES = `
@@ -44,6 +66,7 @@ const GET_MEDIA_LIST_ENTRIES = `
       mediaList(mediaId: $mediaId, userId_in: $userIds) {
         userId
         score
+        normalizedScore: score(format: POINT_100)
         status
         progress
         user {
@@ -53,6 +76,9 @@ const GET_MEDIA_LIST_ENTRIES = `
             large
             medium
           }
+          mediaListOptions {
+            scoreFormat
+          }
         }
       }
     }
@@ -66,196 +92,107 @@ const GET_MEDIA_LIST_ENTRIES = `
  * 1. Gets the authenticated user's ID (Viewer)
  * 2. Retrieves the list of users they follow
  * 3. Fetches media list entries for those users for the specified media
- * 4. Returns scores, status, and progress for each followed user
+ * 4. Returns scores (0-100, plus the original value and score format), status, and progress for each followed user
  * 
  * Similar to AniList's "Social" section on media pages.
  * 
  * @param request - Next.js request object
- * @param request.headers.authorization - Bearer token for AniList authentication
+ * @param request.cookies.anilist_session - Login session holding the AniList token
  * @param request.nextUrl.searchParams.mediaId - The ID of the media to get scores for
  * @returns JSON response with array of scores from followed users
  */
 export async function GET(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
+  const accessToken = await getAccessToken(request);
   const searchParams = request.nextUrl.searchParams;
   const mediaId = searchParams.get('mediaId');
 
-  // Validate authorization header
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return NextResponse.json(
-      { error: 'Authorization header required' },
-      { status: 401 }
-    );
+  // Validate session
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
   }
 
   // Validate mediaId parameter
   if (!mediaId) {
-    return NextResponse.json(
-      { error: 'mediaId is required' },
-      { status: 400 }
-    );
+    return anilistErrorJson('mediaId is required', 400, 'BAD_REQUEST');
   }
 
-  const accessToken = authHeader.substring(7);
   const mediaIdNum = parseInt(mediaId, 10);
 
   if (isNaN(mediaIdNum)) {
-    return NextResponse.json(
-      { error: 'Invalid mediaId' },
-      { status: 400 }
-    );
+    return anilistErrorJson('Invalid mediaId', 400, 'BAD_REQUEST');
   }
 
   try {
     // Step 1: Get the authenticated user's ID (Viewer)
     // We need this because Viewer (User type) doesn't have a "following" field
-    const viewerQuery = {
-      query: `query { Viewer { id } }`,
-    };
-    
-    const viewerResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(viewerQuery),
-    });
-
-    if (!viewerResponse.ok) {
-      const errorText = await viewerResponse.text();
-      console.error('[media-scores API] Failed to get Viewer ID:', errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${viewerResponse.status}` },
-        { status: viewerResponse.status }
-      );
-    }
+    const cacheStatuses: CacheStatus[] = [];
+    const { data: viewerData, cacheStatus: viewerCacheStatus } = await cachedAnilistRequest<{ Viewer?: { id: number } }>(
+      `query { Viewer { id } }`,
+      undefined,
+      { accessToken, context: 'media-scores API', entity: 'user' }
+    );
+    cacheStatuses.push(viewerCacheStatus);
 
-    const viewerData = await viewerResponse.json();
-    
-    if (viewerData.errors || !viewerData.data?.Viewer?.id) {
+    if (!viewerData.Viewer?.id) {
       console.error('[media-scores API] Failed to get Viewer ID:', viewerData);
-      return NextResponse.json(
-        { error: 'Failed to get authenticated user ID' },
-        { status: 401 }
-      );
+      return anilistErrorJson('Failed to get authenticated user ID', 401, 'UNAUTHORIZED');
     }
 
-    const viewerId = viewerData.data.Viewer.id;
+    const viewerId = viewerData.Viewer.id;
 
     // Step 2: Get the list of users followed by the authenticated user
     // Page.following(userId: $userId) returns an array of User objects directly
-    const followingQuery = {
-      query: GET_FOLLOWING_USER_IDS,
-      variables: {
+    const { data: followingData, cacheStatus: followingCacheStatus } = await cachedAnilistRequest<{ Page?: { following?: FollowedUser[] } }>(
+      GET_FOLLOWING_USER_IDS,
+      {
         userId: viewerId,
         page: 1,
         perPage: 50, // Max 50 users per page
       },
-    };
-    
-    const followingResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(followingQuery),
-    });
-
-    if (!followingResponse.ok) {
-      const errorText = await followingResponse.text();
-      console.error('[media-scores API] Failed to get followed users:', errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${followingResponse.status}` },
-        { status: followingResponse.status }
-      );
-    }
-
-    const followingData = await followingResponse.json();
-    
-    if (followingData.errors) {
-      console.error('[media-scores API] GraphQL errors getting followed users:', followingData.errors);
-      const errorMessages = followingData.errors.map((e: any) => e.message).join(', ');
-      return NextResponse.json(
-        { error: `GraphQL error: ${errorMessages}`, details: followingData.errors },
-        { status: 400 }
-      );
-    }
+      { accessToken, context: 'media-scores API', entity: 'user' }
+    );
+    cacheStatuses.push(followingCacheStatus);
 
-    const pageData = followingData.data?.Page;
+    const pageData = followingData.Page;
     if (!pageData) {
       console.error('[media-scores API] No Page data in following response');
-      return NextResponse.json(
-        { error: 'No Page data returned' },
-        { status: 401 }
-      );
+      return anilistErrorJson('No Page data returned', 401, 'UNAUTHORIZED');
     }
 
     // Extract user IDs from the following array
     // Page.following(userId: $userId) returns an array directly (not { nodes: [...] })
     const following = pageData.following;
     const users = Array.isArray(following) ? following : [];
-    const userIds = users.map((user: any) => user.id);
+    const userIds = users.map((user) => user.id);
     
     // Early return if no followed users
     if (userIds.length === 0) {
-      return NextResponse.json({
+      return withCacheStatus(NextResponse.json({
         scores: [],
-      });
+      }), cacheStatuses);
     }
 
     // Step 3: Get media list entries for all followed users for this specific media
     // Using Page.mediaList with filters to get all entries in one query (efficient)
-    const mediaEntriesQuery = {
-      query: GET_MEDIA_LIST_ENTRIES,
-      variables: {
+    const { data: entriesData, cacheStatus: entriesCacheStatus } = await cachedAnilistRequest<{ Page?: { mediaList?: MediaListEntry[] } }>(
+      GET_MEDIA_LIST_ENTRIES,
+      {
         mediaId: mediaIdNum,
         userIds: userIds,
       },
-    };
-    
-    const entriesResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(mediaEntriesQuery),
-    });
-
-    if (!entriesResponse.ok) {
-      const errorText = await entriesResponse.text();
-      console.error('[media-scores API] Failed to get media list entries:', errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${entriesResponse.status}` },
-        { status: entriesResponse.status }
-      );
-    }
-
-    const entriesData = await entriesResponse.json();
-    
-    if (entriesData.errors) {
-      console.error('[media-scores API] GraphQL errors getting media entries:', entriesData.errors);
-      const errorMessages = entriesData.errors.map((e: any) => e.message).join(', ');
-      return NextResponse.json(
-        { error: `GraphQL error: ${errorMessages}`, details: entriesData.errors },
-        { status: 400 }
-      );
-    }
+      { accessToken, context: 'media-scores API', entity: 'listEntry', tags: [`media-list:${mediaIdNum}`] }
+    );
+    cacheStatuses.push(entriesCacheStatus);
 
-    const mediaListEntries = entriesData.data?.Page?.mediaList || [];
+    const mediaListEntries = entriesData.Page?.mediaList || [];
 
     // Create a map of user info for quick lookup (from step 2)
     // This allows us to merge user info from the following query with entry data
-    const userMap = new Map(users.map((user: any) => [user.id, user]));
+    const userMap = new Map<number, FollowedUser>(users.map((user) => [user.id, user]));
 
     // Transform the data to match our expected format
     // Each entry contains score, status, progress, and user info
-    const scores = mediaListEntries.map((entry: any) => {
+    const scores = mediaListEntries.map((entry) => {
       // Prefer user info from the following query, fallback to entry.user
       const user = userMap.get(entry.userId) || entry.user;
       
@@ -263,22 +200,19 @@ export async function GET(request: NextRequest) {
         userId: entry.userId || entry.user?.id,
         userName: user?.name || entry.user?.name || 'Unknown',
         userAvatar: user?.avatar?.medium || user?.avatar?.large || entry.user?.avatar?.medium || entry.user?.avatar?.large,
-        score: entry.score,
+        score: entry.normalizedScore ?? entry.score,
+        rawScore: entry.score,
+        scoreFormat: entry.user?.mediaListOptions?.scoreFormat || 'POINT_100',
         status: entry.status,
         progress: entry.progress,
       };
     });
 
-    return NextResponse.json({
+    return withCacheStatus(NextResponse.json({
       scores,
-    });
+    }), cacheStatuses);
   } catch (error) {
-    // Catch any unexpected errors (network issues, parsing errors, etc.)
-    console.error('[media-scores API] Unexpected error:', error);
-    
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    // Rate limits, HTTP/GraphQL errors, network issues, parsing errors, etc.
+    return anilistErrorResponse(error, 'media-scores API');
   }
 }
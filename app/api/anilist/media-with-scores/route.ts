@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+import { anilistErrorJson, anilistErrorResponse, AniListApiError } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
 
 /**
  * Combined GraphQL query to fetch media info AND followed users scores in a single request.
@@ -43,11 +44,28 @@ const GET_MEDIA_WITH_SCORES = `
       averageScore
       popularity
       siteUrl
+      # The viewer's own list entry (null when not on their list or logged out)
+      mediaListEntry {
+        id
+        status
+        score
+        progress
+        progressVolumes
+        repeat
+      }
     }
     
-    # Get authenticated user ID
+    # Get authenticated user (score format is needed to edit their list entry)
     Viewer {
       id
+      name
+      avatar {
+        large
+        medium
+      }
+      mediaListOptions {
+        scoreFormat
+      }
     }
   }
 `;
@@ -73,6 +91,7 @@ const GET_MEDIA_LIST_ENTRIES = `
       mediaList(mediaId: $mediaId, userId_in: $userIds) {
         userId
         score
+        normalizedScore: score(format: POINT_100)
         status
         progress
         user {
@@ -82,6 +101,9 @@ const GET_MEDIA_LIST_ENTRIES = `
             large
             medium
           }
+          mediaListOptions {
+            scoreFormat
+          }
         }
       }
     }
@@ -137,11 +159,28 @@ const GET_MEDIA_WITH_FOLLOWING = `
       averageScore
       popularity
       siteUrl
+      # The viewer's own list entry (null when not on their list or logged out)
+      mediaListEntry {
+        id
+        status
+        score
+        progress
+        progressVolumes
+        repeat
+      }
     }
     
-    # Get authenticated user ID
+    # Get authenticated user (score format is needed to edit their list entry)
     Viewer {
       id
+      name
+      avatar {
+        large
+        medium
+      }
+      mediaListOptions {
+        scoreFormat
+      }
     }
     
     # Get the list of users followed by the authenticated user
@@ -158,126 +197,156 @@ const GET_MEDIA_WITH_FOLLOWING = `
   }
 `;
 
-/**
- * Fallback function that uses separate queries (original approach).
- * Used when the optimized combined query fails.
- */
-async function fallbackToSeparateQueries(mediaIdNum: number, accessToken: string) {
-  console.log('[AniList API] ⚠️ Using fallback (separate queries)');
-  // Step 1: Get media + viewer
-  console.log('[AniList API] 🔵 Fallback Request #1: Media + Viewer');
-  const mediaQuery = {
-    query: GET_MEDIA_WITH_SCORES,
-    variables: {
-      mediaId: mediaIdNum,
-    },
+interface FollowedUser {
+  id: number;
+  name: string;
+  avatar?: {
+    large?: string;
+    medium?: string;
   };
+}
 
-  const mediaResponse = await fetch(ANILIST_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Authorization': `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(mediaQuery),
-  });
-  console.log('[AniList API] ✅ Fallback Request #1 completed:', mediaResponse.status);
+interface ViewerUser extends FollowedUser {
+  mediaListOptions?: {
+    scoreFormat?: string;
+  };
+}
 
-  if (!mediaResponse.ok) {
-    throw new Error(`Failed to get media: ${mediaResponse.status}`);
-  }
+interface ViewerListEntry {
+  id: number;
+  status?: string;
+  score?: number;
+  progress?: number;
+  progressVolumes?: number;
+  repeat?: number;
+}
 
-  const mediaData = await mediaResponse.json();
-  const media = mediaData.data?.Media;
-  const viewerId = mediaData.data?.Viewer?.id;
+interface MediaWithViewerEntry {
+  mediaListEntry?: ViewerListEntry | null;
+}
 
-  if (!media) {
-    throw new Error('Media not found');
-  }
+interface MediaListEntry {
+  userId: number;
+  score?: number; // In the user's own score format
+  normalizedScore?: number; // Same score on 0-100
+  status?: string;
+  progress?: number;
+  user?: FollowedUser & { mediaListOptions?: { scoreFormat?: string } };
+}
 
-  if (!viewerId) {
-    return NextResponse.json({ media, scores: [] });
+/**
+ * Build the viewer block of the response: who is logged in, their score
+ * format and their own entry for this media (used by the list editor).
+ */
+function buildViewer(viewer: ViewerUser | undefined, media: MediaWithViewerEntry) {
+  if (!viewer) {
+    return null;
   }
-
-  // Step 2: Get following
-  console.log('[AniList API] 🔵 Fallback Request #2: Following users');
-  const followingQuery = {
-    query: GET_FOLLOWING_USER_IDS,
-    variables: {
-      userId: viewerId,
-      page: 1,
-      perPage: 50,
-    },
+  return {
+    id: viewer.id,
+    name: viewer.name,
+    avatar: viewer.avatar?.medium || viewer.avatar?.large,
+    scoreFormat: viewer.mediaListOptions?.scoreFormat || 'POINT_100',
+    entry: media.mediaListEntry ?? null,
   };
+}
 
-  const followingResponse = await fetch(ANILIST_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Authorization': `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(followingQuery),
-  });
-  console.log('[AniList API] ✅ Fallback Request #2 completed:', followingResponse.status);
-
-  if (!followingResponse.ok) {
-    return NextResponse.json({ media, scores: [] });
-  }
-
-  const followingData = await followingResponse.json();
-  const following = followingData.data?.Page?.following || [];
-  const users = Array.isArray(following) ? following : [];
-  const userIds = users.map((user: any) => user.id);
-
+/**
+ * Fetch the followed users' list entries for a media and map them to scores.
+ * `cacheStatus` is null when there was nothing to fetch.
+ */
+async function fetchFollowedScores(mediaIdNum: number, users: FollowedUser[], accessToken: string) {
+  const userIds = users.map((user) => user.id);
   if (userIds.length === 0) {
-    return NextResponse.json({ media, scores: [] });
+    return { scores: [], cacheStatus: null };
   }
 
-  // Step 3: Get media list entries
-  console.log(`[AniList API] 🔵 Fallback Request #3: MediaList entries (${userIds.length} users)`);
-  const mediaEntriesQuery = {
-    query: GET_MEDIA_LIST_ENTRIES,
-    variables: {
+  const { data: entriesData, cacheStatus } = await cachedAnilistRequest<{ Page?: { mediaList?: MediaListEntry[] } }>(
+    GET_MEDIA_LIST_ENTRIES,
+    {
       mediaId: mediaIdNum,
       userIds: userIds,
     },
-  };
+    { accessToken, context: 'media-with-scores API', entity: 'listEntry', tags: [`media-list:${mediaIdNum}`] }
+  );
+  const mediaListEntries = entriesData.Page?.mediaList || [];
 
-  const entriesResponse = await fetch(ANILIST_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Authorization': `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(mediaEntriesQuery),
-  });
-  console.log('[AniList API] ✅ Fallback Request #3 completed:', entriesResponse.status);
-  console.log('[AniList API] 📊 Total: 3 requests (fallback)');
+  // Create a map of user info for quick lookup
+  const userMap = new Map<number, FollowedUser>(users.map((user) => [user.id, user]));
 
-  if (!entriesResponse.ok) {
-    return NextResponse.json({ media, scores: [] });
-  }
-
-  const entriesData = await entriesResponse.json();
-  const mediaListEntries = entriesData.data?.Page?.mediaList || [];
-
-  const userMap = new Map(users.map((user: any) => [user.id, user]));
-  const scores = mediaListEntries.map((entry: any) => {
+  // Transform the data to match our expected format
+  const scores = mediaListEntries.map((entry) => {
     const user = userMap.get(entry.userId) || entry.user;
+
     return {
       userId: entry.userId || entry.user?.id,
       userName: user?.name || entry.user?.name || 'Unknown',
       userAvatar: user?.avatar?.medium || user?.avatar?.large || entry.user?.avatar?.medium || entry.user?.avatar?.large,
-      score: entry.score,
+      score: entry.normalizedScore ?? entry.score,
+      rawScore: entry.score,
+      scoreFormat: entry.user?.mediaListOptions?.scoreFormat || 'POINT_100',
       status: entry.status,
       progress: entry.progress,
     };
   });
+  return { scores, cacheStatus };
+}
+
+/**
+ * Fallback function that uses separate queries (original approach).
+ * Used when the optimized combined query fails. `cacheStatuses` holds the
+ * statuses of the requests already made, so X-Cache covers the whole response.
+ */
+async function fallbackToSeparateQueries(mediaIdNum: number, accessToken: string, cacheStatuses: CacheStatus[]) {
+  console.log('[AniList API] ⚠️ Using fallback (separate queries)');
+  // Step 1: Get media + viewer
+  console.log('[AniList API] 🔵 Fallback Request #1: Media + Viewer');
+  const { data: mediaData, cacheStatus } = await cachedAnilistRequest<{ Media?: MediaWithViewerEntry; Viewer?: ViewerUser }>(
+    GET_MEDIA_WITH_SCORES,
+    { mediaId: mediaIdNum },
+    { accessToken, context: 'media-with-scores API', entity: 'listEntry', tags: [`media:${mediaIdNum}`] }
+  );
+  cacheStatuses.push(cacheStatus);
+  const media = mediaData.Media;
+  const viewerId = mediaData.Viewer?.id;
+
+  if (!media) {
+    return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
+  }
+
+  const viewer = buildViewer(mediaData.Viewer, media);
+
+  if (!viewerId) {
+    return withCacheStatus(NextResponse.json({ media, scores: [], viewer }), cacheStatuses);
+  }
+
+  try {
+    // Step 2: Get following
+    console.log('[AniList API] 🔵 Fallback Request #2: Following users');
+    const { data: followingData, cacheStatus: followingStatus } = await cachedAnilistRequest<{ Page?: { following?: FollowedUser[] } }>(
+      GET_FOLLOWING_USER_IDS,
+      {
+        userId: viewerId,
+        page: 1,
+        perPage: 50,
+      },
+      { accessToken, context: 'media-with-scores API', entity: 'user' }
+    );
+    cacheStatuses.push(followingStatus);
+    const following = followingData.Page?.following || [];
 
-  return NextResponse.json({ media, scores });
+    // Step 3: Get media list entries
+    console.log(`[AniList API] 🔵 Fallback Request #3: MediaList entries (${following.length} users)`);
+    const { scores, cacheStatus: scoresStatus } = await fetchFollowedScores(mediaIdNum, Array.isArray(following) ? following : [], accessToken);
+    if (scoresStatus) cacheStatuses.push(scoresStatus);
+    console.log('[AniList API] 📊 Total: 3 requests (fallback)');
+
+    return withCacheStatus(NextResponse.json({ media, scores, viewer }), cacheStatuses);
+  } catch (error) {
+    console.error('[media-with-scores API] Fallback failed to get scores:', error);
+    // Scores were not served, so neither was the response as a whole
+    return withCacheStatus(NextResponse.json({ media, scores: [], viewer }), [...cacheStatuses, 'MISS']);
+  }
 }
 
 /**
@@ -294,32 +363,26 @@ async function fallbackToSeparateQueries(mediaIdNum: number, accessToken: string
  * FALLBACK: Uses separate queries if optimized approach fails (3 queries).
  * 
  * @param request - Next.js request object
- * @param request.headers.authorization - Bearer token for AniList authentication (optional, only needed for scores)
+ * @param request.cookies.anilist_session - Login session holding the AniList token (optional, only needed for scores)
  * @param request.nextUrl.searchParams.mediaId - The ID of the media to get info and scores for
- * @returns JSON response with media info and array of scores from followed users
+ * @returns JSON response with media info, array of scores from followed users, and the
+ *          viewer (score format + own list entry, null when logged out)
  */
 export async function GET(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
   const searchParams = request.nextUrl.searchParams;
   const mediaId = searchParams.get('mediaId');
 
   // Validate mediaId parameter
   if (!mediaId) {
-    return NextResponse.json(
-      { error: 'mediaId is required' },
-      { status: 400 }
-    );
+    return anilistErrorJson('mediaId is required', 400, 'BAD_REQUEST');
   }
 
   const mediaIdNum = parseInt(mediaId, 10);
   if (isNaN(mediaIdNum)) {
-    return NextResponse.json(
-      { error: 'Invalid mediaId' },
-      { status: 400 }
-    );
+    return anilistErrorJson('Invalid mediaId', 400, 'BAD_REQUEST');
   }
 
-  const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+  const accessToken = await getAccessToken(request);
 
   try {
     // OPTIMIZED APPROACH: Use combined query when we have a token
@@ -327,54 +390,22 @@ export async function GET(request: NextRequest) {
     
     if (!accessToken) {
       // No token: just get media info (single query)
-      const mediaQuery = {
-        query: GET_MEDIA_WITH_SCORES,
-        variables: {
-          mediaId: mediaIdNum,
-        },
-      };
-
-      const mediaResponse = await fetch(ANILIST_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(mediaQuery),
-      });
-
-      if (!mediaResponse.ok) {
-        const errorText = await mediaResponse.text();
-        console.error('[media-with-scores API] Failed to get media:', errorText);
-        return NextResponse.json(
-          { error: `HTTP Error: ${mediaResponse.status}`, details: errorText },
-          { status: mediaResponse.status }
-        );
-      }
-
-      const mediaData = await mediaResponse.json();
-
-      if (mediaData.errors) {
-        console.error('[media-with-scores API] GraphQL errors getting media:', mediaData.errors);
-        const errorMessages = mediaData.errors.map((e: any) => e.message).join(', ');
-        return NextResponse.json(
-          { error: `GraphQL error: ${errorMessages}`, details: mediaData.errors },
-          { status: 400 }
-        );
-      }
+      const { data: mediaData, cacheStatus } = await cachedAnilistRequest<{ Media?: unknown }>(
+        GET_MEDIA_WITH_SCORES,
+        { mediaId: mediaIdNum },
+        { context: 'media-with-scores API', entity: 'media', tags: [`media:${mediaIdNum}`] }
+      );
 
-      const media = mediaData.data?.Media;
+      const media = mediaData.Media;
       if (!media) {
-        return NextResponse.json(
-          { error: 'Media not found' },
-          { status: 404 }
-        );
+        return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
       }
 
-      return NextResponse.json({
+      return withCacheStatus(NextResponse.json({
         media,
         scores: [],
-      });
+        viewer: null,
+      }), [cacheStatus]);
     }
 
     // OPTIMIZED APPROACH: Use combined query (Media + Viewer + Following in one query)
@@ -382,194 +413,98 @@ export async function GET(request: NextRequest) {
     
     // Step 1: Get Viewer ID first (needed for the combined query)
     console.log('[AniList API] 🔵 Request #1: Getting Viewer ID');
-    const viewerQuery = {
-      query: `query { Viewer { id } }`,
-    };
-
-    const viewerResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(viewerQuery),
-    });
-    console.log('[AniList API] ✅ Request #1 completed:', viewerResponse.status);
-
-    if (!viewerResponse.ok) {
+    const cacheStatuses: CacheStatus[] = [];
+    let viewerUser: ViewerUser | undefined;
+    try {
+      const { data: viewerData, cacheStatus } = await cachedAnilistRequest<{ Viewer?: ViewerUser }>(
+        `query { Viewer { id name avatar { large medium } mediaListOptions { scoreFormat } } }`,
+        undefined,
+        { accessToken, context: 'media-with-scores API', entity: 'user' }
+      );
+      viewerUser = viewerData.Viewer;
+      cacheStatuses.push(cacheStatus);
+    } catch (error) {
+      if (error instanceof AniListApiError && error.code === 'RATE_LIMITED') {
+        throw error;
+      }
       console.error('[media-with-scores API] Failed to get Viewer ID, using fallback');
-      return await fallbackToSeparateQueries(mediaIdNum, accessToken);
+      return await fallbackToSeparateQueries(mediaIdNum, accessToken, cacheStatuses);
     }
 
-    const viewerData = await viewerResponse.json();
-    const viewerId = viewerData.data?.Viewer?.id;
-
+    const viewerId = viewerUser?.id;
     if (!viewerId) {
       // No viewer ID means token might be invalid, get media only
-      const mediaQuery = {
-        query: GET_MEDIA_WITH_SCORES,
-        variables: {
-          mediaId: mediaIdNum,
-        },
-      };
-
-      const mediaResponse = await fetch(ANILIST_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify(mediaQuery),
-      });
-
-      if (!mediaResponse.ok) {
-        return NextResponse.json(
-          { error: 'Failed to get media' },
-          { status: mediaResponse.status }
-        );
-      }
-
-      const mediaData = await mediaResponse.json();
-      const media = mediaData.data?.Media;
+      const { data: mediaData, cacheStatus } = await cachedAnilistRequest<{ Media?: unknown }>(
+        GET_MEDIA_WITH_SCORES,
+        { mediaId: mediaIdNum },
+        { accessToken, context: 'media-with-scores API', entity: 'listEntry', tags: [`media:${mediaIdNum}`] }
+      );
+      const media = mediaData.Media;
       if (!media) {
-        return NextResponse.json(
-          { error: 'Media not found' },
-          { status: 404 }
-        );
+        return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
       }
 
-      return NextResponse.json({
+      return withCacheStatus(NextResponse.json({
         media,
         scores: [],
-      });
+        viewer: null,
+      }), [...cacheStatuses, cacheStatus]);
     }
 
     // Step 2: OPTIMIZED - Combined query: Media + Viewer + Following (reduces from 2 queries to 1)
     console.log('[AniList API] 🔵 Request #2: Combined query (Media + Viewer + Following)');
-    const combinedQuery = {
-      query: GET_MEDIA_WITH_FOLLOWING,
-      variables: {
-        mediaId: mediaIdNum,
-        viewerId: viewerId,
-        page: 1,
-        perPage: 50,
-      },
-    };
-
-    const combinedResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(combinedQuery),
-    });
-    console.log('[AniList API] ✅ Request #2 completed:', combinedResponse.status);
-
-    if (!combinedResponse.ok) {
+    let combinedData: { Media?: MediaWithViewerEntry; FollowingPage?: { following?: FollowedUser[] } };
+    try {
+      // Holds the viewer's own entry and who they follow, both dropped by their mutations (viewer tag)
+      const combined = await cachedAnilistRequest<typeof combinedData>(
+        GET_MEDIA_WITH_FOLLOWING,
+        {
+          mediaId: mediaIdNum,
+          viewerId: viewerId,
+          page: 1,
+          perPage: 50,
+        },
+        { accessToken, context: 'media-with-scores API', entity: 'listEntry', tags: [`media:${mediaIdNum}`] }
+      );
+      combinedData = combined.data;
+      cacheStatuses.push(combined.cacheStatus);
+    } catch (error) {
+      if (error instanceof AniListApiError && error.code === 'RATE_LIMITED') {
+        throw error;
+      }
       console.error('[media-with-scores API] Combined query failed, using fallback');
-      return await fallbackToSeparateQueries(mediaIdNum, accessToken);
-    }
-
-    const combinedData = await combinedResponse.json();
-
-    if (combinedData.errors) {
-      console.error('[media-with-scores API] GraphQL errors in combined query, using fallback');
-      return await fallbackToSeparateQueries(mediaIdNum, accessToken);
+      return await fallbackToSeparateQueries(mediaIdNum, accessToken, cacheStatuses);
     }
 
-    const media = combinedData.data?.Media;
+    const media = combinedData.Media;
     if (!media) {
-      return NextResponse.json(
-        { error: 'Media not found' },
-        { status: 404 }
-      );
+      return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
     }
 
-    const following = combinedData.data?.FollowingPage?.following || [];
+    const viewer = buildViewer(viewerUser, media);
+    const following = combinedData.FollowingPage?.following || [];
     const users = Array.isArray(following) ? following : [];
-    const userIds = users.map((user: any) => user.id);
-
-    // Early return if no followed users
-    if (userIds.length === 0) {
-      return NextResponse.json({
-        media,
-        scores: [],
-      });
-    }
 
     // Step 3: Get media list entries (still need separate query because it requires userIds from step 2)
-    console.log(`[AniList API] 🔵 Request #3: MediaList entries (${userIds.length} users)`);
-    const mediaEntriesQuery = {
-      query: GET_MEDIA_LIST_ENTRIES,
-      variables: {
-        mediaId: mediaIdNum,
-        userIds: userIds,
-      },
-    };
-
-    const entriesResponse = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(mediaEntriesQuery),
-    });
-    console.log('[AniList API] ✅ Request #3 completed:', entriesResponse.status);
-    console.log('[AniList API] 📊 Total: 2 requests (optimized)');
-
-    if (!entriesResponse.ok) {
-      console.error('[media-with-scores API] Failed to get media list entries');
-      return NextResponse.json({
+    console.log(`[AniList API] 🔵 Request #3: MediaList entries (${users.length} users)`);
+    try {
+      const { scores, cacheStatus } = await fetchFollowedScores(mediaIdNum, users, accessToken);
+      if (cacheStatus) cacheStatuses.push(cacheStatus);
+      console.log('[AniList API] 📊 Total: 2 requests (optimized)');
+      return withCacheStatus(NextResponse.json({
         media,
-        scores: [],
-      });
-    }
-
-    const entriesData = await entriesResponse.json();
-
-    if (entriesData.errors) {
-      console.error('[media-with-scores API] GraphQL errors getting media entries');
-      return NextResponse.json({
+        scores,
+        viewer,
+      }), cacheStatuses);
+    } catch (error) {
+      console.error('[media-with-scores API] Failed to get media list entries:', error);
+      return withCacheStatus(NextResponse.json({
         media,
         scores: [],
-      });
+        viewer,
+      }), [...cacheStatuses, 'MISS']);
     }
-
-    const mediaListEntries = entriesData.data?.Page?.mediaList || [];
-
-    // Create a map of user info for quick lookup
-    const userMap = new Map(users.map((user: any) => [user.id, user]));
-
-    // Transform the data to match our expected format
-    const scores = mediaListEntries.map((entry: any) => {
-      const user = userMap.get(entry.userId) || entry.user;
-      
-      return {
-        userId: entry.userId || entry.user?.id,
-        userName: user?.name || entry.user?.name || 'Unknown',
-        userAvatar: user?.avatar?.medium || user?.avatar?.large || entry.user?.avatar?.medium || entry.user?.avatar?.large,
-        score: entry.score,
-        status: entry.status,
-        progress: entry.progress,
-      };
-    });
-
-    return NextResponse.json({
-      media,
-      scores,
-    });
   } catch (error) {
-    console.error('[media-with-scores API] Unexpected error:', error);
-    
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return anilistErrorResponse(error, 'media-with-scores API');
   }
 }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
 
 const GET_MEDIA_BY_ID = `
   query GetMediaById($id: Int!) {
@@ -47,10 +47,7 @@ export async function GET(request: NextRequest) {
   const mediaId = searchParams.get('id');
 
   if (!mediaId) {
-    return NextResponse.json(
-      { error: 'Media ID is required' },
-      { status: 400 }
-    );
+    return anilistErrorJson('Media ID is required', 400, 'BAD_REQUEST');
   }
 
   try {
@@ -58,63 +55,19 @@ export async function GET(request: NextRequest) {
       id: parseInt(mediaId, 10),
     };
 
-    const requestBody = {
-      query: GET_MEDIA_BY_ID,
+    const { data, cacheStatus } = await cachedAnilistRequest<{ Media?: unknown }>(
+      GET_MEDIA_BY_ID,
       variables,
-    };
-
-    const response = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    const responseText = await response.text();
-
-    if (!response.ok) {
-      console.error(`[media API] AniList API returned HTTP ${response.status}:`, responseText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${response.status}`, details: responseText },
-        { status: response.status }
-      );
-    }
-
-    let data;
-    try {
-      data = JSON.parse(responseText);
-    } catch (e) {
-      console.error('[media API] Failed to parse response as JSON:', e);
-      return NextResponse.json(
-        { error: 'Invalid JSON response', details: responseText },
-        { status: 500 }
-      );
-    }
-
-    if (data.errors) {
-      console.error('[media API] AniList API errors:', JSON.stringify(data.errors, null, 2));
-      return NextResponse.json(
-        { error: 'API error', details: data.errors },
-        { status: 400 }
-      );
-    }
+      { context: 'media API', entity: 'media', tags: [`media:${variables.id}`] }
+    );
 
-    const media = data.data?.Media;
+    const media = data.Media;
     if (!media) {
-      return NextResponse.json(
-        { error: 'Media not found' },
-        { status: 404 }
-      );
+      return anilistErrorJson('Media not found', 404, 'NOT_FOUND');
     }
 
-    return NextResponse.json(media);
+    return withCacheStatus(NextResponse.json(media), [cacheStatus]);
   } catch (error) {
-    console.error('Error fetching media:', error);
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return anilistErrorResponse(error, 'media API');
   }
 }
@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { getAccessToken } from '@/lib/anilist-session';
+
+const NOTIFICATION_TYPES = new Set([
+  'ACTIVITY_LIKE',
+  'ACTIVITY_REPLY_LIKE',
+  'ACTIVITY_REPLY',
+  'ACTIVITY_REPLY_SUBSCRIBED',
+  'ACTIVITY_MENTION',
+  'ACTIVITY_MESSAGE',
+  'AIRING',
+  'FOLLOWING',
+  'RELATED_MEDIA_ADDITION',
+  'MEDIA_DATA_CHANGE',
+  'MEDIA_MERGE',
+  'MEDIA_DELETION',
+]);
+
+const USER_FIELDS = `
+  user {
+    id
+    name
+    avatar {
+      medium
+    }
+  }
+`;
+
+const MEDIA_FIELDS = `
+  media {
+    id
+    type
+    title {
+      romaji
+      english
+    }
+    coverImage {
+      medium
+    }
+  }
+`;
+
+/**
+ * Notification is a union: every member has to be selected with its own
+ * inline fragment. `resetNotificationCount` marks everything as read.
+ */
+const GET_NOTIFICATIONS = `
+  query GetNotifications($page: Int, $perPage: Int, $types: [NotificationType], $reset: Boolean) {
+    Viewer {
+      unreadNotificationCount
+    }
+    Page(page: $page, perPage: $perPage) {
+      pageInfo {
+        currentPage
+        hasNextPage
+      }
+      notifications(type_in: $types, resetNotificationCount: $reset) {
+        ... on ActivityLikeNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on ActivityReplyLikeNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on ActivityReplyNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on ActivityReplySubscribedNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on ActivityMentionNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on ActivityMessageNotification { id type createdAt context activityId ${USER_FIELDS} }
+        ... on FollowingNotification { id type createdAt context ${USER_FIELDS} }
+        ... on AiringNotification { id type createdAt episode contexts ${MEDIA_FIELDS} }
+        ... on RelatedMediaAdditionNotification { id type createdAt context ${MEDIA_FIELDS} }
+        ... on MediaDataChangeNotification { id type createdAt context reason ${MEDIA_FIELDS} }
+        ... on MediaMergeNotification { id type createdAt context reason deletedMediaTitles ${MEDIA_FIELDS} }
+        ... on MediaDeletionNotification { id type createdAt context reason deletedMediaTitle }
+      }
+    }
+  }
+`;
+
+const GET_UNREAD_COUNT = `
+  query GetUnreadNotificationCount {
+    Viewer {
+      unreadNotificationCount
+    }
+  }
+`;
+
+interface RawNotification {
+  id: number;
+  type: string;
+  createdAt: number;
+  context?: string;
+  contexts?: string[];
+  episode?: number;
+  activityId?: number;
+  reason?: string;
+  deletedMediaTitle?: string;
+  deletedMediaTitles?: string[];
+  user?: { id: number; name: string; avatar?: { medium?: string } };
+  media?: {
+    id: number;
+    type?: string;
+    title?: { romaji?: string; english?: string };
+    coverImage?: { medium?: string };
+  };
+}
+
+interface NotificationsResponse {
+  Viewer?: { unreadNotificationCount?: number };
+  Page?: {
+    pageInfo?: { currentPage: number; hasNextPage: boolean };
+    notifications?: RawNotification[];
+  };
+}
+
+/**
+ * Build the sentence AniList shows for a notification. `context` is the text
+ * that follows the user/media name; airing notifications instead have
+ * `contexts` pieces to put around the episode number and the title.
+ */
+function buildNotificationText(notification: RawNotification): string {
+  const title = notification.media?.title?.romaji || notification.media?.title?.english || '';
+
+  if (notification.type === 'AIRING') {
+    const [beforeEpisode = 'Episode ', beforeTitle = ' of ', after = ' aired.'] = notification.contexts || [];
+    return `${beforeEpisode}${notification.episode ?? '?'}${beforeTitle}${title}${after}`;
+  }
+
+  if (notification.user) {
+    return `${notification.user.name}${notification.context || ''}`;
+  }
+
+  if (notification.type === 'MEDIA_DELETION') {
+    return `${notification.deletedMediaTitle || 'A media'}${notification.context || ''}`;
+  }
+
+  if (notification.type === 'MEDIA_MERGE' && notification.deletedMediaTitles?.length) {
+    return `${notification.deletedMediaTitles.join(', ')}${notification.context || ''}${title}`;
+  }
+
+  return `${title}${notification.context || ''}`;
+}
+
+/**
+ * API route to list the logged-in user's notifications.
+ *
+ * @param request.nextUrl.searchParams.page - Page number (default 1)
+ * @param request.nextUrl.searchParams.perPage - Results per page (default 20, max 50)
+ * @param request.nextUrl.searchParams.types - Comma-separated NotificationType filter (default: all)
+ * @param request.nextUrl.searchParams.countOnly - When "true", only return the unread count
+ * @returns JSON response `{ notifications, pageInfo, unreadCount }`
+ */
+export async function GET(request: NextRequest) {
+  const accessToken = await getAccessToken(request);
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    if (searchParams.get('countOnly') === 'true') {
+      const data = await anilistRequest<NotificationsResponse>(
+        GET_UNREAD_COUNT,
+        undefined,
+        { accessToken, context: 'notifications API' }
+      );
+      return NextResponse.json({ unreadCount: data.Viewer?.unreadNotificationCount || 0 });
+    }
+
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const perPage = Math.min(parseInt(searchParams.get('perPage') || '20', 10), 50);
+    if (isNaN(page) || page < 1 || isNaN(perPage) || perPage < 1) {
+      return anilistErrorJson('Invalid page or perPage parameter', 400, 'BAD_REQUEST');
+    }
+
+    const types = searchParams.get('types')?.split(',').map((type) => type.trim().toUpperCase()).filter(Boolean);
+    if (types?.some((type) => !NOTIFICATION_TYPES.has(type))) {
+      return anilistErrorJson('Invalid notification type', 400, 'BAD_REQUEST');
+    }
+
+    // Listing doesn't mark anything as read: that is an explicit action (POST)
+    const data = await anilistRequest<NotificationsResponse>(
+      GET_NOTIFICATIONS,
+      { page, perPage, types: types?.length ? types : undefined, reset: false },
+      { accessToken, context: 'notifications API' }
+    );
+
+    // Unknown union members come back as empty objects
+    const notifications = (data.Page?.notifications || [])
+      .filter((notification) => notification && notification.id)
+      .map((notification) => ({
+        id: notification.id,
+        type: notification.type,
+        createdAt: notification.createdAt,
+        text: buildNotificationText(notification),
+        reason: notification.reason || undefined,
+        activityId: notification.activityId,
+        user: notification.user,
+        media: notification.media,
+      }));
+
+    return NextResponse.json({
+      notifications,
+      pageInfo: data.Page?.pageInfo || { currentPage: page, hasNextPage: false },
+      unreadCount: data.Viewer?.unreadNotificationCount || 0,
+    });
+  } catch (error) {
+    return anilistErrorResponse(error, 'notifications API');
+  }
+}
+
+/**
+ * API route to mark all notifications as read.
+ * AniList has no dedicated mutation: the count is reset by querying
+ * notifications with `resetNotificationCount: true`.
+ *
+ * @returns JSON response `{ unreadCount: 0 }`
+ */
+export async function POST(request: NextRequest) {
+  const accessToken = await getAccessToken(request);
+  if (!accessToken) {
+    return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  try {
+    await anilistRequest<NotificationsResponse>(
+      GET_NOTIFICATIONS,
+      { page: 1, perPage: 1, reset: true },
+      { accessToken, context: 'notifications API' }
+    );
+
+    console.log('[notifications API] ✅ Notifications marked as read');
+    return NextResponse.json({ unreadCount: 0 });
+  } catch (error) {
+    return anilistErrorResponse(error, 'notifications API');
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse, AniListApiError } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus, CacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+const MAX_ACTIVITIES = 50;
+
+// Activities per GraphQL request. Every reply list counts towards AniList's
+// query complexity limit (500), so larger batches get rejected.
+const ACTIVITIES_PER_QUERY = 10;
+
+// Same fields as the replies route
+const REPLY_FIELDS = `
+          id
+          userId
+          text(asHtml: true)
+          rawText: text
+          createdAt
+          isLiked
+          likeCount
+          user {
+            id
+            name
+            isFollowing
+            avatar {
+              large
+              medium
+            }
+          }`;
+
+/**
+ * One query fetching the replies of several activities, through aliases:
+ * `a<activityId>: Activity(id: ...) { ... on TextActivity { replies { ... } } }`.
+ */
+function buildRepliesQuery(activityIds: number[]): string {
+  const activities = activityIds.map((activityId) => `
+    a${activityId}: Activity(id: ${activityId}) {
+      ... on TextActivity {
+        replies {${REPLY_FIELDS}
+        }
+      }
+      ... on ListActivity {
+        replies {${REPLY_FIELDS}
+        }
+      }
+      ... on MessageActivity {
+        replies {${REPLY_FIELDS}
+        }
+      }
+    }`).join('');
+  return `query GetActivitiesReplies {${activities}\n  }`;
+}
+
+type RepliesResponse = Record<string, { replies?: unknown[] } | null | undefined>;
+
+function fetchReplies(activityIds: number[], accessToken: string | null) {
+  return cachedAnilistRequest<RepliesResponse>(
+    buildRepliesQuery(activityIds),
+    undefined,
+    {
+      accessToken,
+      context: 'replies-batch API',
+      entity: 'activity',
+      tags: activityIds.map((activityId) => `activity:${activityId}`),
+    }
+  );
+}
+
+/**
+ * Replies of one chunk of activities. AniList fails the whole query when one
+ * of them was deleted, so a NOT_FOUND falls back to one request per activity.
+ */
+async function fetchChunkReplies(activityIds: number[], accessToken: string | null, cacheStatuses: CacheStatus[]) {
+  try {
+    const { data, cacheStatus } = await fetchReplies(activityIds, accessToken);
+    cacheStatuses.push(cacheStatus);
+    return data;
+  } catch (error) {
+    if (!(error instanceof AniListApiError) || error.code !== 'NOT_FOUND' || activityIds.length === 1) {
+      throw error;
+    }
+  }
+
+  const data: RepliesResponse = {};
+  for (const activityId of activityIds) {
+    try {
+      const single = await fetchReplies([activityId], accessToken);
+      cacheStatuses.push(single.cacheStatus);
+      Object.assign(data, single.data);
+    } catch (error) {
+      if (!(error instanceof AniListApiError) || error.code !== 'NOT_FOUND') {
+        throw error;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * API route to get the replies of several activities at once (home feed prefetch).
+ *
+ * @param request.nextUrl.searchParams.activityIds - Comma-separated activity IDs (up to 50)
+ * @returns JSON response `{ replies: { [activityId]: ActivityComment[] } }` (empty for deleted activities)
+ */
+export async function GET(request: NextRequest) {
+  const activityIds = (request.nextUrl.searchParams.get('activityIds') || '')
+    .split(',')
+    .map((id) => parseInt(id, 10))
+    .filter((id) => !isNaN(id) && id > 0);
+
+  if (activityIds.length === 0) {
+    return anilistErrorJson('activityIds is required', 400, 'BAD_REQUEST');
+  }
+  if (activityIds.length > MAX_ACTIVITIES) {
+    return anilistErrorJson(`At most ${MAX_ACTIVITIES} activityIds per request`, 400, 'BAD_REQUEST');
+  }
+
+  // Pass the session token along if logged in (needed for isLiked field)
+  const accessToken = await getAccessToken(request);
+
+  try {
+    const replies: Record<number, unknown[]> = {};
+    const cacheStatuses: CacheStatus[] = [];
+    for (let index = 0; index < activityIds.length; index += ACTIVITIES_PER_QUERY) {
+      const chunk = activityIds.slice(index, index + ACTIVITIES_PER_QUERY);
+      const data = await fetchChunkReplies(chunk, accessToken, cacheStatuses);
+      for (const activityId of chunk) {
+        replies[activityId] = data[`a${activityId}`]?.replies || [];
+      }
+    }
+
+    return withCacheStatus(NextResponse.json({ replies }), cacheStatuses);
+  } catch (error) {
+    return anilistErrorResponse(error, 'replies-batch API');
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
 
-const ANILIST_API_URL = 'https://graphql.anilist.co';
-
+// rawText is the markdown source, needed to edit our own replies
 const GET_ACTIVITY_REPLIES = `
   query GetActivityReplies($activityId: Int!) {
     Activity(id: $activityId) {
@@ -11,12 +13,14 @@ const GET_ACTIVITY_REPLIES = `
           id
           userId
           text(asHtml: true)
+          rawText: text
           createdAt
           isLiked
           likeCount
           user {
             id
             name
+            isFollowing
             avatar {
               large
               medium
@@ -30,12 +34,14 @@ const GET_ACTIVITY_REPLIES = `
           id
           userId
           text(asHtml: true)
+          rawText: text
           createdAt
           isLiked
           likeCount
           user {
             id
             name
+            isFollowing
             avatar {
               large
               medium
@@ -48,12 +54,14 @@ const GET_ACTIVITY_REPLIES = `
         replies {
           id
           text(asHtml: true)
+          rawText: text
           createdAt
           isLiked
           likeCount
           user {
             id
             name
+            isFollowing
             avatar {
               large
               medium
@@ -68,73 +76,31 @@ const GET_ACTIVITY_REPLIES = `
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const activityId = searchParams.get('activityId');
-  const authHeader = request.headers.get('authorization');
 
   if (!activityId) {
-    return NextResponse.json(
-      { error: 'activityId is required' },
-      { status: 400 }
-    );
+    return anilistErrorJson('activityId is required', 400, 'BAD_REQUEST');
   }
 
-  try {
-    // Build headers with optional authentication (needed for isLiked field)
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
-    
-    // Add authorization header if provided (needed for isLiked field)
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      headers['Authorization'] = authHeader;
-    }
-
-    const response = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        query: GET_ACTIVITY_REPLIES,
-        variables: { activityId: parseInt(activityId, 10) },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[replies API] HTTP Error ${response.status} for activity ${activityId}:`, errorText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${response.status}`, details: errorText },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
+  // Pass the session token along if logged in (needed for isLiked field)
+  const accessToken = await getAccessToken(request);
 
-    if (data.errors) {
-      // Log the error for debugging
-      console.error(`[replies API] AniList API errors for activity ${activityId}:`, JSON.stringify(data.errors, null, 2));
-      // Return error details for debugging
-      return NextResponse.json(
-        { error: 'API error', details: data.errors },
-        { status: 400 }
-      );
-    }
+  try {
+    const activityIdInt = parseInt(activityId, 10);
+    const { data, cacheStatus } = await cachedAnilistRequest<{ Activity?: { replies?: unknown[] } }>(
+      GET_ACTIVITY_REPLIES,
+      { activityId: activityIdInt },
+      { accessToken, context: 'replies API', entity: 'activity', tags: [`activity:${activityIdInt}`] }
+    );
 
-    const activity = data.data?.Activity;
+    const activity = data.Activity;
     if (!activity) {
       console.warn(`[replies API] Activity ${activityId} not found in response`);
-      return NextResponse.json(
-        { error: 'Activity not found' },
-        { status: 404 }
-      );
+      return anilistErrorJson('Activity not found', 404, 'NOT_FOUND');
     }
 
     const replies = activity.replies || [];
-    return NextResponse.json(replies);
+    return withCacheStatus(NextResponse.json(replies), [cacheStatus]);
   } catch (error) {
-    console.error('Error fetching replies:', error);
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return anilistErrorResponse(error, `replies API (activity ${activityId})`);
   }
 }
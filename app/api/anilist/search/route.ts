@@ -1,9 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+import { parseSearchFilters, hasActiveFilters, buildMediaFilterVariables } from '@/lib/anilist-search-filters';
 
 const SEARCH_MEDIA = `
-  query SearchMedia($search: String, $type: MediaType, $page: Int, $perPage: Int) {
+  query SearchMedia(
+    $search: String
+    $type: MediaType
+    $page: Int
+    $perPage: Int
+    $sort: [MediaSort]
+    $genre_in: [String]
+    $genre_not_in: [String]
+    $tag_in: [String]
+    $tag_not_in: [String]
+    $season: MediaSeason
+    $seasonYear: Int
+    $format: MediaFormat
+    $status: MediaStatus
+    $averageScore_greater: Int
+    $averageScore_lesser: Int
+    $episodes_greater: Int
+    $episodes_lesser: Int
+    $isAdult: Boolean
+  ) {
     Page(page: $page, perPage: $perPage) {
       pageInfo {
         total
@@ -12,7 +33,24 @@ const SEARCH_MEDIA = `
         lastPage
         hasNextPage
       }
-      media(search: $search, type: $type, sort: SEARCH_MATCH) {
+      media(
+        search: $search
+        type: $type
+        sort: $sort
+        genre_in: $genre_in
+        genre_not_in: $genre_not_in
+        tag_in: $tag_in
+        tag_not_in: $tag_not_in
+        season: $season
+        seasonYear: $seasonYear
+        format: $format
+        status: $status
+        averageScore_greater: $averageScore_greater
+        averageScore_lesser: $averageScore_lesser
+        episodes_greater: $episodes_greater
+        episodes_lesser: $episodes_lesser
+        isAdult: $isAdult
+      ) {
         id
         title {
           romaji
@@ -46,23 +84,39 @@ const SEARCH_MEDIA = `
         averageScore
         popularity
         siteUrl
+        # The viewer's own entry (null when logged out or not on their list)
+        mediaListEntry {
+          id
+          status
+          progress
+          repeat
+        }
       }
     }
   }
 `;
 
+/**
+ * API route to search media by title and/or filters.
+ *
+ * @param request.nextUrl.searchParams.query - Title search (optional when filters are given)
+ * @param request.nextUrl.searchParams.type - ANIME, MANGA or ALL
+ * @param request.nextUrl.searchParams.page - Page number
+ * @param request.nextUrl.searchParams.perPage - Results per page
+ * @param request.nextUrl.searchParams - Filters: genres, excludeGenres, tags, excludeTags, season, year,
+ *   format, status, scoreMin, scoreMax, episodesMin, episodesMax, adult, sort (see lib/anilist-search-filters.ts)
+ * @returns JSON response `{ media, pageInfo }` (with the viewer's `mediaListEntry` when logged in)
+ */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get('query');
+  const query = searchParams.get('query')?.trim() || '';
   const typeParam = searchParams.get('type') || 'ALL';
   const page = searchParams.get('page') || '1';
   const perPage = searchParams.get('perPage') || '10';
+  const filters = parseSearchFilters(searchParams);
 
-  if (!query || query.trim().length < 2) {
-    return NextResponse.json(
-      { error: 'Query must be at least 2 characters' },
-      { status: 400 }
-    );
+  if (!query && !hasActiveFilters(filters)) {
+    return anilistErrorJson('A query or at least one filter is required', 400, 'BAD_REQUEST');
   }
 
   // Map type parameter to MediaType enum
@@ -75,75 +129,40 @@ export async function GET(request: NextRequest) {
   // If 'ALL', mediaType stays null
 
   try {
-    const variables: any = {
-      search: query.trim(),
+    const accessToken = await getAccessToken(request);
+    const variables: Record<string, unknown> = {
+      ...buildMediaFilterVariables(filters),
       page: parseInt(page, 10),
       perPage: parseInt(perPage, 10),
+      // Best match only makes sense with a text query
+      sort: [filters.sort || (query ? 'SEARCH_MATCH' : 'POPULARITY_DESC')],
     };
 
-    if (mediaType) {
-      variables.type = mediaType;
+    if (query) {
+      variables.search = query;
     }
 
-
-    const response = await fetch(ANILIST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        query: SEARCH_MEDIA,
-        variables,
-      }),
-    });
-
-    const responseText = await response.text();
-
-    if (!response.ok) {
-      console.error(`[search API] AniList API returned HTTP ${response.status}:`, responseText);
-      return NextResponse.json(
-        { error: `HTTP Error: ${response.status}`, details: responseText },
-        { status: response.status }
-      );
-    }
-
-    let data;
-    try {
-      data = JSON.parse(responseText);
-    } catch (e) {
-      console.error('[search API] Failed to parse response as JSON:', e);
-      return NextResponse.json(
-        { error: 'Invalid JSON response', details: responseText },
-        { status: 500 }
-      );
+    if (mediaType) {
+      variables.type = mediaType;
     }
 
-    if (data.errors) {
-      console.error('[search API] AniList API errors:', JSON.stringify(data.errors, null, 2));
-      return NextResponse.json(
-        { error: 'API error', details: data.errors },
-        { status: 400 }
-      );
-    }
+    // Logged-in results are cached per viewer (mediaListEntry) and dropped when they edit their list
+    const { data, cacheStatus } = await cachedAnilistRequest<{ Page?: { media?: unknown[]; pageInfo?: unknown } }>(
+      SEARCH_MEDIA,
+      variables,
+      { accessToken, context: 'search API', entity: 'search' }
+    );
 
-    const pageData = data.data?.Page;
+    const pageData = data.Page;
     if (!pageData) {
-      return NextResponse.json(
-        { error: 'No data returned' },
-        { status: 500 }
-      );
+      return anilistErrorJson('No data returned', 500, 'INVALID_RESPONSE');
     }
 
-    return NextResponse.json({
+    return withCacheStatus(NextResponse.json({
       media: pageData.media || [],
       pageInfo: pageData.pageInfo,
-    });
+    }), [cacheStatus]);
   } catch (error) {
-    console.error('Error searching media:', error);
-    return NextResponse.json(
-      { error: 'Network error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return anilistErrorResponse(error, 'search API');
   }
 }
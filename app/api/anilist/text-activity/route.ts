@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistRequest, anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { invalidateCache, viewerTag } from '@/lib/anilist-cache';
+import { getAccessToken } from '@/lib/anilist-session';
+
+// Same fields as the TextActivity fragment of the activities route, so the
+// new status can be added to the feed as-is
+const SAVE_TEXT_ACTIVITY = `
+  mutation SaveTextActivity($id: Int, $text: String) {
+    SaveTextActivity(id: $id, text: $text) {
+      id
+      userId
+      type
+      replyCount
+      likeCount
+      isLiked
+      createdAt
+      text(asHtml: true)
+      user {
+        id
+        name
+        avatar {
+          large
+          medium
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * API route to post a text activity (status) as the viewer, or edit one of theirs.
+ *
+ * @param request.body.text - Status text (AniList markdown)
+ * @param request.body.id - Existing text activity ID (edit mode)
+ * @returns JSON response with the saved activity
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await getAccessToken(request);
+    if (!accessToken) {
+      return anilistErrorJson('Authentication required', 401, 'UNAUTHORIZED');
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return anilistErrorJson('Invalid request body', 400, 'BAD_REQUEST');
+    }
+
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      return anilistErrorJson('text is required', 400, 'BAD_REQUEST');
+    }
+
+    const variables: Record<string, unknown> = { text };
+    if (body.id !== undefined && body.id !== null) {
+      const id = parseInt(body.id, 10);
+      if (isNaN(id) || id < 1) {
+        return anilistErrorJson('Invalid id', 400, 'BAD_REQUEST');
+      }
+      variables.id = id;
+    }
+
+    const data = await anilistRequest<{ SaveTextActivity?: { id: number; userId: number } }>(
+      SAVE_TEXT_ACTIVITY,
+      variables,
+      { accessToken, context: 'text-activity API' }
+    );
+
+    if (!data.SaveTextActivity) {
+      return anilistErrorJson('No data returned', 500, 'INVALID_RESPONSE');
+    }
+
+    const { id, userId } = data.SaveTextActivity;
+    await invalidateCache([viewerTag(accessToken), `activities:${userId}`, `activity:${id}`]);
+
+    return NextResponse.json(data.SaveTextActivity);
+  } catch (error) {
+    return anilistErrorResponse(error, 'text-activity API');
+  }
+}
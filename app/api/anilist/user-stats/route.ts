@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anilistErrorJson, anilistErrorResponse } from '@/lib/anilist-server';
+import { cachedAnilistRequest, withCacheStatus } from '@/lib/anilist-cache';
+
+// Rows kept for the ranked tables (genres are few enough to keep them all)
+const RANKED_LIMIT = 25;
+
+/**
+ * Everything AniList computes for one media type. Anime and manga share the
+ * same shape; studios and voice actors are empty for manga.
+ */
+const STATISTICS_FRAGMENT = `
+  fragment FullStatistics on UserStatistics {
+    count
+    meanScore
+    standardDeviation
+    minutesWatched
+    episodesWatched
+    chaptersRead
+    volumesRead
+    scores(sort: MEAN_SCORE) {
+      score
+      count
+    }
+    formats(sort: COUNT_DESC) {
+      format
+      count
+    }
+    statuses(sort: COUNT_DESC) {
+      status
+      count
+    }
+    releaseYears(sort: ID) {
+      releaseYear
+      count
+      meanScore
+    }
+    startYears(sort: ID) {
+      startYear
+      count
+      meanScore
+    }
+    genres(sort: COUNT_DESC) {
+      genre
+      count
+      meanScore
+      minutesWatched
+      chaptersRead
+    }
+    tags(sort: COUNT_DESC, limit: $limit) {
+      tag {
+        id
+        name
+      }
+      count
+      meanScore
+      minutesWatched
+      chaptersRead
+    }
+    studios(sort: COUNT_DESC, limit: $limit) {
+      studio {
+        id
+        name
+      }
+      count
+      meanScore
+      minutesWatched
+    }
+    staff(sort: COUNT_DESC, limit: $limit) {
+      staff {
+        id
+        name {
+          userPreferred
+        }
+      }
+      count
+      meanScore
+      minutesWatched
+      chaptersRead
+    }
+    voiceActors(sort: COUNT_DESC, limit: $limit) {
+      voiceActor {
+        id
+        name {
+          userPreferred
+        }
+      }
+      count
+      meanScore
+      minutesWatched
+    }
+  }
+`;
+
+const GET_USER_STATS = `
+  query GetUserStats($username: String!, $limit: Int) {
+    User(search: $username) {
+      id
+      name
+      avatar {
+        large
+        medium
+      }
+      bannerImage
+      siteUrl
+      mediaListOptions {
+        scoreFormat
+      }
+      statistics {
+        anime {
+          ...FullStatistics
+        }
+        manga {
+          ...FullStatistics
+        }
+      }
+    }
+  }
+  ${STATISTICS_FRAGMENT}
+`;
+
+interface RankedRow {
+  count: number;
+  meanScore: number;
+  minutesWatched?: number;
+  chaptersRead?: number;
+}
+
+type RawStatistics = Record<string, unknown> & {
+  tags?: Array<RankedRow & { tag: { id: number; name: string } | null }>;
+  studios?: Array<RankedRow & { studio: { id: number; name: string } | null }>;
+  staff?: Array<RankedRow & { staff: { id: number; name: { userPreferred?: string } } | null }>;
+  voiceActors?: Array<RankedRow & { voiceActor: { id: number; name: { userPreferred?: string } } | null }>;
+};
+
+interface UserStatsResponse {
+  User?: Record<string, unknown> & {
+    statistics?: {
+      anime?: RawStatistics;
+      manga?: RawStatistics;
+    };
+  };
+}
+
+/**
+ * Give tags, studios, staff and voice actors the same `{ id, name, ...}` row
+ * shape so the page can render them with one ranked table.
+ */
+function flattenStatistics(statistics?: RawStatistics) {
+  if (!statistics) return null;
+  const { tags, studios, staff, voiceActors, ...rest } = statistics;
+  const row = ({ count, meanScore, minutesWatched, chaptersRead }: RankedRow) =>
+    ({ count, meanScore, minutesWatched, chaptersRead });
+
+  return {
+    ...rest,
+    tags: (tags || []).flatMap((item) => (item.tag ? [{ id: item.tag.id, name: item.tag.name, ...row(item) }] : [])),
+    studios: (studios || []).flatMap((item) => (item.studio ? [{ id: item.studio.id, name: item.studio.name, ...row(item) }] : [])),
+    staff: (staff || []).flatMap((item) => (item.staff ? [{ id: item.staff.id, name: item.staff.name.userPreferred || '', ...row(item) }] : [])),
+    voiceActors: (voiceActors || []).flatMap((item) => (item.voiceActor ? [{ id: item.voiceActor.id, name: item.voiceActor.name.userPreferred || '', ...row(item) }] : [])),
+  };
+}
+
+/**
+ * API route for a user's full anime and manga statistics (profile page).
+ *
+ * @param request.nextUrl.searchParams.username - The AniList username
+ * @returns JSON response with the user, their score format and `statistics.anime` / `statistics.manga`
+ */
+export async function GET(request: NextRequest) {
+  const username = request.nextUrl.searchParams.get('username');
+
+  if (!username) {
+    return anilistErrorJson('Username is required', 400, 'BAD_REQUEST');
+  }
+
+  try {
+    const { data, cacheStatus } = await cachedAnilistRequest<UserStatsResponse>(
+      GET_USER_STATS,
+      { username: username.trim(), limit: RANKED_LIMIT },
+      { context: 'user-stats API', entity: 'user' }
+    );
+
+    if (!data.User) {
+      return anilistErrorJson('User not found', 404, 'NOT_FOUND');
+    }
+
+    const { statistics, ...user } = data.User;
+    return withCacheStatus(NextResponse.json({
+      ...user,
+      statistics: {
+        anime: flattenStatistics(statistics?.anime),
+        manga: flattenStatistics(statistics?.manga),
+      },
+    }), [cacheStatus]);
+  } catch (error) {
+    return anilistErrorResponse(error, 'user-stats API');
+  }
+}
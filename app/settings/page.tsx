@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { isAccountStorageKey } from '@/lib/anilist-account-storage';
 import styles from './settings.module.css';
 
 // Liste de toutes les clés localStorage utilisées dans l'application
@@ -12,7 +13,6 @@ const STORAGE_KEYS = [
   'anilist_background_image',
   'anilist_background_image_position',
   'anilist_background_image_zoom',
-  'anilist_access_token',
   'anilist_user',
   'anilist_username',
   'anilist_saved_users',
@@ -30,6 +30,18 @@ const STORAGE_KEYS = [
   'toolbox-layout',
 ];
 
+// Clés AniList enregistrées par compte connecté (`clé:userId`)
+const ACCOUNT_STORAGE_KEYS = ['anilist_saved_users', 'anilist_filter_presets'];
+
+const isKnownKey = (key: string) =>
+  STORAGE_KEYS.includes(key) || ACCOUNT_STORAGE_KEYS.some((accountKey) => isAccountStorageKey(key, accountKey));
+
+// Toutes les clés de l'application présentes dans le localStorage
+const getStoredKeys = () =>
+  Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter(
+    (key): key is string => key !== null && isKnownKey(key)
+  );
+
 export default function SettingsPage() {
   const [exportData, setExportData] = useState<string>('');
   const [importData, setImportData] = useState<string>('');
@@ -52,7 +64,7 @@ export default function SettingsPage() {
         if (key) {
           const value = localStorage.getItem(key) || '';
           totalSize += key.length + value.length;
-          if (STORAGE_KEYS.includes(key)) {
+          if (isKnownKey(key)) {
             usedKeys++;
           }
         }
@@ -77,7 +89,7 @@ export default function SettingsPage() {
     const data: Record<string, string | null> = {};
     let hasData = false;
 
-    STORAGE_KEYS.forEach((key) => {
+    getStoredKeys().forEach((key) => {
       const value = localStorage.getItem(key);
       if (value !== null) {
         data[key] = value;
@@ -145,7 +157,7 @@ export default function SettingsPage() {
       // Importer les données
       let importedCount = 0;
       Object.entries(parsed.data).forEach(([key, value]) => {
-        if (STORAGE_KEYS.includes(key) && typeof value === 'string') {
+        if (isKnownKey(key) && typeof value === 'string') {
           localStorage.setItem(key, value);
           importedCount++;
         }
@@ -183,7 +195,7 @@ export default function SettingsPage() {
       return;
     }
 
-    STORAGE_KEYS.forEach((key) => {
+    getStoredKeys().forEach((key) => {
       localStorage.removeItem(key);
     });
 
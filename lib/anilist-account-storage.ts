@@ -0,0 +1,33 @@
+// localStorage entries kept per AniList account
+//
+// Several accounts can be logged in on the same browser (see
+// anilist-session.ts), so data tied to "me" — saved users, filter presets —
+// is stored under `<key>:<userId>`. Logged out, the plain key is used. The
+// first time an account reads a key it gets the plain (pre multi-account)
+// value, so existing data isn't lost when upgrading.
+
+/**
+ * localStorage key of `key` for an account (the plain key when logged out).
+ */
+export function accountStorageKey(key: string, accountId?: number | null): string {
+  return accountId ? `${key}:${accountId}` : key;
+}
+
+/**
+ * Whether a localStorage key is `key` itself or one account's copy of it.
+ */
+export function isAccountStorageKey(storageKey: string, key: string): boolean {
+  return storageKey === key || new RegExp(`^${key}:\\d+$`).test(storageKey);
+}
+
+/**
+ * Read an account's value (null on the server or if never written).
+ */
+export function readAccountItem(key: string, accountId?: number | null): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(accountStorageKey(key, accountId)) ?? localStorage.getItem(key);
+}
+
+export function writeAccountItem(key: string, accountId: number | null | undefined, value: string): void {
+  localStorage.setItem(accountStorageKey(key, accountId), value);
+}
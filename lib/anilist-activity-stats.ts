@@ -0,0 +1,188 @@
+// AniList activity analytics
+//
+// Turns a user's list activities into habits: activities per day (heatmap),
+// streaks, episodes/chapters per week, most active hours and per-title
+// progress timelines (/anilist/user/[name]/activity). Days and hours are in
+// the browser's local time zone.
+
+import type { ActivityStatus } from './anilist';
+
+export interface TitleEvent {
+  createdAt: number; // Unix seconds
+  status: string; // e.g. "watched episode", "completed"
+  progress: number | null; // Last episode/chapter of the activity, when it has one
+}
+
+export interface TitleTimeline {
+  mediaId: number;
+  title: string;
+  type?: string; // ANIME or MANGA
+  coverImage?: string;
+  units: number; // Episodes or chapters logged in the range
+  events: TitleEvent[]; // Oldest first
+}
+
+export interface WeeklyProgress {
+  weekStart: string; // Date key of the week's Sunday
+  episodes: number;
+  chapters: number;
+}
+
+export interface HeatmapCell {
+  dateKey: string;
+  count: number;
+  inRange: boolean; // Padding cells before the start / after the end of the range are false
+}
+
+export interface ActivityAnalytics {
+  totalActivities: number;
+  activeDays: number;
+  days: Record<string, number>; // Date key -> activities that day
+  currentStreak: number;
+  longestStreak: number;
+  weeks: WeeklyProgress[];
+  hours: number[]; // 24 entries, activities per hour of the day
+  titles: TitleTimeline[]; // Most logged first
+}
+
+/**
+ * Local `YYYY-MM-DD` key of a date.
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  return addDays(date, -date.getDay());
+}
+
+/**
+ * Episodes or chapters covered by a list activity: "5" is one, "3 - 5" is three.
+ * Status changes without progress ("completed", "plans to watch"...) count zero.
+ */
+export function getActivityUnits(activity: Pick<ActivityStatus, 'status' | 'progress'>): number {
+  if (!activity.progress || !/^(re)?(watched|read) /.test(activity.status || '')) {
+    return 0;
+  }
+  const numbers = activity.progress.split('-').map((part) => parseInt(part.trim(), 10));
+  if (numbers.some(isNaN)) return 0;
+  return numbers.length === 2 ? Math.max(numbers[1] - numbers[0] + 1, 1) : 1;
+}
+
+function getLastProgress(progress: string | undefined): number | null {
+  if (!progress) return null;
+  const last = parseInt(progress.split('-').pop()!.trim(), 10);
+  return isNaN(last) ? null : last;
+}
+
+// Consecutive active days, walking back from `from`
+function countStreakBack(days: Record<string, number>, from: Date): number {
+  let streak = 0;
+  for (let date = from; days[toDateKey(date)]; date = addDays(date, -1)) {
+    streak++;
+  }
+  return streak;
+}
+
+function computeLongestStreak(days: Record<string, number>): number {
+  let longest = 0;
+  for (const key of Object.keys(days)) {
+    const [year, month, day] = key.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    // Only count from the first day of each run
+    if (days[toDateKey(addDays(date, -1))]) continue;
+    let length = 0;
+    for (let current = date; days[toDateKey(current)]; current = addDays(current, 1)) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+  return longest;
+}
+
+/**
+ * Aggregate list activities. The current streak still counts when today has
+ * no activity yet but yesterday had one.
+ */
+export function buildActivityAnalytics(activities: ActivityStatus[], now: Date = new Date()): ActivityAnalytics {
+  const days: Record<string, number> = {};
+  const weeks = new Map<string, WeeklyProgress>();
+  const hours = new Array<number>(24).fill(0);
+  const titles = new Map<number, TitleTimeline>();
+
+  for (const activity of activities) {
+    const date = new Date(activity.createdAt * 1000);
+    const dateKey = toDateKey(date);
+    days[dateKey] = (days[dateKey] || 0) + 1;
+    hours[date.getHours()]++;
+
+    const units = getActivityUnits(activity);
+    const weekStart = toDateKey(startOfWeek(date));
+    const week = weeks.get(weekStart) || { weekStart, episodes: 0, chapters: 0 };
+    if (activity.media?.type === 'MANGA') {
+      week.chapters += units;
+    } else {
+      week.episodes += units;
+    }
+    weeks.set(weekStart, week);
+
+    if (!activity.media) continue;
+    const timeline = titles.get(activity.media.id) || {
+      mediaId: activity.media.id,
+      title: activity.media.title?.romaji || activity.media.title?.english || 'Untitled',
+      type: activity.media.type,
+      coverImage: activity.media.coverImage?.medium,
+      units: 0,
+      events: [],
+    };
+    timeline.units += units;
+    timeline.events.push({
+      createdAt: activity.createdAt,
+      status: activity.status || '',
+      progress: getLastProgress(activity.progress),
+    });
+    titles.set(activity.media.id, timeline);
+  }
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const currentStreak = days[toDateKey(today)]
+    ? countStreakBack(days, today)
+    : countStreakBack(days, addDays(today, -1));
+
+  return {
+    totalActivities: activities.length,
+    activeDays: Object.keys(days).length,
+    days,
+    currentStreak,
+    longestStreak: computeLongestStreak(days),
+    weeks: Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    hours,
+    titles: Array.from(titles.values())
+      .map((timeline) => ({ ...timeline, events: [...timeline.events].sort((a, b) => a.createdAt - b.createdAt) }))
+      .sort((a, b) => b.units - a.units || b.events.length - a.events.length),
+  };
+}
+
+/**
+ * Heatmap columns (one per week, Sunday first) covering `start` to `end`.
+ */
+export function buildHeatmapWeeks(days: Record<string, number>, start: Date, end: Date): HeatmapCell[][] {
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+  const columns: HeatmapCell[][] = [];
+  for (let weekStart = startOfWeek(start); toDateKey(weekStart) <= endKey; weekStart = addDays(weekStart, 7)) {
+    const column: HeatmapCell[] = [];
+    for (let offset = 0; offset < 7; offset++) {
+      const dateKey = toDateKey(addDays(weekStart, offset));
+      column.push({ dateKey, count: days[dateKey] || 0, inRange: dateKey >= startKey && dateKey <= endKey });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
@@ -0,0 +1,206 @@
+// Server-side cache of AniList GraphQL responses
+//
+// Responses are stored in Postgres through Prisma (or in memory when
+// DATABASE_URL is not set), so every browser and every cold start shares
+// them. Entries are keyed by query + variables (+ viewer when the request is
+// authenticated, since fields like mediaListEntry or isLiked depend on who
+// asks) and expire after a TTL that depends on what they contain.
+//
+// Each entry carries tags naming the entities it contains ("media:1",
+// "list:42"...). Our own mutation routes drop the entries they make stale
+// through invalidateCache(); changes made on AniList directly only show up
+// once the TTL runs out.
+//
+// Deliberately uncached (they call anilistRequest directly):
+// - notifications: the unread count must be fresh, and reading the list with
+//   resetNotificationCount marks everything read
+// - export and mal-import: a backup or a diff has to reflect the list as it
+//   is now, not as it was up to five minutes ago
+// - auth/callback and the mutation routes (follow, likes, replies, list
+//   entries...): they change data instead of reading it
+
+import { createHash } from 'crypto';
+import type { NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { anilistRequest, AniListRequestOptions } from './anilist-server';
+
+export type CacheEntity = 'media' | 'search' | 'user' | 'listEntry' | 'activity' | 'airing';
+
+// How long each kind of response stays fresh
+export const CACHE_TTL_SECONDS: Record<CacheEntity, number> = {
+  media: 24 * 60 * 60, // Titles, descriptions, characters... rarely change
+  search: 60 * 60, // Trending and popularity sorts move during the day
+  user: 60 * 60, // Profiles and statistics (AniList recomputes stats lazily anyway)
+  listEntry: 5 * 60, // Scores and progress of other users
+  activity: 60, // Timelines, likes and replies
+  airing: 60 * 60, // Airing schedules (delays are announced ahead of time)
+};
+
+// Memory store only; Postgres entries are purged by expiry instead
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+const EXPIRED_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Value of the X-Cache header: HIT when every AniList request was served from the cache */
+export type CacheStatus = 'HIT' | 'MISS';
+
+export const CACHE_STATUS_HEADER = 'X-Cache';
+
+export interface CachedRequestOptions extends AniListRequestOptions {
+  entity: CacheEntity;
+  /** Entities contained in the response, e.g. `media:${id}` */
+  tags?: string[];
+}
+
+export interface CachedResult<T> {
+  data: T;
+  cacheStatus: CacheStatus;
+}
+
+interface CacheRecord {
+  value: string;
+  tags: string[];
+  expiresAt: Date;
+}
+
+// Fallback store used when no database is configured (lost on restart)
+const memoryCache = new Map<string, CacheRecord>();
+let memoryWarningShown = false;
+let lastPurgeAt = 0;
+
+function isMemoryStore(): boolean {
+  if (prisma) return false;
+  if (!memoryWarningShown) {
+    console.warn('[cache] ⚠️ DATABASE_URL is not set, AniList responses are cached in memory');
+    memoryWarningShown = true;
+  }
+  return true;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Tag attached to every entry cached for an access token. Mutations made with
+ * that token drop all of them, so the viewer never sees their own change undone.
+ */
+export function viewerTag(accessToken: string): string {
+  return `viewer:${hash(accessToken).slice(0, 16)}`;
+}
+
+function buildCacheKey(query: string, variables: Record<string, unknown> | undefined, accessToken: string | null | undefined): string {
+  return hash(JSON.stringify({ query, variables: variables ?? null, viewer: accessToken ? hash(accessToken) : null }));
+}
+
+async function readCacheRecord(key: string, now: Date): Promise<CacheRecord | null> {
+  if (isMemoryStore()) {
+    const record = memoryCache.get(key);
+    if (!record) return null;
+    if (record.expiresAt <= now) {
+      memoryCache.delete(key);
+      return null;
+    }
+    // Move to the end so the least recently used entries are evicted first
+    memoryCache.delete(key);
+    memoryCache.set(key, record);
+    return record;
+  }
+  const record = await prisma!.aniListCacheEntry.findUnique({ where: { key } });
+  return record && record.expiresAt > now ? record : null;
+}
+
+async function writeCacheRecord(key: string, record: CacheRecord, now: Date) {
+  if (isMemoryStore()) {
+    memoryCache.delete(key);
+    memoryCache.set(key, record);
+    if (memoryCache.size > MEMORY_CACHE_MAX_ENTRIES) {
+      memoryCache.delete(memoryCache.keys().next().value as string);
+    }
+    return;
+  }
+  await prisma!.aniListCacheEntry.upsert({
+    where: { key },
+    create: { key, ...record },
+    update: record,
+  });
+  if (now.getTime() - lastPurgeAt > EXPIRED_PURGE_INTERVAL_MS) {
+    lastPurgeAt = now.getTime();
+    await prisma!.aniListCacheEntry.deleteMany({ where: { expiresAt: { lt: now } } });
+  }
+}
+
+/**
+ * Send a GraphQL query through the cache: fresh entries are returned without
+ * calling AniList, otherwise the query goes through anilistRequest() and the
+ * response is stored for the TTL of `options.entity`.
+ *
+ * Cache failures (e.g. the database being down) are logged and the request is
+ * sent to AniList as if the entry was missing. Errors from AniList are never cached.
+ */
+export async function cachedAnilistRequest<T>(
+  query: string,
+  variables: Record<string, unknown> | undefined,
+  options: CachedRequestOptions
+): Promise<CachedResult<T>> {
+  const context = options.context || 'AniList API';
+  const key = buildCacheKey(query, variables, options.accessToken);
+
+  try {
+    const record = await readCacheRecord(key, new Date());
+    if (record) {
+      return { data: JSON.parse(record.value) as T, cacheStatus: 'HIT' };
+    }
+  } catch (error) {
+    console.error(`[${context}] ⚠️ Cache read failed:`, error);
+  }
+
+  const data = await anilistRequest<T>(query, variables, options);
+
+  const now = new Date();
+  const tags = [...(options.tags || [])];
+  if (options.accessToken) {
+    tags.push(viewerTag(options.accessToken));
+  }
+  try {
+    await writeCacheRecord(key, {
+      value: JSON.stringify(data),
+      tags,
+      expiresAt: new Date(now.getTime() + CACHE_TTL_SECONDS[options.entity] * 1000),
+    }, now);
+  } catch (error) {
+    console.error(`[${context}] ⚠️ Cache write failed:`, error);
+  }
+
+  return { data, cacheStatus: 'MISS' };
+}
+
+/**
+ * Drop every cached entry carrying one of `tags`. Called by the mutation
+ * routes once AniList has accepted the change.
+ */
+export async function invalidateCache(tags: string[]): Promise<void> {
+  if (tags.length === 0) return;
+  try {
+    if (isMemoryStore()) {
+      for (const [key, record] of memoryCache) {
+        if (record.tags.some((tag) => tags.includes(tag))) {
+          memoryCache.delete(key);
+        }
+      }
+      return;
+    }
+    await prisma!.aniListCacheEntry.deleteMany({ where: { tags: { hasSome: tags } } });
+  } catch (error) {
+    console.error('[cache] ⚠️ Invalidation failed:', tags, error);
+  }
+}
+
+/**
+ * Set the X-Cache header of a route response: HIT when every AniList request
+ * behind it was answered from the cache, MISS otherwise.
+ */
+export function withCacheStatus<R extends NextResponse>(response: R, statuses: CacheStatus[]): R {
+  const hit = statuses.length > 0 && statuses.every((status) => status === 'HIT');
+  response.headers.set(CACHE_STATUS_HEADER, hit ? 'HIT' : 'MISS');
+  return response;
+}
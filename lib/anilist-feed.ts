@@ -0,0 +1,193 @@
+// AniList activity feeds
+//
+// Turns a user's activities into RSS 2.0 and Atom documents for feed readers
+// (/api/anilist/feed/[username]). The activity type filter is shared with
+// /api/anilist/activities so both accept the same `type`/`mediaType` values.
+
+import { escapeXml } from './anilist-mal';
+
+export type FeedFormat = 'rss' | 'atom';
+
+/**
+ * Map the `type` / `mediaType` query parameters to an AniList ActivityType.
+ * `mediaType` wins when both are given; null means every activity type.
+ * Status filtering is not supported by AniList and has to be done client-side.
+ */
+export function getActivityTypeFilter(activityType: string | null, mediaType: string | null): string | null {
+  if (mediaType) {
+    // If mediaType is specified, use ANIME_LIST or MANGA_LIST
+    if (mediaType.toLowerCase() === 'anime') return 'ANIME_LIST';
+    if (mediaType.toLowerCase() === 'manga') return 'MANGA_LIST';
+    return null;
+  }
+  if (activityType) {
+    const typeMap: Record<string, string | null> = {
+      'text': 'TEXT',
+      'list': null, // For 'list', we don't filter (get both ANIME_LIST and MANGA_LIST)
+      'message': 'MESSAGE'
+    };
+    return typeMap[activityType.toLowerCase()] || null;
+  }
+  return null;
+}
+
+/**
+ * ActivityTypes of a feed for the `type` / `mediaType` query parameters (null
+ * means every type). The activities page drops text posts of a 'list' filter
+ * client-side; a feed has no such step, so 'list' asks for both list types.
+ */
+export function getFeedActivityTypes(activityType: string | null, mediaType: string | null): string[] | null {
+  if (!mediaType && activityType?.toLowerCase() === 'list') {
+    return ['ANIME_LIST', 'MANGA_LIST'];
+  }
+  const type = getActivityTypeFilter(activityType, mediaType);
+  return type ? [type] : null;
+}
+
+/**
+ * A TextActivity or ListActivity as returned by the feed query.
+ */
+export interface FeedActivity {
+  id: number;
+  type: string;
+  createdAt: number; // Unix timestamp (seconds)
+  text?: string; // HTML (text activities)
+  status?: string; // e.g. "watched episode", "completed" (list activities)
+  progress?: string | null;
+  media?: {
+    id: number;
+    type: string;
+    siteUrl?: string;
+    title: { userPreferred?: string; romaji?: string };
+    coverImage?: { large?: string };
+  };
+}
+
+export interface FeedChannel {
+  userName: string;
+  profileUrl: string; // The user's AniList profile
+  selfUrl: string; // URL of the feed itself
+  avatar?: string;
+}
+
+interface FeedItem {
+  url: string; // Permalink, also used as GUID / Atom id
+  title: string;
+  html: string;
+  createdAt: Date;
+  enclosure?: { url: string; type: string };
+}
+
+const TITLE_MAX_LENGTH = 80;
+
+const ACTIVITY_URL = 'https://anilist.co/activity';
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const imageType = (url: string) => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension === 'png') return 'image/png';
+  if (extension === 'gif') return 'image/gif';
+  if (extension === 'webp') return 'image/webp';
+  return 'image/jpeg';
+};
+
+function toFeedItem(activity: FeedActivity, userName: string): FeedItem {
+  const url = `${ACTIVITY_URL}/${activity.id}`;
+  const createdAt = new Date(activity.createdAt * 1000);
+
+  if (activity.media) {
+    const mediaTitle = activity.media.title.userPreferred || activity.media.title.romaji || 'Unknown title';
+    const mediaUrl = activity.media.siteUrl || `https://anilist.co/${activity.media.type.toLowerCase()}/${activity.media.id}`;
+    const action = activity.progress ? `${activity.status} ${activity.progress} of` : activity.status;
+    const cover = activity.media.coverImage?.large;
+    return {
+      url,
+      title: `${userName} ${action} ${mediaTitle}`,
+      html: `<p>${escapeXml(userName)} ${escapeXml(action || '')} <a href="${escapeXml(mediaUrl)}">${escapeXml(mediaTitle)}</a></p>`
+        + (cover ? `<p><img src="${escapeXml(cover)}" alt="" /></p>` : ''),
+      createdAt,
+      enclosure: cover ? { url: cover, type: imageType(cover) } : undefined,
+    };
+  }
+
+  const text = stripHtml(activity.text || '');
+  return {
+    url,
+    title: text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text || `${userName} posted a status`,
+    html: activity.text || '',
+    createdAt,
+  };
+}
+
+/**
+ * RSS 2.0 feed of a user's activities (most recent first).
+ */
+export function buildRssFeed(channel: FeedChannel, activities: FeedActivity[]): string {
+  const items = activities.map((activity) => toFeedItem(activity, channel.userName));
+  const lastBuildDate = items[0]?.createdAt || new Date(0);
+
+  const itemsXml = items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+    `      <pubDate>${item.createdAt.toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(item.html)}</description>`,
+    item.enclosure ? `      <enclosure url="${escapeXml(item.enclosure.url)}" length="0" type="${item.enclosure.type}" />` : null,
+    '    </item>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.userName)}'s AniList activity</title>`,
+    `    <link>${escapeXml(channel.profileUrl)}</link>`,
+    `    <description>Recent AniList activity of ${escapeXml(channel.userName)}</description>`,
+    `    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`,
+    channel.avatar
+      ? `    <image>\n      <url>${escapeXml(channel.avatar)}</url>\n      <title>${escapeXml(channel.userName)}'s AniList activity</title>\n      <link>${escapeXml(channel.profileUrl)}</link>\n    </image>`
+      : null,
+    ...itemsXml,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].filter((line) => line !== null).join('\n');
+}
+
+/**
+ * Atom feed of a user's activities (most recent first).
+ */
+export function buildAtomFeed(channel: FeedChannel, activities: FeedActivity[]): string {
+  const items = activities.map((activity) => toFeedItem(activity, channel.userName));
+  const updated = items[0]?.createdAt || new Date(0);
+
+  const entriesXml = items.map((item) => [
+    '  <entry>',
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+    item.enclosure ? `    <link rel="enclosure" type="${item.enclosure.type}" href="${escapeXml(item.enclosure.url)}" />` : null,
+    `    <updated>${item.createdAt.toISOString()}</updated>`,
+    `    <published>${item.createdAt.toISOString()}</published>`,
+    `    <content type="html">${escapeXml(item.html)}</content>`,
+    '  </entry>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(channel.profileUrl)}</id>`,
+    `  <title>${escapeXml(channel.userName)}'s AniList activity</title>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(channel.profileUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}" />`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <author>\n    <name>${escapeXml(channel.userName)}</name>\n    <uri>${escapeXml(channel.profileUrl)}</uri>\n  </author>`,
+    channel.avatar ? `  <icon>${escapeXml(channel.avatar)}</icon>` : null,
+    ...entriesXml,
+    '</feed>',
+    '',
+  ].filter((line) => line !== null).join('\n');
+}
@@ -0,0 +1,203 @@
+// AniList activity HTML
+//
+// Activities and replies come from AniList as HTML (`text(asHtml: true)`),
+// written by any AniList user. Before it is injected in the page, it goes
+// through an allow-list: unknown tags are dropped (their text is kept), only
+// a few attributes survive and URLs must be http(s). AniList-specific markup
+// is rewritten on the way:
+// - spoilers become click-to-reveal spans
+// - image widths (img220(...), img50%(...)) are kept as size hints
+// - YouTube and webm videos become click-to-load placeholders
+// - anilist.co media/user links point to the in-app pages
+//
+// The output is meant for ActivityHtml (app/anilist/home), which handles the
+// clicks on spoilers, placeholders and in-app links.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'div', 'center', 'span',
+  'h1', 'h2', 'h3', 'h4', 'h5',
+  'strong', 'b', 'em', 'i', 'u', 'del', 's', 'strike',
+  'code', 'pre', 'blockquote', 'ul', 'ol', 'li',
+  'a', 'img',
+]);
+
+// Tags whose content must not be shown either
+const DROPPED_WITH_CONTENT = ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'select', 'svg', 'math', 'video', 'audio'];
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Stand-in for a stashed embed (see extractEmbeds)
+const EMBED_PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+export type EmbedKind = 'youtube' | 'webm';
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Attribute values as written by AniList may contain entities (&amp; in URLs)
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeAttribute(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function safeUrl(url: string | undefined): string | null {
+  const trimmed = url?.trim();
+  return trimmed && /^https?:\/\//i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * In-app route for an anilist.co URL (media and user pages), or null.
+ */
+export function toInAppRoute(url: string): string | null {
+  const media = url.match(/^https?:\/\/(?:www\.)?anilist\.co\/(?:anime|manga)\/(\d+)(?:[/?#]|$)/i);
+  if (media) return `/anilist/media/${media[1]}`;
+  const user = url.match(/^https?:\/\/(?:www\.)?anilist\.co\/user\/([^/?#]+)\/?(?:[?#]|$)/i);
+  if (user) return `/anilist/user/${user[1]}`;
+  return null;
+}
+
+// Size hint: pixels become width/height attributes, percentages a width style
+function sizeAttributes(attributes: Record<string, string>): string {
+  let result = '';
+  for (const name of ['width', 'height']) {
+    const value = attributes[name]?.trim();
+    if (!value) continue;
+    if (/^\d{1,4}$/.test(value)) {
+      result += ` ${name}="${value}"`;
+    } else if (name === 'width' && /^\d{1,3}%$/.test(value)) {
+      result += ` style="width: ${value}"`;
+    }
+  }
+  return result;
+}
+
+function renderOpenTag(tag: string, attributes: Record<string, string>): string | null {
+  switch (tag) {
+    case 'a': {
+      const href = safeUrl(attributes.href);
+      if (!href) return '<a>';
+      const route = toInAppRoute(href);
+      if (route) {
+        return `<a href="${escapeAttribute(route)}" data-internal="true">`;
+      }
+      return `<a href="${escapeAttribute(href)}" target="_blank" rel="noopener noreferrer">`;
+    }
+    case 'img': {
+      const src = safeUrl(attributes.src);
+      if (!src) return null;
+      return `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(attributes.alt || '')}"${sizeAttributes(attributes)} loading="lazy">`;
+    }
+    case 'span':
+      if (/\bmarkdown_spoiler\b/.test(attributes.class || '')) {
+        return '<span class="markdown_spoiler" role="button" tabindex="0" title="Spoiler, click to reveal">';
+      }
+      return '<span>';
+    case 'ol': {
+      const start = attributes.start?.match(/^\d{1,5}$/);
+      return start ? `<ol start="${start[0]}">` : '<ol>';
+    }
+    default:
+      return `<${tag}>`;
+  }
+}
+
+function renderEmbedPlaceholder(kind: EmbedKind, source: string): string {
+  const label = kind === 'youtube' ? '▶ Load YouTube video' : '▶ Load video';
+  return `<span class="anilist_embed" data-embed="${kind}" data-source="${escapeAttribute(source)}" role="button" tabindex="0">${label}</span>`;
+}
+
+/**
+ * Replace AniList's video markup with placeholders before sanitizing.
+ * Placeholders are stashed and swapped back in afterwards, so the sanitizer
+ * never sees (or has to allow) their attributes. Only placeholders in text
+ * are swapped back: one inside an attribute value is dropped.
+ */
+function extractEmbeds(html: string, embeds: string[]): string {
+  const stash = (kind: EmbedKind, source: string) => {
+    embeds.push(renderEmbedPlaceholder(kind, source));
+    return `\u0000${embeds.length - 1}\u0000`;
+  };
+
+  return html
+    // youtube(id or url) -> <span class='youtube' id='VIDEO_ID'></span>
+    .replace(/<span[^>]*class=["']youtube["'][^>]*>[\s\S]*?<\/span>/gi, (match) => {
+      const id = parseAttributes(match.slice(5, match.indexOf('>'))).id;
+      return id && YOUTUBE_ID.test(id) ? stash('youtube', id) : '';
+    })
+    .replace(/<iframe[^>]*>[\s\S]*?<\/iframe>/gi, (match) => {
+      const src = parseAttributes(match.slice(7, match.indexOf('>'))).src || '';
+      const id = src.match(/youtube(?:-nocookie)?\.com\/embed\/([\w-]{11})/)?.[1];
+      return id ? stash('youtube', id) : '';
+    })
+    // webm(url) -> <video ...><source src='URL' type='video/webm'></video>
+    .replace(/<video[^>]*>[\s\S]*?<\/video>/gi, (match) => {
+      const source = match.match(/<source[^>]*>/i)?.[0];
+      const src = safeUrl(source ? parseAttributes(source.slice(7, -1)).src : parseAttributes(match.slice(6, match.indexOf('>'))).src);
+      return src ? stash('webm', src) : '';
+    });
+}
+
+/**
+ * Sanitize AniList activity/reply HTML.
+ *
+ * @param html - `text(asHtml: true)` output (or a message body)
+ * @returns HTML safe to pass to dangerouslySetInnerHTML
+ */
+export function sanitizeActivityHtml(html: string): string {
+  const embeds: string[] = [];
+  let source = extractEmbeds(html.replace(/\u0000/g, ''), embeds)
+    .replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of DROPPED_WITH_CONTENT) {
+    source = source.replace(new RegExp(`<${tag}\\b[\\s\\S]*?(?:<\\/${tag}\\s*>|$)`, 'gi'), '');
+  }
+
+  // Text between tags: stray angle brackets can't open anything
+  const renderText = (text: string) => text
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(EMBED_PLACEHOLDER, (_match, index: string) => embeds[Number(index)] || '');
+
+  let output = '';
+  let lastIndex = 0;
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source)) !== null) {
+    output += renderText(source.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const [, closing, rawTag, rawAttributes] = match;
+    const tag = rawTag.toLowerCase();
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (closing) {
+      if (!VOID_TAGS.has(tag)) output += `</${tag}>`;
+      continue;
+    }
+    const openTag = renderOpenTag(tag, parseAttributes(rawAttributes.replace(EMBED_PLACEHOLDER, '')));
+    if (openTag) output += openTag;
+  }
+  output += renderText(source.slice(lastIndex));
+
+  return output;
+}
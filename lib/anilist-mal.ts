@@ -0,0 +1,381 @@
+// MyAnimeList list format
+//
+// Conversion between AniList list entries and MyAnimeList's XML export format
+// (the one produced by MAL's "Export" page and accepted by its "Import" page),
+// plus a flat CSV.
+
+export type ListMediaType = 'ANIME' | 'MANGA';
+
+export type AniListStatus = 'CURRENT' | 'PLANNING' | 'COMPLETED' | 'DROPPED' | 'PAUSED' | 'REPEATING';
+
+/**
+ * One list entry with everything needed by the MAL export.
+ * `score` is on 0-100 (0 = not scored).
+ */
+export interface ExportListEntry {
+  mediaId: number;
+  idMal: number | null;
+  type: ListMediaType;
+  title: string;
+  format?: string;
+  status: AniListStatus;
+  score: number;
+  progress: number;
+  progressVolumes: number;
+  repeat: number;
+  startedAt: string | null; // YYYY-MM-DD, parts may be 00 when unknown
+  completedAt: string | null;
+  notes: string | null;
+  totalEpisodes: number | null; // Episodes for anime, chapters for manga
+  totalVolumes: number | null;
+}
+
+const MAL_STATUS_LABELS: Record<ListMediaType, Record<AniListStatus, string>> = {
+  ANIME: {
+    CURRENT: 'Watching',
+    REPEATING: 'Watching', // Plus <my_rewatching>1</my_rewatching>
+    COMPLETED: 'Completed',
+    PAUSED: 'On-Hold',
+    DROPPED: 'Dropped',
+    PLANNING: 'Plan to Watch',
+  },
+  MANGA: {
+    CURRENT: 'Reading',
+    REPEATING: 'Reading',
+    COMPLETED: 'Completed',
+    PAUSED: 'On-Hold',
+    DROPPED: 'Dropped',
+    PLANNING: 'Plan to Read',
+  },
+};
+
+/**
+ * MAL status label for an AniList status.
+ */
+export function toMalStatus(status: AniListStatus, type: ListMediaType): string {
+  return MAL_STATUS_LABELS[type][status];
+}
+
+/**
+ * AniList status for a MAL status label (or its numeric code), null if unknown.
+ * MAL has no "repeating" status, only a rewatching/rereading flag.
+ */
+export function fromMalStatus(status: string, rewatching = false): AniListStatus | null {
+  switch (status.trim().toLowerCase()) {
+    case 'watching':
+    case 'reading':
+    case '1':
+      return rewatching ? 'REPEATING' : 'CURRENT';
+    case 'completed':
+    case '2':
+      return rewatching ? 'REPEATING' : 'COMPLETED';
+    case 'on-hold':
+    case '3':
+      return 'PAUSED';
+    case 'dropped':
+    case '4':
+      return 'DROPPED';
+    case 'plan to watch':
+    case 'plan to read':
+    case '6':
+      return 'PLANNING';
+    default:
+      return null;
+  }
+}
+
+// AniList MediaFormat -> MAL type name. TV_SHORT has no MAL equivalent and
+// counts as TV there.
+const MAL_SERIES_TYPES: Record<string, string> = {
+  TV: 'TV',
+  TV_SHORT: 'TV',
+  MOVIE: 'Movie',
+  SPECIAL: 'Special',
+  OVA: 'OVA',
+  ONA: 'ONA',
+  MUSIC: 'Music',
+  MANGA: 'Manga',
+  ONE_SHOT: 'One-shot',
+  NOVEL: 'Novel',
+};
+
+/**
+ * MAL type name for an AniList format ("Unknown" when missing or unmapped).
+ */
+export function toMalSeriesType(format: string | null | undefined): string {
+  return (format && MAL_SERIES_TYPES[format]) || 'Unknown';
+}
+
+/**
+ * 0-100 score to MAL's 10-point scale (0 stays 0, any score rounds to at least 1).
+ */
+export function toMalScore(score: number): number {
+  if (!score) return 0;
+  return Math.min(Math.max(Math.round(score / 10), 1), 10);
+}
+
+/**
+ * AniList FuzzyDate to YYYY-MM-DD, with 00 for unknown parts (null if no year).
+ */
+export function formatFuzzyDate(date?: { year?: number | null; month?: number | null; day?: number | null } | null): string | null {
+  if (!date?.year) return null;
+  const pad = (value?: number | null) => String(value || 0).padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Inverse of formatFuzzyDate; "00" month/day parts become null.
+ */
+export function parseFuzzyDate(value: string | null | undefined): { year: number; month: number | null; day: number | null } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match || match[1] === '0000') return null;
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10) || null,
+    day: parseInt(match[3], 10) || null,
+  };
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Text that may contain anything (titles, notes); "]]>" can't appear inside CDATA
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * Build a MAL XML export for one media type. Entries without a MAL ID can't
+ * be imported by MAL and are left out (see the return value).
+ */
+export function buildMalXml(
+  type: ListMediaType,
+  userName: string,
+  entries: ExportListEntry[]
+): { xml: string; skipped: ExportListEntry[] } {
+  const exportable = entries.filter((entry) => entry.type === type && entry.idMal);
+  const skipped = entries.filter((entry) => entry.type === type && !entry.idMal);
+  const isAnime = type === 'ANIME';
+  const tag = isAnime ? 'anime' : 'manga';
+  const count = (status: AniListStatus) => exportable.filter((entry) => entry.status === status).length;
+
+  const items = exportable.map((entry) => {
+    const fields = isAnime
+      ? [
+          `<series_animedb_id>${entry.idMal}</series_animedb_id>`,
+          `<series_title>${cdata(entry.title)}</series_title>`,
+          `<series_type>${toMalSeriesType(entry.format)}</series_type>`,
+          `<series_episodes>${entry.totalEpisodes || 0}</series_episodes>`,
+          `<my_watched_episodes>${entry.progress}</my_watched_episodes>`,
+        ]
+      : [
+          `<manga_mangadb_id>${entry.idMal}</manga_mangadb_id>`,
+          `<manga_title>${cdata(entry.title)}</manga_title>`,
+          `<manga_volumes>${entry.totalVolumes || 0}</manga_volumes>`,
+          `<manga_chapters>${entry.totalEpisodes || 0}</manga_chapters>`,
+          `<my_read_volumes>${entry.progressVolumes}</my_read_volumes>`,
+          `<my_read_chapters>${entry.progress}</my_read_chapters>`,
+        ];
+
+    fields.push(
+      `<my_start_date>${entry.startedAt || '0000-00-00'}</my_start_date>`,
+      `<my_finish_date>${entry.completedAt || '0000-00-00'}</my_finish_date>`,
+      `<my_score>${toMalScore(entry.score)}</my_score>`,
+      `<my_status>${toMalStatus(entry.status, type)}</my_status>`,
+      `<my_comments>${cdata(entry.notes || '')}</my_comments>`,
+      isAnime
+        ? `<my_times_watched>${entry.repeat}</my_times_watched>`
+        : `<my_times_read>${entry.repeat}</my_times_read>`,
+      isAnime
+        ? `<my_rewatching>${entry.status === 'REPEATING' ? 1 : 0}</my_rewatching>`
+        : `<my_rereading>${entry.status === 'REPEATING' ? 1 : 0}</my_rereading>`,
+      // Let MAL overwrite existing entries on import
+      '<update_on_import>1</update_on_import>'
+    );
+
+    return `  <${tag}>\n${fields.map((field) => `    ${field}`).join('\n')}\n  </${tag}>`;
+  });
+
+  const prefix = isAnime ? 'watching' : 'reading';
+  const planning = isAnime ? 'plantowatch' : 'plantoread';
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    '<myanimelist>',
+    '  <myinfo>',
+    `    <user_name>${escapeXml(userName)}</user_name>`,
+    `    <user_export_type>${isAnime ? 1 : 2}</user_export_type>`,
+    `    <user_total_${tag}>${exportable.length}</user_total_${tag}>`,
+    `    <user_total_${prefix}>${count('CURRENT') + count('REPEATING')}</user_total_${prefix}>`,
+    `    <user_total_completed>${count('COMPLETED')}</user_total_completed>`,
+    `    <user_total_onhold>${count('PAUSED')}</user_total_onhold>`,
+    `    <user_total_dropped>${count('DROPPED')}</user_total_dropped>`,
+    `    <user_total_${planning}>${count('PLANNING')}</user_total_${planning}>`,
+    '  </myinfo>',
+    ...items,
+    '</myanimelist>',
+    '',
+  ].join('\n');
+
+  return { xml, skipped };
+}
+
+/**
+ * One entry of a MAL XML export. `score` is converted to 0-100.
+ */
+export interface MalListEntry {
+  idMal: number;
+  title: string;
+  status: AniListStatus;
+  score: number;
+  progress: number;
+  progressVolumes: number;
+  repeat: number;
+  startedAt: string | null; // YYYY-MM-DD
+  completedAt: string | null;
+}
+
+function decodeXml(value: string): string {
+  // Long texts may be split over several CDATA sections (see `cdata`)
+  if (value.includes('<![CDATA[')) {
+    return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim();
+  }
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : '';
+}
+
+const readNumber = (xml: string, tag: string) => parseInt(readTag(xml, tag), 10) || 0;
+
+// MAL writes 0000-00-00 for unknown dates
+const readDate = (xml: string, tag: string) => {
+  const value = readTag(xml, tag);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !value.startsWith('0000') ? value : null;
+};
+
+/**
+ * Parse a MAL XML export (anime or manga). Entries with an unknown status
+ * are ignored.
+ *
+ * @throws Error if the file isn't a MAL list export
+ */
+export function parseMalXml(xml: string): { type: ListMediaType; userName: string; entries: MalListEntry[] } {
+  if (!/<myanimelist>/.test(xml)) {
+    throw new Error('Not a MyAnimeList export (missing <myanimelist>)');
+  }
+
+  const exportType = readTag(xml, 'user_export_type');
+  const type: ListMediaType = exportType === '2' || (!exportType && /<manga>/.test(xml)) ? 'MANGA' : 'ANIME';
+  const isAnime = type === 'ANIME';
+  const tag = isAnime ? 'anime' : 'manga';
+
+  const entries: MalListEntry[] = [];
+  for (const match of xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))) {
+    const item = match[1];
+    const idMal = readNumber(item, isAnime ? 'series_animedb_id' : 'manga_mangadb_id');
+    const rewatching = readTag(item, isAnime ? 'my_rewatching' : 'my_rereading') === '1';
+    const status = fromMalStatus(readTag(item, 'my_status'), rewatching);
+    if (!idMal || !status) continue;
+
+    entries.push({
+      idMal,
+      title: readTag(item, isAnime ? 'series_title' : 'manga_title'),
+      status,
+      score: readNumber(item, 'my_score') * 10,
+      progress: readNumber(item, isAnime ? 'my_watched_episodes' : 'my_read_chapters'),
+      progressVolumes: isAnime ? 0 : readNumber(item, 'my_read_volumes'),
+      repeat: readNumber(item, isAnime ? 'my_times_watched' : 'my_times_read'),
+      startedAt: readDate(item, 'my_start_date'),
+      completedAt: readDate(item, 'my_finish_date'),
+    });
+  }
+
+  return { type, userName: readTag(xml, 'user_name'), entries };
+}
+
+/**
+ * The list fields compared and applied by the MAL import. `score` is on 0-100.
+ */
+export interface ListState {
+  status: AniListStatus;
+  score: number;
+  progress: number;
+  progressVolumes: number;
+  repeat: number;
+}
+
+export type MalState = ListState & { startedAt: string | null; completedAt: string | null };
+
+/**
+ * A MAL entry to write to the viewer's AniList list (/api/anilist/media-list-entries).
+ */
+export type MalApplyEntry = MalState & { mediaId: number };
+
+/**
+ * Result of comparing a MAL export with an AniList list (/api/anilist/mal-import).
+ */
+export interface MalImportDiff {
+  type: ListMediaType;
+  userName: string;
+  isViewer: boolean; // Compared with the logged-in user's own list, so differences can be applied
+  onlyInMal: Array<{ mediaId: number; idMal: number; title: string; coverImage?: string; mal: MalState }>;
+  onlyInAniList: Array<{ mediaId: number; idMal: number | null; title: string; coverImage?: string; anilist: ListState }>;
+  differing: Array<{
+    mediaId: number;
+    idMal: number;
+    title: string;
+    coverImage?: string;
+    mal: MalState;
+    anilist: ListState;
+    differences: Array<'status' | 'score' | 'progress'>;
+  }>;
+  unmapped: Array<{ idMal: number; title: string }>; // MAL titles with no AniList equivalent
+}
+
+const CSV_COLUMNS: { header: string; value: (entry: ExportListEntry) => string | number | null }[] = [
+  { header: 'type', value: (entry) => entry.type },
+  { header: 'anilist_id', value: (entry) => entry.mediaId },
+  { header: 'mal_id', value: (entry) => entry.idMal },
+  { header: 'title', value: (entry) => entry.title },
+  { header: 'format', value: (entry) => entry.format || '' },
+  { header: 'status', value: (entry) => entry.status },
+  { header: 'score_100', value: (entry) => entry.score },
+  { header: 'score_10', value: (entry) => toMalScore(entry.score) },
+  { header: 'progress', value: (entry) => entry.progress },
+  { header: 'progress_volumes', value: (entry) => entry.progressVolumes },
+  { header: 'total', value: (entry) => entry.totalEpisodes },
+  { header: 'repeat', value: (entry) => entry.repeat },
+  { header: 'started_at', value: (entry) => entry.startedAt },
+  { header: 'completed_at', value: (entry) => entry.completedAt },
+  { header: 'notes', value: (entry) => entry.notes },
+];
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flat CSV of all entries (one row per entry, header row first).
+ */
+export function buildListCsv(entries: ExportListEntry[]): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header).join(','),
+    ...entries.map((entry) => CSV_COLUMNS.map((column) => escapeCsv(column.value(entry))).join(',')),
+  ];
+  return rows.join('\r\n') + '\r\n';
+}
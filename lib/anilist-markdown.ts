@@ -0,0 +1,87 @@
+// AniList markdown preview
+//
+// Renders the subset of AniList's markdown flavour people actually use in
+// activities and replies, so the composer can show a preview before posting.
+// AniList renders the real HTML once the text is saved; this is only meant to
+// be close enough. The input is HTML-escaped first, so the output only
+// contains the tags generated here.
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) URLs are turned into links/images
+function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : null;
+}
+
+function renderInline(text: string): string {
+  return text
+    // Images: img(url), img220(url) or img50%(url)
+    .replace(/img(\d+%?)?\(([^)\s]+)\)/gi, (match, width: string | undefined, url: string) => {
+      const src = safeUrl(url);
+      if (!src) return match;
+      return `<img src="${src}" alt=""${width ? ` width="${width}"` : ''}>`;
+    })
+    // Videos are not embedded in the preview
+    .replace(/(youtube|webm)\(([^)\s]+)\)/gi, (_match, kind: string, source: string) => `[${kind.toLowerCase()}: ${source}]`)
+    // Links: [text](url)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => {
+      const href = safeUrl(url);
+      if (!href) return match;
+      return `<a href="${href}" target="_blank" rel="noopener noreferrer">${label}</a>`;
+    })
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/~!([\s\S]+?)!~/g, '<span class="markdown_spoiler"><span>$1</span></span>')
+    // Underscores inside words (URLs, names) are not emphasis
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(.+?)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(.+?)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+}
+
+/**
+ * Convert AniList markdown to HTML for previews.
+ *
+ * @param markdown - Raw text as typed in the composer
+ * @returns HTML safe to pass to dangerouslySetInnerHTML
+ */
+export function renderAniListMarkdown(markdown: string): string {
+  const escaped = escapeHtml(markdown.replace(/\r\n/g, '\n'));
+
+  // Centered blocks (~~~text~~~) can span several lines
+  const centered = escaped.replace(/~~~([\s\S]+?)~~~/g, (_match, content: string) =>
+    `<center>${content.trim()}</center>`
+  );
+
+  const html = centered.split('\n').map((line) => {
+    const heading = line.match(/^(#{1,5})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      return `<h${level}>${renderInline(heading[2])}</h${level}>`;
+    }
+    if (/^\s*(-{3,}|\*{3,})\s*$/.test(line)) {
+      return '<hr>';
+    }
+    const quote = line.match(/^&gt;\s?(.*)$/);
+    if (quote) {
+      return `<blockquote>${renderInline(quote[1])}</blockquote>`;
+    }
+    return renderInline(line);
+  });
+
+  // Block elements already break the line
+  return html
+    .map((line, index) => {
+      const isLast = index === html.length - 1;
+      return isLast || /<\/(h\d|blockquote)>$|^<hr>$/.test(line) ? line : `${line}<br>`;
+    })
+    .join('');
+}
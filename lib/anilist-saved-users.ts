@@ -0,0 +1,71 @@
+// Recently viewed AniList users ("Recent Users" on the home page)
+//
+// Stored in localStorage, most recent first, per logged-in account (see
+// anilist-account-storage.ts). Shared by the home page and the user profile
+// page so both shortcuts list the same users.
+
+import { readAccountItem, writeAccountItem } from './anilist-account-storage';
+
+export const SAVED_USERS_KEY = 'anilist_saved_users';
+
+// Oldest users are dropped past this count
+const MAX_SAVED_USERS = 10;
+
+export interface SavedUser {
+  username: string;
+  id: number;
+  name: string;
+  avatar?: string;
+  lastSearched: number; // timestamp
+}
+
+/**
+ * Read an account's saved users from localStorage ([] on the server or if unreadable).
+ */
+export function readSavedUsers(accountId?: number | null): SavedUser[] {
+  const savedUsersData = readAccountItem(SAVED_USERS_KEY, accountId);
+  if (!savedUsersData) return [];
+
+  try {
+    const users = JSON.parse(savedUsersData);
+    return Array.isArray(users) ? users : [];
+  } catch (e) {
+    console.error('Error parsing saved users:', e);
+    return [];
+  }
+}
+
+export function writeSavedUsers(users: SavedUser[], accountId?: number | null): void {
+  writeAccountItem(SAVED_USERS_KEY, accountId, JSON.stringify(users));
+}
+
+/**
+ * Move (or add) a user to the top of the list and persist it.
+ */
+export function addSavedUser(
+  users: SavedUser[],
+  user: { id: number; name: string; avatar?: { large?: string; medium?: string } },
+  username: string,
+  accountId?: number | null
+): SavedUser[] {
+  const savedUser: SavedUser = {
+    username: username.toLowerCase(),
+    id: user.id,
+    name: user.name,
+    avatar: user.avatar?.medium || user.avatar?.large,
+    lastSearched: Date.now()
+  };
+
+  const updated = [savedUser, ...users.filter(u => u.id !== user.id)].slice(0, MAX_SAVED_USERS);
+  writeSavedUsers(updated, accountId);
+  return updated;
+}
+
+/**
+ * Remove a user from the list and persist it.
+ */
+export function removeSavedUserById(users: SavedUser[], userId: number, accountId?: number | null): SavedUser[] {
+  const updated = users.filter(u => u.id !== userId);
+  writeSavedUsers(updated, accountId);
+  return updated;
+}
@@ -0,0 +1,145 @@
+// AniList media search filters
+//
+// The same query-string format is used by the /anilist/search page URL (so
+// searches can be bookmarked) and by /api/anilist/search, which turns it into
+// AniList `Page.media` arguments. Lists are comma-separated.
+
+export const MEDIA_GENRES = [
+  'Action', 'Adventure', 'Comedy', 'Drama', 'Ecchi', 'Fantasy', 'Hentai', 'Horror', 'Mahou Shoujo', 'Mecha',
+  'Music', 'Mystery', 'Psychological', 'Romance', 'Sci-Fi', 'Slice of Life', 'Sports', 'Supernatural', 'Thriller',
+];
+
+export const MEDIA_SEASONS = ['WINTER', 'SPRING', 'SUMMER', 'FALL'] as const;
+
+export const MEDIA_FORMATS = ['TV', 'TV_SHORT', 'MOVIE', 'SPECIAL', 'OVA', 'ONA', 'MUSIC', 'MANGA', 'NOVEL', 'ONE_SHOT'] as const;
+
+export const MEDIA_STATUSES = ['FINISHED', 'RELEASING', 'NOT_YET_RELEASED', 'CANCELLED', 'HIATUS'] as const;
+
+export const MEDIA_SORTS = ['POPULARITY_DESC', 'SCORE_DESC', 'TRENDING_DESC', 'START_DATE_DESC'] as const;
+
+export type MediaSeason = typeof MEDIA_SEASONS[number];
+export type MediaFormat = typeof MEDIA_FORMATS[number];
+export type MediaReleaseStatus = typeof MEDIA_STATUSES[number];
+export type MediaSort = typeof MEDIA_SORTS[number];
+
+export interface MediaSearchFilters {
+  genres?: string[];
+  excludeGenres?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+  season?: MediaSeason;
+  seasonYear?: number;
+  format?: MediaFormat;
+  status?: MediaReleaseStatus;
+  scoreMin?: number; // 0-100, inclusive
+  scoreMax?: number;
+  episodesMin?: number; // Inclusive
+  episodesMax?: number;
+  includeAdult?: boolean; // Adult entries are hidden unless this is set
+  sort?: MediaSort; // Defaults to best match with a query, popularity without
+}
+
+// Both URLSearchParams and Next's ReadonlyURLSearchParams
+interface QueryParams {
+  get(name: string): string | null;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const number = parseInt(value, 10);
+  return isNaN(number) ? undefined : number;
+}
+
+function parseEnum<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  const upper = value?.toUpperCase();
+  return allowed.find((item) => item === upper);
+}
+
+/**
+ * Read filters from query params. Unknown or invalid values are ignored.
+ */
+export function parseSearchFilters(params: QueryParams): MediaSearchFilters {
+  const filters: MediaSearchFilters = {
+    genres: parseList(params.get('genres')),
+    excludeGenres: parseList(params.get('excludeGenres')),
+    tags: parseList(params.get('tags')),
+    excludeTags: parseList(params.get('excludeTags')),
+    season: parseEnum(params.get('season'), MEDIA_SEASONS),
+    seasonYear: parseNumber(params.get('year')),
+    format: parseEnum(params.get('format'), MEDIA_FORMATS),
+    status: parseEnum(params.get('status'), MEDIA_STATUSES),
+    scoreMin: parseNumber(params.get('scoreMin')),
+    scoreMax: parseNumber(params.get('scoreMax')),
+    episodesMin: parseNumber(params.get('episodesMin')),
+    episodesMax: parseNumber(params.get('episodesMax')),
+    includeAdult: params.get('adult') === 'true' || undefined,
+    sort: parseEnum(params.get('sort'), MEDIA_SORTS),
+  };
+
+  // Drop unset keys so filter objects can be compared and checked for emptiness
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as MediaSearchFilters;
+}
+
+/**
+ * Write filters as query params (the inverse of parseSearchFilters).
+ */
+export function appendSearchFilters(params: URLSearchParams, filters: MediaSearchFilters): URLSearchParams {
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  };
+
+  set('genres', filters.genres?.join(','));
+  set('excludeGenres', filters.excludeGenres?.join(','));
+  set('tags', filters.tags?.join(','));
+  set('excludeTags', filters.excludeTags?.join(','));
+  set('season', filters.season);
+  set('year', filters.seasonYear);
+  set('format', filters.format);
+  set('status', filters.status);
+  set('scoreMin', filters.scoreMin);
+  set('scoreMax', filters.scoreMax);
+  set('episodesMin', filters.episodesMin);
+  set('episodesMax', filters.episodesMax);
+  if (filters.includeAdult) params.set('adult', 'true');
+  set('sort', filters.sort);
+  return params;
+}
+
+/**
+ * True when at least one filter narrows the results, i.e. the search can run
+ * without a text query. Sort order and the adult toggle alone don't count.
+ */
+export function hasActiveFilters(filters: MediaSearchFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => key !== 'sort' && key !== 'includeAdult' && value !== undefined);
+}
+
+/**
+ * AniList `Page.media` arguments for the given filters. `_greater`/`_lesser`
+ * are exclusive, so the inclusive ranges are widened by one.
+ */
+export function buildMediaFilterVariables(filters: MediaSearchFilters): Record<string, unknown> {
+  const variables: Record<string, unknown> = {
+    genre_in: filters.genres,
+    genre_not_in: filters.excludeGenres,
+    tag_in: filters.tags,
+    tag_not_in: filters.excludeTags,
+    season: filters.season,
+    seasonYear: filters.seasonYear,
+    format: filters.format,
+    status: filters.status,
+    averageScore_greater: filters.scoreMin !== undefined ? filters.scoreMin - 1 : undefined,
+    averageScore_lesser: filters.scoreMax !== undefined ? filters.scoreMax + 1 : undefined,
+    episodes_greater: filters.episodesMin !== undefined ? filters.episodesMin - 1 : undefined,
+    episodes_lesser: filters.episodesMax !== undefined ? filters.episodesMax + 1 : undefined,
+    isAdult: filters.includeAdult ? undefined : false,
+  };
+
+  return Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,348 @@
+// Server-side AniList GraphQL client
+//
+// Every /api/anilist/* route goes through this module so that the whole server
+// process shares a single request budget. AniList allows ~90 requests per minute
+// (less when the API is degraded), so requests are queued through a sliding
+// window and paused whenever AniList tells us to slow down.
+
+import { NextResponse } from 'next/server';
+
+// Both can point to the local mock server (scripts/anilist-mock/server.mjs) to
+// work offline, e.g. ANILIST_API_URL=http://localhost:4000/graphql
+export const ANILIST_API_URL = process.env.ANILIST_API_URL || 'https://graphql.anilist.co';
+// OAuth authorize and token endpoints live under this URL
+export const ANILIST_OAUTH_URL = process.env.ANILIST_OAUTH_URL || 'https://anilist.co/api/v2/oauth';
+
+// Default per-minute budget. AniList advertises its real limit through the
+// X-RateLimit-Limit header, which overrides this value once seen.
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 90;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// Requests that would have to wait longer than this in the queue fail fast with a 429
+const MAX_QUEUE_WAIT_MS = 20 * 1000;
+// Retries for idempotent queries (429, 5xx and network errors)
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export type AniListErrorCode =
+  | 'BAD_REQUEST'
+  | 'RATE_LIMITED'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'GRAPHQL_ERROR'
+  | 'HTTP_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'NETWORK_ERROR';
+
+export interface AniListGraphQLError {
+  message: string;
+  status?: number;
+  locations?: { line: number; column: number }[];
+}
+
+/**
+ * Uniform error envelope returned by every /api/anilist/* route on failure.
+ * `error` keeps the `RATE_LIMIT:` prefix on 429s because lib/anilist.ts relies on it.
+ */
+export interface AniListErrorBody {
+  error: string;
+  code: AniListErrorCode;
+  details?: unknown;
+  retryAfter?: number; // seconds
+}
+
+export class AniListApiError extends Error {
+  status: number;
+  code: AniListErrorCode;
+  details?: unknown;
+  retryAfter?: number;
+
+  constructor(message: string, status: number, code: AniListErrorCode, details?: unknown, retryAfter?: number) {
+    super(message);
+    this.name = 'AniListApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface AniListRequestOptions {
+  /** OAuth access token (without the "Bearer " prefix) */
+  accessToken?: string | null;
+  /** Label used in logs, e.g. "media API" */
+  context?: string;
+  /**
+   * Whether the request may be retried. Defaults to true for queries and
+   * false for mutations, which must never be sent twice.
+   */
+  idempotent?: boolean;
+}
+
+// Rate limit state, shared by every request of this server process
+const requestTimestamps: number[] = [];
+let rateLimitPerMinute = DEFAULT_RATE_LIMIT_PER_MINUTE;
+let blockedUntil = 0;
+let queueTail: Promise<void> = Promise.resolve();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function pruneTimestamps(now: number) {
+  while (requestTimestamps.length > 0 && now - requestTimestamps[0] >= RATE_LIMIT_WINDOW_MS) {
+    requestTimestamps.shift();
+  }
+}
+
+// How long the next request has to wait before it may be sent
+function computeWaitMs(now: number): number {
+  pruneTimestamps(now);
+  if (blockedUntil > now) {
+    return blockedUntil - now;
+  }
+  if (requestTimestamps.length >= rateLimitPerMinute) {
+    return RATE_LIMIT_WINDOW_MS - (now - requestTimestamps[0]);
+  }
+  return 0;
+}
+
+async function waitForSlot(context: string) {
+  const queuedAt = Date.now();
+  for (;;) {
+    const now = Date.now();
+    const waitMs = computeWaitMs(now);
+    if (waitMs <= 0) {
+      requestTimestamps.push(now);
+      return;
+    }
+    if (now - queuedAt + waitMs > MAX_QUEUE_WAIT_MS) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      console.warn(`[${context}] ⏱️ Rate limit queue full, retry in ${retryAfter}s`);
+      throw new AniListApiError(
+        `RATE_LIMIT: Too many requests. Please wait ${retryAfter} seconds before trying again.`,
+        429,
+        'RATE_LIMITED',
+        undefined,
+        retryAfter
+      );
+    }
+    console.log(`[${context}] ⏳ Waiting ${waitMs}ms for a rate limit slot`);
+    await sleep(waitMs);
+  }
+}
+
+// Requests are released one at a time so that concurrent callers can't all
+// slip through the same free slot.
+function acquireSlot(context: string): Promise<void> {
+  const slot = queueTail.then(() => waitForSlot(context));
+  queueTail = slot.catch(() => undefined);
+  return slot;
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = parseInt(header, 10);
+  if (!isNaN(seconds)) return Math.max(seconds, 0);
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+  return undefined;
+}
+
+// Update the shared budget from AniList's rate limit headers
+function updateRateLimitState(response: Response, context: string) {
+  const limit = parseInt(response.headers.get('x-ratelimit-limit') || '', 10);
+  if (!isNaN(limit) && limit > 0 && limit !== rateLimitPerMinute) {
+    console.log(`[${context}] 📊 AniList rate limit is now ${limit}/min`);
+    rateLimitPerMinute = limit;
+  }
+
+  const now = Date.now();
+  const retryAfter = parseRetryAfter(response);
+  if (response.status === 429) {
+    blockedUntil = Math.max(blockedUntil, now + (retryAfter ?? 60) * 1000);
+    return;
+  }
+
+  const remaining = parseInt(response.headers.get('x-ratelimit-remaining') || '', 10);
+  if (!isNaN(remaining) && remaining <= 0) {
+    const reset = parseInt(response.headers.get('x-ratelimit-reset') || '', 10);
+    const resetAt = !isNaN(reset) ? reset * 1000 : now + RATE_LIMIT_WINDOW_MS;
+    blockedUntil = Math.max(blockedUntil, resetAt);
+  }
+}
+
+function isMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof AniListApiError)) return false;
+  if (error.code === 'NETWORK_ERROR' || error.code === 'RATE_LIMITED') return true;
+  return error.status >= 500;
+}
+
+function formatGraphQLErrors(errors: AniListGraphQLError[]): string {
+  return errors.map((e) => e.message || JSON.stringify(e)).join(', ');
+}
+
+async function sendRequest<T>(
+  query: string,
+  variables: Record<string, unknown> | undefined,
+  accessToken: string | null | undefined,
+  context: string
+): Promise<T> {
+  await acquireSlot(context);
+
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+  if (accessToken) {
+    headers['Authorization'] = `Bearer ${accessToken}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(ANILIST_API_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ query, variables }),
+    });
+  } catch (error) {
+    throw new AniListApiError(
+      'Network error',
+      500,
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+
+  updateRateLimitState(response, context);
+  const responseText = await response.text();
+
+  let body: { data?: T; errors?: AniListGraphQLError[] } | null = null;
+  try {
+    body = JSON.parse(responseText);
+  } catch {
+    body = null;
+  }
+
+  if (response.status === 429) {
+    const retryAfter = parseRetryAfter(response) ?? 60;
+    const message = body?.errors?.[0]?.message || 'Too many requests.';
+    throw new AniListApiError(
+      `RATE_LIMIT: ${message} Please wait ${retryAfter} seconds before trying again.`,
+      429,
+      'RATE_LIMITED',
+      body?.errors ?? responseText,
+      retryAfter
+    );
+  }
+
+  if (body?.errors && body.errors.length > 0) {
+    const status = response.ok ? 400 : response.status;
+    const code: AniListErrorCode = status === 401 || status === 403 ? 'UNAUTHORIZED' : status === 404 ? 'NOT_FOUND' : 'GRAPHQL_ERROR';
+    throw new AniListApiError(`GraphQL error: ${formatGraphQLErrors(body.errors)}`, status, code, body.errors);
+  }
+
+  if (!response.ok) {
+    throw new AniListApiError(
+      `HTTP Error: ${response.status}`,
+      response.status,
+      response.status === 401 ? 'UNAUTHORIZED' : 'HTTP_ERROR',
+      responseText
+    );
+  }
+
+  if (!body || body.data === undefined) {
+    throw new AniListApiError('Invalid JSON response', 500, 'INVALID_RESPONSE', responseText);
+  }
+
+  return body.data;
+}
+
+/**
+ * Send a GraphQL request to AniList through the shared rate limit queue.
+ *
+ * Queries are retried with exponential backoff on 429, 5xx and network errors
+ * (honouring Retry-After); mutations are sent exactly once unless
+ * `options.idempotent` is set.
+ *
+ * @returns The `data` field of the GraphQL response
+ * @throws AniListApiError on any HTTP, GraphQL or network failure
+ */
+export async function anilistRequest<T>(
+  query: string,
+  variables?: Record<string, unknown>,
+  options: AniListRequestOptions = {}
+): Promise<T> {
+  const context = options.context || 'AniList API';
+  const idempotent = options.idempotent ?? !isMutation(query);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(query, variables, options.accessToken, context);
+    } catch (error) {
+      if (!idempotent || attempt >= MAX_RETRIES || !isRetryable(error)) {
+        throw error;
+      }
+      const apiError = error as AniListApiError;
+      const backoffMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      const delayMs = apiError.retryAfter !== undefined ? Math.max(apiError.retryAfter * 1000, backoffMs) : backoffMs;
+      if (delayMs > MAX_QUEUE_WAIT_MS) {
+        throw error;
+      }
+      console.warn(`[${context}] 🔁 ${apiError.message} - retry ${attempt + 1}/${MAX_RETRIES} in ${delayMs}ms`);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Extract the access token from an "Authorization: Bearer ..." header.
+ */
+export function getBearerToken(authHeader: string | null): string | null {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7) || null;
+}
+
+/**
+ * Build a JSON error response using the uniform error envelope.
+ */
+export function anilistErrorJson(
+  error: string,
+  status: number,
+  code: AniListErrorCode,
+  details?: unknown,
+  retryAfter?: number
+): NextResponse<AniListErrorBody> {
+  const body: AniListErrorBody = { error, code };
+  if (details !== undefined) body.details = details;
+  if (retryAfter !== undefined) body.retryAfter = retryAfter;
+
+  const headers: HeadersInit = {};
+  if (retryAfter !== undefined) {
+    headers['Retry-After'] = String(retryAfter);
+  }
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Convert any error thrown while talking to AniList into an error response.
+ */
+export function anilistErrorResponse(error: unknown, context: string = 'AniList API'): NextResponse<AniListErrorBody> {
+  if (error instanceof AniListApiError) {
+    console.error(`[${context}] ❌ ${error.message}`, error.details ?? '');
+    return anilistErrorJson(error.message, error.status, error.code, error.details, error.retryAfter);
+  }
+  console.error(`[${context}] ❌ Unexpected error:`, error);
+  return anilistErrorJson(
+    'Network error',
+    500,
+    'NETWORK_ERROR',
+    error instanceof Error ? error.message : 'Unknown error'
+  );
+}
@@ -0,0 +1,287 @@
+// Server-side AniList login sessions
+//
+// After the OAuth callback the access token is stored on the server (Postgres
+// through Prisma, or in memory when DATABASE_URL is not set) and the browser
+// only receives an opaque httpOnly cookie. Routes resolve the token with
+// getAccessToken(), so it never appears in URLs, localStorage or client code.
+//
+// Several accounts can be logged in on the same browser: every session id is
+// listed in a second httpOnly cookie, and the session cookie points to the
+// active one. Switching account only moves that pointer.
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { getBearerToken } from './anilist-server';
+
+export const SESSION_COOKIE_NAME = 'anilist_session';
+// Comma-separated session ids of every logged-in account, oldest login first
+export const ACCOUNTS_COOKIE_NAME = 'anilist_accounts';
+
+// Logging in with one more account signs the oldest one out
+export const MAX_ACCOUNTS = 5;
+
+// In-app path to go back to once the OAuth login completes (set by the authorize route)
+export const RETURN_TO_COOKIE_NAME = 'anilist_oauth_return_to';
+
+// AniList access tokens are valid for one year
+const DEFAULT_SESSION_TTL_SECONDS = 365 * 24 * 60 * 60;
+// Only bump lastUsedAt once in a while to avoid a write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface SessionUser {
+  id: number;
+  name: string;
+  avatar?: {
+    large?: string;
+    medium?: string;
+  };
+}
+
+export interface AniListSession {
+  accessToken: string;
+  user: SessionUser;
+  expiresAt: Date;
+}
+
+export interface AccountSession extends AniListSession {
+  sessionId: string; // Raw cookie value
+}
+
+interface SessionRecord {
+  id: string;
+  accessToken: string;
+  userId: number;
+  userName: string;
+  userAvatar: string | null;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt: Date | null;
+}
+
+// Fallback store used when no database is configured (lost on restart)
+const memorySessions = new Map<string, SessionRecord>();
+let memoryWarningShown = false;
+
+function isMemoryStore(): boolean {
+  if (prisma) return false;
+  if (!memoryWarningShown) {
+    console.warn('[session] ⚠️ DATABASE_URL is not set, AniList sessions are kept in memory');
+    memoryWarningShown = true;
+  }
+  return true;
+}
+
+// Only a hash of the cookie value is stored, so a leaked database row can't be
+// replayed as a cookie.
+function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+async function findSessionRecord(id: string): Promise<SessionRecord | null> {
+  if (isMemoryStore()) {
+    return memorySessions.get(id) ?? null;
+  }
+  return prisma!.aniListSession.findUnique({ where: { id } });
+}
+
+async function touchSessionRecord(record: SessionRecord, now: Date) {
+  if (now.getTime() - record.lastUsedAt.getTime() < LAST_USED_UPDATE_INTERVAL_MS) {
+    return;
+  }
+  if (isMemoryStore()) {
+    record.lastUsedAt = now;
+    return;
+  }
+  await prisma!.aniListSession.update({ where: { id: record.id }, data: { lastUsedAt: now } });
+}
+
+/**
+ * Expiry of an AniList access token, read from the `exp` claim of the JWT.
+ * Returns null when the token can't be decoded.
+ */
+export function getTokenExpiry(accessToken: string): Date | null {
+  const payload = accessToken.split('.')[1];
+  if (!payload) return null;
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof exp === 'number' && exp > 0 ? new Date(exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a session for a freshly authorized user. The session expires with
+ * the token (JWT `exp`, else `expires_in`).
+ *
+ * @param expiresInSeconds - Token lifetime reported by AniList (`expires_in`)
+ * @returns The raw session id to put in the cookie, and its expiry date
+ */
+export async function createSession(
+  accessToken: string,
+  user: SessionUser,
+  expiresInSeconds?: number
+): Promise<{ sessionId: string; expiresAt: Date }> {
+  const sessionId = randomBytes(32).toString('base64url');
+  const ttlSeconds = expiresInSeconds && expiresInSeconds > 0 ? expiresInSeconds : DEFAULT_SESSION_TTL_SECONDS;
+  const now = new Date();
+  const record: SessionRecord = {
+    id: hashSessionId(sessionId),
+    accessToken,
+    userId: user.id,
+    userName: user.name,
+    userAvatar: user.avatar?.medium || user.avatar?.large || null,
+    expiresAt: getTokenExpiry(accessToken) ?? new Date(now.getTime() + ttlSeconds * 1000),
+    lastUsedAt: now,
+    revokedAt: null,
+  };
+
+  if (isMemoryStore()) {
+    memorySessions.set(record.id, record);
+  } else {
+    await prisma!.aniListSession.create({ data: record });
+  }
+
+  console.log(`[session] ✅ Created session for ${user.name} (${user.id})`);
+  return { sessionId, expiresAt: record.expiresAt };
+}
+
+async function resolveSession(sessionId: string): Promise<AniListSession | null> {
+  try {
+    const record = await findSessionRecord(hashSessionId(sessionId));
+    const now = new Date();
+    if (!record || record.revokedAt || record.expiresAt <= now) {
+      return null;
+    }
+
+    await touchSessionRecord(record, now);
+
+    return {
+      accessToken: record.accessToken,
+      user: {
+        id: record.userId,
+        name: record.userName,
+        avatar: record.userAvatar ? { medium: record.userAvatar, large: record.userAvatar } : undefined,
+      },
+      expiresAt: record.expiresAt,
+    };
+  } catch (error) {
+    console.error('[session] ❌ Failed to load session:', error);
+    return null;
+  }
+}
+
+/**
+ * Resolve the session attached to a request, if any.
+ * Revoked and expired sessions are treated as missing.
+ */
+export async function getSession(request: NextRequest): Promise<AniListSession | null> {
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionId) {
+    return null;
+  }
+  return resolveSession(sessionId);
+}
+
+/**
+ * Every account logged in on this browser, oldest login first. Sessions that
+ * are no longer valid are left out. Sessions created before multi-account
+ * support only have the session cookie, which is then the only account.
+ */
+export async function getAccountSessions(request: NextRequest): Promise<AccountSession[]> {
+  const activeId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const sessionIds = (request.cookies.get(ACCOUNTS_COOKIE_NAME)?.value || '').split(',').filter(Boolean);
+  if (activeId && !sessionIds.includes(activeId)) {
+    sessionIds.push(activeId);
+  }
+
+  const accounts: AccountSession[] = [];
+  for (const sessionId of sessionIds) {
+    const session = await resolveSession(sessionId);
+    if (!session) continue;
+    // One session per AniList user: a later login wins
+    const index = accounts.findIndex((account) => account.user.id === session.user.id);
+    if (index !== -1) accounts.splice(index, 1);
+    accounts.push({ ...session, sessionId });
+  }
+  return accounts;
+}
+
+/**
+ * Revoke one session by its raw cookie value.
+ */
+export async function revokeSessionId(sessionId: string): Promise<void> {
+  const id = hashSessionId(sessionId);
+  const now = new Date();
+  if (isMemoryStore()) {
+    // Nothing else references an in-memory session, so just drop it
+    memorySessions.delete(id);
+  } else {
+    await prisma!.aniListSession.updateMany({ where: { id, revokedAt: null }, data: { revokedAt: now } });
+  }
+  console.log('[session] 🔒 Session revoked');
+}
+
+/**
+ * Revoke the session attached to a request. Safe to call without a session.
+ */
+export async function revokeSession(request: NextRequest): Promise<void> {
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionId) {
+    return;
+  }
+  await revokeSessionId(sessionId);
+}
+
+export function setSessionCookie(response: NextResponse, sessionId: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE_NAME, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function setAccountsCookie(response: NextResponse, sessionIds: string[]) {
+  response.cookies.set(ACCOUNTS_COOKIE_NAME, sessionIds.join(','), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: DEFAULT_SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearAccountsCookie(response: NextResponse) {
+  response.cookies.set(ACCOUNTS_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+/**
+ * Access token to use for a request: the session cookie first, then an
+ * explicit "Authorization: Bearer ..." header (scripts, API clients).
+ */
+export async function getAccessToken(request: NextRequest): Promise<string | null> {
+  const session = await getSession(request);
+  if (session) {
+    return session.accessToken;
+  }
+  return getBearerToken(request.headers.get('authorization'));
+}
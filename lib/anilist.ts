@@ -1,6 +1,9 @@
 // AniList GraphQL API utility
+// Client-side helpers: every request goes through our /api/anilist/* routes,
+// which share a rate-limited AniList client (see lib/anilist-server.ts).
 
-const ANILIST_API_URL = 'https://graphql.anilist.co';
+import { MediaSearchFilters, appendSearchFilters, hasActiveFilters } from './anilist-search-filters';
+import { MalImportDiff, MalApplyEntry } from './anilist-mal';
 
 // Import increment function (will be available in browser context)
 declare global {
@@ -32,21 +35,43 @@ function showToastNotification(message: string, type: 'success' | 'error' | 'war
   }
 }
 
+// Dispatched when a viewer check (a request asking AniList who is logged in)
+// is refused with UNAUTHORIZED: AuthContext logs the account out and offers to
+// log in again
+export const SESSION_EXPIRED_EVENT = 'anilist-session-expired';
+// Dispatched on any other 401: AuthContext asks /api/anilist/auth/session
+// whether the session is really gone before logging out
+export const SESSION_CHECK_EVENT = 'anilist-session-check';
+
+function sessionExpiredError(errorData?: { code?: string }, viewerCheck: boolean = false): Error {
+  if (typeof window !== 'undefined') {
+    const expired = viewerCheck && errorData?.code === 'UNAUTHORIZED';
+    window.dispatchEvent(new Event(expired ? SESSION_EXPIRED_EVENT : SESSION_CHECK_EVENT));
+  }
+  return new Error('UNAUTHORIZED: Invalid or expired session');
+}
+
 // Helper function to handle HTTP errors and show appropriate toasts
-function handleHttpError(response: Response, errorData: any, context: string = 'API'): never {
+function handleHttpError(response: Response, errorData: any, context: string = 'API', viewerCheck: boolean = false): never {
   const status = response.status;
+  if (status === 401) {
+    // Shown by AuthContext (session expired prompt) rather than as a toast
+    throw sessionExpiredError(errorData, viewerCheck);
+  }
+
   let message = '';
   let toastType: 'error' | 'warning' = 'error';
   
   if (status === 429) {
-    message = '⏱️ Rate limit exceeded. Please wait 30-60 seconds before trying again.';
+    // The server-side AniList client tells us how long to wait (Retry-After)
+    const retryAfter = typeof errorData?.retryAfter === 'number' ? errorData.retryAfter : null;
+    message = retryAfter
+      ? `⏱️ Rate limit exceeded. Please wait ${retryAfter} seconds before trying again.`
+      : '⏱️ Rate limit exceeded. Please wait 30-60 seconds before trying again.';
     toastType = 'warning';
   } else if (status === 400) {
     message = errorData?.error || errorData?.details || 'Bad request. Please check your input.';
     toastType = 'error';
-  } else if (status === 401) {
-    message = 'Unauthorized. Your session may have expired. Please log in again.';
-    toastType = 'warning';
   } else if (status === 403) {
     message = 'Forbidden. You don\'t have permission to access this resource.';
     toastType = 'error';
@@ -96,6 +121,8 @@ export interface AniListUser {
     large?: string;
     medium?: string;
   };
+  isFollowing?: boolean; // The logged-in user follows them (only set when logged in)
+  isFollower?: boolean; // They follow the logged-in user
   statistics?: UserStatistics;
 }
 
@@ -104,6 +131,7 @@ export interface ActivityComment {
   userId: number;
   user?: AniListUser;
   text?: string;
+  rawText?: string; // Markdown source (used to edit our own replies)
   comment?: string; // Keep for backward compatibility
   createdAt: number;
   isLiked?: boolean;
@@ -135,6 +163,9 @@ export interface ActivityStatus {
       medium?: string;
     };
     type?: string;
+    episodes?: number;
+    chapters?: number;
+    mediaListEntry?: MediaListEntry | null; // The viewer's own entry (list activities, when logged in)
   };
   replies?: ActivityComment[];
 }
@@ -181,6 +212,19 @@ export interface Media {
   averageScore?: number;
   popularity?: number;
   siteUrl?: string;
+  nextAiringEpisode?: AiringEpisode | null; // null once the show has finished airing
+  mediaListEntry?: MediaListEntry | null; // The viewer's own entry (search results, when logged in)
+}
+
+/**
+ * One scheduled episode (AniList AiringSchedule).
+ */
+export interface AiringEpisode {
+  id: number;
+  airingAt: number; // Unix timestamp (seconds)
+  episode: number;
+  timeUntilAiring?: number; // Seconds, negative once aired
+  mediaId?: number;
 }
 
 export interface MediaSearchResult {
@@ -340,20 +384,14 @@ const GET_ACTIVITY_REPLIES = `
   }
 `;
 
-export async function fetchActivityReplies(activityId: number, accessToken?: string): Promise<ActivityComment[] | null> {
-  console.log(`[fetchActivityReplies] 🔵 Starting - activityId: ${activityId}, hasToken: ${!!accessToken}`);
+export async function fetchActivityReplies(activityId: number): Promise<ActivityComment[] | null> {
+  console.log(`[fetchActivityReplies] 🔵 Starting - activityId: ${activityId}`);
   try {
-    // Build headers with optional authentication (needed for isLiked field)
-    const headers: HeadersInit = {};
-    if (accessToken) {
-      headers['Authorization'] = `Bearer ${accessToken}`;
-    }
-    
     incrementRequestCount();
     console.log(`[fetchActivityReplies] 📡 Making API request to /api/anilist/replies?activityId=${activityId}`);
     
-    // Use Next.js API route to avoid CORS issues
-    const response = await fetch(`/api/anilist/replies?activityId=${activityId}`, { headers });
+    // Use Next.js API route to avoid CORS issues (the session cookie provides isLiked)
+    const response = await fetch(`/api/anilist/replies?activityId=${activityId}`);
     
     console.log(`[fetchActivityReplies] 📥 Response received - status: ${response.status}`);
 
@@ -405,21 +443,47 @@ export async function fetchActivityReplies(activityId: number, accessToken?: str
   }
 }
 
+/**
+ * Fetch the replies of several activities in one request (up to 50 activities).
+ *
+ * @returns Replies by activity ID (an empty array for deleted activities)
+ */
+export async function fetchActivityRepliesBatch(activityIds: number[]): Promise<Record<number, ActivityComment[]>> {
+  console.log(`[fetchActivityRepliesBatch] 🔵 Starting - ${activityIds.length} activities`);
+  try {
+    incrementRequestCount();
+    console.log('[fetchActivityRepliesBatch] 📡 Making API request to /api/anilist/replies-batch');
+
+    const response = await fetch(`/api/anilist/replies-batch?activityIds=${activityIds.join(',')}`);
+
+    console.log(`[fetchActivityRepliesBatch] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchActivityRepliesBatch');
+    }
+
+    const data = await response.json();
+    console.log('[fetchActivityRepliesBatch] ✅ Success');
+    return data.replies || {};
+  } catch (error) {
+    console.error('[fetchActivityRepliesBatch] ❌ Error:', error);
+    throw error;
+  }
+}
+
 /**
  * Fetch list activities for a specific user and media.
  * Returns only ListActivity entries that match the given media ID.
  */
 export async function fetchUserMediaListActivities(
   userId: number,
-  mediaId: number,
-  accessToken?: string
+  mediaId: number
 ): Promise<ActivityStatus[]> {
-  console.log(`[fetchUserMediaListActivities] 🔵 Starting - userId: ${userId}, mediaId: ${mediaId}, hasToken: ${!!accessToken}`);
+  console.log(`[fetchUserMediaListActivities] 🔵 Starting - userId: ${userId}, mediaId: ${mediaId}`);
   try {
     // Determine media type from mediaId (we'll need to fetch it or pass it)
     // For now, we'll fetch both ANIME_LIST and MANGA_LIST and filter
-    const token = typeof window !== 'undefined' ? localStorage.getItem('anilist_access_token') : null;
-    const authToken = accessToken || token || undefined;
     
     // Fetch list activities (both anime and manga)
     // We'll fetch a reasonable number of pages to find activities for this media
@@ -434,9 +498,7 @@ export async function fetchUserMediaListActivities(
         page,
         50,
         'list',
-        'all',
-        undefined,
-        authToken
+        'all'
       );
       
       if (!activitiesData || activitiesData.activities.length === 0) {
@@ -506,6 +568,90 @@ export async function fetchUserId(username: string): Promise<AniListUser | null>
   }
 }
 
+/**
+ * One row of a ranked statistics table (genre, tag, studio, staff, voice actor).
+ * `meanScore` is on 0-100 whatever the user's score format.
+ */
+export interface UserStatisticRow {
+  id?: number;
+  name: string;
+  count: number;
+  meanScore: number;
+  minutesWatched?: number;
+  chaptersRead?: number;
+}
+
+/**
+ * Full AniList statistics for one media type (see /api/anilist/user-stats).
+ */
+export interface FullUserStatistics {
+  count: number;
+  meanScore: number;
+  standardDeviation: number;
+  minutesWatched: number;
+  episodesWatched: number;
+  chaptersRead: number;
+  volumesRead: number;
+  scores: Array<{ score: number; count: number }>; // In the user's score format
+  formats: Array<{ format: string; count: number }>;
+  statuses: Array<{ status: string; count: number }>;
+  releaseYears: Array<{ releaseYear: number; count: number; meanScore: number }>;
+  startYears: Array<{ startYear: number; count: number; meanScore: number }>;
+  genres: Array<Omit<UserStatisticRow, 'name'> & { genre: string }>;
+  tags: UserStatisticRow[];
+  studios: UserStatisticRow[];
+  staff: UserStatisticRow[];
+  voiceActors: UserStatisticRow[];
+}
+
+export interface UserProfile {
+  id: number;
+  name: string;
+  avatar?: {
+    large?: string;
+    medium?: string;
+  };
+  bannerImage?: string;
+  siteUrl?: string;
+  mediaListOptions?: {
+    scoreFormat?: ScoreFormat;
+  };
+  statistics: {
+    anime: FullUserStatistics | null;
+    manga: FullUserStatistics | null;
+  };
+}
+
+/**
+ * Fetch a user's full anime and manga statistics for the profile page.
+ *
+ * @param username - The AniList username
+ * @throws Error if the request fails or the user doesn't exist
+ */
+export async function fetchUserProfile(username: string): Promise<UserProfile> {
+  console.log(`[fetchUserProfile] 🔵 Starting - username: ${username}`);
+  try {
+    incrementRequestCount();
+    console.log(`[fetchUserProfile] 📡 Making API request to /api/anilist/user-stats?username=${encodeURIComponent(username)}`);
+
+    const response = await fetch(`/api/anilist/user-stats?username=${encodeURIComponent(username)}`);
+
+    console.log(`[fetchUserProfile] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchUserProfile');
+    }
+
+    const data: UserProfile = await response.json();
+    console.log(`[fetchUserProfile] ✅ Success - user: ${data.name}`);
+    return data;
+  } catch (error) {
+    console.error('[fetchUserProfile] ❌ Error:', error);
+    throw error;
+  }
+}
+
 export async function fetchUserActivities(
   userId: number,
   page: number = 1,
@@ -513,18 +659,49 @@ export async function fetchUserActivities(
   type?: 'all' | 'text' | 'list' | 'message',
   mediaType?: 'all' | 'anime' | 'manga',
   status?: string,
-  accessToken?: string,
   createdAtGreater?: number,
   createdAtLesser?: number
 ): Promise<ActivityPage | null> {
-  console.log(`[fetchUserActivities] 🔵 Starting - userId: ${userId}, page: ${page}, perPage: ${perPage}, type: ${type || 'all'}, mediaType: ${mediaType || 'all'}, hasToken: ${!!accessToken}`);
+  console.log(`[fetchUserActivities] 🔵 Starting - userId: ${userId}, page: ${page}, perPage: ${perPage}, type: ${type || 'all'}, mediaType: ${mediaType || 'all'}`);
+  // status is NOT passed - must be filtered client-side
+  return fetchActivitiesPage(`userId=${userId}`, page, perPage, type, mediaType, createdAtGreater, createdAtLesser, 'fetchUserActivities');
+}
+
+/**
+ * Fetch the logged-in user's "Following" timeline: activities of everyone they follow.
+ * Takes the same filters as fetchUserActivities (status is filtered client-side).
+ * 
+ * @throws Error with an UNAUTHORIZED prefix if the session is missing/expired
+ */
+export async function fetchFollowingActivities(
+  page: number = 1,
+  perPage: number = 50,
+  type?: 'all' | 'text' | 'list' | 'message',
+  mediaType?: 'all' | 'anime' | 'manga',
+  createdAtGreater?: number,
+  createdAtLesser?: number
+): Promise<ActivityPage | null> {
+  console.log(`[fetchFollowingActivities] 🔵 Starting - page: ${page}, perPage: ${perPage}, type: ${type || 'all'}, mediaType: ${mediaType || 'all'}`);
+  return fetchActivitiesPage('following=true', page, perPage, type, mediaType, createdAtGreater, createdAtLesser, 'fetchFollowingActivities');
+}
+
+async function fetchActivitiesPage(
+  baseQuery: string,
+  page: number,
+  perPage: number,
+  type: 'all' | 'text' | 'list' | 'message' | undefined,
+  mediaType: 'all' | 'anime' | 'manga' | undefined,
+  createdAtGreater: number | undefined,
+  createdAtLesser: number | undefined,
+  context: string
+): Promise<ActivityPage | null> {
   if (createdAtGreater || createdAtLesser) {
-    console.log(`[fetchUserActivities] 📅 Date filters - greater: ${createdAtGreater}, lesser: ${createdAtLesser}`);
+    console.log(`[${context}] 📅 Date filters - greater: ${createdAtGreater}, lesser: ${createdAtLesser}`);
   }
   try {
     // Build query string
     // Note: status is filtered client-side, but mediaType can be used to filter by ANIME_LIST/MANGA_LIST
-    let queryString = `userId=${userId}&page=${page}&perPage=${perPage}`;
+    let queryString = `${baseQuery}&page=${page}&perPage=${perPage}`;
     if (type && type !== 'all') {
       queryString += `&type=${type}`;
     }
@@ -535,47 +712,40 @@ export async function fetchUserActivities(
     // Add date filters if specified (Unix timestamps in seconds)
     if (createdAtGreater !== undefined && createdAtGreater !== null && !isNaN(createdAtGreater)) {
       queryString += `&createdAt_greater=${createdAtGreater}`;
-      console.log(`[fetchUserActivities] 📅 Adding createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
+      console.log(`[${context}] 📅 Adding createdAt_greater: ${createdAtGreater} (${new Date(createdAtGreater * 1000).toISOString()})`);
     }
     if (createdAtLesser !== undefined && createdAtLesser !== null && !isNaN(createdAtLesser)) {
       queryString += `&createdAt_lesser=${createdAtLesser}`;
-      console.log(`[fetchUserActivities] 📅 Adding createdAt_lesser: ${createdAtLesser} (${new Date(createdAtLesser * 1000).toISOString()})`);
-    }
-    // status is NOT passed - must be filtered client-side
-    
-    // Build headers with optional authentication (needed for isLiked field)
-    const headers: HeadersInit = {};
-    if (accessToken) {
-      headers['Authorization'] = `Bearer ${accessToken}`;
+      console.log(`[${context}] 📅 Adding createdAt_lesser: ${createdAtLesser} (${new Date(createdAtLesser * 1000).toISOString()})`);
     }
     
     incrementRequestCount();
-    console.log(`[fetchUserActivities] 📡 Making API request to /api/anilist/activities?${queryString}`);
+    console.log(`[${context}] 📡 Making API request to /api/anilist/activities?${queryString}`);
     
-    // Use Next.js API route to avoid CORS issues
-    const response = await fetch(
-      `/api/anilist/activities?${queryString}`,
-      { headers }
-    );
+    // Use Next.js API route to avoid CORS issues (the session cookie provides isLiked)
+    const response = await fetch(`/api/anilist/activities?${queryString}`);
     
-    console.log(`[fetchUserActivities] 📥 Response received - status: ${response.status}`);
+    console.log(`[${context}] 📥 Response received - status: ${response.status}`);
 
     if (!response.ok) {
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
       let errorData: any = {};
       try {
         const errorText = await response.text();
-        console.error(`[fetchUserActivities] HTTP Error ${response.status}, raw response:`, errorText);
+        console.error(`[${context}] HTTP Error ${response.status}, raw response:`, errorText);
         try {
           errorData = JSON.parse(errorText);
         } catch {
           errorData = { raw: errorText, error: errorText };
         }
       } catch (e) {
-        console.error(`[fetchUserActivities] Error reading error response:`, e);
+        console.error(`[${context}] Error reading error response:`, e);
         errorData = { error: 'Failed to read error response' };
       }
       
-      handleHttpError(response, errorData, 'fetchUserActivities');
+      handleHttpError(response, errorData, context);
     }
 
     const data = await response.json();
@@ -591,7 +761,7 @@ export async function fetchUserActivities(
 
     const activities: ActivityStatus[] = data.activities || [];
     const pageInfo = data.pageInfo || { currentPage: page, hasNextPage: false };
-    console.log(`[fetchUserActivities] ✅ Success - received ${activities.length} activities (page ${pageInfo.currentPage}, hasNext: ${pageInfo.hasNextPage})`);
+    console.log(`[${context}] ✅ Success - received ${activities.length} activities (page ${pageInfo.currentPage}, hasNext: ${pageInfo.hasNextPage})`);
 
 
     // For now, just return all activities without fetching replies
@@ -601,12 +771,12 @@ export async function fetchUserActivities(
       pageInfo,
     };
   } catch (error) {
-    console.error('Error fetching user activities:', error);
+    console.error('Error fetching activities:', error);
     if (error instanceof TypeError && error.message.includes('fetch')) {
       console.error('Network error - check your internet connection');
     }
-    // Propagate RATE_LIMIT errors so they can be handled by the UI
-    if (error instanceof Error && error.message.includes('RATE_LIMIT:')) {
+    // Propagate RATE_LIMIT and UNAUTHORIZED errors so they can be handled by the UI
+    if (error instanceof Error && (error.message.includes('RATE_LIMIT:') || error.message.includes('UNAUTHORIZED'))) {
       throw error;
     }
     return null;
@@ -653,22 +823,104 @@ export async function fetchMediaById(mediaId: number): Promise<Media | null> {
   }
 }
 
-// Search for anime/manga with auto-completion
+/**
+ * A character, voice actor or staff member as listed on a media page.
+ */
+export interface MediaPerson {
+  id: number;
+  name: string;
+  image?: string;
+  language?: string; // Voice actors only
+}
+
+export interface MediaTag {
+  id: number;
+  name: string;
+  description?: string;
+  category?: string;
+  rank?: number; // Relevance in %, as voted on AniList
+  isGeneralSpoiler?: boolean;
+  isMediaSpoiler?: boolean;
+}
+
+/**
+ * Full media details for the media page (see /api/anilist/media-details).
+ */
+export interface MediaDetails extends Media {
+  idMal?: number | null;
+  synonyms?: string[];
+  season?: string;
+  seasonYear?: number;
+  duration?: number; // Minutes per episode
+  source?: string;
+  meanScore?: number;
+  favourites?: number;
+  tags: MediaTag[];
+  studios: Array<{ id: number; name: string; isMain: boolean; isAnimationStudio: boolean; siteUrl?: string }>;
+  characters: Array<{ role: string; character: MediaPerson; voiceActors: MediaPerson[] }>;
+  staff: Array<{ role: string; staff: MediaPerson }>;
+  relations: Array<{ relationType: string; media: Media }>;
+  recommendations: Array<{ rating: number; media: Media }>;
+  stats?: {
+    scoreDistribution?: Array<{ score: number; amount: number }>;
+    statusDistribution?: Array<{ status: string; amount: number }>;
+  };
+}
+
+/**
+ * Fetch everything shown on the media page: characters, staff, studios,
+ * relations, recommendations, distributions and tags.
+ *
+ * @param mediaId - The ID of the media
+ * @throws Error if the request fails
+ */
+export async function fetchMediaDetails(mediaId: number): Promise<MediaDetails> {
+  console.log(`[fetchMediaDetails] 🔵 Starting - mediaId: ${mediaId}`);
+  try {
+    incrementRequestCount();
+    console.log(`[fetchMediaDetails] 📡 Making API request to /api/anilist/media-details?id=${mediaId}`);
+
+    const response = await fetch(`/api/anilist/media-details?id=${mediaId}`);
+
+    console.log(`[fetchMediaDetails] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchMediaDetails');
+    }
+
+    const data: MediaDetails = await response.json();
+    console.log(`[fetchMediaDetails] ✅ Success - media: ${data.title?.userPreferred || data.id}, ${data.characters.length} characters, ${data.relations.length} relations`);
+    return data;
+  } catch (error) {
+    console.error('[fetchMediaDetails] ❌ Error:', error);
+    throw error;
+  }
+}
+
+// Search for anime/manga by title (auto-completion) and/or filters (browsing)
 export async function searchMedia(
   query: string,
   type?: 'ANIME' | 'MANGA' | 'ALL',
   page: number = 1,
-  perPage: number = 10
+  perPage: number = 10,
+  filters: MediaSearchFilters = {}
 ): Promise<MediaSearchResult | null> {
   console.log(`[searchMedia] 🔵 Starting - query: "${query}", type: ${type || 'ALL'}, page: ${page}, perPage: ${perPage}`);
   try {
-    if (!query || query.trim().length < 2) {
-      console.log('[searchMedia] ⏭️ Skipping - query too short');
+    if (!query.trim() && !hasActiveFilters(filters)) {
+      console.log('[searchMedia] ⏭️ Skipping - no query or filters');
       return null;
     }
 
     incrementRequestCount();
-    const url = `/api/anilist/search?query=${encodeURIComponent(query)}&type=${type || 'ALL'}&page=${page}&perPage=${perPage}`;
+    const params = appendSearchFilters(new URLSearchParams({
+      query: query.trim(),
+      type: type || 'ALL',
+      page: page.toString(),
+      perPage: perPage.toString(),
+    }), filters);
+    const url = `/api/anilist/search?${params}`;
     console.log(`[searchMedia] 📡 Making API request to ${url}`);
     
     const response = await fetch(url);
@@ -693,14 +945,11 @@ export async function searchMedia(
       throw new Error(data.error);
     }
 
-    const result = {
-      page: data.page || 1,
-      perPage: data.perPage || perPage,
-      total: data.total || 0,
-      lastPage: data.lastPage || 1,
+    const result: MediaSearchResult = {
       media: data.media || [],
+      pageInfo: data.pageInfo || { currentPage: page, hasNextPage: false, lastPage: 1, perPage, total: 0 },
     };
-    console.log(`[searchMedia] ✅ Success - found ${result.media.length} results (total: ${result.total})`);
+    console.log(`[searchMedia] ✅ Success - found ${result.media.length} results (total: ${result.pageInfo.total})`);
     return result;
   } catch (error) {
     console.error('[searchMedia] ❌ Error:', error);
@@ -711,25 +960,20 @@ export async function searchMedia(
   }
 }
 
-// Get followed users (requires authentication)
-export async function getFollowedUsers(accessToken: string): Promise<AniListUser[] | null> {
+// Get followed users (requires login)
+export async function getFollowedUsers(): Promise<AniListUser[] | null> {
   console.log('[getFollowedUsers] 🔵 Starting');
   try {
     incrementRequestCount();
     console.log('[getFollowedUsers] 📡 Making API request to /api/anilist/following');
     
-    const response = await fetch('/api/anilist/following', {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
+    const response = await fetch('/api/anilist/following');
     
     console.log(`[getFollowedUsers] 📥 Response received - status: ${response.status}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      handleHttpError(response, errorData, 'getFollowedUsers');
+      handleHttpError(response, errorData, 'getFollowedUsers', true);
     }
 
     const data = await response.json();
@@ -742,6 +986,109 @@ export async function getFollowedUsers(accessToken: string): Promise<AniListUser
   }
 }
 
+/**
+ * Get the users following the logged-in user.
+ * Each user has `isFollowing` set when the logged-in user follows them back.
+ * 
+ * @returns Array of followers
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function getFollowers(): Promise<AniListUser[]> {
+  console.log('[getFollowers] 🔵 Starting');
+  try {
+    incrementRequestCount();
+    console.log('[getFollowers] 📡 Making API request to /api/anilist/followers');
+
+    const response = await fetch('/api/anilist/followers');
+
+    console.log(`[getFollowers] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'getFollowers', true);
+    }
+
+    const data = await response.json();
+    const users: AniListUser[] = data.users || [];
+    console.log(`[getFollowers] ✅ Success - found ${users.length} followers`);
+    return users;
+  } catch (error) {
+    console.error('[getFollowers] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Follow or unfollow a user (toggles the current state).
+ * 
+ * @param userId - The user to follow/unfollow
+ * @returns Whether the logged-in user now follows them
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function toggleFollow(userId: number): Promise<boolean> {
+  console.log(`[toggleFollow] 🔵 Starting - userId: ${userId}`);
+  try {
+    incrementRequestCount();
+    console.log('[toggleFollow] 📡 Making API request to /api/anilist/follow');
+
+    const response = await fetch('/api/anilist/follow', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId }),
+    });
+
+    console.log(`[toggleFollow] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'toggleFollow');
+    }
+
+    const data = await response.json();
+    console.log(`[toggleFollow] ✅ Success - isFollowing: ${data.isFollowing}`);
+    return !!data.isFollowing;
+  } catch (error) {
+    console.error('[toggleFollow] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the date of each user's most recent activity.
+ * 
+ * @param userIds - Up to 50 user IDs
+ * @returns Map of user ID to Unix timestamp (seconds), null for users without activity
+ * @throws Error if the request fails
+ */
+export async function fetchLastActivityDates(userIds: number[]): Promise<Record<number, number | null>> {
+  console.log(`[fetchLastActivityDates] 🔵 Starting - ${userIds.length} users`);
+  try {
+    incrementRequestCount();
+    console.log('[fetchLastActivityDates] 📡 Making API request to /api/anilist/last-activity');
+
+    const response = await fetch(`/api/anilist/last-activity?userIds=${userIds.join(',')}`);
+
+    console.log(`[fetchLastActivityDates] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchLastActivityDates');
+    }
+
+    const data = await response.json();
+    console.log('[fetchLastActivityDates] ✅ Success');
+    return data.lastActivity || {};
+  } catch (error) {
+    console.error('[fetchLastActivityDates] ❌ Error:', error);
+    throw error;
+  }
+}
+
 /**
  * Interface for a user's media score data.
  * Represents a followed user's rating/status for a specific media.
@@ -750,38 +1097,113 @@ export interface UserMediaScore {
   userId: number;
   userName: string;
   userAvatar?: string;
-  score?: number; // Score out of 100 (or user's score format)
+  score?: number; // Score normalized to 0-100 (0 = not scored), comparable across users
   status?: string; // e.g., "CURRENT", "PLANNING", "COMPLETED", "DROPPED", "PAUSED"
   progress?: number; // Current episode/chapter progress
+  rawScore?: number; // Score as the user entered it, in their own score format
+  scoreFormat?: ScoreFormat; // Format of `rawScore`
+  isViewer?: boolean; // The logged-in user's own entry
+}
+
+export type MediaListStatus = 'CURRENT' | 'PLANNING' | 'COMPLETED' | 'DROPPED' | 'PAUSED' | 'REPEATING';
+
+export type ScoreFormat = 'POINT_100' | 'POINT_10_DECIMAL' | 'POINT_10' | 'POINT_5' | 'POINT_3';
+
+/**
+ * One of the logged-in user's list entries.
+ * `score` is expressed in the user's own score format.
+ */
+export interface MediaListEntry {
+  id: number;
+  mediaId?: number;
+  status?: MediaListStatus;
+  score?: number;
+  progress?: number;
+  progressVolumes?: number;
+  repeat?: number;
+  updatedAt?: number;
+}
+
+/**
+ * Fields accepted by saveMediaListEntry. Omitted fields are left unchanged.
+ */
+export interface MediaListEntryInput {
+  id?: number;
+  mediaId?: number;
+  status?: MediaListStatus;
+  score?: number;
+  progress?: number;
+  progressVolumes?: number;
+  repeat?: number;
+}
+
+/**
+ * The logged-in user as seen from a media page: their score format and
+ * their own list entry for that media (null when not on their list).
+ */
+export interface ViewerMediaInfo {
+  id: number;
+  name: string;
+  avatar?: string;
+  scoreFormat: ScoreFormat;
+  entry: MediaListEntry | null;
+}
+
+/**
+ * Format a score the way AniList displays it for a given score format.
+ */
+export function formatScoreForFormat(score: number, scoreFormat: ScoreFormat = 'POINT_100'): string {
+  switch (scoreFormat) {
+    case 'POINT_10_DECIMAL':
+      return `${score.toFixed(1)}/10`;
+    case 'POINT_10':
+      return `${score}/10`;
+    case 'POINT_5':
+      return '★'.repeat(Math.round(score)) + '☆'.repeat(Math.max(5 - Math.round(score), 0));
+    case 'POINT_3':
+      return score >= 3 ? '🙂' : score >= 2 ? '😐' : '🙁';
+    default:
+      return `${score}/100`;
+  }
+}
+
+/**
+ * Convert a score from a given score format to 0-100, the same way AniList
+ * does for `score(format: POINT_100)`. 0 stays 0 (not scored).
+ */
+export function normalizeScore(score: number, scoreFormat: ScoreFormat = 'POINT_100'): number {
+  switch (scoreFormat) {
+    case 'POINT_10_DECIMAL':
+    case 'POINT_10':
+      return Math.round(score * 10);
+    case 'POINT_5':
+      return score * 20;
+    case 'POINT_3':
+      return score >= 3 ? 85 : score >= 2 ? 60 : score >= 1 ? 35 : 0;
+    default:
+      return score;
+  }
 }
 
 /**
  * Fetch media info and followed users scores in a single request.
  * This reduces API calls and helps avoid rate limiting.
  * 
+ * Scores are only included when the user is logged in.
+ * 
  * @param mediaId - The ID of the media to get info and scores for
- * @param accessToken - AniList OAuth access token (optional, only needed for scores)
  * @returns Object with media info and scores array, or null on error
  * @throws Error if the request fails
  */
 export async function fetchMediaWithScores(
-  mediaId: number,
-  accessToken?: string
-): Promise<{ media: Media; scores: UserMediaScore[] } | null> {
-  console.log(`[fetchMediaWithScores] 🔵 Starting - mediaId: ${mediaId}, hasToken: ${!!accessToken}`);
+  mediaId: number
+): Promise<{ media: Media; scores: UserMediaScore[]; viewer: ViewerMediaInfo | null } | null> {
+  console.log(`[fetchMediaWithScores] 🔵 Starting - mediaId: ${mediaId}`);
   try {
-    const headers: HeadersInit = {};
-    if (accessToken) {
-      headers['Authorization'] = `Bearer ${accessToken}`;
-    }
-
     incrementRequestCount();
     console.log(`[fetchMediaWithScores] 📡 Making API request to /api/anilist/media-with-scores?mediaId=${mediaId}`);
 
-    const response = await fetch(`/api/anilist/media-with-scores?mediaId=${mediaId}`, {
-      method: 'GET',
-      headers,
-    });
+    const response = await fetch(`/api/anilist/media-with-scores?mediaId=${mediaId}`);
     
     console.log(`[fetchMediaWithScores] 📥 Response received - status: ${response.status}`);
 
@@ -806,6 +1228,7 @@ export async function fetchMediaWithScores(
     const result = {
       media: data.media,
       scores: data.scores || [],
+      viewer: data.viewer || null,
     };
     console.log(`[fetchMediaWithScores] ✅ Success - media: ${result.media.title?.userPreferred || result.media.id}, scores: ${result.scores.length}`);
     return result;
@@ -825,13 +1248,11 @@ export async function fetchMediaWithScores(
  * that the authenticated user follows for a given media.
  * Similar to AniList's "Social" section on media pages.
  * 
- * @param accessToken - AniList OAuth access token
  * @param mediaId - The ID of the media to get scores for
  * @returns Array of UserMediaScore objects, or null on error
- * @throws Error if the request fails or token is invalid
+ * @throws Error if the request fails or the session is missing/expired
  */
 export async function getFollowedUsersScores(
-  accessToken: string,
   mediaId: number
 ): Promise<UserMediaScore[] | null> {
   console.log(`[getFollowedUsersScores] 🔵 Starting - mediaId: ${mediaId}`);
@@ -839,12 +1260,7 @@ export async function getFollowedUsersScores(
     incrementRequestCount();
     console.log(`[getFollowedUsersScores] 📡 Making API request to /api/anilist/media-scores?mediaId=${mediaId}`);
     
-    const response = await fetch(`/api/anilist/media-scores?mediaId=${mediaId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
+    const response = await fetch(`/api/anilist/media-scores?mediaId=${mediaId}`);
     
     console.log(`[getFollowedUsersScores] 📥 Response received - status: ${response.status}`);
 
@@ -871,59 +1287,393 @@ export async function getFollowedUsersScores(
 }
 
 /**
- * Toggle like status for an activity.
+ * Create or update one of the logged-in user's list entries.
  * 
- * @param accessToken - AniList OAuth access token
- * @param activityId - The ID of the activity to like/unlike
- * @param activityType - The type of the activity (TEXT, LIST, MESSAGE, etc.)
- * @returns Object with updated like status and count, or null on error
- * @throws Error if the request fails or token is invalid
+ * @param input - Entry fields to save; `score` uses the user's score format
+ * @returns The saved entry as returned by AniList
+ * @throws Error if the request fails or the session is missing/expired
  */
-export async function toggleActivityLike(
-  accessToken: string,
-  activityId: number,
-  activityType?: string
-): Promise<{ id: number; isLiked: boolean; likeCount: number } | null> {
-  console.log(`[toggleActivityLike] 🔵 Starting - activityId: ${activityId}, activityType: ${activityType || 'unknown'}`);
+export async function saveMediaListEntry(input: MediaListEntryInput): Promise<MediaListEntry> {
+  console.log(`[saveMediaListEntry] 🔵 Starting - mediaId: ${input.mediaId}, entryId: ${input.id || 'new'}`);
   try {
     incrementRequestCount();
-    console.log(`[toggleActivityLike] 📡 Making API request to /api/anilist/activity-like`);
-    
-    const response = await fetch('/api/anilist/activity-like', {
+    console.log('[saveMediaListEntry] 📡 Making API request to /api/anilist/media-list-entry');
+
+    const response = await fetch('/api/anilist/media-list-entry', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
       },
-      body: JSON.stringify({ activityId, activityType }),
+      body: JSON.stringify(input),
     });
-    
-    console.log(`[toggleActivityLike] 📥 Response received - status: ${response.status}`);
+
+    console.log(`[saveMediaListEntry] 📥 Response received - status: ${response.status}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      handleHttpError(response, errorData, 'toggleActivityLike');
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'saveMediaListEntry');
     }
 
-    const data = await response.json();
-    return data;
+    const entry: MediaListEntry = await response.json();
+    console.log(`[saveMediaListEntry] ✅ Success - entry ${entry.id} (${entry.status})`);
+    return entry;
   } catch (error) {
-    console.error('Error toggling activity reply like:', error);
+    console.error('[saveMediaListEntry] ❌ Error:', error);
     throw error;
   }
 }
 
 /**
- * Toggle like status for an activity reply (comment).
+ * Remove one of the logged-in user's list entries.
  * 
- * @param accessToken - AniList OAuth access token
- * @param replyId - The ID of the reply/comment to like/unlike
- * @returns Object with updated like status and count, or null on error
- * @throws Error if the request fails or token is invalid
+ * @param entryId - The list entry ID (not the media ID)
+ * @returns true if AniList deleted the entry
+ * @throws Error if the request fails or the session is missing/expired
  */
-export async function toggleActivityReplyLike(
-  accessToken: string,
-  replyId: number
+export async function deleteMediaListEntry(entryId: number): Promise<boolean> {
+  console.log(`[deleteMediaListEntry] 🔵 Starting - entryId: ${entryId}`);
+  try {
+    incrementRequestCount();
+    console.log(`[deleteMediaListEntry] 📡 Making API request to /api/anilist/media-list-entry?id=${entryId}`);
+
+    const response = await fetch(`/api/anilist/media-list-entry?id=${entryId}`, {
+      method: 'DELETE',
+    });
+
+    console.log(`[deleteMediaListEntry] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'deleteMediaListEntry');
+    }
+
+    const data = await response.json();
+    console.log(`[deleteMediaListEntry] ✅ Success - deleted: ${data.deleted}`);
+    return !!data.deleted;
+  } catch (error) {
+    console.error('[deleteMediaListEntry] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Compare a MyAnimeList XML export with an AniList list.
+ * 
+ * @param xml - Content of the MAL export file
+ * @param username - AniList user to compare with (defaults to the logged-in user)
+ * @returns Entries only in MAL, only in AniList, and in both with differences
+ * @throws Error if the file isn't a MAL export or the request fails
+ */
+export async function diffMalImport(xml: string, username?: string): Promise<MalImportDiff> {
+  console.log(`[diffMalImport] 🔵 Starting - ${xml.length} chars, user: ${username || 'viewer'}`);
+  try {
+    incrementRequestCount();
+    console.log('[diffMalImport] 📡 Making API request to /api/anilist/mal-import');
+
+    const response = await fetch('/api/anilist/mal-import', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ xml, username }),
+    });
+
+    console.log(`[diffMalImport] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'diffMalImport');
+    }
+
+    const diff: MalImportDiff = await response.json();
+    console.log(`[diffMalImport] ✅ Success - ${diff.onlyInMal.length} only in MAL, ${diff.onlyInAniList.length} only in AniList, ${diff.differing.length} differing`);
+    return diff;
+  } catch (error) {
+    console.error('[diffMalImport] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result of saving one batch of imported entries.
+ * `retryAfter` (seconds) is set when AniList rate limited the batch part-way:
+ * entries missing from `results` must be sent again after that delay.
+ */
+export interface ListEntriesBatchResult {
+  results: Array<{ mediaId: number; ok: boolean; error?: string }>;
+  retryAfter?: number;
+}
+
+/**
+ * Save up to 10 imported entries to the logged-in user's list.
+ * 
+ * @param entries - Entries to save; `score` is on a 0-100 scale
+ * @returns Per-entry results, plus `retryAfter` when rate limited
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function applyListEntriesBatch(entries: MalApplyEntry[]): Promise<ListEntriesBatchResult> {
+  console.log(`[applyListEntriesBatch] 🔵 Starting - ${entries.length} entries`);
+  try {
+    incrementRequestCount();
+    console.log('[applyListEntriesBatch] 📡 Making API request to /api/anilist/media-list-entries');
+
+    const response = await fetch('/api/anilist/media-list-entries', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ entries }),
+    });
+
+    console.log(`[applyListEntriesBatch] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      // Rate limited before anything was saved: the caller waits and resends the batch
+      if (response.status === 429) {
+        const retryAfter = typeof errorData?.retryAfter === 'number' ? errorData.retryAfter : 60;
+        console.warn(`[applyListEntriesBatch] ⏱️ Rate limited, retry in ${retryAfter}s`);
+        return { results: [], retryAfter };
+      }
+      handleHttpError(response, errorData, 'applyListEntriesBatch');
+    }
+
+    const data: ListEntriesBatchResult = await response.json();
+    console.log(`[applyListEntriesBatch] ✅ Success - ${data.results.length}/${entries.length} processed`);
+    return data;
+  } catch (error) {
+    console.error('[applyListEntriesBatch] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * One title of a user's complete list (see fetchMediaListCollection).
+ */
+export interface UserListEntry {
+  mediaId: number;
+  status: MediaListStatus;
+  score: number; // Always on a 0-100 scale, 0 = not scored
+  progress: number | null;
+  media: {
+    id: number;
+    type: 'ANIME' | 'MANGA';
+    format?: string;
+    genres?: string[];
+    title: {
+      romaji?: string;
+      english?: string;
+    };
+    coverImage?: {
+      medium?: string;
+    };
+  };
+}
+
+export interface UserMediaListCollection {
+  userId: number;
+  scoreFormat: ScoreFormat; // The user's own format (scores are still returned on 0-100)
+  entries: UserListEntry[];
+}
+
+/**
+ * Fetch a user's complete anime or manga list (all statuses, custom lists excluded).
+ * Private lists are only returned if the logged-in user is allowed to see them.
+ * 
+ * @param userId - The AniList user ID
+ * @param type - ANIME or MANGA
+ * @throws Error if the request fails
+ */
+export async function fetchMediaListCollection(
+  userId: number,
+  type: 'ANIME' | 'MANGA'
+): Promise<UserMediaListCollection> {
+  console.log(`[fetchMediaListCollection] 🔵 Starting - userId: ${userId}, type: ${type}`);
+  try {
+    incrementRequestCount();
+    console.log(`[fetchMediaListCollection] 📡 Making API request to /api/anilist/media-list-collection?userId=${userId}&type=${type}`);
+
+    const response = await fetch(`/api/anilist/media-list-collection?userId=${userId}&type=${type}`);
+
+    console.log(`[fetchMediaListCollection] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchMediaListCollection');
+    }
+
+    const data: UserMediaListCollection = await response.json();
+    console.log(`[fetchMediaListCollection] ✅ Success - ${data.entries.length} entries`);
+    return data;
+  } catch (error) {
+    console.error('[fetchMediaListCollection] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * One user's entry for one title of a group comparison (see fetchGroupScores).
+ */
+export interface GroupScoreEntry {
+  userId: number;
+  mediaId: number;
+  status: MediaListStatus;
+  score: number; // Always on a 0-100 scale, 0 = not scored
+  rawScore: number; // Score as the user entered it, in their own score format
+  scoreFormat: ScoreFormat;
+  progress: number | null;
+}
+
+export interface GroupScores {
+  media: Array<UserListEntry['media'] & { episodes?: number | null; chapters?: number | null }>;
+  users: AniListUser[]; // Users with at least one of the titles on their list
+  entries: GroupScoreEntry[]; // Users without the title on their list have no entry
+}
+
+/**
+ * Fetch the list entries of several users for several titles at once.
+ * Private lists are only returned if the logged-in user is allowed to see them.
+ * The route fetches larger groups from AniList in chunks of 20 users x 25 media.
+ *
+ * @param userIds - AniList user IDs (up to 50)
+ * @param mediaIds - Media IDs (up to 50)
+ * @throws Error if the request fails
+ */
+export async function fetchGroupScores(userIds: number[], mediaIds: number[]): Promise<GroupScores> {
+  console.log(`[fetchGroupScores] 🔵 Starting - ${userIds.length} users, ${mediaIds.length} media`);
+  try {
+    incrementRequestCount();
+    const params = new URLSearchParams({ userIds: userIds.join(','), mediaIds: mediaIds.join(',') });
+    console.log(`[fetchGroupScores] 📡 Making API request to /api/anilist/group-scores?${params}`);
+
+    const response = await fetch(`/api/anilist/group-scores?${params}`);
+
+    console.log(`[fetchGroupScores] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'fetchGroupScores');
+    }
+
+    const data: GroupScores = await response.json();
+    console.log(`[fetchGroupScores] ✅ Success - ${data.media.length} media, ${data.entries.length} entries`);
+    return data;
+  } catch (error) {
+    console.error('[fetchGroupScores] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * One of the logged-in user's CURRENT/REPEATING anime, as used by the airing calendar.
+ */
+export interface AiringListEntry {
+  id: number;
+  status: MediaListStatus;
+  progress: number | null;
+  media: Media;
+}
+
+export interface AiringScheduleData {
+  entries: AiringListEntry[];
+  schedules: AiringEpisode[]; // Sorted by airing time
+}
+
+/**
+ * Fetch the logged-in user's current anime and the episodes airing in a time window.
+ * 
+ * @param start - Window start (Unix seconds)
+ * @param end - Window end (Unix seconds, at most 14 days after start)
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function fetchAiringSchedule(start: number, end: number): Promise<AiringScheduleData> {
+  console.log(`[fetchAiringSchedule] 🔵 Starting - start: ${start}, end: ${end}`);
+  try {
+    incrementRequestCount();
+    console.log(`[fetchAiringSchedule] 📡 Making API request to /api/anilist/airing?start=${start}&end=${end}`);
+
+    const response = await fetch(`/api/anilist/airing?start=${start}&end=${end}`);
+
+    console.log(`[fetchAiringSchedule] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'fetchAiringSchedule');
+    }
+
+    const data: AiringScheduleData = await response.json();
+    console.log(`[fetchAiringSchedule] ✅ Success - ${data.entries.length} titles, ${data.schedules.length} episodes`);
+    return data;
+  } catch (error) {
+    console.error('[fetchAiringSchedule] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Toggle like status for an activity.
+ * 
+ * @param activityId - The ID of the activity to like/unlike
+ * @param activityType - The type of the activity (TEXT, LIST, MESSAGE, etc.)
+ * @returns Object with updated like status and count, or null on error
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function toggleActivityLike(
+  activityId: number,
+  activityType?: string
+): Promise<{ id: number; isLiked: boolean; likeCount: number } | null> {
+  console.log(`[toggleActivityLike] 🔵 Starting - activityId: ${activityId}, activityType: ${activityType || 'unknown'}`);
+  try {
+    incrementRequestCount();
+    console.log(`[toggleActivityLike] 📡 Making API request to /api/anilist/activity-like`);
+    
+    const response = await fetch('/api/anilist/activity-like', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ activityId, activityType }),
+    });
+    
+    console.log(`[toggleActivityLike] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      handleHttpError(response, errorData, 'toggleActivityLike');
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Error toggling activity reply like:', error);
+    throw error;
+  }
+}
+
+/**
+ * Toggle like status for an activity reply (comment).
+ * 
+ * @param replyId - The ID of the reply/comment to like/unlike
+ * @returns Object with updated like status and count, or null on error
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function toggleActivityReplyLike(
+  replyId: number
 ): Promise<{ id: number; isLiked: boolean; likeCount: number } | null> {
   console.log(`[toggleActivityReplyLike] 🔵 Starting - replyId: ${replyId}`);
   try {
@@ -934,7 +1684,6 @@ export async function toggleActivityReplyLike(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
       },
       body: JSON.stringify({ activityId: replyId, activityType: 'ACTIVITY_REPLY' }),
     });
@@ -944,7 +1693,7 @@ export async function toggleActivityReplyLike(
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       if (response.status === 401) {
-        throw new Error('UNAUTHORIZED: Invalid or expired token');
+        throw sessionExpiredError();
       }
       
       // Build a descriptive error message
@@ -968,3 +1717,355 @@ export async function toggleActivityReplyLike(
     throw error;
   }
 }
+
+/**
+ * Post a reply on an activity as the logged-in user, or edit one of their replies.
+ * 
+ * @param activityId - The activity to reply to
+ * @param text - Reply text (AniList markdown)
+ * @param replyId - Existing reply to edit (omit to post a new reply)
+ * @returns The saved reply
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function saveActivityReply(
+  activityId: number,
+  text: string,
+  replyId?: number
+): Promise<ActivityComment> {
+  console.log(`[saveActivityReply] 🔵 Starting - activityId: ${activityId}, replyId: ${replyId || 'new'}`);
+  try {
+    incrementRequestCount();
+    console.log('[saveActivityReply] 📡 Making API request to /api/anilist/activity-reply');
+
+    const response = await fetch('/api/anilist/activity-reply', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ activityId, id: replyId, text }),
+    });
+
+    console.log(`[saveActivityReply] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'saveActivityReply');
+    }
+
+    const reply: ActivityComment = await response.json();
+    console.log(`[saveActivityReply] ✅ Success - reply ${reply.id}`);
+    return reply;
+  } catch (error) {
+    console.error('[saveActivityReply] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete one of the logged-in user's replies.
+ * 
+ * @returns true if AniList deleted the reply
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function deleteActivityReply(replyId: number): Promise<boolean> {
+  console.log(`[deleteActivityReply] 🔵 Starting - replyId: ${replyId}`);
+  try {
+    incrementRequestCount();
+    console.log(`[deleteActivityReply] 📡 Making API request to /api/anilist/activity-reply?id=${replyId}`);
+
+    const response = await fetch(`/api/anilist/activity-reply?id=${replyId}`, {
+      method: 'DELETE',
+    });
+
+    console.log(`[deleteActivityReply] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'deleteActivityReply');
+    }
+
+    const data: { deleted: boolean } = await response.json();
+    console.log(`[deleteActivityReply] ✅ Success - deleted: ${data.deleted}`);
+    return data.deleted;
+  } catch (error) {
+    console.error('[deleteActivityReply] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Post a text activity (status) as the logged-in user, or edit one of theirs.
+ * 
+ * @param text - Status text (AniList markdown)
+ * @param activityId - Existing text activity to edit (omit to post a new one)
+ * @returns The saved activity, in the same shape as the activities feed
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function saveTextActivity(text: string, activityId?: number): Promise<ActivityStatus> {
+  console.log(`[saveTextActivity] 🔵 Starting - activityId: ${activityId || 'new'}`);
+  try {
+    incrementRequestCount();
+    console.log('[saveTextActivity] 📡 Making API request to /api/anilist/text-activity');
+
+    const response = await fetch('/api/anilist/text-activity', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id: activityId, text }),
+    });
+
+    console.log(`[saveTextActivity] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'saveTextActivity');
+    }
+
+    const activity: ActivityStatus = await response.json();
+    console.log(`[saveTextActivity] ✅ Success - activity ${activity.id}`);
+    return activity;
+  } catch (error) {
+    console.error('[saveTextActivity] ❌ Error:', error);
+    throw error;
+  }
+}
+
+export type NotificationType =
+  | 'ACTIVITY_LIKE'
+  | 'ACTIVITY_REPLY_LIKE'
+  | 'ACTIVITY_REPLY'
+  | 'ACTIVITY_REPLY_SUBSCRIBED'
+  | 'ACTIVITY_MENTION'
+  | 'ACTIVITY_MESSAGE'
+  | 'AIRING'
+  | 'FOLLOWING'
+  | 'RELATED_MEDIA_ADDITION'
+  | 'MEDIA_DATA_CHANGE'
+  | 'MEDIA_MERGE'
+  | 'MEDIA_DELETION';
+
+/**
+ * One of the logged-in user's notifications, flattened from AniList's
+ * Notification union. `text` is the full sentence AniList would show.
+ */
+export interface AniListNotification {
+  id: number;
+  type: NotificationType;
+  createdAt: number; // Unix timestamp (seconds)
+  text: string;
+  reason?: string; // Moderator note on media changes
+  activityId?: number;
+  user?: {
+    id: number;
+    name: string;
+    avatar?: {
+      medium?: string;
+    };
+  };
+  media?: {
+    id: number;
+    type?: string;
+    title?: {
+      romaji?: string;
+      english?: string;
+    };
+    coverImage?: {
+      medium?: string;
+    };
+  };
+}
+
+export interface NotificationPage {
+  notifications: AniListNotification[];
+  pageInfo: {
+    currentPage: number;
+    hasNextPage: boolean;
+  };
+  unreadCount: number;
+}
+
+/**
+ * Fetch a page of the logged-in user's notifications (does not mark them read).
+ * 
+ * @param page - Page number (1-based)
+ * @param perPage - Results per page (max 50)
+ * @param types - Only return these notification types (omit for all)
+ * @returns The notifications page and the current unread count
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function fetchNotifications(
+  page: number = 1,
+  perPage: number = 20,
+  types?: NotificationType[]
+): Promise<NotificationPage> {
+  console.log(`[fetchNotifications] 🔵 Starting - page: ${page}, types: ${types?.join(',') || 'all'}`);
+  try {
+    incrementRequestCount();
+    const params = new URLSearchParams({ page: page.toString(), perPage: perPage.toString() });
+    if (types && types.length > 0) {
+      params.set('types', types.join(','));
+    }
+    console.log(`[fetchNotifications] 📡 Making API request to /api/anilist/notifications?${params}`);
+
+    const response = await fetch(`/api/anilist/notifications?${params}`);
+
+    console.log(`[fetchNotifications] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'fetchNotifications');
+    }
+
+    const data: NotificationPage = await response.json();
+    console.log(`[fetchNotifications] ✅ Success - ${data.notifications.length} notifications, ${data.unreadCount} unread`);
+    return data;
+  } catch (error) {
+    console.error('[fetchNotifications] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the logged-in user's unread notification count.
+ * Errors are not toasted: the badge is refreshed in the background.
+ * 
+ * @returns The unread count
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function fetchUnreadNotificationCount(): Promise<number> {
+  incrementRequestCount();
+  // Polled for the badge: always ask the server, never a cached copy
+  const response = await fetch('/api/anilist/notifications?countOnly=true', { cache: 'no-store' });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw sessionExpiredError(await response.json().catch(() => ({})), true);
+    }
+    throw new Error(`HTTP Error: ${response.status}`);
+  }
+
+  const data: { unreadCount: number } = await response.json();
+  return data.unreadCount;
+}
+
+/**
+ * Mark all of the logged-in user's notifications as read.
+ * 
+ * @throws Error if the request fails or the session is missing/expired
+ */
+export async function markNotificationsRead(): Promise<void> {
+  console.log('[markNotificationsRead] 🔵 Starting');
+  try {
+    incrementRequestCount();
+    const response = await fetch('/api/anilist/notifications', { method: 'POST' });
+
+    console.log(`[markNotificationsRead] 📥 Response received - status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw sessionExpiredError();
+      }
+      handleHttpError(response, errorData, 'markNotificationsRead');
+    }
+
+    console.log('[markNotificationsRead] ✅ Notifications marked as read');
+  } catch (error) {
+    console.error('[markNotificationsRead] ❌ Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Login state of the current browser.
+ * The access token itself stays server-side behind an httpOnly session cookie.
+ */
+export interface AuthSession {
+  user: AniListUser | null;
+  expiresAt?: string; // ISO date
+  accounts?: AuthAccount[]; // Every account logged in on this browser, active one included
+}
+
+export interface AuthAccount {
+  user: AniListUser;
+  expiresAt: string; // ISO date
+}
+
+/**
+ * Get the logged-in AniList user from the server session.
+ * 
+ * @returns The session (with `user: null` when logged out)
+ * @throws Error if the session endpoint can't be reached
+ */
+export async function fetchAuthSession(): Promise<AuthSession> {
+  console.log('[fetchAuthSession] 🔵 Starting');
+  const response = await fetch('/api/anilist/auth/session', { cache: 'no-store' });
+
+  if (!response.ok) {
+    throw new Error(`HTTP Error: ${response.status}`);
+  }
+
+  const data: AuthSession = await response.json();
+  console.log(`[fetchAuthSession] ✅ ${data.user ? `Logged in as ${data.user.name}` : 'Not logged in'}`);
+  return data;
+}
+
+/**
+ * Revoke the active server session and clear its cookie.
+ * 
+ * @param all - Log every account out instead of only the active one
+ * @returns The account that became active, or null when none is left
+ */
+export async function logoutSession(all: boolean = false): Promise<AniListUser | null> {
+  console.log('[logoutSession] 🔵 Starting');
+  try {
+    const response = await fetch(`/api/anilist/auth/logout${all ? '?all=true' : ''}`, { method: 'POST' });
+    const data: { user?: AniListUser | null } = await response.json().catch(() => ({}));
+    console.log(`[logoutSession] ✅ Logged out${data.user ? `, now logged in as ${data.user.name}` : ''}`);
+    return data.user ?? null;
+  } catch (error) {
+    console.error('[logoutSession] ❌ Error:', error);
+    return null;
+  }
+}
+
+/**
+ * Make another account logged in on this browser the active one.
+ * 
+ * @param userId - AniList user ID of the account
+ * @returns The now active user
+ * @throws Error if the account is not logged in anymore
+ */
+export async function switchAuthAccount(userId: number): Promise<AniListUser> {
+  console.log(`[switchAuthAccount] 🔵 Switching to user ${userId}`);
+  const response = await fetch('/api/anilist/auth/switch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error('UNAUTHORIZED: Invalid or expired session');
+    }
+    const errorData = await response.json().catch(() => ({}));
+    handleHttpError(response, errorData, 'switchAuthAccount');
+  }
+
+  const data: { user: AniListUser } = await response.json();
+  console.log(`[switchAuthAccount] ✅ Now logged in as ${data.user.name}`);
+  return data.user;
+}
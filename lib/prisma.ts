@@ -0,0 +1,24 @@
+// Shared Prisma client (server-side)
+//
+// The database is optional: when DATABASE_URL is not set, `prisma` is null and
+// callers fall back to in-memory storage.
+
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+function createPrismaClient(): PrismaClient | null {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    return null;
+  }
+  return new PrismaClient({ adapter: new PrismaPg({ connectionString }) });
+}
+
+// Reuse the client across hot reloads in development
+export const prisma: PrismaClient | null = globalForPrisma.prisma ?? createPrismaClient();
+
+if (prisma && process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "AniListSession" (
+    "id" TEXT NOT NULL,
+    "accessToken" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "userName" TEXT NOT NULL,
+    "userAvatar" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AniListSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AniListSession_userId_idx" ON "AniListSession"("userId");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "AniListCacheEntry" (
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "tags" TEXT[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AniListCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "AniListCacheEntry_expiresAt_idx" ON "AniListCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "AniListCacheEntry_tags_idx" ON "AniListCacheEntry" USING GIN ("tags");
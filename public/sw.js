@@ -4,6 +4,15 @@
 const CACHE_NAME = 'anilist-tools-v1';
 const API_CACHE_NAME = 'anilist-api-v1';
 
+// Logging in (OAuth callback), switching account and logging out change whose
+// data the API routes return (timeline, notifications, the viewer's list
+// entries...), so the API cache is dropped before these requests go through.
+const AUTH_CHANGE_PATHS = [
+  '/api/anilist/auth/callback',
+  '/api/anilist/auth/switch',
+  '/api/anilist/auth/logout'
+];
+
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -37,11 +46,32 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
   
-  // Only cache GET requests
+  if (AUTH_CHANGE_PATHS.includes(url.pathname)) {
+    event.respondWith(caches.delete(API_CACHE_NAME).then(() => fetch(event.request)));
+    return;
+  }
+
+  // Only cache GET requests. Mutations (likes, list edits...) make the cached
+  // API responses stale, so drop them.
   if (event.request.method !== 'GET') {
+    if (url.pathname.startsWith('/api/anilist/')) {
+      event.waitUntil(caches.delete(API_CACHE_NAME));
+    }
     return;
   }
-  
+
+  // Never cache login state (session check, OAuth redirects)
+  if (url.pathname.startsWith('/api/anilist/auth/')) {
+    return;
+  }
+
+  // Notifications are polled for the unread badge and marked read from the
+  // panel, so a cached copy would show a count that is already out of date.
+  // Requests that ask for no-store (cache: 'no-store') skip this cache too.
+  if (url.pathname.startsWith('/api/anilist/notifications') || event.request.cache === 'no-store') {
+    return;
+  }
+
   // Cache API responses with TTL
   if (url.pathname.startsWith('/api/anilist/')) {
     event.respondWith(
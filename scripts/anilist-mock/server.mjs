@@ -0,0 +1,236 @@
+// Local mock of the AniList GraphQL API and OAuth endpoints
+//
+// Serves the JSON fixtures of ./fixtures so the /api/anilist/* routes can be
+// exercised offline. Start it with `npm run mock:anilist`, then run the app with:
+//
+//   ANILIST_API_URL=http://localhost:4000/graphql
+//   ANILIST_OAUTH_URL=http://localhost:4000/oauth
+//   ANILIST_CLIENT_ID=mock ANILIST_CLIENT_SECRET=mock
+//
+// GraphQL requests are answered with the first fixture whose pattern matches
+// the query. POST /__scenario { "scenario": "rate-limited" } makes every
+// following request fail the same way until the scenario is set back to "ok":
+//   ok | unauthorized (401) | rate-limited (429) | server-error (500) | malformed (invalid JSON)
+// MOCK_ANILIST_PORT and MOCK_ANILIST_RETRY_AFTER (seconds announced by
+// rate-limited) override the defaults.
+//
+// GET /__requests lists the GraphQL operations received since the scenario
+// was last set (the route tests use it to check chunking and caching).
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = parseInt(process.env.MOCK_ANILIST_PORT || '4000', 10);
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+// Checked in order: mutations first, then the most specific Page connections
+const GRAPHQL_FIXTURES = [
+  { pattern: /\bToggleLike\s*\(/, fixture: 'toggle-like.json' },
+  { pattern: /\bToggleFollow\s*\(/, fixture: 'toggle-follow.json' },
+  { pattern: /\bSaveMediaListEntry\s*\(/, fixture: 'save-media-list-entry.json' },
+  { pattern: /\bDeleteMediaListEntry\s*\(/, fixture: 'delete-media-list-entry.json' },
+  { pattern: /\bSaveActivityReply\s*\(/, fixture: 'save-activity-reply.json' },
+  { pattern: /\bDeleteActivityReply\s*\(/, fixture: 'delete-activity-reply.json' },
+  { pattern: /\bSaveTextActivity\s*\(/, fixture: 'save-text-activity.json' },
+  // Aliased queries: keyed by user 1002/1003 and activities 700000001/700000002
+  { pattern: /\bGetLastActivities\b/, fixture: 'last-activities.json' },
+  { pattern: /\bGetActivitiesReplies\b/, fixture: 'activities-replies.json' },
+  { pattern: /\bnotifications\s*\(/, fixture: 'notifications.json' },
+  { pattern: /\bairingSchedules\s*\(/, fixture: 'airing-schedules.json' },
+  { pattern: /\bMediaListCollection\s*\(/, fixture: 'media-list-collection.json' },
+  { pattern: /\bmediaList\s*\(/, fixture: 'media-list.json' },
+  // Before following(: the media-with-scores query asks for Media, Viewer and FollowingPage at once
+  { pattern: /\bMedia\s*\(/, fixture: 'media.json' },
+  { pattern: /\bmedia\s*\(/, fixture: 'media-page.json' },
+  { pattern: /\bfollowers\s*\(/, fixture: 'followers.json' },
+  { pattern: /\bfollowing\s*\(/, fixture: 'following.json' },
+  { pattern: /\bactivities\s*\(/, fixture: 'activities.json' },
+  { pattern: /\bActivityReply\s*\(/, fixture: 'activity-reply.json' },
+  { pattern: /\bActivity\s*\(/, fixture: 'activity.json' },
+  { pattern: /\bUser\s*\(/, fixture: 'user.json' },
+  { pattern: /\bViewer\b/, fixture: 'viewer.json' },
+];
+
+const SCENARIOS = ['ok', 'unauthorized', 'rate-limited', 'server-error', 'malformed'];
+// Seconds announced in Retry-After by the rate-limited scenario
+const RETRY_AFTER_SECONDS = parseInt(process.env.MOCK_ANILIST_RETRY_AFTER || '5', 10);
+
+let scenario = process.env.MOCK_ANILIST_SCENARIO || 'ok';
+// GraphQL operations received since the scenario was last set
+let requests = [];
+
+function loadFixture(name) {
+  return JSON.parse(readFileSync(new URL(name, FIXTURES_DIR), 'utf8'));
+}
+
+// Page.activities honours the type filters, like AniList: the `type` variable
+// (type argument) or the `types` variable (type_in argument)
+function filterActivities(fixture, variables) {
+  const page = fixture.data?.Page;
+  const types = variables?.types ?? (variables?.type ? [variables.type] : null);
+  if (!page?.activities || !types) return fixture;
+  page.activities = page.activities.filter((activity) => types.includes(activity.type));
+  return fixture;
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+// Same shapes as the real API for each failure, so the routes' error paths are exercised
+function sendScenarioError(res) {
+  switch (scenario) {
+    case 'unauthorized':
+      sendJson(res, 401, { data: null, errors: [{ message: 'Invalid token', status: 401 }] });
+      return true;
+    case 'rate-limited':
+      sendJson(
+        res,
+        429,
+        { data: null, errors: [{ message: 'Too Many Requests.', status: 429 }] },
+        { 'Retry-After': String(RETRY_AFTER_SECONDS), 'X-RateLimit-Limit': '90', 'X-RateLimit-Remaining': '0' }
+      );
+      return true;
+    case 'server-error':
+      sendJson(res, 500, { data: null, errors: [{ message: 'Internal Server Error', status: 500 }] });
+      return true;
+    case 'malformed':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"data": {');
+      return true;
+    default:
+      return false;
+  }
+}
+
+// "GetFollowing" for `query GetFollowing(...)`, the first line for anonymous queries
+function getOperationName(query) {
+  return query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1] || query.trim().split('\n')[0];
+}
+
+async function handleGraphQL(req, res) {
+  let query = '';
+  let variables;
+  try {
+    ({ query = '', variables } = JSON.parse(await readBody(req)));
+  } catch {
+    sendJson(res, 400, { data: null, errors: [{ message: 'Invalid JSON body', status: 400 }] });
+    return;
+  }
+  requests.push({ operation: getOperationName(query), variables: variables ?? null });
+
+  if (sendScenarioError(res)) {
+    console.log(`[mock] ⚠️ ${scenario} -> ${query.trim().split('\n')[0]}`);
+    return;
+  }
+
+  const match = GRAPHQL_FIXTURES.find((item) => item.pattern.test(query));
+  if (!match) {
+    console.warn(`[mock] ❌ No fixture for: ${query.trim().split('\n')[0]}`);
+    sendJson(res, 400, { data: null, errors: [{ message: 'No mock fixture for this query', status: 400 }] });
+    return;
+  }
+
+  console.log(`[mock] ✅ ${match.fixture}`);
+  sendJson(res, 200, filterActivities(loadFixture(match.fixture), variables), {
+    'X-RateLimit-Limit': '90',
+    'X-RateLimit-Remaining': '89',
+  });
+}
+
+// Skips the consent screen: straight back to the app with a code
+function handleAuthorize(url, res) {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  if (!redirectUri) {
+    sendJson(res, 400, { error: 'invalid_request', hint: 'redirect_uri is required' });
+    return;
+  }
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', 'mock-authorization-code');
+  const state = url.searchParams.get('state');
+  if (state) {
+    target.searchParams.set('state', state);
+  }
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const body = await readBody(req).catch(() => '');
+  let code;
+  try {
+    code = JSON.parse(body).code;
+  } catch {
+    code = undefined;
+  }
+  if (!code) {
+    sendJson(res, 400, { error: 'invalid_request', hint: 'code is required' });
+    return;
+  }
+  if (scenario === 'unauthorized') {
+    sendJson(res, 401, { error: 'invalid_client' });
+    return;
+  }
+  sendJson(res, 200, loadFixture('oauth-token.json'));
+}
+
+async function handleScenario(req, res) {
+  let next;
+  try {
+    next = JSON.parse(await readBody(req)).scenario;
+  } catch {
+    next = undefined;
+  }
+  if (!SCENARIOS.includes(next)) {
+    sendJson(res, 400, { error: `scenario must be one of: ${SCENARIOS.join(', ')}` });
+    return;
+  }
+  scenario = next;
+  requests = [];
+  console.log(`[mock] 🔀 Scenario: ${scenario}`);
+  sendJson(res, 200, { scenario });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const route = `${req.method} ${url.pathname}`;
+
+  const handled = (() => {
+    switch (route) {
+      case 'POST /graphql':
+      case 'POST /':
+        return handleGraphQL(req, res);
+      case 'GET /oauth/authorize':
+        return handleAuthorize(url, res);
+      case 'POST /oauth/token':
+        return handleToken(req, res);
+      case 'GET /__scenario':
+        return sendJson(res, 200, { scenario });
+      case 'POST /__scenario':
+        return handleScenario(req, res);
+      case 'GET /__requests':
+        return sendJson(res, 200, { requests });
+      default:
+        return sendJson(res, 404, { error: `No mock route for ${route}` });
+    }
+  })();
+
+  Promise.resolve(handled).catch((error) => {
+    console.error('[mock] ❌', error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Mock server error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock] 🚀 AniList mock listening on http://localhost:${PORT} (scenario: ${scenario})`);
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function getActivities(path: string, token?: string) {
+  const { GET } = await import('@/app/api/anilist/activities/route');
+  return GET(apiRequest(path, { token }));
+}
+
+describe('GET /api/anilist/activities', () => {
+  it("returns a user's activities", async () => {
+    const response = await getActivities('/api/anilist/activities?userId=1002');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.activities.map((activity: { id: number }) => activity.id)).toEqual([700000002, 700000001]);
+    expect(body.pageInfo).toMatchObject({ hasNextPage: false });
+  });
+
+  it('returns the timeline of followed users when logged in', async () => {
+    const response = await getActivities('/api/anilist/activities?following=true', MOCK_TOKEN);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).activities).toHaveLength(2);
+  });
+
+  it('returns 400 without userId or following', async () => {
+    const response = await getActivities('/api/anilist/activities');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for an inverted date range', async () => {
+    const response = await getActivities('/api/anilist/activities?userId=1002&createdAt_greater=200&createdAt_lesser=100');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 for the following timeline when logged out', async () => {
+    const response = await getActivities('/api/anilist/activities?following=true');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getActivities('/api/anilist/activities?userId=1002'));
+});
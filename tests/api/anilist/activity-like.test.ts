@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function toggleLike(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/activity-like/route');
+  return POST(apiRequest('/api/anilist/activity-like', { method: 'POST', body, token }));
+}
+
+describe('POST /api/anilist/activity-like', () => {
+  it('toggles the like and returns the new like state', async () => {
+    const response = await toggleLike({ activityId: 700000002, activityType: 'ANIME_LIST' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 700000002, isLiked: true, likeCount: 4 });
+    expect((await getMockRequests()).map((request) => request.operation)).toEqual(['ToggleLike', 'GetActivity']);
+  });
+
+  it('reads the reply back for reply likes', async () => {
+    const response = await toggleLike({ activityId: 800000001, activityType: 'ACTIVITY_REPLY' });
+
+    expect(await response.json()).toEqual({ id: 800000001, isLiked: true, likeCount: 1 });
+    expect((await getMockRequests())[0].variables).toMatchObject({ type: 'ACTIVITY_REPLY' });
+  });
+
+  it('returns 400 without an activity ID', async () => {
+    const response = await toggleLike({});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await toggleLike({ activityId: 700000002 }, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => toggleLike({ activityId: 700000002, activityType: 'TEXT' }));
+});
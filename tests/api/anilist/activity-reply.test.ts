@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function saveReply(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/activity-reply/route');
+  return POST(apiRequest('/api/anilist/activity-reply', { method: 'POST', body, token }));
+}
+
+async function deleteReply(path: string, token: string | undefined = MOCK_TOKEN) {
+  const { DELETE } = await import('@/app/api/anilist/activity-reply/route');
+  return DELETE(apiRequest(path, { method: 'DELETE', token }));
+}
+
+describe('POST /api/anilist/activity-reply', () => {
+  it('returns the saved reply', async () => {
+    const response = await saveReply({ activityId: 700000002, text: 'Agreed!' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 800000002, activityId: 700000002, rawText: 'Agreed!' });
+  });
+
+  it('returns 400 without text', async () => {
+    const response = await saveReply({ activityId: 700000002, text: '  ' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for an invalid activity ID', async () => {
+    const response = await saveReply({ activityId: 'abc', text: 'Agreed!' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await saveReply({ activityId: 700000002, text: 'Agreed!' }, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => saveReply({ activityId: 700000002, text: 'Agreed!' }));
+});
+
+describe('DELETE /api/anilist/activity-reply', () => {
+  it('deletes the reply', async () => {
+    const response = await deleteReply('/api/anilist/activity-reply?id=800000002');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ deleted: true });
+  });
+
+  it('returns 400 without an id', async () => {
+    const response = await deleteReply('/api/anilist/activity-reply');
+
+    expect(response.status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => deleteReply('/api/anilist/activity-reply?id=800000002'));
+});
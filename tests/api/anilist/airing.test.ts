@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+const START = 1761000000;
+const END = START + 7 * 24 * 60 * 60;
+
+async function getAiring(path: string, token: string | undefined = MOCK_TOKEN) {
+  const { GET } = await import('@/app/api/anilist/airing/route');
+  return GET(apiRequest(path, { token }));
+}
+
+describe('GET /api/anilist/airing', () => {
+  it("returns the viewer's current anime and their episodes in the window", async () => {
+    const response = await getAiring(`/api/anilist/airing?start=${START}&end=${END}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    // The custom list repeats ONE PIECE: it is only listed once
+    expect(body.entries.filter((entry: { media: { id: number } }) => entry.media.id === 21)).toHaveLength(1);
+    expect(body.schedules).toEqual([{ id: 400001, airingAt: 1761465600, episode: 1150, mediaId: 21 }]);
+  });
+
+  it('caches the schedules without the token', async () => {
+    await getAiring(`/api/anilist/airing?start=${START}&end=${END}`);
+    const response = await getAiring(`/api/anilist/airing?start=${START}&end=${END}`, 'another-token');
+
+    // Viewer and list are per token; the schedules are shared
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const operations = (await getMockRequests()).map((request) => request.operation);
+    expect(operations.filter((operation) => operation === 'GetAiringSchedules')).toHaveLength(1);
+  });
+
+  it('returns 400 for a window longer than 14 days', async () => {
+    const response = await getAiring(`/api/anilist/airing?start=${START}&end=${START + 15 * 24 * 60 * 60}`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 without a window', async () => {
+    const response = await getAiring('/api/anilist/airing');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await getAiring(`/api/anilist/airing?start=${START}&end=${END}`, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getAiring(`/api/anilist/airing?start=${START}&end=${END}`));
+});
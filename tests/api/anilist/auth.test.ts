@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { NextResponse } from 'next/server';
+import { apiRequest } from '../../helpers';
+import { setScenario } from '../../mock-anilist';
+
+/** Cookie header sending back the cookies a response set */
+function cookiesOf(response: NextResponse): string {
+  return response.cookies.getAll()
+    .map((cookie) => `${cookie.name}=${encodeURIComponent(cookie.value)}`)
+    .join('; ');
+}
+
+// State that /auth/authorize stored in the browser and AniList sends back
+const OAUTH_STATE = 'mock-oauth-state';
+const LOGIN_CALLBACK = `/api/anilist/auth/callback?code=mock-authorization-code&state=${OAUTH_STATE}`;
+
+async function callback(path: string, cookie = `anilist_oauth_state=${OAUTH_STATE}`) {
+  const { GET } = await import('@/app/api/anilist/auth/callback/route');
+  return GET(apiRequest(path, { headers: { Cookie: cookie } }));
+}
+
+async function getSession(cookie: string) {
+  const { GET } = await import('@/app/api/anilist/auth/session/route');
+  return GET(apiRequest('/api/anilist/auth/session', { headers: { Cookie: cookie } }));
+}
+
+describe('GET /api/anilist/auth/authorize', () => {
+  it('redirects to the OAuth authorize endpoint and remembers where to come back', async () => {
+    const { GET } = await import('@/app/api/anilist/auth/authorize/route');
+    const response = await GET(apiRequest('/api/anilist/auth/authorize?returnTo=/anilist/airing'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toMatch(/^http:\/\/localhost:4010\/oauth\/authorize\?client_id=mock&/);
+    const state = response.cookies.get('anilist_oauth_state')?.value;
+    expect(state).toBeTruthy();
+    expect(new URL(response.headers.get('location')!).searchParams.get('state')).toBe(state);
+    expect(response.cookies.get('anilist_oauth_return_to')?.value).toBe('/anilist/airing');
+  });
+
+  it('ignores a returnTo pointing to another host', async () => {
+    const { GET } = await import('@/app/api/anilist/auth/authorize/route');
+    const response = await GET(apiRequest('/api/anilist/auth/authorize?returnTo=//evil.example'));
+
+    expect(response.cookies.get('anilist_oauth_return_to')?.value).toBe('');
+  });
+});
+
+describe('GET /api/anilist/auth/callback', () => {
+  it('logs the viewer in and redirects back', async () => {
+    const response = await callback(LOGIN_CALLBACK);
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?auth_success=true');
+    expect(response.cookies.get('anilist_session')?.value).toBeTruthy();
+
+    const session = await getSession(cookiesOf(response));
+    expect(await session.json()).toMatchObject({ user: { id: 1001, name: 'MockViewer' }, accounts: [{ user: { id: 1001 } }] });
+  });
+
+  it('redirects with an error without a code', async () => {
+    const response = await callback('/api/anilist/auth/callback');
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?error=no_code');
+  });
+
+  it('refuses a callback without the state of this browser', async () => {
+    for (const response of [
+      await callback('/api/anilist/auth/callback?code=mock-authorization-code'),
+      await callback('/api/anilist/auth/callback?code=mock-authorization-code&state=other-state'),
+      await callback(LOGIN_CALLBACK, ''),
+    ]) {
+      expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?error=invalid_state');
+      expect(response.cookies.get('anilist_session')).toBeUndefined();
+    }
+  });
+
+  it('redirects with an error when the token exchange is refused', async () => {
+    await setScenario('unauthorized');
+    const response = await callback(LOGIN_CALLBACK);
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?error=token_exchange_failed');
+  });
+
+  it('redirects with an error when the viewer cannot be fetched (rate limit)', async () => {
+    await setScenario('rate-limited');
+    const response = await callback(LOGIN_CALLBACK);
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?error=user_fetch_failed');
+    expect(response.cookies.get('anilist_session')).toBeUndefined();
+  });
+
+  it('redirects with an error when the viewer cannot be fetched (malformed response)', async () => {
+    await setScenario('malformed');
+    const response = await callback(LOGIN_CALLBACK);
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/anilist?error=user_fetch_failed');
+  });
+});
+
+describe('GET /api/anilist/auth/session', () => {
+  it('returns no user without a session', async () => {
+    const response = await getSession('');
+
+    expect(await response.json()).toEqual({ user: null, accounts: [] });
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+});
+
+describe('POST /api/anilist/auth/switch', () => {
+  async function switchAccount(body: unknown, cookie: string) {
+    const { POST } = await import('@/app/api/anilist/auth/switch/route');
+    return POST(apiRequest('/api/anilist/auth/switch', { method: 'POST', body, headers: { Cookie: cookie } }));
+  }
+
+  it('switches to an account logged in on this browser', async () => {
+    const login = await callback(LOGIN_CALLBACK);
+    const response = await switchAccount({ userId: 1001 }, cookiesOf(login));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ user: { id: 1001 } });
+    expect(response.cookies.get('anilist_session')?.value).toBe(login.cookies.get('anilist_session')?.value);
+  });
+
+  it('returns 400 without a userId', async () => {
+    const response = await switchAccount({}, '');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 for an account that is not logged in', async () => {
+    const login = await callback(LOGIN_CALLBACK);
+    const response = await switchAccount({ userId: 1002 }, cookiesOf(login));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
+
+describe('POST /api/anilist/auth/logout', () => {
+  it('revokes the session and clears the cookies', async () => {
+    const login = await callback(LOGIN_CALLBACK);
+    const { POST } = await import('@/app/api/anilist/auth/logout/route');
+    const response = await POST(apiRequest('/api/anilist/auth/logout', { method: 'POST', headers: { Cookie: cookiesOf(login) } }));
+
+    expect(await response.json()).toEqual({ success: true, user: null });
+    expect(response.cookies.get('anilist_session')?.value).toBe('');
+
+    // The old cookie no longer resolves to a session
+    const session = await getSession(cookiesOf(login));
+    expect((await session.json()).user).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getExport(path: string) {
+  const { GET } = await import('@/app/api/anilist/export/route');
+  return GET(apiRequest(path));
+}
+
+describe('GET /api/anilist/export', () => {
+  it('exports a MAL XML file, leaving out titles without a MAL ID', async () => {
+    const response = await getExport('/api/anilist/export?username=MockFriend&format=xml&type=ANIME');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="MockFriend_anime_mal.xml"');
+    expect(response.headers.get('X-Skipped-Entries')).toBe('1');
+    const xml = await response.text();
+    expect(xml.match(/<anime>/g)).toHaveLength(3);
+    expect(xml).toContain('<series_animedb_id>1535</series_animedb_id>');
+    // MAL type names, not AniList formats
+    expect(xml).toContain('<series_type>TV</series_type>');
+    expect(xml).toContain('<series_type>Movie</series_type>');
+    expect(xml).not.toContain('<series_type>MOVIE</series_type>');
+  });
+
+  it('exports anime and manga together as CSV', async () => {
+    const response = await getExport('/api/anilist/export?username=MockFriend&format=csv');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect((await response.text()).split('\n')[0]).toMatch(/^type,anilist_id,mal_id,title,/);
+    expect((await getMockRequests()).map((request) => request.variables?.type)).toEqual(['ANIME', 'MANGA']);
+  });
+
+  it('always asks AniList (exports are not cached)', async () => {
+    await getExport('/api/anilist/export?username=MockFriend&format=csv&type=ANIME');
+    await getExport('/api/anilist/export?username=MockFriend&format=csv&type=ANIME');
+
+    expect(await getMockRequests()).toHaveLength(2);
+  });
+
+  it('returns 400 without a username', async () => {
+    const response = await getExport('/api/anilist/export?format=csv');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for a MAL XML export without a type', async () => {
+    const response = await getExport('/api/anilist/export?username=MockFriend&format=xml');
+
+    expect(response.status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getExport('/api/anilist/export?username=MockFriend&format=csv&type=ANIME'));
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getFeed(username: string, query = '', headers: Record<string, string> = {}) {
+  const { GET } = await import('@/app/api/anilist/feed/[username]/route');
+  return GET(
+    apiRequest(`/api/anilist/feed/${username}${query}`, { headers }),
+    { params: Promise.resolve({ username }) }
+  );
+}
+
+describe('GET /api/anilist/feed/[username]', () => {
+  it("returns the user's activities as RSS", async () => {
+    const response = await getFeed('MockFriend');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/rss+xml; charset=utf-8');
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(response.headers.get('ETag')).toBeTruthy();
+    const rss = await response.text();
+    expect(rss).toContain('<rss version="2.0"');
+    expect(rss.match(/<item>/g)).toHaveLength(2);
+  });
+
+  it('returns Atom with format=atom', async () => {
+    const response = await getFeed('MockFriend', '?format=atom');
+
+    expect(response.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(await response.text()).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+  });
+
+  it('leaves text posts out of a list feed', async () => {
+    const response = await getFeed('MockFriend', '?type=list');
+
+    const rss = await response.text();
+    expect(rss.match(/<item>/g)).toHaveLength(1);
+    expect(rss).not.toContain('Finally caught up');
+    const [, activitiesRequest] = await getMockRequests();
+    expect(activitiesRequest.variables).toMatchObject({ types: ['ANIME_LIST', 'MANGA_LIST'] });
+  });
+
+  it('only has text posts in a text feed', async () => {
+    const rss = await (await getFeed('MockFriend', '?type=text')).text();
+
+    expect(rss.match(/<item>/g)).toHaveLength(1);
+    expect(rss).toContain('Finally caught up');
+  });
+
+  it('answers a conditional request with 304 from the cache', async () => {
+    const first = await getFeed('MockFriend');
+    const response = await getFeed('MockFriend', '', { 'If-None-Match': first.headers.get('ETag')! });
+
+    expect(response.status).toBe(304);
+    expect(response.headers.get('X-Cache')).toBe('HIT');
+    expect(await getMockRequests()).toHaveLength(2);
+  });
+
+  it('returns 400 for a malformed percent escape in the username', async () => {
+    const response = await getFeed('%E0%A4%A');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for an unknown format', async () => {
+    const response = await getFeed('MockFriend', '?format=json');
+
+    expect(response.status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getFeed('MockFriend'));
+});
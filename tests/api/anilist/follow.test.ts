@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function toggleFollow(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/follow/route');
+  return POST(apiRequest('/api/anilist/follow', { method: 'POST', body, token }));
+}
+
+describe('POST /api/anilist/follow', () => {
+  it('returns the new follow state', async () => {
+    const response = await toggleFollow({ userId: 1003 });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 1003, name: 'MockCritic', isFollowing: true, isFollower: false });
+  });
+
+  it("drops the viewer's cached following list", async () => {
+    const { GET } = await import('@/app/api/anilist/following/route');
+    await GET(apiRequest('/api/anilist/following', { token: MOCK_TOKEN }));
+    await toggleFollow({ userId: 1003 });
+    const response = await GET(apiRequest('/api/anilist/following', { token: MOCK_TOKEN }));
+
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect((await getMockRequests()).filter((request) => request.operation === 'GetFollowing')).toHaveLength(2);
+  });
+
+  it('returns 400 without a userId', async () => {
+    const response = await toggleFollow({});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await toggleFollow({ userId: 1003 }, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => toggleFollow({ userId: 1003 }));
+});
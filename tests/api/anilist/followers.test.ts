@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function getFollowers(token: string | undefined = MOCK_TOKEN) {
+  const { GET } = await import('@/app/api/anilist/followers/route');
+  return GET(apiRequest('/api/anilist/followers', { token }));
+}
+
+describe('GET /api/anilist/followers', () => {
+  it("returns the viewer's followers", async () => {
+    const response = await getFollowers();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.users.map((user: { name: string }) => user.name)).toEqual(['MockFriend', 'MockLurker']);
+    expect(body.pageInfo).toEqual({ hasNextPage: false });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getFollowers();
+    const response = await getFollowers();
+
+    expect(response.headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await getFollowers('');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getFollowers());
+});
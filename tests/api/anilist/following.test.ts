@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function getFollowing(token: string | undefined = MOCK_TOKEN) {
+  const { GET } = await import('@/app/api/anilist/following/route');
+  return GET(apiRequest('/api/anilist/following', { token }));
+}
+
+describe('GET /api/anilist/following', () => {
+  it('returns the users the viewer follows', async () => {
+    const response = await getFollowing();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.users.map((user: { id: number }) => user.id)).toEqual([1002, 1003]);
+    expect(body.pageInfo).toEqual({ hasNextPage: false });
+  });
+
+  it('caches per viewer', async () => {
+    await getFollowing();
+
+    expect((await getFollowing()).headers.get('X-Cache')).toBe('HIT');
+    expect((await getFollowing('another-token')).headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await getFollowing('');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getFollowing());
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getGroupScores(query: string) {
+  const { GET } = await import('@/app/api/anilist/group-scores/route');
+  return GET(apiRequest(`/api/anilist/group-scores${query}`));
+}
+
+const ids = (count: number, first = 1) => Array.from({ length: count }, (_, index) => first + index).join(',');
+
+describe('GET /api/anilist/group-scores', () => {
+  it('returns the media, the users with an entry and their scores on 100', async () => {
+    const response = await getGroupScores('?userIds=1002,1003,1004&mediaIds=21,5114');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.media.map((media: { id: number }) => media.id)).toEqual([21, 5114]);
+    expect(body.users.map((user: { name: string }) => user.name)).toEqual(['MockFriend', 'MockCritic']);
+    expect(body.entries[0]).toEqual({
+      userId: 1002,
+      mediaId: 21,
+      status: 'CURRENT',
+      score: 90,
+      rawScore: 9,
+      scoreFormat: 'POINT_10',
+      progress: 5,
+    });
+  });
+
+  it('fetches the entries of large groups in chunks', async () => {
+    const response = await getGroupScores(`?userIds=${ids(21, 1001)}&mediaIds=${ids(26)}`);
+
+    expect(response.status).toBe(200);
+    const operations = (await getMockRequests()).map((request) => request.operation);
+    expect(operations).toEqual(['GetGroupMedia', 'GetGroupEntries', 'GetGroupEntries', 'GetGroupEntries', 'GetGroupEntries']);
+  });
+
+  it('returns 400 without userIds or mediaIds', async () => {
+    expect((await getGroupScores('?userIds=1002')).status).toBe(400);
+    expect((await getGroupScores('?mediaIds=21')).status).toBe(400);
+  });
+
+  it('returns 400 for more than 50 users or media', async () => {
+    expect((await getGroupScores(`?userIds=${ids(51)}&mediaIds=21`)).status).toBe(400);
+    expect((await getGroupScores(`?userIds=1002&mediaIds=${ids(51)}`)).status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getGroupScores('?userIds=1002,1003&mediaIds=21'));
+});
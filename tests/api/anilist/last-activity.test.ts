@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getLastActivity(query: string) {
+  const { GET } = await import('@/app/api/anilist/last-activity/route');
+  return GET(apiRequest(`/api/anilist/last-activity${query}`));
+}
+
+describe('GET /api/anilist/last-activity', () => {
+  it("returns each user's latest activity date, or null", async () => {
+    const response = await getLastActivity('?userIds=1002,1003');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(await response.json()).toEqual({ lastActivity: { 1002: 1760860800, 1003: null } });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getLastActivity('?userIds=1002,1003');
+
+    expect((await getLastActivity('?userIds=1002,1003')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without userIds', async () => {
+    const response = await getLastActivity('?userIds=abc');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for more than 50 users', async () => {
+    const userIds = Array.from({ length: 51 }, (_, index) => 1001 + index).join(',');
+
+    expect((await getLastActivity(`?userIds=${userIds}`)).status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getLastActivity('?userIds=1002,1003'));
+});
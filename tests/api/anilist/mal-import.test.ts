@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+// Same entries as MockFriend's AniList list (media-list-collection fixture),
+// except FMA:B, only on MAL, and a title AniList doesn't have
+const MAL_XML = `<?xml version="1.0" encoding="UTF-8" ?>
+<myanimelist>
+  <myinfo>
+    <user_name>mockfriend</user_name>
+    <user_export_type>1</user_export_type>
+  </myinfo>
+  <anime>
+    <series_animedb_id>21</series_animedb_id>
+    <series_title>One Piece</series_title>
+    <my_watched_episodes>5</my_watched_episodes>
+    <my_score>9</my_score>
+    <my_status>Watching</my_status>
+  </anime>
+  <anime>
+    <series_animedb_id>1535</series_animedb_id>
+    <series_title>Death Note</series_title>
+    <my_watched_episodes>37</my_watched_episodes>
+    <my_score>9</my_score>
+    <my_status>Completed</my_status>
+  </anime>
+  <anime>
+    <series_animedb_id>32281</series_animedb_id>
+    <series_title>Kimi no Na wa.</series_title>
+    <my_watched_episodes>1</my_watched_episodes>
+    <my_score>10</my_score>
+    <my_status>Completed</my_status>
+  </anime>
+  <anime>
+    <series_animedb_id>5114</series_animedb_id>
+    <series_title>Fullmetal Alchemist: Brotherhood</series_title>
+    <my_watched_episodes>64</my_watched_episodes>
+    <my_score>10</my_score>
+    <my_status>Completed</my_status>
+  </anime>
+  <anime>
+    <series_animedb_id>99999</series_animedb_id>
+    <series_title>Not on AniList</series_title>
+    <my_watched_episodes>0</my_watched_episodes>
+    <my_score>0</my_score>
+    <my_status>Plan to Watch</my_status>
+  </anime>
+</myanimelist>`;
+
+async function compare(body: unknown, token?: string) {
+  const { POST } = await import('@/app/api/anilist/mal-import/route');
+  return POST(apiRequest('/api/anilist/mal-import', { method: 'POST', body, token }));
+}
+
+describe('POST /api/anilist/mal-import', () => {
+  it('compares the MAL export with the AniList list', async () => {
+    const response = await compare({ xml: MAL_XML, username: 'MockFriend' });
+
+    expect(response.status).toBe(200);
+    const diff = await response.json();
+    expect(diff).toMatchObject({ type: 'ANIME', userName: 'MockFriend', isViewer: false });
+    expect(diff.onlyInMal.map((entry: { mediaId: number }) => entry.mediaId)).toEqual([5114]);
+    expect(diff.unmapped).toEqual([{ idMal: 99999, title: 'Not on AniList' }]);
+    expect(diff.onlyInAniList.map((entry: { mediaId: number }) => entry.mediaId)).toEqual([170942]);
+    // 85 on AniList exports as 9 on MAL, so Death Note doesn't differ
+    expect(diff.differing).toHaveLength(1);
+    expect(diff.differing[0]).toMatchObject({ mediaId: 21519, differences: ['score'] });
+  });
+
+  it("compares with the viewer's own list when logged in", async () => {
+    const response = await compare({ xml: MAL_XML }, MOCK_TOKEN);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 400 without an export', async () => {
+    const response = await compare({ username: 'MockFriend' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it("returns 400 for a file that isn't a MAL export", async () => {
+    const response = await compare({ xml: '<rss></rss>', username: 'MockFriend' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 401 without a username when logged out', async () => {
+    const response = await compare({ xml: MAL_XML });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  itHandlesAniListErrors(() => compare({ xml: MAL_XML, username: 'MockFriend' }));
+});
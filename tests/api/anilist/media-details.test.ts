@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getMediaDetails(query: string) {
+  const { GET } = await import('@/app/api/anilist/media-details/route');
+  return GET(apiRequest(`/api/anilist/media-details${query}`));
+}
+
+describe('GET /api/anilist/media-details', () => {
+  it('returns the details with flattened connections', async () => {
+    const response = await getMediaDetails('?id=21');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const media = await response.json();
+    expect(media.id).toBe(21);
+    expect(media.studios).toEqual([
+      { id: 18, name: 'Toei Animation', isAnimationStudio: true, siteUrl: 'https://anilist.co/studio/18', isMain: true },
+    ]);
+    expect(media.characters[0]).toEqual({
+      role: 'MAIN',
+      character: { id: 40, name: 'Luffy Monkey', image: null },
+      voiceActors: [{ id: 95011, name: 'Mayumi Tanaka', image: null, language: 'Japanese' }],
+    });
+    expect(media.staff[0]).toMatchObject({ role: 'Original Creator', staff: { id: 96880, name: 'Eiichiro Oda' } });
+  });
+
+  it('drops relations and recommendations to deleted media', async () => {
+    const media = await (await getMediaDetails('?id=21')).json();
+
+    expect(media.relations).toHaveLength(1);
+    expect(media.relations[0]).toMatchObject({ relationType: 'SOURCE', media: { id: 30013 } });
+    expect(media.recommendations).toHaveLength(1);
+    expect(media.recommendations[0]).toMatchObject({ rating: 120, media: { id: 5114 } });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getMediaDetails('?id=21');
+
+    expect((await getMediaDetails('?id=21')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without an id', async () => {
+    const response = await getMediaDetails('?id=abc');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getMediaDetails('?id=21'));
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function getCollection(query: string) {
+  const { GET } = await import('@/app/api/anilist/media-list-collection/route');
+  return GET(apiRequest(`/api/anilist/media-list-collection${query}`));
+}
+
+describe('GET /api/anilist/media-list-collection', () => {
+  it('returns one entry per media, leaving out custom lists', async () => {
+    const response = await getCollection('?userId=1002&type=anime');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.userId).toBe(1002);
+    expect(body.scoreFormat).toBe('POINT_10');
+    expect(body.entries.map((entry: { mediaId: number }) => entry.mediaId)).toEqual([21, 1535, 21519, 170942]);
+  });
+
+  it('is refetched after the list owner saves an entry', async () => {
+    await getCollection('?userId=1001&type=ANIME');
+    const { POST } = await import('@/app/api/anilist/media-list-entry/route');
+    await POST(apiRequest('/api/anilist/media-list-entry', {
+      method: 'POST',
+      body: { mediaId: 21, status: 'CURRENT' },
+      token: MOCK_TOKEN,
+    }));
+
+    expect((await getCollection('?userId=1001&type=ANIME')).headers.get('X-Cache')).toBe('MISS');
+    expect((await getCollection('?userId=1001&type=ANIME')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without a valid userId', async () => {
+    expect((await getCollection('?type=ANIME')).status).toBe(400);
+    expect((await getCollection('?userId=abc&type=ANIME')).status).toBe(400);
+  });
+
+  it('returns 400 for an unknown type', async () => {
+    const response = await getCollection('?userId=1002&type=NOVEL');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getCollection('?userId=1002&type=ANIME'));
+});
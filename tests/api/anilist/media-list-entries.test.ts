@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { apiRequest, MOCK_TOKEN } from '../../helpers';
+import { setScenario } from '../../mock-anilist';
+
+const entry = (mediaId: number) => ({
+  mediaId,
+  status: 'COMPLETED',
+  score: 85,
+  progress: 37,
+  progressVolumes: 0,
+  repeat: 0,
+  startedAt: '2025-01-02',
+  completedAt: null,
+});
+
+async function saveEntries(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/media-list-entries/route');
+  return POST(apiRequest('/api/anilist/media-list-entries', { method: 'POST', body, token }));
+}
+
+describe('POST /api/anilist/media-list-entries', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('saves every entry', async () => {
+    const response = await saveEntries({ entries: [entry(1535), entry(21519)] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      results: [{ mediaId: 1535, ok: true }, { mediaId: 21519, ok: true }],
+    });
+  });
+
+  it('reports entries AniList failed to save without stopping the batch', async () => {
+    await setScenario('malformed');
+    const response = await saveEntries({ entries: [entry(1535), entry(21519)] });
+
+    expect(response.status).toBe(200);
+    const { results } = await response.json();
+    expect(results.map((result: { ok: boolean }) => result.ok)).toEqual([false, false]);
+    expect(results[0].error).toBeTruthy();
+  });
+
+  it('returns the entries saved so far and retryAfter when rate limited', async () => {
+    // AniList starts rate limiting once the first entry is saved
+    const fetch = globalThis.fetch;
+    vi.spyOn(globalThis, 'fetch').mockImplementationOnce(async (...args) => {
+      const response = await fetch(...args);
+      await setScenario('rate-limited');
+      return response;
+    });
+    const response = await saveEntries({ entries: [entry(1535), entry(21519), entry(5114)] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ results: [{ mediaId: 1535, ok: true }], retryAfter: 60 });
+  });
+
+  it('returns 429 when rate limited before any entry', async () => {
+    await setScenario('rate-limited');
+    const response = await saveEntries({ entries: [entry(1535)] });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+  });
+
+  it('returns 401 when AniList rejects the token', async () => {
+    await setScenario('unauthorized');
+    const response = await saveEntries({ entries: [entry(1535)] });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 for an empty, oversized or invalid batch', async () => {
+    expect((await saveEntries({ entries: [] })).status).toBe(400);
+    expect((await saveEntries({ entries: Array.from({ length: 11 }, (_, index) => entry(index + 1)) })).status).toBe(400);
+    expect((await saveEntries({ entries: [{ ...entry(1535), score: 101 }] })).status).toBe(400);
+    expect((await saveEntries({ entries: [{ ...entry(1535), status: 'WATCHING' }] })).status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await saveEntries({ entries: [entry(1535)] }, '');
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function saveEntry(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/media-list-entry/route');
+  return POST(apiRequest('/api/anilist/media-list-entry', { method: 'POST', body, token }));
+}
+
+async function deleteEntry(query: string, token: string | undefined = MOCK_TOKEN) {
+  const { DELETE } = await import('@/app/api/anilist/media-list-entry/route');
+  return DELETE(apiRequest(`/api/anilist/media-list-entry${query}`, { method: 'DELETE', token }));
+}
+
+describe('POST /api/anilist/media-list-entry', () => {
+  it('saves the entry', async () => {
+    const response = await saveEntry({ mediaId: 21, status: 'CURRENT', progress: '6', score: 9 });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 900101, userId: 1001, mediaId: 21 });
+    const [request] = await getMockRequests();
+    expect(request.variables).toEqual({ mediaId: 21, status: 'CURRENT', progress: 6, score: 9 });
+  });
+
+  it('returns 400 without a mediaId or id', async () => {
+    expect((await saveEntry({ status: 'CURRENT' })).status).toBe(400);
+  });
+
+  it('returns 400 for an invalid status or score', async () => {
+    expect((await saveEntry({ mediaId: 21, status: 'WATCHING' })).status).toBe(400);
+    expect((await saveEntry({ mediaId: 21, score: 101 })).status).toBe(400);
+    expect((await saveEntry({ mediaId: 21, progress: -1 })).status).toBe(400);
+    expect(await getMockRequests()).toHaveLength(0);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await saveEntry({ mediaId: 21 }, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => saveEntry({ mediaId: 21, status: 'CURRENT' }));
+});
+
+describe('DELETE /api/anilist/media-list-entry', () => {
+  it('deletes the entry', async () => {
+    const response = await deleteEntry('?id=900101');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ deleted: true });
+  });
+
+  it('returns 400 without a valid id', async () => {
+    expect((await deleteEntry('')).status).toBe(400);
+    expect((await deleteEntry('?id=abc')).status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await deleteEntry('?id=900101', '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => deleteEntry('?id=900101'));
+});
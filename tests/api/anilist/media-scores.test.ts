@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+
+async function getMediaScores(query: string, token: string | undefined = MOCK_TOKEN) {
+  const { GET } = await import('@/app/api/anilist/media-scores/route');
+  return GET(apiRequest(`/api/anilist/media-scores${query}`, { token }));
+}
+
+describe('GET /api/anilist/media-scores', () => {
+  it("returns the followed users' scores", async () => {
+    const response = await getMediaScores('?mediaId=21');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const { scores } = await response.json();
+    expect(scores).toHaveLength(2);
+    expect(scores[0]).toMatchObject({
+      userId: 1002,
+      userName: 'MockFriend',
+      score: 90,
+      rawScore: 9,
+      scoreFormat: 'POINT_10',
+      status: 'CURRENT',
+    });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getMediaScores('?mediaId=21');
+
+    expect((await getMediaScores('?mediaId=21')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without a valid mediaId', async () => {
+    expect((await getMediaScores('')).status).toBe(400);
+    expect((await getMediaScores('?mediaId=abc')).status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await getMediaScores('?mediaId=21', '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getMediaScores('?mediaId=21'));
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getMediaWithScores(query: string, token?: string) {
+  const { GET } = await import('@/app/api/anilist/media-with-scores/route');
+  return GET(apiRequest(`/api/anilist/media-with-scores${query}`, { token }));
+}
+
+describe('GET /api/anilist/media-with-scores', () => {
+  it('returns only the media when logged out', async () => {
+    const response = await getMediaWithScores('?mediaId=21');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.media).toMatchObject({ id: 21 });
+    expect(body.scores).toEqual([]);
+    expect(body.viewer).toBeNull();
+  });
+
+  it("adds the followed users' scores and the viewer's entry when logged in", async () => {
+    const response = await getMediaWithScores('?mediaId=21', MOCK_TOKEN);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.scores.map((score: { userName: string }) => score.userName)).toEqual(['MockFriend', 'MockCritic']);
+    expect(body.viewer).toMatchObject({ id: 1001, scoreFormat: 'POINT_10_DECIMAL', entry: { id: 900001, score: 9 } });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getMediaWithScores('?mediaId=21', MOCK_TOKEN);
+
+    expect((await getMediaWithScores('?mediaId=21', MOCK_TOKEN)).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('falls back to separate queries when the combined query fails', async () => {
+    const fetch = globalThis.fetch;
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      if (String(init?.body).includes('GetMediaWithFollowing')) {
+        return Response.json({ errors: [{ message: 'Unsupported query', status: 400 }] }, { status: 400 });
+      }
+      return fetch(input, init);
+    });
+    const response = await getMediaWithScores('?mediaId=21', MOCK_TOKEN);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.scores.map((score: { userName: string }) => score.userName)).toEqual(['MockFriend', 'MockCritic']);
+    expect((await getMockRequests()).map((request) => request.operation)).toContain('GetFollowingUserIds');
+
+    const cached = await getMediaWithScores('?mediaId=21', MOCK_TOKEN);
+    expect(cached.headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without a valid mediaId', async () => {
+    expect((await getMediaWithScores('')).status).toBe(400);
+    expect((await getMediaWithScores('?mediaId=abc')).status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getMediaWithScores('?mediaId=21'));
+});
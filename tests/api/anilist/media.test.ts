@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getMedia(path: string) {
+  const { GET } = await import('@/app/api/anilist/media/route');
+  return GET(apiRequest(path));
+}
+
+describe('GET /api/anilist/media', () => {
+  it('returns the media', async () => {
+    const response = await getMedia('/api/anilist/media?id=21');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(await response.json()).toMatchObject({ id: 21, title: { romaji: 'ONE PIECE' } });
+  });
+
+  it('serves the second request from the cache', async () => {
+    const { GET } = await import('@/app/api/anilist/media/route');
+    await GET(apiRequest('/api/anilist/media?id=21'));
+    const response = await GET(apiRequest('/api/anilist/media?id=21'));
+
+    expect(response.headers.get('X-Cache')).toBe('HIT');
+    expect(await getMockRequests()).toHaveLength(1);
+  });
+
+  it('returns 400 without an id', async () => {
+    const response = await getMedia('/api/anilist/media');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getMedia('/api/anilist/media?id=21'));
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function getNotifications(query = '', token: string | undefined = MOCK_TOKEN) {
+  const { GET } = await import('@/app/api/anilist/notifications/route');
+  return GET(apiRequest(`/api/anilist/notifications${query}`, { token }));
+}
+
+async function markAsRead(token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/notifications/route');
+  return POST(apiRequest('/api/anilist/notifications', { method: 'POST', token }));
+}
+
+describe('GET /api/anilist/notifications', () => {
+  it('returns the notifications with their text, without marking them as read', async () => {
+    const response = await getNotifications();
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.notifications.map((notification: { text: string }) => notification.text)).toEqual([
+      'MockFriend liked your activity.',
+      'Episode 1149 of ONE PIECE aired.',
+    ]);
+    expect(body.unreadCount).toBe(2);
+    const [request] = await getMockRequests();
+    expect(request.variables).toMatchObject({ page: 1, perPage: 20, reset: false });
+  });
+
+  it('returns only the unread count with countOnly', async () => {
+    const response = await getNotifications('?countOnly=true');
+
+    expect(await response.json()).toEqual({ unreadCount: 2 });
+  });
+
+  it('returns 400 for an unknown notification type', async () => {
+    const response = await getNotifications('?types=AIRING,NOPE');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await getNotifications('', '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => getNotifications());
+});
+
+describe('POST /api/anilist/notifications', () => {
+  it('resets the unread count', async () => {
+    const response = await markAsRead();
+
+    expect(await response.json()).toEqual({ unreadCount: 0 });
+    const [request] = await getMockRequests();
+    expect(request.variables).toMatchObject({ reset: true });
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await markAsRead('');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => markAsRead());
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getRepliesBatch(query: string) {
+  const { GET } = await import('@/app/api/anilist/replies-batch/route');
+  return GET(apiRequest(`/api/anilist/replies-batch${query}`));
+}
+
+describe('GET /api/anilist/replies-batch', () => {
+  it('returns the replies of every activity', async () => {
+    const response = await getRepliesBatch('?activityIds=700000002,700000001');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const { replies } = await response.json();
+    expect(Object.keys(replies)).toEqual(['700000001', '700000002']);
+    expect(replies[700000001]).toEqual([]);
+    expect(replies[700000002].map((reply: { id: number }) => reply.id)).toEqual([800000001]);
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getRepliesBatch('?activityIds=700000002,700000001');
+
+    expect((await getRepliesBatch('?activityIds=700000002,700000001')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without activityIds', async () => {
+    const response = await getRepliesBatch('?activityIds=,');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('returns 400 for more than 50 activities', async () => {
+    const activityIds = Array.from({ length: 51 }, (_, index) => 700000001 + index).join(',');
+
+    expect((await getRepliesBatch(`?activityIds=${activityIds}`)).status).toBe(400);
+  });
+
+  itHandlesAniListErrors(() => getRepliesBatch('?activityIds=700000002,700000001'));
+});
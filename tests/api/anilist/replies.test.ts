@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getReplies(query: string) {
+  const { GET } = await import('@/app/api/anilist/replies/route');
+  return GET(apiRequest(`/api/anilist/replies${query}`));
+}
+
+describe('GET /api/anilist/replies', () => {
+  it("returns the activity's replies", async () => {
+    const response = await getReplies('?activityId=700000002');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const replies = await response.json();
+    expect(replies).toHaveLength(1);
+    expect(replies[0]).toMatchObject({ id: 800000001, rawText: 'Same, this arc is great.' });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getReplies('?activityId=700000002');
+
+    expect((await getReplies('?activityId=700000002')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without an activityId', async () => {
+    const response = await getReplies('');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getReplies('?activityId=700000002'));
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function search(query: string, token?: string) {
+  const { GET } = await import('@/app/api/anilist/search/route');
+  return GET(apiRequest(`/api/anilist/search${query}`, { token }));
+}
+
+describe('GET /api/anilist/search', () => {
+  it('returns the matching media', async () => {
+    const response = await search('?query=one%20piece&type=anime');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const body = await response.json();
+    expect(body.media.map((media: { id: number }) => media.id)).toEqual([21, 5114]);
+    const [request] = await getMockRequests();
+    expect(request.variables).toMatchObject({ search: 'one piece', type: 'ANIME', sort: ['SEARCH_MATCH'] });
+  });
+
+  it('searches by filters alone, most popular first', async () => {
+    const response = await search('?genres=Action&year=2024');
+
+    expect(response.status).toBe(200);
+    const [request] = await getMockRequests();
+    expect(request.variables).toMatchObject({ genre_in: ['Action'], sort: ['POPULARITY_DESC'] });
+    expect(request.variables).not.toHaveProperty('type');
+  });
+
+  it('caches logged-in results per viewer', async () => {
+    await search('?query=one%20piece', MOCK_TOKEN);
+
+    expect((await search('?query=one%20piece', MOCK_TOKEN)).headers.get('X-Cache')).toBe('HIT');
+    expect((await search('?query=one%20piece')).headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it('returns 400 without a query or filters', async () => {
+    const response = await search('?query=%20%20');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => search('?query=one%20piece'));
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors, MOCK_TOKEN } from '../../helpers';
+import { getMockRequests } from '../../mock-anilist';
+
+async function saveTextActivity(body: unknown, token: string | undefined = MOCK_TOKEN) {
+  const { POST } = await import('@/app/api/anilist/text-activity/route');
+  return POST(apiRequest('/api/anilist/text-activity', { method: 'POST', body, token }));
+}
+
+describe('POST /api/anilist/text-activity', () => {
+  it('posts the status', async () => {
+    const response = await saveTextActivity({ text: '  Hello AniList  ' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 700000003, userId: 1001 });
+    const [request] = await getMockRequests();
+    expect(request.variables).toEqual({ text: 'Hello AniList' });
+  });
+
+  it("drops the author's cached activities", async () => {
+    const { GET } = await import('@/app/api/anilist/activities/route');
+    await GET(apiRequest('/api/anilist/activities?userId=1001'));
+    await saveTextActivity({ text: 'Hello AniList' });
+
+    expect((await GET(apiRequest('/api/anilist/activities?userId=1001'))).headers.get('X-Cache')).toBe('MISS');
+  });
+
+  it('returns 400 without text or with an invalid id', async () => {
+    expect((await saveTextActivity({ text: '   ' })).status).toBe(400);
+    expect((await saveTextActivity({ text: 'Edited', id: 'abc' })).status).toBe(400);
+  });
+
+  it('returns 401 when logged out', async () => {
+    const response = await saveTextActivity({ text: 'Hello AniList' }, '');
+
+    expect(response.status).toBe(401);
+  });
+
+  itHandlesAniListErrors(() => saveTextActivity({ text: 'Hello AniList' }));
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getUserStats(query: string) {
+  const { GET } = await import('@/app/api/anilist/user-stats/route');
+  return GET(apiRequest(`/api/anilist/user-stats${query}`));
+}
+
+describe('GET /api/anilist/user-stats', () => {
+  it('returns the user with their anime and manga statistics', async () => {
+    const response = await getUserStats('?username=MockFriend');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    const user = await response.json();
+    expect(user).toMatchObject({ id: 1002, name: 'MockFriend', mediaListOptions: { scoreFormat: 'POINT_10' } });
+    expect(user.statistics.anime).toMatchObject({ count: 312, episodesWatched: 4210, tags: [], studios: [] });
+    expect(user.statistics.manga).toMatchObject({ count: 45, chaptersRead: 2876 });
+  });
+
+  it('returns 400 without a username', async () => {
+    const response = await getUserStats('');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getUserStats('?username=MockFriend'));
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequest, itHandlesAniListErrors } from '../../helpers';
+
+async function getUser(query: string) {
+  const { GET } = await import('@/app/api/anilist/user/route');
+  return GET(apiRequest(`/api/anilist/user${query}`));
+}
+
+describe('GET /api/anilist/user', () => {
+  it('returns the user', async () => {
+    const response = await getUser('?username=MockFriend');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(await response.json()).toMatchObject({ id: 1002, name: 'MockFriend' });
+  });
+
+  it('serves the second request from the cache', async () => {
+    await getUser('?username=MockFriend');
+
+    expect((await getUser('?username=MockFriend')).headers.get('X-Cache')).toBe('HIT');
+  });
+
+  it('returns 400 without a username', async () => {
+    const response = await getUser('');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  itHandlesAniListErrors(() => getUser('?username=MockFriend'));
+});
@@ -0,0 +1,25 @@
+import { spawn } from 'node:child_process';
+import { MOCK_ANILIST_PORT } from './mock-anilist';
+
+/**
+ * Start the AniList mock server for the whole run and stop it afterwards.
+ * Retry-After is AniList's usual 60 seconds: longer than the client's queue
+ * limit, so rate-limited queries fail right away instead of being retried.
+ */
+export default async function setup() {
+  const server = spawn(process.execPath, ['scripts/anilist-mock/server.mjs'], {
+    env: { ...process.env, MOCK_ANILIST_PORT: String(MOCK_ANILIST_PORT), MOCK_ANILIST_RETRY_AFTER: '60' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('exit', (code) => reject(new Error(`AniList mock server exited with code ${code}`)));
+    server.stdout.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve();
+    });
+  });
+
+  return () => {
+    server.kill();
+  };
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { expect, it } from 'vitest';
+import { setScenario } from './mock-anilist';
+
+// Any token works with the mock; routes read it from the Authorization header
+export const MOCK_TOKEN = 'mock-access-token';
+
+interface ApiRequestOptions {
+  method?: string;
+  body?: unknown;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Build the NextRequest a route handler receives, e.g.
+ * `apiRequest('/api/anilist/media?id=21')`.
+ */
+export function apiRequest(path: string, { method = 'GET', body, token, headers = {} }: ApiRequestOptions = {}): NextRequest {
+  const requestHeaders: Record<string, string> = { ...headers };
+  if (token) requestHeaders['Authorization'] = `Bearer ${token}`;
+  if (body !== undefined) requestHeaders['Content-Type'] = 'application/json';
+
+  return new NextRequest(new URL(path, 'http://localhost:3000'), {
+    method,
+    headers: requestHeaders,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * The AniList failures every route turns into the uniform error envelope:
+ * a rejected token (401), a rate limit (429 with Retry-After) and a response
+ * that isn't valid JSON (500).
+ */
+export function itHandlesAniListErrors(send: () => Promise<Response>) {
+  it('returns 401 when AniList rejects the token', async () => {
+    await setScenario('unauthorized');
+    const response = await send();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('returns 429 with Retry-After when AniList rate limits', async () => {
+    await setScenario('rate-limited');
+    const response = await send();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 60 });
+    expect(body.error).toMatch(/^RATE_LIMIT:/);
+  });
+
+  it('returns 500 when AniList sends malformed JSON', async () => {
+    await setScenario('malformed');
+    const response = await send();
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_RESPONSE' });
+  });
+}
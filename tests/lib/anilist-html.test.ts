@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeActivityHtml, toInAppRoute } from '@/lib/anilist-html';
+
+const EMBED = /<span class="anilist_embed"/g;
+
+describe('sanitizeActivityHtml', () => {
+  it('drops scripts and other active content with their content', () => {
+    const html = sanitizeActivityHtml(
+      '<p>Hi<script>alert(1)</script><style>p{}</style><iframe src="https://evil.example"></iframe><svg><circle/></svg></p>'
+    );
+
+    expect(html).toBe('<p>Hi</p>');
+  });
+
+  it('drops event handlers and unknown attributes', () => {
+    const html = sanitizeActivityHtml('<p onclick="alert(1)" style="color: red"><b onmouseover="alert(1)">bold</b></p>');
+
+    expect(html).toBe('<p><b>bold</b></p>');
+  });
+
+  it('only keeps http(s) URLs', () => {
+    expect(sanitizeActivityHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeActivityHtml('<a href=" JaVaScRiPt:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeActivityHtml('<img src="javascript:alert(1)" onerror="alert(1)">')).toBe('');
+    expect(sanitizeActivityHtml('<img src="data:image/png;base64,AAAA">')).toBe('');
+  });
+
+  it('opens external links in a new tab and points AniList links in-app', () => {
+    expect(sanitizeActivityHtml('<a href="https://example.com/?a=1&amp;b=2">x</a>'))
+      .toBe('<a href="https://example.com/?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">x</a>');
+    expect(sanitizeActivityHtml('<a href="https://anilist.co/anime/21/One-Piece/">x</a>'))
+      .toBe('<a href="/anilist/media/21" data-internal="true">x</a>');
+  });
+
+  it('keeps allowed tags and the text of unknown ones', () => {
+    const html = sanitizeActivityHtml('<h1>Title</h1><marquee>moving</marquee><ul><li><em>one</em></li></ul><br/>');
+
+    expect(html).toBe('<h1>Title</h1>moving<ul><li><em>one</em></li></ul><br>');
+  });
+
+  it('escapes stray angle brackets and keeps image size hints', () => {
+    expect(sanitizeActivityHtml('1 < 2 > 0')).toBe('1 &lt; 2 &gt; 0');
+    expect(sanitizeActivityHtml('<img src="https://img.example/a.png" width="220" height="abc" alt="a &quot;b&quot;">'))
+      .toBe('<img src="https://img.example/a.png" alt="a &quot;b&quot;" width="220" loading="lazy">');
+    expect(sanitizeActivityHtml('<img src="https://img.example/a.png" width="50%">'))
+      .toBe('<img src="https://img.example/a.png" alt="" style="width: 50%" loading="lazy">');
+  });
+
+  it('turns spoilers into click-to-reveal spans', () => {
+    const html = sanitizeActivityHtml('<span class="markdown_spoiler"><span>He dies</span></span>');
+
+    expect(html).toBe('<span class="markdown_spoiler" role="button" tabindex="0" title="Spoiler, click to reveal"><span>He dies</span></span>');
+  });
+
+  it('turns YouTube and webm videos into placeholders', () => {
+    const html = sanitizeActivityHtml(
+      "<p><span class='youtube' id='dQw4w9WgXcQ'></span>"
+      + '<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ"></iframe>'
+      + "<video muted loop><source src='https://files.example/clip.webm' type='video/webm'></video></p>"
+    );
+
+    expect(html.match(EMBED)).toHaveLength(3);
+    expect(html).toContain('data-embed="youtube" data-source="dQw4w9WgXcQ"');
+    expect(html).toContain('data-embed="webm" data-source="https://files.example/clip.webm"');
+    expect(html).not.toMatch(/<(iframe|video|source)/);
+  });
+
+  it('drops videos with an invalid ID or URL', () => {
+    const html = sanitizeActivityHtml(
+      "<span class='youtube' id='\"><script>'></span><video><source src='javascript:alert(1)'></video>"
+    );
+
+    expect(html).not.toMatch(EMBED);
+    expect(html).not.toContain('script');
+  });
+
+  it('leaves placeholders out of attribute values', () => {
+    const html = sanitizeActivityHtml(
+      `<img src="https://img.example/a.png" alt="<span class='youtube' id='dQw4w9WgXcQ'></span>">`
+      + `<a href="https://example.com/<span class='youtube' id='dQw4w9WgXcQ'></span>">link</a>`
+    );
+
+    expect(html).toBe(
+      '<img src="https://img.example/a.png" alt="" loading="lazy">'
+      + '<a href="https://example.com/" target="_blank" rel="noopener noreferrer">link</a>'
+    );
+  });
+
+  it('ignores NUL characters that would look like placeholders', () => {
+    const html = sanitizeActivityHtml("\u00000\u0000<span class='youtube' id='dQw4w9WgXcQ'></span>");
+
+    expect(html.match(EMBED)).toHaveLength(1);
+    expect(html.startsWith('0<span')).toBe(true);
+  });
+});
+
+describe('toInAppRoute', () => {
+  it('maps media and user pages', () => {
+    expect(toInAppRoute('https://anilist.co/manga/30013')).toBe('/anilist/media/30013');
+    expect(toInAppRoute('https://www.anilist.co/user/MockFriend/')).toBe('/anilist/user/MockFriend');
+    expect(toInAppRoute('https://anilist.co/user/MockFriend/animelist')).toBeNull();
+    expect(toInAppRoute('https://example.com/anime/21')).toBeNull();
+  });
+});
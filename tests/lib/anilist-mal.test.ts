@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildMalXml, parseMalXml, toMalSeriesType, ExportListEntry } from '@/lib/anilist-mal';
+
+const entry = (mediaId: number, format: string | undefined): ExportListEntry => ({
+  mediaId,
+  idMal: mediaId,
+  type: 'ANIME',
+  title: `Media ${mediaId}`,
+  format,
+  status: 'COMPLETED',
+  score: 85,
+  progress: 12,
+  progressVolumes: 0,
+  repeat: 0,
+  startedAt: null,
+  completedAt: null,
+  notes: null,
+  totalEpisodes: 12,
+  totalVolumes: null,
+});
+
+describe('toMalSeriesType', () => {
+  it('maps AniList formats to MAL type names', () => {
+    expect(toMalSeriesType('TV')).toBe('TV');
+    expect(toMalSeriesType('TV_SHORT')).toBe('TV');
+    expect(toMalSeriesType('MOVIE')).toBe('Movie');
+    expect(toMalSeriesType('SPECIAL')).toBe('Special');
+    expect(toMalSeriesType('OVA')).toBe('OVA');
+    expect(toMalSeriesType('ONA')).toBe('ONA');
+    expect(toMalSeriesType('MUSIC')).toBe('Music');
+    expect(toMalSeriesType('MANGA')).toBe('Manga');
+    expect(toMalSeriesType('ONE_SHOT')).toBe('One-shot');
+    expect(toMalSeriesType('NOVEL')).toBe('Novel');
+  });
+
+  it('falls back to Unknown for missing or unmapped formats', () => {
+    expect(toMalSeriesType(null)).toBe('Unknown');
+    expect(toMalSeriesType(undefined)).toBe('Unknown');
+    expect(toMalSeriesType('')).toBe('Unknown');
+    expect(toMalSeriesType('PODCAST')).toBe('Unknown');
+  });
+});
+
+describe('buildMalXml', () => {
+  it('writes the MAL type name of each anime', () => {
+    const { xml } = buildMalXml('ANIME', 'MockFriend', [entry(1, 'TV_SHORT'), entry(2, 'MOVIE'), entry(3, undefined)]);
+
+    expect(xml.match(/<series_type>[^<]*<\/series_type>/g)).toEqual([
+      '<series_type>TV</series_type>',
+      '<series_type>Movie</series_type>',
+      '<series_type>Unknown</series_type>',
+    ]);
+  });
+
+  it('round-trips through parseMalXml', () => {
+    const { xml } = buildMalXml('ANIME', 'MockFriend', [entry(1, 'TV'), { ...entry(2, 'OVA'), idMal: null }]);
+    const parsed = parseMalXml(xml);
+
+    expect(parsed.type).toBe('ANIME');
+    expect(parsed.entries).toHaveLength(1);
+    expect(parsed.entries[0]).toMatchObject({ idMal: 1, status: 'COMPLETED', score: 90, progress: 12 });
+  });
+});
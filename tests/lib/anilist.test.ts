@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  SESSION_CHECK_EVENT,
+  SESSION_EXPIRED_EVENT,
+  fetchActivityReplies,
+  fetchAuthSession,
+  fetchUnreadNotificationCount,
+  fetchUserProfile,
+  getFollowedUsers,
+  toggleFollow,
+} from '@/lib/anilist';
+
+interface Toast {
+  message: string;
+  type: string;
+  duration: number;
+}
+
+let toasts: Toast[];
+let sessionEvents: string[];
+
+// Every helper calls our /api/anilist/* routes; answer them with a canned response
+function respondWith(status: number, body: unknown) {
+  const fetch = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async () => Response.json(body, { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+beforeEach(() => {
+  // The helpers report toasts and expired sessions through window events
+  const window = new EventTarget();
+  toasts = [];
+  sessionEvents = [];
+  window.addEventListener('show-toast', (event) => toasts.push((event as CustomEvent<Toast>).detail));
+  for (const type of [SESSION_EXPIRED_EVENT, SESSION_CHECK_EVENT]) {
+    window.addEventListener(type, () => sessionEvents.push(type));
+  }
+  vi.stubGlobal('window', window);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('handleHttpError', () => {
+  it('asks for a session check on a 401, without a toast', async () => {
+    respondWith(401, { error: 'Authentication required', code: 'UNAUTHORIZED' });
+
+    await expect(fetchUserProfile('MockFriend')).rejects.toThrow(/^UNAUTHORIZED:/);
+    expect(sessionEvents).toEqual([SESSION_CHECK_EVENT]);
+    expect(toasts).toEqual([]);
+  });
+
+  it('reports an expired session when a viewer check is refused', async () => {
+    respondWith(401, { error: 'Failed to get authenticated user ID', code: 'UNAUTHORIZED' });
+    await expect(getFollowedUsers()).rejects.toThrow(/^UNAUTHORIZED:/);
+
+    respondWith(401, { error: 'Authentication required', code: 'UNAUTHORIZED' });
+    await expect(fetchUnreadNotificationCount()).rejects.toThrow(/^UNAUTHORIZED:/);
+
+    expect(sessionEvents).toEqual([SESSION_EXPIRED_EVENT, SESSION_EXPIRED_EVENT]);
+  });
+
+  it('only asks for a session check when a viewer check 401 is not UNAUTHORIZED', async () => {
+    respondWith(401, {});
+
+    await expect(getFollowedUsers()).rejects.toThrow(/^UNAUTHORIZED:/);
+    expect(sessionEvents).toEqual([SESSION_CHECK_EVENT]);
+  });
+
+  it('turns a 429 into a RATE_LIMIT error with the wait from the route', async () => {
+    respondWith(429, { error: 'RATE_LIMIT: slow down', code: 'RATE_LIMITED', retryAfter: 42 });
+
+    await expect(fetchUserProfile('MockFriend')).rejects.toThrow(/^RATE_LIMIT: .*wait 42 seconds/);
+    expect(toasts).toEqual([expect.objectContaining({ type: 'warning', duration: 8000 })]);
+  });
+
+  it('falls back to a generic wait when the 429 has no retryAfter', async () => {
+    respondWith(429, {});
+
+    await expect(fetchUserProfile('MockFriend')).rejects.toThrow('wait 30-60 seconds');
+  });
+
+  it("shows the route's message for a 400", async () => {
+    respondWith(400, { error: 'Username is required', code: 'BAD_REQUEST' });
+
+    await expect(fetchUserProfile('')).rejects.toThrow('Username is required');
+    expect(toasts).toEqual([{ message: 'Username is required', type: 'error', duration: 5000 }]);
+  });
+
+  it('maps 404 and 500 to fixed messages', async () => {
+    respondWith(404, { error: 'User not found', code: 'NOT_FOUND' });
+    await expect(fetchUserProfile('Nobody')).rejects.toThrow('Resource not found.');
+
+    respondWith(500, { error: 'Invalid response', code: 'INVALID_RESPONSE' });
+    await expect(fetchUserProfile('MockFriend')).rejects.toThrow('Server error. Please try again later.');
+
+    expect(toasts.map((toast) => toast.type)).toEqual(['warning', 'error']);
+    expect(sessionEvents).toEqual([]);
+  });
+});
+
+describe('fetch helpers', () => {
+  it('fetchUserProfile calls the route with the encoded username', async () => {
+    const fetch = respondWith(200, { id: 1002, name: 'Mock Friend' });
+
+    expect(await fetchUserProfile('Mock Friend')).toEqual({ id: 1002, name: 'Mock Friend' });
+    expect(fetch).toHaveBeenCalledWith('/api/anilist/user-stats?username=Mock%20Friend');
+  });
+
+  it('fetchActivityReplies returns no replies for a 400, without a toast', async () => {
+    respondWith(400, { error: 'activityId is required', code: 'BAD_REQUEST' });
+
+    expect(await fetchActivityReplies(700000002)).toEqual([]);
+    expect(toasts).toEqual([]);
+  });
+
+  it('fetchActivityReplies still fails on rate limits', async () => {
+    respondWith(429, { code: 'RATE_LIMITED', retryAfter: 60 });
+
+    await expect(fetchActivityReplies(700000002)).rejects.toThrow(/^RATE_LIMIT:/);
+  });
+
+  it('toggleFollow posts the user ID and returns the new state', async () => {
+    const fetch = respondWith(200, { id: 1003, name: 'MockCritic', isFollowing: true });
+
+    expect(await toggleFollow(1003)).toBe(true);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('/api/anilist/follow');
+    expect(init).toMatchObject({ method: 'POST', body: JSON.stringify({ userId: 1003 }) });
+  });
+
+  it('fetchAuthSession bypasses the HTTP cache and throws when the route fails', async () => {
+    const fetch = respondWith(200, { user: null });
+
+    expect(await fetchAuthSession()).toEqual({ user: null });
+    expect(fetch).toHaveBeenCalledWith('/api/anilist/auth/session', { cache: 'no-store' });
+
+    respondWith(500, {});
+    await expect(fetchAuthSession()).rejects.toThrow('HTTP Error: 500');
+  });
+});
@@ -0,0 +1,36 @@
+// Control of the AniList mock server (scripts/anilist-mock/server.mjs) from the tests
+
+// Not the mock's default 4000, so a mock started with `npm run mock:anilist` can keep running
+export const MOCK_ANILIST_PORT = 4010;
+
+const MOCK_URL = `http://localhost:${MOCK_ANILIST_PORT}`;
+
+export type MockScenario = 'ok' | 'unauthorized' | 'rate-limited' | 'server-error' | 'malformed';
+
+export interface MockRequest {
+  operation: string;
+  variables: Record<string, unknown> | null;
+}
+
+/**
+ * Make every following AniList request succeed or fail the given way.
+ * Also clears the request log.
+ */
+export async function setScenario(scenario: MockScenario): Promise<void> {
+  const response = await fetch(`${MOCK_URL}/__scenario`, {
+    method: 'POST',
+    body: JSON.stringify({ scenario }),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not set the mock scenario: ${response.status}`);
+  }
+}
+
+/**
+ * GraphQL operations the mock received since the scenario was last set.
+ */
+export async function getMockRequests(): Promise<MockRequest[]> {
+  const response = await fetch(`${MOCK_URL}/__requests`);
+  const body: { requests: MockRequest[] } = await response.json();
+  return body.requests;
+}
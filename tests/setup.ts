@@ -0,0 +1,12 @@
+import { beforeEach, vi } from 'vitest';
+import { setScenario } from './mock-anilist';
+
+// Same as running without DATABASE_URL: sessions and the AniList cache live in
+// memory (the generated Prisma client isn't needed)
+vi.mock('@/lib/prisma', () => ({ prisma: null }));
+
+beforeEach(async () => {
+  // Fresh rate limiter, cache and session store for every test
+  vi.resetModules();
+  await setScenario('ok');
+});
@@ -0,0 +1,32 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+import { MOCK_ANILIST_PORT } from './tests/mock-anilist';
+
+// Route tests run against the AniList mock server (scripts/anilist-mock/),
+// started once by tests/global-setup.ts.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    globalSetup: ['tests/global-setup.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // The mock's scenario is global: one test file at a time
+    fileParallelism: false,
+    // Retried queries (malformed scenario) take a few seconds
+    testTimeout: 20000,
+    // Route logs only show up for failing tests
+    silent: 'passed-only',
+    env: {
+      ANILIST_API_URL: `http://localhost:${MOCK_ANILIST_PORT}/graphql`,
+      ANILIST_OAUTH_URL: `http://localhost:${MOCK_ANILIST_PORT}/oauth`,
+      ANILIST_CLIENT_ID: 'mock',
+      ANILIST_CLIENT_SECRET: 'mock',
+      DATABASE_URL: '',
+    },
+  },
+});